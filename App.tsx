@@ -14,7 +14,11 @@ import ClubListScreen from './screens/ClubListScreen';
 import CreateClubScreen from './screens/CreateClubScreen';
 import ClubDetailsScreen from './screens/ClubDetailsScreen';
 import AddSessionScreen from './screens/AddSessionScreen';
+import EditSessionScreen from './screens/EditSessionScreen';
+import SeasonsScreen from './screens/SeasonsScreen';
+import SessionReportScreen from './screens/SessionReportScreen';
 import AddParticipantScreen from './screens/AddParticipantScreen';
+import ImportParticipantsScreen from './screens/ImportParticipantsScreen';
 import EditParticipantScreen from './screens/EditParticipantScreen';
 import SessionSelectionScreen from './screens/SessionSelectionScreen';
 import AttendanceScreen from './screens/AttendanceScreen';
@@ -22,6 +26,9 @@ import StatsScreen from './screens/StatsScreen';
 import TestUtilsScreen from './screens/TestUtilsScreen';
 import JoinClubScreen from './screens/JoinClubScreen';
 import ShareClubScreen from './screens/ShareClubScreen';
+import ConflictsScreen from './screens/ConflictsScreen';
+import MembersScreen from './screens/MembersScreen';
+import ClosuresScreen from './screens/ClosuresScreen';
 
 const NEVER_ASK_AGAIN_KEY = '@presence_app:never_ask_login';
 const LANGUAGE_SELECTED_KEY = '@presence_app:language_selected';
@@ -34,14 +41,21 @@ type RootStackParamList = {
   CreateClub: undefined;
   ClubDetails: { club: any };
   AddSession: { clubId: string };
+  EditSession: { session: any };
+  Seasons: { club: any };
   AddParticipant: { clubId: string };
+  ImportParticipants: { clubId: string };
   EditParticipant: { participant: any; clubId: string };
   SessionSelection: { club: any };
   Attendance: { session: any; date: string };
   Stats: { club: any };
+  SessionReport: { club: any; period: any };
   TestUtils: { clubId: string };
   JoinClub: undefined;
   ShareClub: { clubId: string; clubName: string };
+  Conflicts: { club: any };
+  Members: { club: any; transfer?: boolean };
+  Closures: { club: any; sessionId?: string; date?: string };
 };
 
 const Stack = createStackNavigator<RootStackParamList>();
@@ -116,14 +130,21 @@ function AppNavigator() {
         <Stack.Screen name="CreateClub" component={CreateClubScreen} options={{ headerShown: false }} />
         <Stack.Screen name="ClubDetails" component={ClubDetailsScreen} options={{ headerShown: false }} />
         <Stack.Screen name="AddSession" component={AddSessionScreen} options={{ headerShown: false }} />
+        <Stack.Screen name="EditSession" component={EditSessionScreen} options={{ headerShown: false }} />
+        <Stack.Screen name="Seasons" component={SeasonsScreen} options={{ headerShown: false }} />
         <Stack.Screen name="AddParticipant" component={AddParticipantScreen} options={{ headerShown: false }} />
+        <Stack.Screen name="ImportParticipants" component={ImportParticipantsScreen} options={{ headerShown: false }} />
         <Stack.Screen name="EditParticipant" component={EditParticipantScreen} options={{ headerShown: false }} />
         <Stack.Screen name="SessionSelection" component={SessionSelectionScreen} options={{ headerShown: false }} />
         <Stack.Screen name="Attendance" component={AttendanceScreen} options={{ headerShown: false }} />
         <Stack.Screen name="Stats" component={StatsScreen} options={{ headerShown: false }} />
+        <Stack.Screen name="SessionReport" component={SessionReportScreen} options={{ headerShown: false }} />
         <Stack.Screen name="TestUtils" component={TestUtilsScreen} options={{ headerShown: false }} />
         <Stack.Screen name="JoinClub" component={JoinClubScreen} options={{ headerShown: false }} />
         <Stack.Screen name="ShareClub" component={ShareClubScreen} options={{ headerShown: false }} />
+        <Stack.Screen name="Conflicts" component={ConflictsScreen} options={{ headerShown: false }} />
+        <Stack.Screen name="Members" component={MembersScreen} options={{ headerShown: false }} />
+        <Stack.Screen name="Closures" component={ClosuresScreen} options={{ headerShown: false }} />
       </Stack.Navigator>
     </NavigationContainer>
   );
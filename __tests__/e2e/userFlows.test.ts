@@ -8,6 +8,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { dataService, Club, Session, Participant } from '../../lib/dataService';
 import { supabase } from '../../lib/supabase';
+import { authManager } from '../../lib/authManager';
 
 // Mock setup
 jest.mock('@react-native-async-storage/async-storage');
@@ -66,7 +67,7 @@ describe('E2E: Complete User Flows', () => {
       const session1: Session = {
         id: '',
         club_id: savedClub.id,
-        day_of_week: 'Monday',
+        day_of_week: 1,
         start_time: '18:00',
         end_time: '19:30',
       };
@@ -74,7 +75,7 @@ describe('E2E: Complete User Flows', () => {
       const session2: Session = {
         id: '',
         club_id: savedClub.id,
-        day_of_week: 'Wednesday',
+        day_of_week: 3,
         start_time: '18:00',
         end_time: '19:30',
       };
@@ -150,23 +151,24 @@ describe('E2E: Complete User Flows', () => {
       const participants = await dataService.getParticipantsWithSessions(savedClub.id);
       expect(participants).toHaveLength(2);
 
-      // Step 5: Owner deletes the club (with cascade)
-      dataService.isOnline = true;
-
-      const mockDelete = jest.fn(() => ({
-        eq: jest.fn(() => Promise.resolve({ data: null, error: null })),
-        in: jest.fn(() => Promise.resolve({ data: null, error: null })),
-      }));
-
-      (supabase.from as jest.Mock).mockReturnValue({
-        delete: mockDelete,
+      // Step 5: Owner deletes the club (with cascade) once it has reached the server
+      const syncedClub = { ...savedClub, id: 'synced-club-id' };
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+        if (key === '@presence_app:clubs') {
+          return Promise.resolve(JSON.stringify([syncedClub]));
+        }
+        return Promise.resolve(null);
       });
+      jest.spyOn(authManager, 'getUserId').mockResolvedValueOnce(ownerId);
 
-      await dataService.deleteClub(savedClub.id);
+      await dataService.deleteClub(syncedClub.id);
 
-      // Verify cloud deletion was attempted (owner privilege)
-      expect(supabase.from).toHaveBeenCalledWith('clubs');
-      expect(mockDelete).toHaveBeenCalled();
+      // Verify cloud deletion was queued for the next sync (owner privilege)
+      const queuedDeletes = (AsyncStorage.setItem as jest.Mock).mock.calls
+        .filter(([key]) => key === '@presence_app:outbox')
+        .flatMap(([, value]) => JSON.parse(value))
+        .filter((op: any) => op.op === 'delete');
+      expect(queuedDeletes.map((op: any) => op.table)).toContain('clubs');
 
       // Verify local deletion
       expect(AsyncStorage.setItem).toHaveBeenCalledWith('@presence_app:clubs', '[]');
@@ -187,31 +189,23 @@ describe('E2E: Complete User Flows', () => {
         share_code: 'ABC123',
       };
 
-      // Step 1: Member joins club using share code
+      // Step 1: Member joins club using an invite code
       (supabase.rpc as jest.Mock).mockResolvedValue({
         data: [{
+          status: 'joined',
           club_id: existingClub.id,
           club_name: existingClub.name,
           club_description: existingClub.description,
           owner_id: existingClub.owner_id,
-          share_code: existingClub.share_code,
+          role: 'coach',
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T00:00:00Z',
         }],
         error: null,
       });
 
-      const mockInsert = jest.fn(() => ({
-        select: jest.fn(() => ({
-          single: jest.fn(() => Promise.resolve({ data: {}, error: null })),
-        })),
-      }));
-
-      (supabase.from as jest.Mock).mockImplementation((table) => {
-        if (table === 'club_members') {
-          return { insert: mockInsert };
-        }
-        // For other tables (sessions, participants, attendance)
+      (supabase.from as jest.Mock).mockImplementation(() => {
+        // Club data downloaded after joining (sessions, participants, attendance)
         return {
           select: () => ({
             eq: jest.fn(() => Promise.resolve({ data: [], error: null })),
@@ -224,11 +218,11 @@ describe('E2E: Complete User Flows', () => {
         error: null,
       });
 
-      const joinedClub = await dataService.joinClubByCode('ABC123');
+      const { club: joinedClub } = await dataService.joinClubByCode('ABC123');
 
       expect(joinedClub).toBeDefined();
       expect(joinedClub?.owner_id).toBe(ownerId);
-      expect(supabase.from).toHaveBeenCalledWith('club_members');
+      expect(supabase.rpc).toHaveBeenCalledWith('join_club_by_code', { p_code: 'ABC123' });
 
       // Step 2: Member tries to delete club (should only delete locally)
       (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
@@ -338,7 +332,7 @@ describe('E2E: Complete User Flows', () => {
       const session: Session = {
         id: '',
         club_id: savedClub.id,
-        day_of_week: 'Friday',
+        day_of_week: 5,
         start_time: '19:00',
         end_time: '20:30',
       };
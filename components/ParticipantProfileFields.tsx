@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, TextInput, StyleSheet, KeyboardTypeOptions } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { isCertificateExpired, PROFILE_MAX_LENGTHS, ProfileField, ProfileForm } from '../lib/participantProfile';
+import { toDateString } from '../lib/sessionSchedule';
+import { useTranslation } from '../contexts/LanguageContext';
+import { theme } from '../lib/theme';
+
+interface ParticipantProfileFieldsProps {
+  form: ProfileForm;
+  onChange: (form: ProfileForm) => void;
+  editable?: boolean;
+}
+
+const KEYBOARD_TYPES: Partial<Record<ProfileField, KeyboardTypeOptions>> = {
+  birth_date: 'numbers-and-punctuation',
+  medical_certificate_expiry: 'numbers-and-punctuation',
+  guardian_phone: 'phone-pad',
+  guardian_email: 'email-address',
+};
+
+/**
+ * Optional profile inputs of the participant forms (birth date, licence, contacts, notes)
+ */
+export function ParticipantProfileFields({ form, onChange, editable = true }: ParticipantProfileFieldsProps) {
+  const { t } = useTranslation();
+  const certificateExpired = isCertificateExpired(
+    { medical_certificate_expiry: form.medical_certificate_expiry.trim() },
+    toDateString(new Date())
+  );
+
+  const renderInput = (field: ProfileField) => (
+    <TextInput
+      style={[styles.input, field === 'notes' && styles.textArea]}
+      placeholder={t(`participantProfile.${field}`)}
+      placeholderTextColor={theme.colors.text.secondary}
+      value={form[field]}
+      onChangeText={(value) => onChange({ ...form, [field]: value })}
+      editable={editable}
+      keyboardType={KEYBOARD_TYPES[field] ?? 'default'}
+      autoCapitalize={field === 'guardian_email' ? 'none' : 'sentences'}
+      multiline={field === 'notes'}
+      maxLength={PROFILE_MAX_LENGTHS[field]}
+    />
+  );
+
+  return (
+    <View>
+      {renderInput('birth_date')}
+      {renderInput('licence_number')}
+      {renderInput('medical_certificate_expiry')}
+      {certificateExpired && (
+        <View style={styles.warning}>
+          <Feather name="alert-triangle" size={14} color={theme.colors.danger} />
+          <Text style={styles.warningText}>{t('participantProfile.certificateExpired')}</Text>
+        </View>
+      )}
+      {renderInput('emergency_contact')}
+
+      <Text style={styles.groupTitle}>{t('participantProfile.guardian')}</Text>
+      {renderInput('guardian_name')}
+      {renderInput('guardian_phone')}
+      {renderInput('guardian_email')}
+
+      {renderInput('notes')}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[4],
+  },
+  textArea: {
+    height: theme.space[7] * 3, // 3 lines height
+    textAlignVertical: 'top',
+  },
+  groupTitle: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.space[2],
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.space[1],
+    marginTop: -theme.space[3],
+    marginBottom: theme.space[4],
+  },
+  warningText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.danger,
+  },
+});
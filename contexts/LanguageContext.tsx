@@ -1,11 +1,12 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { i18n, Language } from '../lib/i18n';
+import type { IsoWeekday } from '../lib/sessionSchedule';
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
   t: (key: string) => string;
-  translateDay: (dayName: string) => string;
+  formatDay: (day: IsoWeekday | string) => string;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
@@ -32,10 +33,10 @@ export function LanguageProvider({ children }: { children: React.ReactNode }) {
   };
 
   const t = (key: string) => i18n.t(key);
-  const translateDay = (dayName: string) => i18n.translateDay(dayName);
+  const formatDay = (day: IsoWeekday | string) => i18n.formatDay(day);
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t, translateDay }}>
+    <LanguageContext.Provider value={{ language, setLanguage, t, formatDay }}>
       {children}
     </LanguageContext.Provider>
   );
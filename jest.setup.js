@@ -72,6 +72,30 @@ jest.mock('expo-clipboard', () => ({
   setStringAsync: jest.fn(() => Promise.resolve()),
 }));
 
+jest.mock('expo-file-system', () => ({
+  File: jest.fn(() => ({
+    uri: 'file:///cache/file',
+    create: jest.fn(),
+    write: jest.fn(),
+    text: jest.fn(() => Promise.resolve('')),
+  })),
+  Paths: { cache: {} },
+}));
+
+jest.mock('expo-sharing', () => ({
+  shareAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('expo-print', () => ({
+  printAsync: jest.fn(() => Promise.resolve()),
+  printToFileAsync: jest.fn(() => Promise.resolve({ uri: 'file:///cache/print.pdf' })),
+  Orientation: { portrait: 'portrait', landscape: 'landscape' },
+}));
+
+jest.mock('expo-document-picker', () => ({
+  getDocumentAsync: jest.fn(() => Promise.resolve({ canceled: true, assets: null })),
+}));
+
 jest.mock('expo-web-browser', () => ({
   openAuthSessionAsync: jest.fn(() => Promise.resolve({ type: 'success', url: '' })),
   openBrowserAsync: jest.fn(() => Promise.resolve({ type: 'opened' })),
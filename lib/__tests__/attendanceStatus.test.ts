@@ -0,0 +1,47 @@
+import {
+  DEFAULT_STATUS_RULES,
+  getAttendanceStatus,
+  isPresentStatus,
+  resolveStatusRules,
+} from '../attendanceStatus';
+
+describe('attendanceStatus - Legacy records', () => {
+  it('should derive the status from the present flag when missing', () => {
+    expect(getAttendanceStatus({ present: true })).toBe('present');
+    expect(getAttendanceStatus({ present: false })).toBe('absent');
+  });
+
+  it('should prefer the stored status over the present flag', () => {
+    expect(getAttendanceStatus({ present: true, status: 'late' })).toBe('late');
+    expect(getAttendanceStatus({ present: false, status: 'excused' })).toBe('excused');
+  });
+
+  it('should ignore unknown statuses', () => {
+    expect(getAttendanceStatus({ present: true, status: 'on_holiday' })).toBe('present');
+  });
+
+  it('should only treat absent and excused as not present', () => {
+    expect(isPresentStatus('late')).toBe(true);
+    expect(isPresentStatus('injured_watching')).toBe(true);
+    expect(isPresentStatus('absent')).toBe(false);
+    expect(isPresentStatus('excused')).toBe(false);
+  });
+});
+
+describe('attendanceStatus - Stats rules', () => {
+  it('should use defaults when the club has no rules', () => {
+    expect(resolveStatusRules(null)).toEqual(DEFAULT_STATUS_RULES);
+  });
+
+  it('should apply valid overrides and drop invalid ones', () => {
+    const rules = resolveStatusRules({
+      injured_watching: 'excused',
+      late: 'bogus',
+      unknown: 'missed',
+    });
+
+    expect(rules.injured_watching).toBe('excused');
+    expect(rules.late).toBe(DEFAULT_STATUS_RULES.late);
+    expect(rules).not.toHaveProperty('unknown');
+  });
+});
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import path from 'path';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { signOut } from '../auth';
+import { supabase } from '../supabase';
+
+// Device preferences, kept for the next account
+const KEPT_KEYS = ['@presence_app:language', '@presence_app:language_selected'];
+
+// Every '@presence_app:*' key written by the app sources
+const getStorageKeys = (): string[] => {
+  const root = path.join(__dirname, '..', '..');
+  const keys = new Set<string>();
+  for (const dir of ['lib', 'screens', 'contexts', 'components']) {
+    for (const file of fs.readdirSync(path.join(root, dir))) {
+      if (!/\.tsx?$/.test(file)) continue;
+      const source = fs.readFileSync(path.join(root, dir, file), 'utf8');
+      for (const [key] of source.matchAll(/@presence_app:[a-z_]+(?=['"`])/g)) {
+        keys.add(key);
+      }
+    }
+  }
+  return [...keys];
+};
+
+describe('signOut', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should remove every storage key of the account', async () => {
+    await signOut();
+
+    const removed = (AsyncStorage.multiRemove as jest.Mock).mock.calls[0][0];
+    const accountKeys = getStorageKeys().filter(key => !KEPT_KEYS.includes(key));
+    expect(accountKeys).toEqual(expect.arrayContaining(['@presence_app:closures', '@presence_app:seasons']));
+    expect(removed).toEqual(expect.arrayContaining(accountKeys));
+    expect(removed).toContain('last_sync_timestamp');
+    expect(supabase.auth.signOut).toHaveBeenCalled();
+  });
+
+  it('should keep the data of a device that was never signed in', async () => {
+    (supabase.auth.getSession as jest.Mock).mockResolvedValueOnce({ data: { session: null }, error: null });
+
+    await signOut();
+
+    expect(AsyncStorage.multiRemove).not.toHaveBeenCalled();
+  });
+});
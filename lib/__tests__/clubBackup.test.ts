@@ -0,0 +1,90 @@
+import { BACKUP_FORMAT, BACKUP_VERSION, mergeRows, remapBackupIds, validateClubBackup } from '../clubBackup';
+
+describe('clubBackup', () => {
+  const backup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: '2024-10-01T08:00:00Z',
+    club: { id: 'club-123', name: 'Test Club' },
+    sessions: [{ id: 'session-1', club_id: 'club-123', day_of_week: 1, start_time: '18:00', end_time: '19:00' }],
+    participants: [{ id: 'participant-1', club_id: 'club-123', first_name: 'Jean', last_name: 'Dupont' }],
+    participant_sessions: [{ id: 'ps-1', participant_id: 'participant-1', session_id: 'session-1' }],
+    attendance: [{ id: 'att-1', session_id: 'session-1', participant_id: 'participant-1', date: '2024-09-30', present: true }],
+    leave_periods: [{ id: 'leave-1', participant_id: 'participant-1', club_id: 'club-123', start_date: '2024-10-07', end_date: null }],
+    closures: [
+      { id: 'closure-1', club_id: 'club-123', session_id: 'session-1', start_date: '2024-10-14', end_date: '2024-10-14' },
+      { id: 'closure-2', club_id: 'club-123', session_id: null, start_date: '2024-12-23', end_date: '2025-01-05' },
+    ],
+    seasons: [],
+  };
+
+  it('should accept a backup of this version, older files lacking deletion marks', () => {
+    expect(validateClubBackup(JSON.parse(JSON.stringify(backup)))).toEqual({ ...backup, deleted_items: {} });
+  });
+
+  it('should reject other files, newer versions and incomplete backups', () => {
+    expect(() => validateClubBackup(null)).toThrow('Not a club backup');
+    expect(() => validateClubBackup([{ id: 'participant-1' }])).toThrow('Not a club backup');
+    expect(() => validateClubBackup({ ...backup, version: BACKUP_VERSION + 1 })).toThrow('Unsupported backup version');
+    expect(() => validateClubBackup({ ...backup, club: undefined })).toThrow('Missing club');
+    expect(() => validateClubBackup({ ...backup, attendance: undefined })).toThrow('Missing attendance');
+    expect(() => validateClubBackup({
+      ...backup,
+      participants: [{ id: 'participant-2', club_id: 'club-456', first_name: 'Marie', last_name: 'Martin' }],
+    })).toThrow('Rows of another club');
+  });
+
+  it('should reject rows of another club, or pointing to rows outside the backup', () => {
+    const season = { id: 'season-1', club_id: 'club-456', name: '2024-2025', start_date: '2024-09-01', end_date: '2025-06-30' };
+    expect(() => validateClubBackup({ ...backup, seasons: [season] })).toThrow('Rows of another club');
+    expect(() => validateClubBackup({ ...backup, closures: [{ ...backup.closures[1], club_id: 'club-456' }] })).toThrow('Rows of another club');
+    expect(() => validateClubBackup({ ...backup, leave_periods: [{ ...backup.leave_periods[0], club_id: 'club-456' }] })).toThrow('Rows of another club');
+    expect(() => validateClubBackup({
+      ...backup,
+      attendance: [{ ...backup.attendance[0], participant_id: 'participant-2' }],
+    })).toThrow('Rows of another club');
+    expect(() => validateClubBackup({
+      ...backup,
+      participant_sessions: [{ ...backup.participant_sessions[0], session_id: 'session-2' }],
+    })).toThrow('Rows of another club');
+    expect(() => validateClubBackup({
+      ...backup,
+      leave_periods: [{ ...backup.leave_periods[0], participant_id: 'participant-2' }],
+    })).toThrow('Rows of another club');
+    expect(() => validateClubBackup({ ...backup, closures: [{ ...backup.closures[0], session_id: 'session-2' }] })).toThrow('Rows of another club');
+  });
+
+  it('should keep the most recently updated row of each key', () => {
+    const local = [
+      { id: 'a', name: 'local', updated_at: '2024-10-02T00:00:00Z' },
+      { id: 'b', name: 'local', updated_at: '2024-10-01T00:00:00Z' },
+      { id: 'c', name: 'local' },
+    ];
+    const restored = [
+      { id: 'a', name: 'backup', updated_at: '2024-10-01T00:00:00Z' },
+      { id: 'b', name: 'backup', updated_at: '2024-10-03T00:00:00Z' },
+      { id: 'd', name: 'backup' },
+    ];
+    expect(mergeRows(local, restored, row => row.id)).toEqual([
+      { id: 'a', name: 'local', updated_at: '2024-10-02T00:00:00Z' },
+      { id: 'b', name: 'backup', updated_at: '2024-10-03T00:00:00Z' },
+      { id: 'c', name: 'local' },
+      { id: 'd', name: 'backup' },
+    ]);
+  });
+
+  it('should point every reference to the new IDs', () => {
+    const remapped = remapBackupIds(
+      validateClubBackup(backup),
+      new Map([['session-1', 'session-hash']]),
+      new Map([['participant-1', 'participant-hash']])
+    );
+
+    expect(remapped.sessions[0]?.id).toBe('session-hash');
+    expect(remapped.participants[0]?.id).toBe('participant-hash');
+    expect(remapped.participant_sessions[0]).toMatchObject({ participant_id: 'participant-hash', session_id: 'session-hash' });
+    expect(remapped.attendance[0]).toMatchObject({ id: 'att-1', participant_id: 'participant-hash', session_id: 'session-hash' });
+    expect(remapped.leave_periods[0]?.participant_id).toBe('participant-hash');
+    expect(remapped.closures.map(c => c.session_id)).toEqual(['session-hash', null]);
+  });
+});
@@ -0,0 +1,79 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { conflictStore, mergeRecordFields, toSyncConflicts } from '../conflicts';
+
+// In-memory AsyncStorage so stored bases and conflicts persist between calls
+let store: Map<string, string>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  store = new Map();
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => Promise.resolve(store.get(key) ?? null));
+  (AsyncStorage.setItem as jest.Mock).mockImplementation((key, value) => {
+    store.set(key, value);
+    return Promise.resolve();
+  });
+});
+
+describe('Conflicts - Field-level Merge', () => {
+  const base = { id: 'p1', club_id: 'c1', first_name: 'Anna', last_name: 'Smith', updated_at: '2024-01-01T00:00:00Z' };
+
+  it('should keep changes made to different fields on each side', () => {
+    const local = { ...base, first_name: 'Annie', updated_at: '2024-01-02T00:00:00Z' };
+    const server = { ...base, last_name: 'Jones', updated_at: '2024-01-03T00:00:00Z' };
+
+    const result = mergeRecordFields('participants', base, local, server);
+
+    expect(result.localFields).toEqual(['first_name']);
+    expect(result.serverFields).toEqual(['last_name']);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should report a conflict when the same field changed on both sides', () => {
+    const local = { ...base, first_name: 'Annie' };
+    const server = { ...base, first_name: 'Ann' };
+
+    const result = mergeRecordFields('participants', base, local, server);
+
+    expect(result.serverFields).toEqual(['first_name']);
+    expect(result.conflicts).toEqual([{ field: 'first_name', local_value: 'Annie', server_value: 'Ann' }]);
+  });
+
+  it('should not report identical changes or timestamps as conflicts', () => {
+    const local = { ...base, first_name: 'Ann', updated_at: '2024-01-02T00:00:00Z' };
+    const server = { ...base, first_name: 'Ann', updated_at: '2024-01-03T00:00:00Z' };
+
+    expect(mergeRecordFields('participants', base, local, server)).toEqual({ localFields: [], serverFields: [], conflicts: [] });
+  });
+
+  it('should ignore local-only fields and the derived present flag', () => {
+    const attendanceBase = { participant_id: 'p1', session_id: 's1', date: '2024-01-01', status: 'present', present: true };
+    const local = { ...attendanceBase, id: 'local-hash', status: 'late', present: true, preferred: 'x' };
+    const server = { ...attendanceBase, id: 'server-id', status: 'absent', present: false };
+
+    const result = mergeRecordFields('attendance', attendanceBase, local, server);
+
+    expect(result.conflicts.map(c => c.field)).toEqual(['status']);
+  });
+});
+
+describe('Conflicts - Store', () => {
+  it('should keep one conflict per field, the most recent one', async () => {
+    const server = { id: 'p1', club_id: 'c1', first_name: 'Ann' };
+    await conflictStore.addConflicts(toSyncConflicts('participants', 'c1', server, [{ field: 'first_name', local_value: 'A', server_value: 'Ann' }]));
+    await conflictStore.addConflicts(toSyncConflicts('participants', 'c1', server, [{ field: 'first_name', local_value: 'B', server_value: 'Ann' }]));
+
+    const conflicts = await conflictStore.getConflicts('c1');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]!.id).toBe('participants|p1|first_name');
+    expect(conflicts[0]!.local_value).toBe('B');
+    expect(await conflictStore.getConflicts('other-club')).toEqual([]);
+  });
+
+  it('should store merge bases by natural key', async () => {
+    await conflictStore.saveBases('attendance', [{ id: 'a1', participant_id: 'p1', session_id: 's1', date: '2024-01-01', status: 'late' }]);
+
+    const bases = await conflictStore.getBases('attendance');
+    expect(bases.get('p1|s1|2024-01-01')?.status).toBe('late');
+    expect((await conflictStore.getBases('participants')).size).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+import type { AttendanceRecord } from '../dataService';
+import { buildAttendanceMatrixCsv, buildSummaryCsv, escapeCsvValue, toCsv } from '../csvExport';
+
+describe('csvExport', () => {
+  const t = (key: string) => key.replace('export.', '').replace('attendance.statuses.', '');
+  const lines = (csv: string) => csv.replace('\uFEFF', '').split('\r\n').filter(Boolean);
+
+  it('should quote values holding commas, quotes or line breaks', () => {
+    expect(escapeCsvValue('Dupont')).toBe('Dupont');
+    expect(escapeCsvValue('Dupont, Jean')).toBe('"Dupont, Jean"');
+    expect(escapeCsvValue('Jean "JJ"')).toBe('"Jean ""JJ"""');
+    expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(87.5)).toBe('87.5');
+  });
+
+  it('should keep spreadsheets from running text as a formula', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://example.com","Dupont")')).toBe('"\'=HYPERLINK(""http://example.com"",""Dupont"")"');
+    expect(escapeCsvValue('+33 6 12 34 56 78')).toBe("'+33 6 12 34 56 78");
+    expect(escapeCsvValue('-2+3')).toBe("'-2+3");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue('\tcmd')).toBe("'\tcmd");
+    expect(escapeCsvValue('\r=1')).toBe('"\'\r=1"');
+    expect(escapeCsvValue('Jean-Paul')).toBe('Jean-Paul');
+    expect(escapeCsvValue(-3)).toBe('-3');
+  });
+
+  it('should start with a byte order mark so spreadsheets read accents', () => {
+    expect(toCsv([['Hélène']])).toBe('\uFEFFHélène\r\n');
+  });
+
+  it('should export one summary row per participant', () => {
+    const csv = buildSummaryCsv([
+      { first_name: 'Jean', last_name: 'Dupont', grade: '1er dan', presentInAssigned: 8, totalAssigned: 10, bonusPresences: 3, bonusUsed: 2, percentage: '100.0' },
+      { first_name: 'Marie', last_name: 'Martin', presentInAssigned: 0, totalAssigned: 0, bonusPresences: 1, bonusUsed: 0, percentage: 'N/A' },
+    ], t);
+
+    expect(lines(csv)).toEqual([
+      'lastName,firstName,grade,presentInAssigned,totalAssigned,bonusPresences,bonusUsed,percentage',
+      'Dupont,Jean,1er dan,8,10,3,2,100.0',
+      'Martin,Marie,,0,0,1,0,',
+    ]);
+  });
+
+  it('should export statuses in a participants by dates matrix', () => {
+    const record = (participant: string, date: string, sessionId: string, status: AttendanceRecord['status']): AttendanceRecord => ({
+      id: `${participant}-${date}-${sessionId}`,
+      session_id: sessionId,
+      participant_id: participant,
+      date,
+      present: status === 'present',
+      ...(status ? { status } : {}),
+    });
+    const csv = buildAttendanceMatrixCsv(
+      [
+        { id: 'participant-2', first_name: 'Marie', last_name: 'Martin' },
+        { id: 'participant-1', first_name: 'Jean', last_name: 'Dupont' },
+      ],
+      [
+        { id: 'session-1', start_time: '18:00' },
+        { id: 'session-2', start_time: '10:00' },
+      ],
+      [
+        record('participant-1', '2024-10-07', 'session-1', 'present'),
+        record('participant-2', '2024-10-07', 'session-1', 'late'),
+        record('participant-1', '2024-10-12', 'session-2', 'absent'),
+      ],
+      t
+    );
+
+    expect(lines(csv)).toEqual([
+      'lastName,firstName,2024-10-07 18:00,2024-10-12 10:00',
+      'Dupont,Jean,present,absent',
+      'Martin,Marie,late,',
+    ]);
+  });
+});
@@ -1,6 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { dataService, Club, Session, Participant } from '../dataService';
+import { dataService, Club, Session, Participant, LeavePeriod, Closure, Season, getSeasonOn, isDateInLeavePeriods, getSessionContentKey, getSessionHashId, getParticipantHashId, generateContentBasedId, isSessionHashId } from '../dataService';
 import { supabase } from '../supabase';
+import { addDays, toDateString } from '../sessionSchedule';
+import { authManager } from '../authManager';
 
 // Reset mocks before each test
 beforeEach(() => {
@@ -8,6 +10,13 @@ beforeEach(() => {
   (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
 });
 
+// Operations written to the outbox (storage isn't persisted, so each write holds the new one)
+const queuedOperations = () => {
+  return (AsyncStorage.setItem as jest.Mock).mock.calls
+    .filter(([key]) => key === '@presence_app:outbox')
+    .flatMap(([, value]) => JSON.parse(value));
+};
+
 describe('DataService - Club Ownership Tests', () => {
   const mockOwnerId = 'owner-user-id';
   const mockNonOwnerId = 'non-owner-user-id';
@@ -23,12 +32,9 @@ describe('DataService - Club Ownership Tests', () => {
   };
 
   describe('deleteClub - Owner Permissions', () => {
-    it('should delete club from cloud when user is the owner', async () => {
+    it('should queue the cloud deletion when user is the owner', async () => {
       // Mock that user is authenticated as owner
-      (supabase.auth.getUser as jest.Mock).mockResolvedValue({
-        data: { user: { id: mockOwnerId } },
-        error: null,
-      });
+      jest.spyOn(authManager, 'getUserId').mockResolvedValueOnce(mockOwnerId);
 
       // Mock club exists in local storage
       (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
@@ -38,32 +44,18 @@ describe('DataService - Club Ownership Tests', () => {
         return Promise.resolve(null);
       });
 
-      // Set service as online
-      dataService.isOnline = true;
-
-      // Mock supabase delete operations
-      const mockDelete = jest.fn(() => ({
-        eq: jest.fn(() => Promise.resolve({ data: null, error: null })),
-        in: jest.fn(() => Promise.resolve({ data: null, error: null })),
-      }));
-      
-      (supabase.from as jest.Mock).mockReturnValue({
-        delete: mockDelete,
-      });
-
       await dataService.deleteClub('club-123');
 
-      // Verify cloud deletion was attempted
-      expect(supabase.from).toHaveBeenCalledWith('clubs');
-      expect(mockDelete).toHaveBeenCalled();
+      // Deletion is replayed by the sync, children before the club
+      const deletes = queuedOperations().filter((op: any) => op.op === 'delete');
+      expect(deletes.map((op: any) => op.table)).toEqual(['leave_periods', 'closures', 'seasons', 'participants', 'sessions', 'clubs']);
+      expect(deletes[deletes.length - 1].match).toEqual([{ id: 'club-123' }]);
+      expect(supabase.from).not.toHaveBeenCalled();
     });
 
-    it('should NOT delete club from cloud when user is NOT the owner', async () => {
+    it('should NOT queue the cloud deletion when user is NOT the owner', async () => {
       // Mock that user is authenticated but NOT the owner
-      (supabase.auth.getUser as jest.Mock).mockResolvedValue({
-        data: { user: { id: mockNonOwnerId } },
-        error: null,
-      });
+      jest.spyOn(authManager, 'getUserId').mockResolvedValueOnce(mockNonOwnerId);
 
       // Mock club exists in local storage
       (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
@@ -73,18 +65,10 @@ describe('DataService - Club Ownership Tests', () => {
         return Promise.resolve(null);
       });
 
-      // Set service as online
-      dataService.isOnline = true;
-
-      const mockDelete = jest.fn();
-      (supabase.from as jest.Mock).mockReturnValue({
-        delete: mockDelete,
-      });
-
       await dataService.deleteClub('club-123');
 
-      // Verify cloud deletion was NOT attempted
-      expect(mockDelete).not.toHaveBeenCalled();
+      // Verify cloud deletion was NOT queued
+      expect(queuedOperations()).toEqual([]);
       
       // But local deletion should still happen
       expect(AsyncStorage.setItem).toHaveBeenCalledWith(
@@ -119,7 +103,7 @@ describe('DataService - Club Ownership Tests', () => {
 
     it('should cascade delete sessions and participants when owner deletes club', async () => {
       const mockSessions: Session[] = [
-        { id: 'session-1', club_id: 'club-123', day_of_week: 'Monday', start_time: '10:00', end_time: '11:00' },
+        { id: 'session-1', club_id: 'club-123', day_of_week: 1, start_time: '10:00', end_time: '11:00' },
       ];
 
       const mockParticipants: Participant[] = [
@@ -249,13 +233,14 @@ describe('DataService - Club Ownership Tests', () => {
   });
 
   describe('joinClubByCode', () => {
-    it('should join a club using a valid share code', async () => {
+    it('should join a club using a valid invite code', async () => {
       const mockClubData = {
+        status: 'joined',
         club_id: 'club-123',
         club_name: 'Test Club',
         club_description: 'Test Description',
         owner_id: mockOwnerId,
-        share_code: 'ABC123',
+        role: 'viewer',
         created_at: '2024-01-01T00:00:00Z',
         updated_at: '2024-01-01T00:00:00Z',
       };
@@ -265,24 +250,10 @@ describe('DataService - Club Ownership Tests', () => {
         error: null,
       });
 
-      (supabase.auth.getSession as jest.Mock).mockResolvedValue({
-        data: { session: { user: { id: 'test-user' } } },
-        error: null,
-      });
-
-      const mockSingle = jest.fn(() => Promise.resolve({ data: {}, error: null }));
-      const mockSelect = jest.fn(() => ({ 
-        single: mockSingle,
-        eq: jest.fn(() => Promise.resolve({ data: [], error: null })),
-      }));
-      const mockInsert = jest.fn(() => ({ select: mockSelect }));
       const mockEq = jest.fn(() => Promise.resolve({ data: [], error: null }));
 
-      (supabase.from as jest.Mock).mockImplementation((table) => {
-        if (table === 'club_members') {
-          return { insert: mockInsert };
-        }
-        // For other tables (sessions, participants, etc.)
+      (supabase.from as jest.Mock).mockImplementation(() => {
+        // Club data downloaded after joining (sessions, participants, etc.)
         return {
           select: () => ({
             eq: mockEq,
@@ -290,25 +261,126 @@ describe('DataService - Club Ownership Tests', () => {
         };
       });
 
-      const result = await dataService.joinClubByCode('ABC123');
+      const result = await dataService.joinClubByCode('abc123');
+
+      expect(result.failure).toBeNull();
+      expect(result.club?.id).toBe('club-123');
+      expect(result.club?.name).toBe('Test Club');
+      expect(supabase.rpc).toHaveBeenCalledWith('join_club_by_code', {
+        p_code: 'ABC123',
+      });
+      // The server adds the membership, the role given by the code is kept locally
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('@presence_app:club_roles', JSON.stringify({ 'club-123': 'viewer' }));
+    });
+
+    it('should report why an invite code was refused', async () => {
+      for (const [status, failure] of [
+        ['invalid', 'invalid'],
+        ['revoked', 'revoked'],
+        ['expired', 'expired'],
+        ['exhausted', 'exhausted'],
+        ['membership_limit', 'membershipLimit'],
+      ]) {
+        (supabase.rpc as jest.Mock).mockResolvedValue({ data: [{ status, club_id: null }], error: null });
+
+        expect(await dataService.joinClubByCode('ABC123')).toEqual({ club: null, failure });
+      }
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should report a server error', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: { message: 'Network request failed' } });
+
+      expect(await dataService.joinClubByCode('ABC123')).toEqual({ club: null, failure: 'error' });
+    });
+  });
 
-      expect(result).toBeDefined();
-      expect(result?.id).toBe('club-123');
-      expect(result?.name).toBe('Test Club');
-      expect(supabase.rpc).toHaveBeenCalledWith('get_club_by_share_code', {
-        p_share_code: 'ABC123',
+  describe('Invite codes', () => {
+    it('should create an invite through the server function', async () => {
+      const invite = { id: 'invite-1', club_id: 'club-123', code: 'XYZ789', role: 'coach', expires_at: null, max_uses: 1, use_count: 0, revoked_at: null, created_at: '2024-01-01T00:00:00Z' };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: [invite], error: null });
+
+      const result = await dataService.createClubInvite('club-123', { role: 'coach', expires_at: null, max_uses: 1 });
+
+      expect(result).toEqual(invite);
+      expect(supabase.rpc).toHaveBeenCalledWith('create_club_invite', {
+        p_club_id: 'club-123',
+        p_role: 'coach',
+        p_expires_at: null,
+        p_max_uses: 1,
       });
     });
 
-    it('should return null for invalid share code', async () => {
+    it('should revoke an invite without deleting it', async () => {
+      const mockEq = jest.fn(() => Promise.resolve({ error: null }));
+      const mockUpdate = jest.fn((_values: any) => ({ eq: mockEq }));
+      (supabase.from as jest.Mock).mockReturnValue({ update: mockUpdate });
+
+      await dataService.revokeClubInvite('invite-1');
+
+      expect(supabase.from).toHaveBeenCalledWith('club_invites');
+      expect(mockUpdate.mock.calls[0]![0].revoked_at).toEqual(expect.any(String));
+      expect(mockEq).toHaveBeenCalledWith('id', 'invite-1');
+    });
+  });
+
+  describe('Club members', () => {
+    it('should list the owner first, then members by join date', async () => {
       (supabase.rpc as jest.Mock).mockResolvedValue({
-        data: [],
+        data: [
+          { user_id: 'u2', display_name: null, email: 'b@test.com', role: 'viewer', joined_at: '2024-03-01T00:00:00Z' },
+          { user_id: 'u1', display_name: 'Coach', email: 'a@test.com', role: 'coach', joined_at: '2024-02-01T00:00:00Z' },
+          { user_id: mockOwnerId, display_name: 'Owner', email: 'o@test.com', role: 'owner', joined_at: null },
+        ],
         error: null,
       });
 
-      const result = await dataService.joinClubByCode('INVALID');
+      const members = await dataService.getClubMembers('club-123');
 
-      expect(result).toBeNull();
+      expect(members.map(m => m.user_id)).toEqual([mockOwnerId, 'u1', 'u2']);
+      expect(supabase.rpc).toHaveBeenCalledWith('get_club_members', { p_club_id: 'club-123' });
+    });
+
+    it('should remove the membership and the local data when leaving a club', async () => {
+      jest.spyOn(authManager, 'getUserId').mockResolvedValueOnce(mockNonOwnerId);
+      (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+        if (key === '@presence_app:clubs') {
+          return Promise.resolve(JSON.stringify([mockClub]));
+        }
+        return Promise.resolve(null);
+      });
+
+      const mockUserEq = jest.fn(() => Promise.resolve({ error: null }));
+      const mockClubEq = jest.fn(() => ({ eq: mockUserEq }));
+      (supabase.from as jest.Mock).mockReturnValue({ delete: () => ({ eq: mockClubEq }) });
+
+      await dataService.leaveClub('club-123');
+
+      expect(supabase.from).toHaveBeenCalledWith('club_members');
+      expect(mockClubEq).toHaveBeenCalledWith('club_id', 'club-123');
+      expect(mockUserEq).toHaveBeenCalledWith('user_id', mockNonOwnerId);
+      expect(AsyncStorage.setItem).toHaveBeenCalledWith('@presence_app:clubs', '[]');
+      // Leaving never deletes the club for the other members
+      expect(queuedOperations()).toEqual([]);
+    });
+
+    it('should transfer the club through the server function', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: null });
+
+      await dataService.transferClubOwnership('club-123', 'member-id');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('transfer_club_ownership', {
+        p_club_id: 'club-123',
+        p_new_owner_id: 'member-id',
+      });
+    });
+
+    it('should report a refused transfer', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: { message: 'User can only own 1 club maximum' } });
+
+      await expect(dataService.transferClubOwnership('club-123', 'member-id')).rejects.toEqual({
+        message: 'User can only own 1 club maximum',
+      });
     });
   });
 });
@@ -317,7 +389,7 @@ describe('DataService - Session Management', () => {
   const mockSession: Session = {
     id: 'session-123',
     club_id: 'club-123',
-    day_of_week: 'Monday',
+    day_of_week: 1,
     start_time: '10:00',
     end_time: '11:00',
   };
@@ -352,6 +424,320 @@ describe('DataService - Session Management', () => {
       expect.any(String)
     );
   });
+
+  it('should keep the id of undated sessions and tell dated ones apart', () => {
+    expect(getSessionContentKey(mockSession)).toBe('club-123|1|10:00|11:00');
+    expect(getSessionHashId({ ...mockSession, start_date: null, end_date: null })).toBe(getSessionHashId(mockSession));
+
+    const oneOff = { ...mockSession, start_date: '2024-11-16', end_date: '2024-11-16' };
+    expect(getSessionContentKey(oneOff)).toBe('club-123|1|10:00|11:00|2024-11-16|2024-11-16');
+    expect(getSessionHashId(oneOff)).not.toBe(getSessionHashId(mockSession));
+  });
+
+  it('should tell apart slots held at the same time in two venues', () => {
+    const dojo = { ...mockSession, location: ' Dojo 2 ' };
+    expect(getSessionContentKey(dojo)).toBe('club-123|1|10:00|11:00|@dojo 2');
+    expect(getSessionHashId({ ...mockSession, location: 'Gym' })).not.toBe(getSessionHashId(dojo));
+    // Capacity is not part of the slot
+    const limited: Session = { ...mockSession, location: null, capacity: 12 };
+    expect(getSessionHashId(limited)).toBe(getSessionHashId(mockSession));
+  });
+
+  it('should treat day names and ISO weekdays as the same slot', () => {
+    expect(getSessionContentKey({ ...mockSession, day_of_week: 'Lundi' as any })).toBe('club-123|1|10:00|11:00');
+    expect(getSessionHashId({ ...mockSession, day_of_week: 'Monday' as any })).toBe(getSessionHashId(mockSession));
+  });
+
+  it('should still recognize ids derived from day names after the migration', () => {
+    const frenchId = generateContentBasedId('session|club-123|Lundi|10:00|11:00');
+    const englishId = generateContentBasedId('session|club-123|Monday|10:00|11:00');
+
+    expect(isSessionHashId({ ...mockSession, id: frenchId })).toBe(true);
+    expect(isSessionHashId({ ...mockSession, id: englishId })).toBe(true);
+    expect(isSessionHashId({ ...mockSession, id: getSessionHashId(mockSession) })).toBe(true);
+    expect(isSessionHashId({ ...mockSession, id: englishId, day_of_week: 2 })).toBe(false);
+    expect(isSessionHashId(mockSession)).toBe(false);
+  });
+
+  it('should keep the id of a migrated session when it is saved again', async () => {
+    const frenchId = generateContentBasedId('session|club-123|Lundi|10:00|11:00');
+    const stored = { ...mockSession, id: frenchId };
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([stored]));
+
+    const saved = await dataService.saveSession({ ...stored });
+
+    expect(saved.id).toBe(frenchId);
+  });
+
+  it('should store day names as ISO weekdays', async () => {
+    const legacy = [
+      { ...mockSession, id: 'session-1', day_of_week: 'Lundi', updated_at: '2024-05-10T08:00:00Z' },
+      { ...mockSession, id: 'session-2', day_of_week: 'sunday' },
+      { ...mockSession, id: 'session-3', day_of_week: 3 },
+    ];
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+      if (key === '@presence_app:sessions') {
+        return Promise.resolve(JSON.stringify(legacy));
+      }
+      return Promise.resolve(null);
+    });
+
+    await dataService.migrateSessionWeekdays();
+
+    const sessionsCall = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+      ([key]) => key === '@presence_app:sessions'
+    );
+    const migrated = JSON.parse(sessionsCall[1]);
+    expect(migrated.map((s: Session) => s.day_of_week)).toEqual([1, 7, 3]);
+    expect(migrated[0]).toMatchObject({ id: 'session-1', updated_at: '2024-05-10T08:00:00Z' });
+  });
+});
+
+// Storage that keeps what is written, for flows reading their own writes
+const useMemoryStorage = (initial: Record<string, any>) => {
+  const store = new Map<string, string>(Object.entries(initial).map(([key, value]) => [key, JSON.stringify(value)]));
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => Promise.resolve(store.get(key) ?? null));
+  (AsyncStorage.setItem as jest.Mock).mockImplementation((key, value) => {
+    store.set(key, value);
+    return Promise.resolve();
+  });
+  return (key: string) => JSON.parse(store.get(key) ?? 'null');
+};
+
+describe('DataService - Participant Import', () => {
+  it('should add new participants and their sessions in one batch', async () => {
+    const existing = {
+      id: getParticipantHashId({ club_id: 'club-123', first_name: 'Paul', last_name: 'Durand' }),
+      club_id: 'club-123',
+      first_name: 'Paul',
+      last_name: 'Durand',
+    };
+    const read = useMemoryStorage({ '@presence_app:participants': [existing], '@presence_app:participant_sessions': [] });
+
+    const added = await dataService.importParticipants('club-123', [
+      { first_name: 'Jean', last_name: 'Dupont', preferred_session_ids: ['session-1'] },
+      { first_name: ' paul', last_name: 'DURAND', preferred_session_ids: ['session-2'] },
+      { first_name: 'Marie', last_name: 'Martin', preferred_session_ids: [] },
+    ]);
+
+    expect(added.map(p => p.first_name)).toEqual(['Jean', 'Marie']);
+    expect(added[0]?.id).toBe(getParticipantHashId({ club_id: 'club-123', first_name: 'jean', last_name: 'dupont' }));
+    expect(read('@presence_app:participants')).toHaveLength(3);
+    expect(read('@presence_app:participant_sessions')).toEqual([
+      expect.objectContaining({ participant_id: added[0]?.id, session_id: 'session-1' }),
+    ]);
+    const upserts = read('@presence_app:outbox').filter((op: any) => op.op === 'upsert' && op.table === 'participants');
+    expect(upserts).toHaveLength(1);
+    expect(upserts[0]).toEqual(expect.objectContaining({
+      records: [expect.not.objectContaining({ preferred_session_ids: expect.anything() }), expect.anything()],
+    }));
+  });
+});
+
+describe('DataService - Club Backup', () => {
+  const club = { id: 'club-123', name: 'Test Club', updated_at: '2024-10-01T00:00:00Z' };
+  const session: Session = {
+    id: getSessionHashId({ club_id: 'club-123', day_of_week: 1, start_time: '18:00', end_time: '19:00' }),
+    club_id: 'club-123',
+    day_of_week: 1,
+    start_time: '18:00',
+    end_time: '19:00',
+  };
+  const participant = {
+    id: getParticipantHashId({ club_id: 'club-123', first_name: 'Jean', last_name: 'Dupont' }),
+    club_id: 'club-123',
+    first_name: 'Jean',
+    last_name: 'Dupont',
+    updated_at: '2024-10-01T00:00:00Z',
+  };
+  const storedData = () => ({
+    '@presence_app:clubs': [club, { id: 'club-456', name: 'Other Club' }],
+    '@presence_app:sessions': [session],
+    '@presence_app:participants': [participant],
+    '@presence_app:participant_sessions': [{ id: 'ps-1', participant_id: participant.id, session_id: session.id }],
+    '@presence_app:attendance': [
+      { id: 'att-1', session_id: session.id, participant_id: participant.id, date: '2024-09-30', present: true },
+    ],
+    '@presence_app:deleted_items': { participants: ['participant-gone'], attendance: ['att-1'] },
+  });
+
+  afterEach(() => {
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(() => Promise.resolve());
+  });
+
+  it('should export the rows of the club only', async () => {
+    useMemoryStorage(storedData());
+
+    const backup = await dataService.exportClubBackup('club-123');
+
+    expect(backup).toMatchObject({ format: 'presence-club-backup', version: 1, club });
+    expect(backup.sessions).toEqual([session]);
+    expect(backup.participants).toEqual([participant]);
+    expect(backup.participant_sessions).toHaveLength(1);
+    expect(backup.attendance).toHaveLength(1);
+    // Marks of other clubs' rows stay on this device
+    expect(backup.deleted_items['participants']).toEqual([]);
+    expect(backup.deleted_items['attendance']).toEqual(['att-1']);
+  });
+
+  it('should merge a backup, the most recent rows winning, and queue it for upload', async () => {
+    const read = useMemoryStorage(storedData());
+    const backup = await dataService.exportClubBackup('club-123');
+    const renamed = { ...participant, first_name: 'JEAN', updated_at: '2024-09-01T00:00:00Z' };
+    const marie = { id: 'participant-legacy', club_id: 'club-123', first_name: 'Marie', last_name: 'Martin' };
+
+    await dataService.restoreClubBackup({
+      ...backup,
+      participants: [renamed, marie],
+      participant_sessions: [{ id: 'ps-2', participant_id: 'participant-legacy', session_id: session.id }],
+      attendance: [{ id: 'att-2', session_id: session.id, participant_id: 'participant-legacy', date: '2024-09-30', present: true }],
+    }, 'merge');
+
+    const marieId = getParticipantHashId(marie);
+    expect(read('@presence_app:participants')).toEqual([participant, { ...marie, id: marieId }]);
+    expect(read('@presence_app:participant_sessions').map((ps: any) => ps.participant_id)).toEqual([participant.id, marieId]);
+    expect(read('@presence_app:attendance').map((a: any) => a.participant_id)).toEqual([participant.id, marieId]);
+    expect(read('@presence_app:clubs')).toHaveLength(2);
+    expect(read('@presence_app:outbox')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ op: 'upsert', table: 'clubs', records: [club] }),
+      expect.objectContaining({ op: 'upsert', table: 'participants' }),
+    ]));
+  });
+
+  it('should drop the club from this device before replacing it', async () => {
+    const read = useMemoryStorage(storedData());
+    const backup = await dataService.exportClubBackup('club-123');
+    const marie = { id: 'participant-2', club_id: 'club-123', first_name: 'Marie', last_name: 'Martin' };
+    await AsyncStorage.setItem('@presence_app:participants', JSON.stringify([participant, marie]));
+
+    await dataService.restoreClubBackup(backup, 'replace');
+
+    expect(read('@presence_app:participants')).toEqual([participant]);
+    expect(read('@presence_app:clubs').map((c: Club) => c.id)).toEqual(['club-456', 'club-123']);
+    expect(read('@presence_app:deleted_items').participants).toContain('participant-gone');
+    expect(read('@presence_app:deleted_items').participants).not.toContain(participant.id);
+  });
+});
+
+describe('DataService - Session Editing', () => {
+  const session: Session = {
+    id: getSessionHashId({ club_id: 'club-123', day_of_week: 1, start_time: '10:00', end_time: '11:00' }),
+    club_id: 'club-123',
+    day_of_week: 1,
+    start_time: '10:00',
+    end_time: '11:00',
+  };
+  const changes = { day_of_week: 1 as const, start_time: '18:00', end_time: '19:00', location: null, capacity: null };
+  const attendance = [
+    { id: 'att-1', session_id: session.id, participant_id: 'participant-1', date: '2024-09-02', status: 'present', present: true },
+    { id: 'att-2', session_id: session.id, participant_id: 'participant-1', date: '2024-10-07', status: 'present', present: true },
+  ];
+  const participantSessions = [{ id: 'ps-1', participant_id: 'participant-1', session_id: session.id }];
+  const closures = [{ id: 'closure-1', club_id: 'club-123', session_id: session.id, start_date: '2024-10-14', end_date: '2024-10-14' }];
+
+  const storedData = () => ({
+    '@presence_app:sessions': [session],
+    '@presence_app:attendance': attendance,
+    '@presence_app:participant_sessions': participantSessions,
+    '@presence_app:closures': closures,
+  });
+
+  afterEach(() => {
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(() => Promise.resolve());
+  });
+
+  it('should move the history of a session to its new time', async () => {
+    const read = useMemoryStorage(storedData());
+
+    const saved = await dataService.updateSession(session, changes);
+
+    expect(saved.id).toBe(getSessionHashId(saved));
+    expect(read('@presence_app:sessions')).toEqual([saved]);
+    expect(read('@presence_app:attendance').map((a: any) => a.session_id)).toEqual([saved.id, saved.id]);
+    expect(read('@presence_app:participant_sessions')[0].session_id).toBe(saved.id);
+    expect(read('@presence_app:closures')[0].session_id).toBe(saved.id);
+
+    // The old row goes last, once nothing points to it
+    const operations = read('@presence_app:outbox');
+    expect(operations[operations.length - 1]).toMatchObject({ op: 'delete', table: 'sessions', match: [{ id: session.id }] });
+    expect(read('@presence_app:deleted_items').sessions).toEqual([session.id]);
+  });
+
+  it('should keep the ID when only the capacity changes', async () => {
+    const legacyId = generateContentBasedId('session|club-123|Lundi|10:00|11:00');
+    const legacy = { ...session, id: legacyId };
+    const read = useMemoryStorage({ '@presence_app:sessions': [legacy] });
+
+    const saved = await dataService.updateSession(legacy, { ...changes, start_time: '10:00', end_time: '11:00', capacity: 12 });
+
+    expect(saved).toMatchObject({ id: legacyId, capacity: 12 });
+    expect(read('@presence_app:sessions')).toEqual([saved]);
+    expect(read('@presence_app:outbox')).not.toContainEqual(expect.objectContaining({ op: 'delete' }));
+  });
+
+  it('should only apply a change from the chosen date', async () => {
+    const read = useMemoryStorage(storedData());
+
+    const saved = await dataService.updateSession(session, changes, '2024-10-01');
+
+    const [ended, next] = read('@presence_app:sessions');
+    expect(ended).toMatchObject({ start_time: '10:00', end_date: '2024-09-30' });
+    expect(next).toMatchObject({ id: saved.id, start_time: '18:00', start_date: '2024-10-01', end_date: null });
+
+    // Earlier dates stay with the ended session, later ones follow the change
+    const sessionOf = Object.fromEntries(read('@presence_app:attendance').map((a: any) => [a.date, a.session_id]));
+    expect(sessionOf).toEqual({ '2024-09-02': ended.id, '2024-10-07': next.id });
+    expect(read('@presence_app:closures')[0].session_id).toBe(next.id);
+    // Participants are assigned to both
+    expect(read('@presence_app:participant_sessions').map((ps: any) => ps.session_id).sort()).toEqual([ended.id, next.id].sort());
+  });
+
+  it('should refuse a change colliding with another session', async () => {
+    const evening = { ...session, ...changes, id: getSessionHashId({ ...session, ...changes }) };
+    useMemoryStorage({ '@presence_app:sessions': [session, evening] });
+
+    await expect(dataService.updateSession(session, changes)).rejects.toThrow('already exists');
+  });
+});
+
+describe('DataService - Archiving', () => {
+  const session: Session = { id: 'session-1', club_id: 'club-123', day_of_week: 2, start_time: '18:00', end_time: '19:00' };
+  const participant: Participant = { id: 'participant-1', club_id: 'club-123', first_name: 'John', last_name: 'Doe' };
+  const attendance = [{ id: 'att-1', session_id: 'session-1', participant_id: 'participant-1', date: '2024-09-03', status: 'present', present: true }];
+
+  afterEach(() => {
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(() => Promise.resolve());
+  });
+
+  it('should archive a participant without touching their attendance', async () => {
+    const read = useMemoryStorage({
+      '@presence_app:participants': [{ ...participant, preferred_session_ids: ['session-1'] }],
+      '@presence_app:attendance': attendance,
+    });
+
+    await dataService.archiveParticipant(participant.id);
+
+    expect(read('@presence_app:participants')[0].archived_at).toEqual(expect.any(String));
+    expect(read('@presence_app:attendance')).toEqual(attendance);
+    // Assignments don't go with the row: participant_sessions keeps them
+    const [operation] = read('@presence_app:outbox');
+    expect(operation).toMatchObject({ op: 'upsert', table: 'participants' });
+    expect(operation.records[0]).not.toHaveProperty('preferred_session_ids');
+    expect(read('@presence_app:deleted_items')).toBeNull();
+  });
+
+  it('should restore an archived session', async () => {
+    const read = useMemoryStorage({
+      '@presence_app:sessions': [{ ...session, archived_at: '2024-06-30T10:00:00.000Z' }],
+      '@presence_app:attendance': attendance,
+    });
+
+    await dataService.restoreSession(session.id);
+
+    expect(read('@presence_app:sessions')[0]).toMatchObject({ id: session.id, archived_at: null });
+    expect(read('@presence_app:attendance')).toEqual(attendance);
+    expect(read('@presence_app:outbox')).toEqual([expect.objectContaining({ op: 'upsert', table: 'sessions' })]);
+  });
 });
 
 describe('DataService - Participant Management', () => {
@@ -388,3 +774,279 @@ describe('DataService - Participant Management', () => {
     expect(AsyncStorage.setItem).toHaveBeenCalled();
   });
 });
+
+describe('DataService - Leave Periods', () => {
+  const mockLeave: LeavePeriod = {
+    id: 'leave-123',
+    participant_id: 'participant-123',
+    club_id: 'club-123',
+    start_date: '2024-03-01',
+    end_date: '2024-03-31',
+    reason: 'Broken arm',
+  };
+
+  afterEach(() => {
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(() => Promise.resolve());
+  });
+
+  it('should only match dates inside a leave window', () => {
+    expect(isDateInLeavePeriods('2024-02-29', [mockLeave])).toBe(false);
+    expect(isDateInLeavePeriods('2024-03-01', [mockLeave])).toBe(true);
+    expect(isDateInLeavePeriods('2024-03-31', [mockLeave])).toBe(true);
+    expect(isDateInLeavePeriods('2024-04-01', [mockLeave])).toBe(false);
+  });
+
+  it('should treat a leave without end date as ongoing', () => {
+    const openLeave = { ...mockLeave, end_date: null };
+
+    expect(isDateInLeavePeriods('2030-01-01', [openLeave])).toBe(true);
+    expect(isDateInLeavePeriods('2024-01-01', [openLeave])).toBe(false);
+  });
+
+  it('should save a new leave period with a content-based ID', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([]));
+
+    const saved = await dataService.saveLeavePeriod({ ...mockLeave, id: '' });
+
+    expect(saved.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i);
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+      '@presence_app:leave_periods',
+      expect.any(String)
+    );
+  });
+
+  it('should mark deleted leave periods for sync', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+      if (key === '@presence_app:leave_periods') {
+        return Promise.resolve(JSON.stringify([mockLeave]));
+      }
+      return Promise.resolve(null);
+    });
+
+    await dataService.deleteLeavePeriod('leave-123');
+
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('@presence_app:leave_periods', '[]');
+    const deletedCall = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+      ([key]) => key === '@presence_app:deleted_items'
+    );
+    expect(JSON.parse(deletedCall[1]).leave_periods).toEqual(['leave-123']);
+  });
+
+  it('should convert the legacy long-term sick flag into an open-ended leave', async () => {
+    const sickParticipant = {
+      id: 'participant-123',
+      club_id: 'club-123',
+      first_name: 'John',
+      last_name: 'Doe',
+      is_long_term_sick: true,
+      updated_at: '2024-05-10T08:00:00Z',
+    };
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+      if (key === '@presence_app:participants') {
+        return Promise.resolve(JSON.stringify([sickParticipant]));
+      }
+      return Promise.resolve(null);
+    });
+
+    await dataService.migrateLongTermSickFlags();
+
+    const leaveCall = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+      ([key]) => key === '@presence_app:leave_periods'
+    );
+    const participantsCall = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+      ([key]) => key === '@presence_app:participants'
+    );
+    const periods = JSON.parse(leaveCall[1]);
+    expect(periods).toHaveLength(1);
+    expect(periods[0]).toMatchObject({ participant_id: 'participant-123', start_date: '2024-05-10', end_date: null });
+    expect(JSON.parse(participantsCall[1])[0].is_long_term_sick).toBe(false);
+    expect(queuedOperations()).toContainEqual(expect.objectContaining({
+      op: 'upsert',
+      table: 'participants',
+      records: [expect.objectContaining({ id: 'participant-123', is_long_term_sick: false, updated_at: expect.not.stringMatching(/^2024-05-10/) })],
+    }));
+  });
+
+  it('should not add a second leave when the flag comes back with a later update', async () => {
+    const sickParticipant = {
+      id: 'participant-123',
+      club_id: 'club-123',
+      first_name: 'John',
+      last_name: 'Doe',
+      is_long_term_sick: true,
+      updated_at: '2024-05-10T08:00:00Z',
+    };
+    const read = useMemoryStorage({ '@presence_app:participants': [sickParticipant] });
+    await dataService.migrateLongTermSickFlags();
+
+    // Merged back from a server row that still holds the flag
+    await AsyncStorage.setItem('@presence_app:participants', JSON.stringify([{ ...sickParticipant, updated_at: '2024-06-01T08:00:00Z' }]));
+    await dataService.migrateLongTermSickFlags();
+
+    expect(read('@presence_app:leave_periods')).toHaveLength(1);
+    expect(read('@presence_app:leave_periods')[0].start_date).toBe('2024-05-10');
+  });
+});
+
+describe('DataService - Closures', () => {
+  const mockClosure: Closure = {
+    id: 'closure-123',
+    club_id: 'club-123',
+    session_id: 'session-123',
+    start_date: '2024-11-11',
+    end_date: '2024-11-11',
+    reason: 'Gym closed',
+  };
+
+  it('should give the same cancellation the same ID on every device', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([]));
+
+    const first = await dataService.saveClosure({ ...mockClosure, id: '' });
+    const second = await dataService.saveClosure({ ...mockClosure, id: '', reason: 'Holiday' });
+
+    expect(first.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i);
+    expect(second.id).toBe(first.id);
+    expect(queuedOperations()).toContainEqual(expect.objectContaining({ op: 'upsert', table: 'closures' }));
+  });
+
+  it('should drop the cancelled dates of a deleted session', async () => {
+    const clubClosure = { ...mockClosure, id: 'closure-456', session_id: null };
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+      if (key === '@presence_app:closures') {
+        return Promise.resolve(JSON.stringify([mockClosure, clubClosure]));
+      }
+      return Promise.resolve(null);
+    });
+
+    await dataService.deleteSession('session-123');
+
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('@presence_app:closures', JSON.stringify([clubClosure]));
+  });
+
+  it('should mark deleted closures for sync', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+      if (key === '@presence_app:closures') {
+        return Promise.resolve(JSON.stringify([mockClosure]));
+      }
+      return Promise.resolve(null);
+    });
+
+    await dataService.deleteClosure('closure-123');
+
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('@presence_app:closures', '[]');
+    const deletedCall = (AsyncStorage.setItem as jest.Mock).mock.calls.find(
+      ([key]) => key === '@presence_app:deleted_items'
+    );
+    expect(JSON.parse(deletedCall[1]).closures).toEqual(['closure-123']);
+    expect(queuedOperations()).toContainEqual(expect.objectContaining({ op: 'delete', table: 'closures', match: [{ id: 'closure-123' }] }));
+  });
+});
+
+describe('DataService - Seasons', () => {
+  const mockSeason: Season = {
+    id: 'season-123',
+    club_id: 'club-123',
+    name: '2024-2025',
+    start_date: '2024-09-01',
+    end_date: '2025-06-30',
+  };
+
+  afterEach(() => {
+    (AsyncStorage.setItem as jest.Mock).mockImplementation(() => Promise.resolve());
+  });
+
+  it('should find the season running on a date', () => {
+    const previous = { ...mockSeason, id: 'season-456', name: '2023-2024', start_date: '2023-09-01', end_date: '2024-06-30' };
+
+    expect(getSeasonOn([mockSeason, previous], '2024-09-01')).toBe(mockSeason);
+    expect(getSeasonOn([mockSeason, previous], '2024-06-30')).toBe(previous);
+    expect(getSeasonOn([mockSeason, previous], '2024-07-14')).toBeUndefined();
+  });
+
+  it('should give the same season the same ID on every device', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify([]));
+
+    const first = await dataService.saveSeason({ ...mockSeason, id: '' });
+    const second = await dataService.saveSeason({ ...mockSeason, id: '', name: 'Season 24/25' });
+
+    expect(second.id).toBe(first.id);
+    expect(queuedOperations()).toContainEqual(expect.objectContaining({ op: 'upsert', table: 'seasons' }));
+  });
+
+  it('should delete a season without touching attendance', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
+      if (key === '@presence_app:seasons') {
+        return Promise.resolve(JSON.stringify([mockSeason]));
+      }
+      return Promise.resolve(null);
+    });
+
+    await dataService.deleteSeason('season-123');
+
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('@presence_app:seasons', '[]');
+    expect(AsyncStorage.setItem).not.toHaveBeenCalledWith('@presence_app:attendance', expect.anything());
+    expect(AsyncStorage.removeItem).not.toHaveBeenCalledWith('@presence_app:attendance');
+    expect(queuedOperations()).toContainEqual(expect.objectContaining({ op: 'delete', table: 'seasons', match: [{ id: 'season-123' }] }));
+  });
+
+  it('should read the attendance of one club, archived sessions included', async () => {
+    useMemoryStorage({
+      '@presence_app:sessions': [
+        { id: 'session-1', club_id: 'club-123', day_of_week: 1, start_time: '10:00', end_time: '11:00' },
+        { id: 'session-2', club_id: 'club-123', day_of_week: 3, start_time: '10:00', end_time: '11:00', archived_at: '2024-10-01T00:00:00Z' },
+        { id: 'session-3', club_id: 'club-456', day_of_week: 1, start_time: '10:00', end_time: '11:00' },
+      ],
+      '@presence_app:attendance': [
+        { id: 'att-1', session_id: 'session-1', participant_id: 'participant-1', date: '2024-09-02', status: 'present', present: true },
+        { id: 'att-2', session_id: 'session-2', participant_id: 'participant-1', date: '2024-09-04', status: 'present', present: true },
+        { id: 'att-3', session_id: 'session-3', participant_id: 'participant-2', date: '2024-09-02', status: 'present', present: true },
+      ],
+    });
+
+    const attendance = await dataService.getClubAttendance('club-123');
+
+    expect(attendance.map(a => a.id)).toEqual(['att-1', 'att-2']);
+  });
+
+  it('should turn a legacy stats reset date into a season of a year', async () => {
+    const resetDate = addDays(toDateString(new Date()), -30);
+    const read = useMemoryStorage({
+      '@presence_app:clubs': [{ id: 'club-123', name: 'Club', stats_reset_date: resetDate }],
+    });
+
+    await dataService.migrateStatsResetDates();
+
+    const nextYear = `${Number(resetDate.slice(0, 4)) + 1}${resetDate.slice(4)}`;
+    const seasons = read('@presence_app:seasons');
+    expect(seasons).toHaveLength(1);
+    expect(seasons[0]).toMatchObject({ club_id: 'club-123', start_date: resetDate, end_date: addDays(nextYear, -1) });
+    expect(read('@presence_app:clubs')[0].stats_reset_date).toBeUndefined();
+    expect(queuedOperations()).toContainEqual(expect.objectContaining({ op: 'upsert', table: 'seasons' }));
+  });
+
+  it('should run the season of an old stats reset until today', async () => {
+    const read = useMemoryStorage({
+      '@presence_app:clubs': [{ id: 'club-123', name: 'Club', stats_reset_date: '2020-09-01' }],
+    });
+
+    await dataService.migrateStatsResetDates();
+
+    expect(read('@presence_app:seasons')[0]).toMatchObject({
+      name: `2020-${toDateString(new Date()).slice(0, 4)}`,
+      start_date: '2020-09-01',
+      end_date: toDateString(new Date()),
+    });
+  });
+
+  it('should keep the seasons of a club over its stats reset date', async () => {
+    const read = useMemoryStorage({
+      '@presence_app:clubs': [{ id: 'club-123', name: 'Club', stats_reset_date: '2024-10-01' }],
+      '@presence_app:seasons': [mockSeason],
+    });
+
+    await dataService.migrateStatsResetDates();
+
+    expect(read('@presence_app:seasons')).toEqual([mockSeason]);
+    expect(read('@presence_app:clubs')[0].stats_reset_date).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { ClubInvite, getInviteStatus, toJoinFailure } from '../invites';
+
+describe('invites - Status', () => {
+  const now = new Date('2024-03-01T12:00:00Z');
+  const invite: ClubInvite = {
+    id: 'invite-1',
+    club_id: 'club-1',
+    code: 'ABC123',
+    role: 'coach',
+    expires_at: null,
+    max_uses: null,
+    use_count: 3,
+    revoked_at: null,
+    created_at: '2024-01-01T00:00:00Z',
+  };
+
+  it('should keep codes without expiry or use limit active', () => {
+    expect(getInviteStatus(invite, now)).toBe('active');
+  });
+
+  it('should expire codes at their expiry date', () => {
+    expect(getInviteStatus({ ...invite, expires_at: '2024-03-01T12:00:00Z' }, now)).toBe('expired');
+    expect(getInviteStatus({ ...invite, expires_at: '2024-03-02T00:00:00Z' }, now)).toBe('active');
+  });
+
+  it('should exhaust codes once used the maximum number of times', () => {
+    expect(getInviteStatus({ ...invite, max_uses: 3 }, now)).toBe('exhausted');
+    expect(getInviteStatus({ ...invite, max_uses: 4 }, now)).toBe('active');
+  });
+
+  it('should report revoked codes first', () => {
+    expect(getInviteStatus({ ...invite, revoked_at: '2024-02-01T00:00:00Z', expires_at: '2024-02-15T00:00:00Z', max_uses: 1 }, now)).toBe('revoked');
+  });
+});
+
+describe('invites - Join failures', () => {
+  it('should map server statuses to failures', () => {
+    expect(toJoinFailure('expired')).toBe('expired');
+    expect(toJoinFailure('membership_limit')).toBe('membershipLimit');
+  });
+
+  it('should treat unknown or missing statuses as invalid codes', () => {
+    expect(toJoinFailure('something_new')).toBe('invalid');
+    expect(toJoinFailure(undefined)).toBe('invalid');
+  });
+});
@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { outbox } from '../outbox';
+
+// In-memory AsyncStorage so the queue persists between calls
+let store: Map<string, string>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  store = new Map();
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => Promise.resolve(store.get(key) ?? null));
+  (AsyncStorage.setItem as jest.Mock).mockImplementation((key, value) => {
+    store.set(key, value);
+    return Promise.resolve();
+  });
+  (AsyncStorage.removeItem as jest.Mock).mockImplementation((key) => {
+    store.delete(key);
+    return Promise.resolve();
+  });
+});
+
+describe('Outbox - Enqueue', () => {
+  it('should coalesce consecutive upserts on the same table, keeping the latest version', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'participants', records: [{ id: 'p1', first_name: 'Old' }] });
+    await outbox.enqueue({ op: 'upsert', table: 'participants', records: [{ id: 'p2', first_name: 'Other' }] });
+    await outbox.enqueue({ op: 'upsert', table: 'participants', records: [{ id: 'p1', first_name: 'New' }] });
+
+    const operations = await outbox.getOperations();
+    expect(operations).toHaveLength(1);
+    expect((operations[0] as any).records).toEqual([
+      { id: 'p2', first_name: 'Other' },
+      { id: 'p1', first_name: 'New' },
+    ]);
+  });
+
+  it('should key attendance on participant, session and date', async () => {
+    const record = { id: 'local-id', participant_id: 'p1', session_id: 's1', date: '2024-01-01' };
+    await outbox.enqueue({ op: 'upsert', table: 'attendance', records: [{ ...record, status: 'absent' }] });
+    await outbox.enqueue({ op: 'upsert', table: 'attendance', records: [{ ...record, id: 'other-id', status: 'late' }] });
+
+    const operations = await outbox.getOperations();
+    expect((operations[0] as any).records).toEqual([{ ...record, id: 'other-id', status: 'late' }]);
+  });
+
+  it('should keep writes separated by another operation in order', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'sessions', records: [{ id: 's1' }] });
+    await outbox.enqueue({ op: 'delete', table: 'sessions', match: [{ id: 's1' }] });
+    await outbox.enqueue({ op: 'upsert', table: 'sessions', records: [{ id: 's1' }] });
+
+    const operations = await outbox.getOperations();
+    expect(operations.map(op => op.op)).toEqual(['upsert', 'delete', 'upsert']);
+  });
+
+  it('should ignore empty writes', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'sessions', records: [] });
+    await outbox.enqueue({ op: 'delete', table: 'sessions', match: [] });
+
+    expect(await outbox.getOperations()).toEqual([]);
+  });
+});
+
+describe('Outbox - Acknowledgement and Retries', () => {
+  it('should only remove the acknowledged operation', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'clubs', records: [{ id: 'c1' }] });
+    await outbox.enqueue({ op: 'delete', table: 'sessions', match: [{ id: 's1' }] });
+    const [first] = await outbox.getOperations();
+
+    await outbox.ack(first!.id);
+
+    const operations = await outbox.getOperations();
+    expect(operations).toHaveLength(1);
+    expect(operations[0]!.table).toBe('sessions');
+  });
+
+  it('should back off exponentially and keep the operation however often it fails', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'clubs', records: [{ id: 'c1' }] });
+    const [operation] = await outbox.getOperations();
+
+    await outbox.fail(operation!.id, 'Network request failed');
+    const [afterFirst] = await outbox.getOperations();
+    expect(afterFirst!.attempts).toBe(1);
+    expect(afterFirst!.last_error).toBe('Network request failed');
+    expect(outbox.isReady(afterFirst!)).toBe(false);
+    expect(outbox.isReady(afterFirst!, Date.now() + 5000)).toBe(true);
+
+    await outbox.fail(operation!.id, 'Network request failed');
+    const [afterSecond] = await outbox.getOperations();
+    expect(outbox.isReady(afterSecond!, Date.now() + 5000)).toBe(false);
+
+    for (let i = 2; i < 12; i++) {
+      await outbox.fail(operation!.id, 'Network request failed');
+    }
+    const [afterOffline] = await outbox.getOperations();
+    expect(afterOffline).toMatchObject({ id: operation!.id, attempts: 12, records: [{ id: 'c1' }] });
+    // Retried at least every 10 minutes
+    expect(outbox.isReady(afterOffline!, Date.now() + 10 * 60 * 1000)).toBe(true);
+  });
+
+  it('should not fold new writes into an operation that already failed', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'clubs', records: [{ id: 'c1' }] });
+    const [operation] = await outbox.getOperations();
+    await outbox.fail(operation!.id, 'timeout');
+
+    await outbox.enqueue({ op: 'upsert', table: 'clubs', records: [{ id: 'c2' }] });
+
+    expect(await outbox.getOperations()).toHaveLength(2);
+  });
+});
+
+describe('Outbox - Club Remapping and Pending Keys', () => {
+  it('should point queued writes to the server ID of an offline club', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'clubs', records: [{ id: 'local-1', name: 'Club' }] });
+    await outbox.enqueue({ op: 'upsert', table: 'sessions', records: [{ id: 's1', club_id: 'local-1' }] });
+    await outbox.enqueue({ op: 'delete', table: 'participants', match: [{ club_id: 'local-1' }] });
+
+    await outbox.remapClubId('local-1', 'server-1');
+
+    const operations: any[] = await outbox.getOperations();
+    expect(operations[0].records[0].id).toBe('server-1');
+    expect(operations[1].records[0].club_id).toBe('server-1');
+    expect(operations[2].match).toEqual([{ club_id: 'server-1' }]);
+  });
+
+  it('should report pending rows by table using natural keys', async () => {
+    await outbox.enqueue({ op: 'upsert', table: 'attendance', records: [{ participant_id: 'p1', session_id: 's1', date: '2024-01-01' }] });
+    await outbox.enqueue({ op: 'replace_participant_sessions', table: 'participant_sessions', participant_id: 'p2', records: [] });
+    await outbox.enqueue({ op: 'delete', table: 'sessions', match: [{ id: 's9' }] });
+
+    const pending = await outbox.getPendingKeys();
+    expect(pending.attendance.has('p1|s1|2024-01-01')).toBe(true);
+    expect(pending.participant_sessions.has('p2')).toBe(true);
+    expect(pending.sessions.has('s9')).toBe(true);
+    expect(pending.participants.size).toBe(0);
+  });
+});
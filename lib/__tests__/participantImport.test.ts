@@ -0,0 +1,51 @@
+import { getParticipantHashId, Session } from '../dataService';
+import { findImportedSession, getImportableRows, parseCsv, parseParticipantImport } from '../participantImport';
+
+describe('participantImport', () => {
+  const sessions: Session[] = [
+    { id: 'session-1', club_id: 'club-123', day_of_week: 1, start_time: '18:00', end_time: '19:00' },
+    { id: 'session-2', club_id: 'club-123', day_of_week: 3, start_time: '09:30', end_time: '10:30' },
+    { id: 'session-3', club_id: 'club-123', day_of_week: 5, start_time: '18:00', end_time: '19:00', archived_at: '2024-10-01T00:00:00Z' },
+  ];
+
+  it('should read commas or semicolons, quoted cells and a byte order mark', () => {
+    expect(parseCsv('\uFEFFJean,Dupont\r\nMarie,Martin\n')).toEqual([['Jean', 'Dupont'], ['Marie', 'Martin']]);
+    expect(parseCsv('Prénom;Nom\n"Jean; ""JJ""";Dupont')).toEqual([['Prénom', 'Nom'], ['Jean; "JJ"', 'Dupont']]);
+  });
+
+  it('should find active sessions by day and start time, in English or French', () => {
+    expect(findImportedSession('Monday 18:00', sessions)?.id).toBe('session-1');
+    expect(findImportedSession('lundi 18h', sessions)?.id).toBe('session-1');
+    expect(findImportedSession('Mercredi 9h30', sessions)?.id).toBe('session-2');
+    expect(findImportedSession('Friday 18:00', sessions)).toBeUndefined(); // Archived
+    expect(findImportedSession('Tuesday', sessions)).toBeUndefined();
+  });
+
+  it('should flag invalid lines and duplicates with the participant hash', () => {
+    const existing = [{ id: getParticipantHashId({ club_id: 'club-123', first_name: 'Paul', last_name: 'Durand' }) }];
+    const rows = parseParticipantImport(
+      [
+        'First name,Last name,Sessions',
+        'Jean,Dupont,Monday 18:00|Wednesday 09:30',
+        ' paul , DURAND ',
+        ',Martin',
+        'Marie,Curie,Sunday 10:00',
+        '',
+        'JEAN,dupont',
+      ].join('\n'),
+      'club-123',
+      sessions,
+      existing
+    );
+
+    expect(rows.map(row => [row.line, row.errors.map(e => e.value ?? e.key), row.duplicate])).toEqual([
+      [2, [], null],
+      [3, [], 'existing'],
+      [4, ['importParticipants.nameRequired'], null],
+      [5, ['Sunday 10:00'], null],
+      [7, [], 'file'],
+    ]);
+    expect(rows[0]?.session_ids).toEqual(['session-1', 'session-2']);
+    expect(getImportableRows(rows).map(row => row.first_name)).toEqual(['Jean']);
+  });
+});
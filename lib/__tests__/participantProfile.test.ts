@@ -0,0 +1,41 @@
+import { getProfileChanges, getProfileForm, isCertificateExpired, validateProfileForm } from '../participantProfile';
+
+describe('participantProfile', () => {
+  const today = '2024-10-15';
+
+  it('should fill the form from a participant, empty for fields never set', () => {
+    const form = getProfileForm({ first_name: 'Jean', licence_number: 'FR-1234', notes: null });
+
+    expect(form.licence_number).toBe('FR-1234');
+    expect(form.notes).toBe('');
+    expect(form.birth_date).toBe('');
+    expect(getProfileForm().guardian_email).toBe('');
+  });
+
+  it('should accept an empty form and reject invalid dates and emails', () => {
+    const form = getProfileForm();
+
+    expect(validateProfileForm(form, today)).toBeNull();
+    expect(validateProfileForm({ ...form, birth_date: '2010-05-03', guardian_email: 'parent@example.com' }, today)).toBeNull();
+    expect(validateProfileForm({ ...form, birth_date: '03/05/2010' }, today)).toBe('participantProfile.invalidDate');
+    expect(validateProfileForm({ ...form, medical_certificate_expiry: '2025-13-45' }, today)).toBe('participantProfile.invalidDate');
+    expect(validateProfileForm({ ...form, birth_date: '2024-02-31' }, today)).toBe('participantProfile.invalidDate');
+    expect(validateProfileForm({ ...form, birth_date: '2024-12-01' }, today)).toBe('participantProfile.birthDateInFuture');
+    expect(validateProfileForm({ ...form, guardian_email: 'parent@example' }, today)).toBe('participantProfile.invalidEmail');
+  });
+
+  it('should trim the values and clear the empty ones', () => {
+    const changes = getProfileChanges({ ...getProfileForm(), guardian_name: '  Marie Dupont ', notes: '   ' });
+
+    expect(changes.guardian_name).toBe('Marie Dupont');
+    expect(changes.notes).toBeNull();
+    expect(changes.birth_date).toBeNull();
+  });
+
+  it('should flag certificates that ended before today only', () => {
+    expect(isCertificateExpired({ medical_certificate_expiry: '2024-10-14' }, today)).toBe(true);
+    expect(isCertificateExpired({ medical_certificate_expiry: '2024-10-15' }, today)).toBe(false);
+    expect(isCertificateExpired({ medical_certificate_expiry: null }, today)).toBe(false);
+    expect(isCertificateExpired({}, today)).toBe(false);
+  });
+});
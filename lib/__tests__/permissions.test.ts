@@ -0,0 +1,48 @@
+import { authManager } from '../authManager';
+import { dataService } from '../dataService';
+import { can, getClubRole, resolveClubRole } from '../permissions';
+
+jest.mock('../authManager', () => ({
+  authManager: {
+    getUserId: jest.fn(),
+  },
+}));
+
+jest.mock('../dataService', () => ({
+  dataService: {
+    getMemberRole: jest.fn(),
+  },
+}));
+
+describe('Permissions - Roles', () => {
+  it('should give each role its permissions', () => {
+    expect(can('owner', 'manageClub')).toBe(true);
+    expect(can('coach', 'manageClub')).toBe(false);
+    expect(can('coach', 'manageSessions')).toBe(false);
+    expect(can('coach', 'editParticipants')).toBe(true);
+    expect(can('coach', 'takeAttendance')).toBe(true);
+    expect(can('viewer', 'takeAttendance')).toBe(false);
+    expect(can('viewer', 'viewStats')).toBe(true);
+  });
+
+  it('should treat the club owner and local-only users as owners', () => {
+    expect(resolveClubRole({ owner_id: 'user-1' }, 'user-1', null)).toBe('owner');
+    expect(resolveClubRole({ owner_id: 'user-1' }, null, 'viewer')).toBe('owner');
+    expect(resolveClubRole({}, 'user-2', null)).toBe('owner');
+  });
+
+  it('should use the member role, coaches by default', () => {
+    expect(resolveClubRole({ owner_id: 'user-1' }, 'user-2', 'viewer')).toBe('viewer');
+    expect(resolveClubRole({ owner_id: 'user-1' }, 'user-2', null)).toBe('coach');
+    // Stale owner role after the club changed hands
+    expect(resolveClubRole({ owner_id: 'user-1' }, 'user-2', 'owner')).toBe('coach');
+  });
+
+  it('should read the stored role of the signed-in user', async () => {
+    (authManager.getUserId as jest.Mock).mockResolvedValue('user-2');
+    (dataService.getMemberRole as jest.Mock).mockResolvedValue('viewer');
+
+    expect(await getClubRole({ id: 'club-1', owner_id: 'user-1' })).toBe('viewer');
+    expect(dataService.getMemberRole).toHaveBeenCalledWith('club-1');
+  });
+});
@@ -0,0 +1,61 @@
+import type { AttendanceRecord, Closure, Session } from '../dataService';
+import { AttendanceStatus, DEFAULT_STATUS_RULES } from '../attendanceStatus';
+import { buildRegisterHtml, getMonthRange, getRegisterDates } from '../register';
+
+describe('register', () => {
+  // Mondays
+  const session: Session = { id: 'session-1', club_id: 'club-123', day_of_week: 1, start_time: '18:00', end_time: '19:00' };
+  const record = (participant: string, date: string, status: AttendanceStatus): AttendanceRecord => ({
+    id: `${participant}-${date}`,
+    session_id: session.id,
+    participant_id: participant,
+    date,
+    status,
+    present: status === 'present',
+  });
+
+  it('should cover whole months, leap years included', () => {
+    expect(getMonthRange('2024-02')).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+    expect(getMonthRange('2024-12')).toEqual({ from: '2024-12-01', to: '2024-12-31' });
+  });
+
+  it('should list the scheduled dates of the month, minus cancellations, plus recorded ones', () => {
+    const closures: Closure[] = [{ id: 'closure-1', club_id: 'club-123', session_id: session.id, start_date: '2024-10-21', end_date: '2024-10-21' }];
+    const attendance = [record('participant-1', '2024-10-19', 'present')]; // Moved to a Saturday
+
+    expect(getRegisterDates(session, '2024-10', attendance, closures))
+      .toEqual(['2024-10-07', '2024-10-14', '2024-10-19', '2024-10-28']);
+  });
+
+  it('should mark outcomes, count totals and escape names', () => {
+    const t = (key: string) => ({
+      'register.marks.attended': 'P',
+      'register.marks.excused': 'E',
+      'register.marks.missed': 'A',
+    } as Record<string, string>)[key] ?? key;
+
+    const html = buildRegisterHtml({
+      clubName: 'Judo <Club>',
+      sessionLabel: 'Monday 18:00-19:00',
+      monthLabel: 'October 2024',
+      dates: ['2024-10-07', '2024-10-14'],
+      participants: [
+        { id: 'participant-1', first_name: 'Jean', last_name: 'Dupont' },
+        { id: 'participant-2', first_name: 'Marie', last_name: "O'Neil" },
+      ],
+      attendance: [
+        record('participant-1', '2024-10-07', 'present'),
+        record('participant-1', '2024-10-14', 'excused'),
+        record('participant-2', '2024-10-07', 'late'),
+      ],
+      rules: DEFAULT_STATUS_RULES,
+      t,
+    });
+
+    expect(html).toContain('Judo &lt;Club&gt;');
+    expect(html).toContain('<td class="name">DUPONT Jean</td><td class="mark">P</td><td class="mark">E</td><td class="total">1</td>');
+    expect(html).toContain('<td class="name">O&#39;NEIL Marie</td><td class="mark">P</td><td class="mark"></td><td class="total">1</td>');
+    expect(html).toContain('<td class="total">2</td><td class="total">0</td>');
+    expect(html).toContain('register.coachSignature');
+  });
+});
@@ -0,0 +1,189 @@
+import type { Closure } from '../dataService';
+import {
+  addDays,
+  compareSessions,
+  expandSessions,
+  getOccurrenceClosure,
+  getOccurrenceDates,
+  getOccurrenceStart,
+  getSessionDatesLabel,
+  getSessionPlaceLabel,
+  getWeekday,
+  getLegacyDayNames,
+  isOneOffSession,
+  isSessionActiveOn,
+  isValidDateString,
+  parseWeekday,
+  toDateString,
+} from '../sessionSchedule';
+
+describe('sessionSchedule', () => {
+  const weekly = { start_date: null, end_date: null };
+  const season = { start_date: '2024-09-01', end_date: '2025-06-30' };
+  const oneOff = { start_date: '2024-11-16', end_date: '2024-11-16' };
+  const t = (key: string) => ({
+    'club.sessionOn': 'on {{date}}',
+    'club.sessionFrom': 'from {{date}}',
+    'club.sessionUntil': 'until {{date}}',
+    'club.sessionCapacity': '{{count}} spots',
+  } as Record<string, string>)[key] ?? key;
+
+  it('should only treat sessions starting and ending the same day as one-off', () => {
+    expect(isOneOffSession(oneOff)).toBe(true);
+    expect(isOneOffSession(season)).toBe(false);
+    expect(isOneOffSession(weekly)).toBe(false);
+    expect(isOneOffSession({})).toBe(false);
+  });
+
+  it('should run undated sessions every date', () => {
+    expect(isSessionActiveOn(weekly, '1999-01-01')).toBe(true);
+    expect(isSessionActiveOn({}, '2099-12-31')).toBe(true);
+  });
+
+  it('should include both bounds of a season', () => {
+    expect(isSessionActiveOn(season, '2024-08-31')).toBe(false);
+    expect(isSessionActiveOn(season, '2024-09-01')).toBe(true);
+    expect(isSessionActiveOn(season, '2025-06-30')).toBe(true);
+    expect(isSessionActiveOn(season, '2025-07-01')).toBe(false);
+    expect(isSessionActiveOn({ start_date: '2024-09-01' }, '2030-01-01')).toBe(true);
+  });
+
+  it('should run a one-off session only on its date', () => {
+    expect(isSessionActiveOn(oneOff, '2024-11-16')).toBe(true);
+    expect(isSessionActiveOn(oneOff, '2024-11-23')).toBe(false);
+  });
+
+  it('should cancel an occurrence on its own date or during a club closure', () => {
+    const cancelled: Closure = { id: 'c1', club_id: 'club-1', session_id: 'session-1', start_date: '2024-11-11', end_date: '2024-11-11' };
+    const holidays: Closure = { id: 'c2', club_id: 'club-1', session_id: null, start_date: '2024-12-21', end_date: '2025-01-05' };
+    const closures = [cancelled, holidays];
+
+    expect(getOccurrenceClosure(closures, 'session-1', '2024-11-11')).toBe(cancelled);
+    expect(getOccurrenceClosure(closures, 'session-2', '2024-11-11')).toBeUndefined();
+    expect(getOccurrenceClosure(closures, 'session-1', '2024-11-18')).toBeUndefined();
+    expect(getOccurrenceClosure(closures, 'session-2', '2024-12-21')).toBe(holidays);
+    expect(getOccurrenceClosure(closures, 'session-2', '2025-01-05')).toBe(holidays);
+    expect(getOccurrenceClosure(closures, 'session-2', '2025-01-06')).toBeUndefined();
+  });
+
+  it('should describe the dates of a session', () => {
+    expect(getSessionDatesLabel(weekly, t)).toBe('');
+    expect(getSessionDatesLabel(oneOff, t)).toBe('on 2024-11-16');
+    expect(getSessionDatesLabel(season, t)).toBe('from 2024-09-01 until 2025-06-30');
+    expect(getSessionDatesLabel({ end_date: '2025-06-30' }, t)).toBe('until 2025-06-30');
+  });
+
+  it('should describe the place of a session', () => {
+    expect(getSessionPlaceLabel({}, t)).toBe('');
+    expect(getSessionPlaceLabel({ location: 'Dojo 2', capacity: null }, t)).toBe('Dojo 2');
+    expect(getSessionPlaceLabel({ capacity: 12 }, t)).toBe('12 spots');
+    expect(getSessionPlaceLabel({ location: 'Dojo 2', capacity: 12 }, t)).toBe('Dojo 2 · 12 spots');
+  });
+
+  it('should read the canonical day code and the day names older versions stored', () => {
+    expect(parseWeekday('Lundi')).toBe(1);
+    expect(parseWeekday('monday')).toBe(1);
+    expect(parseWeekday('DIMANCHE')).toBe(7);
+    expect(parseWeekday(' Sunday ')).toBe(7);
+    expect(parseWeekday(3)).toBe(3);
+    expect(parseWeekday('6')).toBe(6);
+    expect(parseWeekday(0)).toBeNull();
+    expect(parseWeekday('8')).toBeNull();
+    expect(parseWeekday('Funday')).toBeNull();
+    expect(parseWeekday(null)).toBeNull();
+    expect(getLegacyDayNames(7)).toEqual(['Dimanche', 'Sunday']);
+  });
+
+  it('should do date arithmetic on calendar dates', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(getWeekday('2024-11-11')).toBe(1);
+    expect(getWeekday('2024-11-17')).toBe(7);
+  });
+
+  it('should only accept dates that exist', () => {
+    expect(isValidDateString('2024-02-29')).toBe(true);
+    expect(isValidDateString('2024-12-31')).toBe(true);
+    expect(isValidDateString('2023-02-29')).toBe(false);
+    expect(isValidDateString('2024-02-31')).toBe(false);
+    expect(isValidDateString('2024-04-31')).toBe(false);
+    expect(isValidDateString('2024-13-01')).toBe(false);
+    expect(isValidDateString('2024-00-10')).toBe(false);
+    expect(isValidDateString('2024-1-5')).toBe(false);
+    expect(isValidDateString('')).toBe(false);
+  });
+
+  it('should give the calendar date in a timezone', () => {
+    // Saturday 23:30 UTC is already Sunday in Paris
+    expect(toDateString(new Date('2024-03-30T23:30:00Z'), 'Europe/Paris')).toBe('2024-03-31');
+    expect(toDateString(new Date('2024-03-30T23:30:00Z'), 'UTC')).toBe('2024-03-30');
+    expect(toDateString(new Date(2024, 2, 31, 0, 30))).toBe('2024-03-31');
+  });
+
+  it('should expand a weekly session over a range', () => {
+    expect(getOccurrenceDates({ day_of_week: 'Mercredi' }, '2024-11-01', '2024-11-30'))
+      .toEqual(['2024-11-06', '2024-11-13', '2024-11-20', '2024-11-27']);
+    expect(getOccurrenceDates({ day_of_week: 'Wednesday' }, '2024-11-06', '2024-11-06')).toEqual(['2024-11-06']);
+    expect(getOccurrenceDates({ day_of_week: 'Wednesday' }, '2024-11-07', '2024-11-12')).toEqual([]);
+    expect(getOccurrenceDates({ day_of_week: 'Funday' }, '2024-11-01', '2024-11-30')).toEqual([]);
+  });
+
+  it('should keep weekly sessions on their weekday across DST changes', () => {
+    // Clocks change on 2024-03-31 and 2024-10-27 in Europe
+    expect(getOccurrenceDates({ day_of_week: 'Dimanche' }, '2024-03-20', '2024-04-10'))
+      .toEqual(['2024-03-24', '2024-03-31', '2024-04-07']);
+    expect(getOccurrenceDates({ day_of_week: 'Sunday' }, '2024-10-20', '2024-11-03'))
+      .toEqual(['2024-10-20', '2024-10-27', '2024-11-03']);
+
+    const start = getOccurrenceStart('2024-03-31', '18:30');
+    expect(toDateString(start)).toBe('2024-03-31');
+    expect(start.getHours()).toBe(18);
+    expect(start.getMinutes()).toBe(30);
+  });
+
+  it('should only expand a session within its season or on its one-off date', () => {
+    expect(getOccurrenceDates({ ...season, day_of_week: 'Monday' }, '2024-08-20', '2024-09-10'))
+      .toEqual(['2024-09-02', '2024-09-09']);
+    expect(getOccurrenceDates({ ...season, day_of_week: 'Monday' }, '2025-07-01', '2025-07-31')).toEqual([]);
+    // The date wins over a day_of_week that doesn't match it
+    expect(getOccurrenceDates({ ...oneOff, day_of_week: 'Monday' }, '2024-11-01', '2024-11-30')).toEqual(['2024-11-16']);
+    expect(getOccurrenceDates({ ...oneOff, day_of_week: 'Saturday' }, '2024-11-17', '2024-11-30')).toEqual([]);
+  });
+
+  it('should sort occurrences by date and time and leave cancelled ones out', () => {
+    const evening = { id: 'evening', day_of_week: 'Tuesday', start_time: '19:00' };
+    const morning = { id: 'morning', day_of_week: 'Mardi', start_time: '09:00' };
+    const friday = { id: 'friday', day_of_week: '5', start_time: '08:00' };
+    const closures: Closure[] = [
+      { id: 'c1', club_id: 'club-1', session_id: 'evening', start_date: '2024-11-12', end_date: '2024-11-12' },
+    ];
+
+    const occurrences = expandSessions([evening, friday, morning], '2024-11-11', '2024-11-19', closures);
+
+    expect(occurrences.map(o => `${o.date} ${o.session.id}`)).toEqual([
+      '2024-11-12 morning',
+      '2024-11-15 friday',
+      '2024-11-19 morning',
+      '2024-11-19 evening',
+    ]);
+  });
+
+  it('should sort sessions from Monday whatever language their day is stored in', () => {
+    const sessions = [
+      { day_of_week: 'Sunday', start_time: '10:00' },
+      { day_of_week: 'Funday', start_time: '08:00' },
+      { day_of_week: 'Lundi', start_time: '18:00' },
+      { day_of_week: 'Monday', start_time: '09:00' },
+      { day_of_week: 'Mercredi', start_time: '12:00' },
+    ];
+
+    expect(sessions.sort(compareSessions).map(s => `${s.day_of_week} ${s.start_time}`)).toEqual([
+      'Monday 09:00',
+      'Lundi 18:00',
+      'Mercredi 12:00',
+      'Sunday 10:00',
+      'Funday 08:00',
+    ]);
+  });
+});
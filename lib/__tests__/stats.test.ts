@@ -0,0 +1,73 @@
+import type { AttendanceRecord, Closure, Season, Session } from '../dataService';
+import { AttendanceStatus, DEFAULT_STATUS_RULES } from '../attendanceStatus';
+import { getPeriodRange, getSessionReport, isDateInRange } from '../stats';
+
+describe('stats', () => {
+  const season: Season = {
+    id: 'season-123',
+    club_id: 'club-123',
+    name: '2024-2025',
+    start_date: '2024-09-01',
+    end_date: '2025-06-30',
+  };
+
+  it('should cover the dates of each period', () => {
+    expect(getPeriodRange({ kind: 'month' }, '2024-10-19')).toEqual({ from: '2024-10-01', to: '2024-10-19' });
+    expect(getPeriodRange({ kind: 'last30' }, '2024-10-19')).toEqual({ from: '2024-09-20', to: '2024-10-19' });
+    expect(getPeriodRange({ kind: 'season', season }, '2024-10-19')).toEqual({ from: '2024-09-01', to: '2025-06-30' });
+    expect(getPeriodRange({ kind: 'custom', from: '2024-10-01', to: '2024-10-05' }, '2024-10-19')).toEqual({ from: '2024-10-01', to: '2024-10-05' });
+    expect(getPeriodRange({ kind: 'all' }, '2024-10-19')).toBeNull();
+  });
+
+  it('should include both ends of a range', () => {
+    const range = { from: '2024-10-01', to: '2024-10-05' };
+
+    expect(isDateInRange('2024-10-01', range)).toBe(true);
+    expect(isDateInRange('2024-10-05', range)).toBe(true);
+    expect(isDateInRange('2024-09-30', range)).toBe(false);
+    expect(isDateInRange('2024-10-06', range)).toBe(false);
+    expect(isDateInRange('2019-01-01', null)).toBe(true);
+  });
+
+  describe('getSessionReport', () => {
+    // Mondays
+    const session: Session = { id: 'session-1', club_id: 'club-123', day_of_week: 1, start_time: '18:00', end_time: '19:00' };
+    const record = (participant: string, date: string, status: AttendanceStatus): AttendanceRecord => ({
+      id: `${participant}-${date}`,
+      session_id: session.id,
+      participant_id: participant,
+      date,
+      status,
+      present: status === 'present',
+    });
+    const attendance = [
+      record('participant-1', '2024-10-07', 'present'),
+      record('participant-2', '2024-10-07', 'present'),
+      record('participant-3', '2024-10-07', 'absent'),
+      record('participant-1', '2024-10-14', 'present'),
+      { ...record('participant-1', '2024-10-07', 'present'), id: 'other', session_id: 'session-2' },
+    ];
+    const range = { from: '2024-10-01', to: '2024-10-31' };
+
+    it('should average turnout over the dates attendance was taken', () => {
+      const report = getSessionReport(session, attendance, 4, [], DEFAULT_STATUS_RULES, range, '2024-10-19');
+
+      expect(report.dates).toEqual([
+        { date: '2024-10-14', present: 1, taken: true },
+        { date: '2024-10-07', present: 2, taken: true },
+      ]);
+      expect(report.averageTurnout).toBe(1.5);
+      expect(report.fillRate).toBe(37.5);
+      expect(report.missingDates).toEqual([]);
+    });
+
+    it('should list the dates attendance was never taken, cancellations aside', () => {
+      const closures: Closure[] = [{ id: 'closure-1', club_id: 'club-123', session_id: session.id, start_date: '2024-10-21', end_date: '2024-10-21' }];
+
+      const report = getSessionReport(session, attendance, 0, closures, DEFAULT_STATUS_RULES, range, '2024-10-31');
+
+      expect(report.missingDates).toEqual(['2024-10-28']);
+      expect(report.fillRate).toBeNull();
+    });
+  });
+});
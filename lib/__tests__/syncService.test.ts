@@ -8,6 +8,8 @@ import { dataService } from '../dataService';
 jest.mock('../supabase', () => ({
   supabase: {
     from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
     auth: {
       getSession: jest.fn(),
       getUser: jest.fn(),
@@ -24,9 +26,21 @@ jest.mock('../authManager', () => ({
 jest.mock('../dataService', () => ({
   dataService: {
     getClubs: jest.fn(),
+    getClub: jest.fn(),
     getSessions: jest.fn(),
     getParticipants: jest.fn(),
+    getDeletedIds: jest.fn().mockResolvedValue([]),
+    clearDeletedMarks: jest.fn().mockResolvedValue(undefined),
+    migrateLongTermSickFlags: jest.fn().mockResolvedValue(undefined),
+    migrateSessionWeekdays: jest.fn().mockResolvedValue(undefined),
+    migrateStatsResetDates: jest.fn().mockResolvedValue(undefined),
+    purgeLocalClub: jest.fn().mockResolvedValue(undefined),
+    getMemberRole: jest.fn().mockResolvedValue(null),
+    saveMemberRoles: jest.fn().mockResolvedValue(undefined),
   },
+  getSessionContentKey: jest.requireActual('../dataService').getSessionContentKey,
+  getSessionHashId: jest.requireActual('../dataService').getSessionHashId,
+  isSessionHashId: jest.requireActual('../dataService').isSessionHashId,
 }));
 
 // Helper to create a valid UUID
@@ -38,6 +52,45 @@ const generateUUID = () => {
   });
 };
 
+// In-memory AsyncStorage so queued writes survive between calls
+const useMemoryStorage = (initial: Record<string, string> = {}) => {
+  const store = new Map<string, string>(Object.entries(initial));
+  (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => Promise.resolve(store.get(key) ?? null));
+  (AsyncStorage.setItem as jest.Mock).mockImplementation((key, value) => {
+    store.set(key, value);
+    return Promise.resolve();
+  });
+  (AsyncStorage.removeItem as jest.Mock).mockImplementation((key) => {
+    store.delete(key);
+    return Promise.resolve();
+  });
+  return store;
+};
+
+type Call = { table: string; method: string; args: any[] };
+
+// Chainable query builder resolving to the result for its table and write method
+const mockSupabaseCalls = (results: Record<string, { data?: any; error: any }> = {}) => {
+  const calls: Call[] = [];
+  (supabase.from as jest.Mock).mockImplementation((table: string) => {
+    let write = 'select';
+    const query: any = {};
+    for (const method of ['select', 'in', 'eq', 'gte', 'not', 'match', 'order', 'range', 'limit', 'single', 'insert', 'upsert', 'delete']) {
+      query[method] = jest.fn((...args: any[]) => {
+        calls.push({ table, method, args });
+        if (['insert', 'upsert', 'delete'].includes(method)) write = method;
+        return query;
+      });
+    }
+    query.then = (resolve: any, reject: any) => {
+      const result = results[`${table}.${write}`] || { data: table === 'clubs' && write === 'select' ? [mockClub] : [], error: null };
+      return Promise.resolve(result).then(resolve, reject);
+    };
+    return query;
+  });
+  return calls;
+};
+
 // Sample test data
 const mockSession = {
   user: { id: 'user-123' },
@@ -99,6 +152,7 @@ beforeEach(() => {
   (syncService as any).hasCleanedLocalDuplicates = true; // Skip local cleanup in tests
 });
 
+// Local data stored before the outbox existed is queued on the first sync, then replayed
 describe('SyncService - Batch Upload Optimization', () => {
   
   it('should batch upsert sessions instead of individual uploads', async () => {
@@ -127,12 +181,11 @@ describe('SyncService - Batch Upload Optimization', () => {
     }));
     
     // Setup AsyncStorage
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') return Promise.resolve('[]');
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') return Promise.resolve(JSON.stringify([mockServerSession1, mockServerSession2]));
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': '[]',
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': JSON.stringify([mockServerSession1, mockServerSession2]),
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
@@ -171,12 +224,11 @@ describe('SyncService - Batch Upload Optimization', () => {
       eq: jest.fn().mockResolvedValue({ data: null, error: null }),
     }));
     
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') return Promise.resolve('[]');
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') return Promise.resolve('[]');
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': '[]',
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': '[]',
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
@@ -214,12 +266,11 @@ describe('SyncService - Strip Local-Only Fields', () => {
       eq: jest.fn().mockResolvedValue({ data: null, error: null }),
     }));
     
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') return Promise.resolve('[]');
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') return Promise.resolve('[]');
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': '[]',
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': '[]',
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
@@ -281,16 +332,11 @@ describe('SyncService - Participant Sessions Deduplication', () => {
       eq: jest.fn().mockResolvedValue({ data: null, error: null }),
     }));
     
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') {
-        return Promise.resolve(JSON.stringify(duplicatePSList));
-      }
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') {
-        return Promise.resolve(JSON.stringify([mockServerSession1]));
-      }
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': JSON.stringify(duplicatePSList),
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': JSON.stringify([mockServerSession1]),
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
@@ -352,16 +398,11 @@ describe('SyncService - Foreign Key Validation', () => {
       eq: jest.fn().mockResolvedValue({ data: null, error: null }),
     }));
     
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') {
-        return Promise.resolve(JSON.stringify(psList));
-      }
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') {
-        return Promise.resolve(JSON.stringify([mockServerSession1]));
-      }
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': JSON.stringify(psList),
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': JSON.stringify([mockServerSession1]),
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
@@ -419,16 +460,11 @@ describe('SyncService - Foreign Key Validation', () => {
       eq: jest.fn().mockResolvedValue({ data: null, error: null }),
     }));
     
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') {
-        return Promise.resolve(JSON.stringify(psList));
-      }
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') {
-        return Promise.resolve(JSON.stringify([mockServerSession1]));
-      }
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': JSON.stringify(psList),
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': JSON.stringify([mockServerSession1]),
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
@@ -539,48 +575,25 @@ describe('SyncService - Orphan Filtering in Merge', () => {
       },
     ];
     
-    let mergedPS: any[] = [];
-    
-    (supabase.from as jest.Mock).mockImplementation((table) => ({
-      select: jest.fn().mockReturnThis(),
-      in: jest.fn().mockImplementation(() => {
-        if (table === 'participant_sessions') {
-          return Promise.resolve({ data: serverPSList, error: null });
-        }
-        return Promise.resolve({ data: [], error: null });
-      }),
-      order: jest.fn().mockImplementation(() => {
-        if (table === 'clubs') return Promise.resolve({ data: [mockClub], error: null });
-        if (table === 'participants') return Promise.resolve({ data: [mockParticipant1], error: null });
-        if (table === 'sessions') return Promise.resolve({ data: [mockServerSession1], error: null });
-        return Promise.resolve({ data: [], error: null });
-      }),
-      upsert: jest.fn(() => Promise.resolve({ data: null, error: null })),
-      delete: jest.fn().mockReturnThis(),
-      eq: jest.fn().mockResolvedValue({ data: null, error: null }),
-    }));
-    
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') {
-        return Promise.resolve(JSON.stringify([serverPSList[0]])); // Only valid one locally
-      }
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') {
-        return Promise.resolve(JSON.stringify([mockServerSession1]));
-      }
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    mockSupabaseCalls({
+      'participants.select': { data: [mockParticipant1], error: null },
+      'sessions.select': { data: [mockServerSession1], error: null },
+      'participant_sessions.select': { data: serverPSList, error: null },
     });
     
-    (AsyncStorage.setItem as jest.Mock).mockImplementation((key, value) => {
-      if (key === '@presence_app:participant_sessions') {
-        mergedPS = JSON.parse(value);
-      }
-      return Promise.resolve();
+    const store = useMemoryStorage({
+      '@presence_app:outbox_seeded': 'true',
+      '@presence_app:participant_sessions': JSON.stringify([serverPSList[0]]), // Only valid one locally
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': JSON.stringify([mockServerSession1]),
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
 
+    const mergedPS: any[] = JSON.parse(store.get('@presence_app:participant_sessions')!);
+    expect(mergedPS).toHaveLength(1);
+
     // Verify orphaned PS was filtered out
     const orphanInMerged = mergedPS.find(ps => ps.session_id === orphanedSessionId);
     expect(orphanInMerged).toBeUndefined();
@@ -595,43 +608,21 @@ describe('SyncService - Parallel Query Optimization', () => {
     (dataService.getSessions as jest.Mock).mockResolvedValue([]);
     (dataService.getParticipants as jest.Mock).mockResolvedValue([]);
     
-    const queryOrder: string[] = [];
-    
-    (supabase.from as jest.Mock).mockImplementation((table) => {
-      return {
-        select: jest.fn().mockImplementation(() => {
-          queryOrder.push(`select:${table}`);
-          return {
-            in: jest.fn().mockImplementation(() => {
-              queryOrder.push(`in:${table}`);
-              return Promise.resolve({ data: [], error: null });
-            }),
-            order: jest.fn().mockImplementation(() => {
-              queryOrder.push(`order:${table}`);
-              return Promise.resolve({ data: table === 'clubs' ? [mockClub] : [], error: null });
-            }),
-          };
-        }),
-        upsert: jest.fn(() => Promise.resolve({ data: null, error: null })),
-        delete: jest.fn().mockReturnThis(),
-        eq: jest.fn().mockResolvedValue({ data: null, error: null }),
-      };
-    });
+    const calls = mockSupabaseCalls();
     
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') return Promise.resolve('[]');
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') return Promise.resolve('[]');
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': '[]',
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': '[]',
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
 
-    // Sessions and participants queries should be initiated close together (parallel)
-    // This is hard to test precisely, but we verify both are called
-    expect(queryOrder).toContain('in:sessions');
-    expect(queryOrder).toContain('in:participants');
+    // Every table of the club is requested, filtered on the club
+    expect(calls).toContainEqual({ table: 'sessions', method: 'eq', args: ['club_id', mockClub.id] });
+    expect(calls).toContainEqual({ table: 'participants', method: 'eq', args: ['club_id', mockClub.id] });
+    expect(calls).toContainEqual({ table: 'attendance', method: 'eq', args: ['participants.club_id', mockClub.id] });
   });
 });
 
@@ -677,16 +668,11 @@ describe('SyncService - Remove ID from participant_sessions upsert', () => {
       eq: jest.fn().mockResolvedValue({ data: null, error: null }),
     }));
     
-    (AsyncStorage.getItem as jest.Mock).mockImplementation((key) => {
-      if (key === '@presence_app:participant_sessions') {
-        return Promise.resolve(JSON.stringify([psWithId]));
-      }
-      if (key === '@presence_app:attendance') return Promise.resolve('[]');
-      if (key === '@presence_app:sessions') {
-        return Promise.resolve(JSON.stringify([mockServerSession1]));
-      }
-      if (key === '@presence_app:deleted_items') return Promise.resolve('{}');
-      return Promise.resolve(null);
+    useMemoryStorage({
+      '@presence_app:participant_sessions': JSON.stringify([psWithId]),
+      '@presence_app:attendance': '[]',
+      '@presence_app:sessions': JSON.stringify([mockServerSession1]),
+      '@presence_app:deleted_items': '{}',
     });
 
     await syncService.syncNow();
@@ -697,3 +683,486 @@ describe('SyncService - Remove ID from participant_sessions upsert', () => {
     }
   });
 });
+
+describe('SyncService - Outbox Replay', () => {
+  const queued = (op: any, index: number) => ({
+    id: `op-${index}`,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    next_attempt_at: null,
+    last_error: null,
+    ...op,
+  });
+
+  const useOutbox = (ops: any[]) => useMemoryStorage({
+    '@presence_app:outbox_seeded': 'true',
+    '@presence_app:outbox': JSON.stringify(ops.map(queued)),
+  });
+
+  beforeEach(() => {
+    (authManager.getSession as jest.Mock).mockResolvedValue(mockSession);
+    (dataService.getClubs as jest.Mock).mockResolvedValue([mockClub]);
+    (dataService.getSessions as jest.Mock).mockResolvedValue([]);
+    (dataService.getParticipants as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should replay queued writes in order and acknowledge them', async () => {
+    const calls = mockSupabaseCalls();
+    const store = useOutbox([
+      { op: 'upsert', table: 'participants', records: [mockParticipant1] },
+      { op: 'delete', table: 'sessions', match: [{ id: mockServerSession1.id }] },
+    ]);
+
+    await syncService.syncNow();
+
+    const writes = calls.filter(c => ['upsert', 'delete'].includes(c.method));
+    expect(writes.map(c => `${c.table}.${c.method}`)).toEqual(['participants.upsert', 'sessions.delete']);
+    expect(calls).toContainEqual({ table: 'sessions', method: 'match', args: [{ id: mockServerSession1.id }] });
+    expect(JSON.parse(store.get('@presence_app:outbox')!)).toEqual([]);
+  });
+
+  it('should stop at a failing write and retry it later with backoff', async () => {
+    const calls = mockSupabaseCalls({
+      'participants.upsert': { error: { message: 'Network request failed' } },
+    });
+    const store = useOutbox([
+      { op: 'upsert', table: 'participants', records: [mockParticipant1] },
+      { op: 'upsert', table: 'leave_periods', records: [{ id: generateUUID(), participant_id: mockParticipant1.id }] },
+    ]);
+
+    await syncService.syncNow();
+
+    // The later write must not overtake the failed one
+    expect(calls.some(c => c.table === 'leave_periods' && c.method === 'upsert')).toBe(false);
+    const remaining = JSON.parse(store.get('@presence_app:outbox')!);
+    expect(remaining).toHaveLength(2);
+    expect(remaining[0].attempts).toBe(1);
+    expect(new Date(remaining[0].next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should drop writes the server rejects permanently and continue', async () => {
+    const calls = mockSupabaseCalls({
+      'participants.upsert': { error: { code: '23503', message: 'violates foreign key constraint' } },
+    });
+    const store = useOutbox([
+      { op: 'upsert', table: 'participants', records: [mockParticipant1] },
+      { op: 'upsert', table: 'sessions', records: [mockServerSession1] },
+    ]);
+
+    await syncService.syncNow();
+
+    expect(calls.some(c => c.table === 'sessions' && c.method === 'upsert')).toBe(true);
+    expect(JSON.parse(store.get('@presence_app:outbox')!)).toEqual([]);
+  });
+
+  it('should upload the server columns only', async () => {
+    const calls = mockSupabaseCalls();
+    const statusRules = { present: 'attended' };
+    useOutbox([
+      { op: 'upsert', table: 'clubs', records: [{ ...mockClub, status_rules: statusRules, stats_reset_date: '2024-01-01' }] },
+      { op: 'upsert', table: 'attendance', records: [{ id: 'att-1', participant_id: mockParticipant1.id, session_id: mockServerSession1.id, date: '2024-10-07', present: true }] },
+    ]);
+
+    await syncService.syncNow();
+
+    const clubUpsert = calls.find(c => c.table === 'clubs' && c.method === 'upsert');
+    expect(clubUpsert?.args[0]).toEqual([{
+      id: mockClub.id,
+      name: mockClub.name,
+      owner_id: mockClub.owner_id,
+      status_rules: statusRules,
+      updated_at: mockClub.updated_at,
+    }]);
+    // The reset date isn't lost: it becomes a season locally
+    expect(dataService.migrateStatsResetDates).toHaveBeenCalled();
+    const attendanceUpsert = calls.find(c => c.table === 'attendance' && c.method === 'upsert');
+    expect(attendanceUpsert?.args[0]).toEqual([{
+      participant_id: mockParticipant1.id,
+      session_id: mockServerSession1.id,
+      date: '2024-10-07',
+      present: true,
+      status: 'present',
+    }]);
+  });
+
+  it('should drop writes PostgREST rejects and continue', async () => {
+    const calls = mockSupabaseCalls({
+      'participants.upsert': { error: { code: 'PGRST204', message: "Could not find the 'nickname' column of 'participants'" } },
+    });
+    const store = useOutbox([
+      { op: 'upsert', table: 'participants', records: [mockParticipant1] },
+      { op: 'upsert', table: 'sessions', records: [mockServerSession1] },
+    ]);
+
+    await syncService.syncNow();
+
+    expect(calls.some(c => c.table === 'sessions' && c.method === 'upsert')).toBe(true);
+    expect(JSON.parse(store.get('@presence_app:outbox')!)).toEqual([]);
+  });
+
+  it('should remove unassigned sessions when replacing participant_sessions', async () => {
+    const calls = mockSupabaseCalls();
+    useOutbox([{
+      op: 'replace_participant_sessions',
+      table: 'participant_sessions',
+      participant_id: mockParticipant1.id,
+      records: [{ id: 'local-ps', participant_id: mockParticipant1.id, session_id: mockServerSession1.id }],
+    }]);
+
+    await syncService.syncNow();
+
+    const upsert = calls.find(c => c.table === 'participant_sessions' && c.method === 'upsert');
+    expect(upsert?.args[0]).toEqual([expect.not.objectContaining({ id: expect.anything() })]);
+    expect(upsert?.args[1]).toEqual({ onConflict: 'participant_id,session_id' });
+    expect(calls).toContainEqual({ table: 'participant_sessions', method: 'not', args: ['session_id', 'in', `(${mockServerSession1.id})`] });
+  });
+
+  it('should upload a club created offline and remap the writes queued under its local id', async () => {
+    const serverClubId = generateUUID();
+    const localClub = { id: 'local-123', name: 'Offline Club' };
+    (dataService.getClub as jest.Mock).mockResolvedValue(localClub);
+    const calls = mockSupabaseCalls({
+      'clubs.select': { data: [], error: null },
+      'clubs.insert': { data: { ...localClub, id: serverClubId }, error: null },
+    });
+    useOutbox([
+      { op: 'upsert', table: 'clubs', records: [localClub] },
+      { op: 'upsert', table: 'sessions', records: [{ ...mockServerSession1, club_id: 'local-123' }] },
+    ]);
+
+    await syncService.syncNow();
+
+    const sessionUpsert = calls.find(c => c.table === 'sessions' && c.method === 'upsert');
+    expect(sessionUpsert?.args[0][0].club_id).toBe(serverClubId);
+  });
+});
+
+describe('SyncService - Field-level Merge', () => {
+  const base = { ...mockParticipant1, first_name: 'Anna', last_name: 'Smith' };
+
+  const useQueuedEdit = (edit: any) => useMemoryStorage({
+    '@presence_app:outbox_seeded': 'true',
+    '@presence_app:outbox': JSON.stringify([{
+      id: 'op-1', created_at: new Date().toISOString(), attempts: 0, next_attempt_at: null, last_error: null,
+      op: 'upsert', table: 'participants', records: [{ ...base, ...edit }],
+    }]),
+    '@presence_app:participants': JSON.stringify([{ ...base, ...edit }]),
+    '@presence_app:sync_base': JSON.stringify({ [`participants|${base.id}`]: base }),
+  });
+
+  beforeEach(() => {
+    (authManager.getSession as jest.Mock).mockResolvedValue(mockSession);
+    (dataService.getClubs as jest.Mock).mockResolvedValue([mockClub]);
+    (dataService.getSessions as jest.Mock).mockResolvedValue([]);
+    (dataService.getParticipants as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should only send the fields changed on this device', async () => {
+    const calls = mockSupabaseCalls({
+      'participants.select': { data: [{ ...base, last_name: 'Jones' }], error: null },
+    });
+    const store = useQueuedEdit({ first_name: 'Annie' });
+
+    await syncService.syncNow();
+
+    const upsert = calls.find(c => c.table === 'participants' && c.method === 'upsert');
+    expect(upsert?.args[0][0]).toMatchObject({ first_name: 'Annie', last_name: 'Jones' });
+    expect(store.get('@presence_app:sync_conflicts')).toBeUndefined();
+  });
+
+  it('should keep the server value and record a conflict when both sides changed a field', async () => {
+    const calls = mockSupabaseCalls({
+      'participants.select': { data: [{ ...base, first_name: 'Ann' }], error: null },
+    });
+    const store = useQueuedEdit({ first_name: 'Annie' });
+
+    await syncService.syncNow();
+
+    const upsert = calls.find(c => c.table === 'participants' && c.method === 'upsert');
+    expect(upsert?.args[0][0].first_name).toBe('Ann');
+    const conflicts = JSON.parse(store.get('@presence_app:sync_conflicts')!);
+    expect(conflicts).toEqual([expect.objectContaining({
+      table: 'participants',
+      club_id: mockClub.id,
+      field: 'first_name',
+      local_value: 'Annie',
+      server_value: 'Ann',
+    })]);
+  });
+});
+
+describe('SyncService - Incremental Download', () => {
+  const cursorTime = '2024-03-01T10:00:00.000Z';
+
+  const useCursors = (cursor: any, extra: Record<string, string> = {}) => useMemoryStorage({
+    '@presence_app:outbox_seeded': 'true',
+    '@presence_app:sync_cursors': JSON.stringify({ schema_version: 1, clubs: { [mockClub.id]: cursor } }),
+    ...extra,
+  });
+
+  beforeEach(() => {
+    (authManager.getSession as jest.Mock).mockResolvedValue(mockSession);
+    (dataService.getClubs as jest.Mock).mockResolvedValue([mockClub]);
+    (dataService.getSessions as jest.Mock).mockResolvedValue([]);
+    (dataService.getParticipants as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should only request rows changed since the last cursor and move it forward', async () => {
+    const changedSession = { ...mockServerSession1, updated_at: '2024-03-02T08:00:00.000Z' };
+    const calls = mockSupabaseCalls({
+      'sessions.select': { data: [changedSession], error: null },
+    });
+    const store = useCursors({
+      tables: { sessions: cursorTime },
+      tombstones: cursorTime,
+      synced_at: new Date().toISOString(),
+    }, {
+      '@presence_app:sessions': JSON.stringify([mockServerSession1]),
+    });
+
+    expect(await syncService.syncNow()).toBe(true);
+
+    // Overlap of one minute before the cursor
+    expect(calls).toContainEqual({ table: 'sessions', method: 'gte', args: ['updated_at', '2024-03-01T09:59:00.000Z'] });
+    expect(calls).toContainEqual({ table: 'sync_tombstones', method: 'gte', args: ['deleted_at', '2024-03-01T09:59:00.000Z'] });
+    // No cursor yet for participants: all rows
+    expect(calls.some(c => c.table === 'participants' && c.method === 'gte')).toBe(false);
+
+    const cursors = JSON.parse(store.get('@presence_app:sync_cursors')!);
+    expect(cursors.clubs[mockClub.id].tables.sessions).toBe('2024-03-02T08:00:00.000Z');
+  });
+
+  it('should remove rows deleted on another device unless a local write is pending', async () => {
+    const pendingParticipant = { ...mockParticipant2, id: generateUUID() };
+    mockSupabaseCalls({
+      'sync_tombstones.select': {
+        data: [
+          { table_name: 'sessions', record_id: mockServerSession1.id, club_id: mockClub.id, deleted_at: '2024-03-02T08:00:00.000Z' },
+          { table_name: 'participants', record_id: pendingParticipant.id, club_id: mockClub.id, deleted_at: '2024-03-02T08:00:00.000Z' },
+        ],
+        error: null,
+      },
+      // Keep the queued participant write pending
+      'participants.upsert': { error: { message: 'Network request failed' } },
+    });
+    const store = useCursors({ tables: {}, tombstones: cursorTime, synced_at: new Date().toISOString() }, {
+      '@presence_app:outbox': JSON.stringify([{
+        id: 'op-1', created_at: new Date().toISOString(), attempts: 0, next_attempt_at: null, last_error: null,
+        op: 'upsert', table: 'participants', records: [pendingParticipant],
+      }]),
+      '@presence_app:sessions': JSON.stringify([mockServerSession1, mockServerSession2]),
+      '@presence_app:participants': JSON.stringify([pendingParticipant]),
+      '@presence_app:attendance': JSON.stringify([
+        { id: 'a1', participant_id: pendingParticipant.id, session_id: mockServerSession1.id, date: '2024-03-01', present: true },
+      ]),
+    });
+
+    await syncService.syncNow();
+
+    expect(JSON.parse(store.get('@presence_app:sessions')!).map((s: any) => s.id)).toEqual([mockServerSession2.id]);
+    expect(JSON.parse(store.get('@presence_app:attendance')!)).toEqual([]);
+    expect(JSON.parse(store.get('@presence_app:participants')!)).toHaveLength(1);
+  });
+
+  it('should download closures and drop the cancelled dates of sessions deleted elsewhere', async () => {
+    const holidays = { id: generateUUID(), club_id: mockClub.id, session_id: null, start_date: '2024-12-21', end_date: '2025-01-05', updated_at: '2024-03-02T08:00:00.000Z' };
+    const cancelled = { id: generateUUID(), club_id: mockClub.id, session_id: mockServerSession1.id, start_date: '2024-03-04', end_date: '2024-03-04' };
+    mockSupabaseCalls({
+      'closures.select': { data: [holidays], error: null },
+      'sync_tombstones.select': {
+        data: [{ table_name: 'sessions', record_id: mockServerSession1.id, club_id: mockClub.id, deleted_at: '2024-03-02T08:00:00.000Z' }],
+        error: null,
+      },
+    });
+    const store = useCursors({ tables: {}, tombstones: cursorTime, synced_at: new Date().toISOString() }, {
+      '@presence_app:sessions': JSON.stringify([mockServerSession1]),
+      '@presence_app:closures': JSON.stringify([cancelled]),
+    });
+
+    expect(await syncService.syncNow()).toBe(true);
+
+    expect(JSON.parse(store.get('@presence_app:closures')!)).toEqual([holidays]);
+  });
+
+  it('should download the seasons of a club', async () => {
+    const season = { id: generateUUID(), club_id: mockClub.id, name: '2024-2025', start_date: '2024-09-01', end_date: '2025-06-30', updated_at: '2024-03-02T08:00:00.000Z' };
+    mockSupabaseCalls({ 'seasons.select': { data: [season], error: null } });
+    const store = useCursors({ tables: {}, tombstones: cursorTime, synced_at: new Date().toISOString() });
+
+    expect(await syncService.syncNow()).toBe(true);
+
+    expect(JSON.parse(store.get('@presence_app:seasons')!)).toEqual([season]);
+  });
+
+  it('should fall back to a full resync when the sync schema version changed', async () => {
+    const calls = mockSupabaseCalls({
+      'sessions.select': { data: [mockServerSession2], error: null },
+    });
+    const store = useMemoryStorage({
+      '@presence_app:outbox_seeded': 'true',
+      '@presence_app:sync_cursors': JSON.stringify({
+        schema_version: 0,
+        clubs: { [mockClub.id]: { tables: { sessions: cursorTime }, tombstones: null, synced_at: new Date().toISOString() } },
+      }),
+      // Session 1 was deleted on the server and its tombstone is gone
+      '@presence_app:sessions': JSON.stringify([mockServerSession1, mockServerSession2]),
+    });
+
+    await syncService.syncNow();
+
+    expect(calls.some(c => c.method === 'gte')).toBe(false);
+    expect(JSON.parse(store.get('@presence_app:sessions')!).map((s: any) => s.id)).toEqual([mockServerSession2.id]);
+    expect(JSON.parse(store.get('@presence_app:sync_cursors')!).schema_version).toBe(1);
+  });
+
+  it('should remove clubs that are no longer on the server', async () => {
+    const removedClub = { ...mockClub, id: generateUUID(), owner_id: 'other-user' };
+    (dataService.getClubs as jest.Mock).mockResolvedValue([mockClub, removedClub, { id: 'local-1', name: 'Offline' }]);
+    mockSupabaseCalls();
+    useMemoryStorage({ '@presence_app:outbox_seeded': 'true' });
+
+    await syncService.syncNow();
+
+    expect(dataService.purgeLocalClub).toHaveBeenCalledTimes(1);
+    expect(dataService.purgeLocalClub).toHaveBeenCalledWith(removedClub.id);
+  });
+});
+
+describe('SyncService - Ownership Transfer', () => {
+  it('should take the new owner and the coach role from the server', async () => {
+    const transferredClub = { ...mockClub, owner_id: 'new-owner', updated_at: new Date(Date.now() + 1000).toISOString() };
+    (authManager.getSession as jest.Mock).mockResolvedValue(mockSession);
+    (dataService.getClubs as jest.Mock).mockResolvedValue([mockClub]);
+    (dataService.getSessions as jest.Mock).mockResolvedValue([]);
+    (dataService.getParticipants as jest.Mock).mockResolvedValue([]);
+    mockSupabaseCalls({
+      'clubs.select': { data: [transferredClub], error: null },
+      'club_members.select': { data: [{ club_id: mockClub.id, role: 'coach' }], error: null },
+    });
+    const store = useMemoryStorage({
+      '@presence_app:outbox_seeded': 'true',
+      '@presence_app:clubs': JSON.stringify([mockClub]),
+    });
+
+    await syncService.syncNow();
+
+    expect(JSON.parse(store.get('@presence_app:clubs')!)[0].owner_id).toBe('new-owner');
+    expect(dataService.saveMemberRoles).toHaveBeenCalledWith({ [mockClub.id]: 'coach' });
+  });
+});
+
+describe('SyncService - Realtime', () => {
+  // Local stand-in for a Supabase realtime channel
+  const useFakeChannel = () => {
+    const handlers: Record<string, (payload: any) => void> = {};
+    let onStatus: (status: string) => void = () => {};
+    const channel: any = {
+      on: jest.fn((_type: string, filter: any, handler: (payload: any) => void) => {
+        handlers[filter.table] = handler;
+        return channel;
+      }),
+      subscribe: jest.fn((callback: (status: string) => void) => {
+        onStatus = callback;
+        return channel;
+      }),
+    };
+    (supabase.channel as jest.Mock).mockReturnValue(channel);
+    (supabase.removeChannel as jest.Mock).mockResolvedValue('ok');
+    return {
+      channel,
+      emit: (table: string, payload: any) => handlers[table]?.(payload),
+      setStatus: (status: string) => onStatus(status),
+    };
+  };
+
+  const nextRemoteChanges = () => new Promise<any[]>((resolve) => {
+    const unsubscribe = syncService.onRemoteChange((changes) => {
+      unsubscribe();
+      resolve(changes);
+    });
+  });
+
+  const remoteAttendance = {
+    id: 'server-a1',
+    participant_id: mockParticipant1.id,
+    session_id: mockServerSession1.id,
+    date: '2024-03-01',
+    status: 'late',
+    present: true,
+    updated_at: '2024-03-01T10:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    (authManager.getSession as jest.Mock).mockResolvedValue(mockSession);
+    (dataService.getClubs as jest.Mock).mockResolvedValue([mockClub, { id: 'local-1', name: 'Offline' }]);
+  });
+
+  afterEach(() => {
+    syncService.stopAutoSync();
+  });
+
+  it('should subscribe to the synced clubs and save changes made on another device', async () => {
+    const fake = useFakeChannel();
+    const store = useMemoryStorage({
+      '@presence_app:participants': JSON.stringify([mockParticipant1]),
+    });
+
+    await syncService.refreshRealtime();
+    expect(fake.channel.on).toHaveBeenCalledWith('postgres_changes',
+      expect.objectContaining({ table: 'participants', filter: `club_id=in.(${mockClub.id})` }), expect.any(Function));
+
+    const received = nextRemoteChanges();
+    fake.emit('attendance', { eventType: 'INSERT', new: remoteAttendance, old: {} });
+
+    expect(await received).toEqual([{ table: 'attendance', clubId: mockClub.id, record: remoteAttendance }]);
+    expect(JSON.parse(store.get('@presence_app:attendance')!)).toEqual([remoteAttendance]);
+  });
+
+  it('should not overwrite a local write still waiting in the outbox', async () => {
+    const fake = useFakeChannel();
+    const localAttendance = { ...remoteAttendance, id: 'local-a1', status: 'present' };
+    const store = useMemoryStorage({
+      '@presence_app:participants': JSON.stringify([mockParticipant1]),
+      '@presence_app:attendance': JSON.stringify([localAttendance]),
+      '@presence_app:outbox': JSON.stringify([{
+        id: 'op-1', created_at: new Date().toISOString(), attempts: 0, next_attempt_at: null, last_error: null,
+        op: 'upsert', table: 'attendance', records: [localAttendance],
+      }]),
+    });
+    const listener = jest.fn();
+    const unsubscribe = syncService.onRemoteChange(listener);
+
+    await syncService.refreshRealtime();
+    fake.emit('attendance', { eventType: 'UPDATE', new: remoteAttendance, old: {} });
+    await (syncService as any).realtimeFlush;
+    unsubscribe();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(JSON.parse(store.get('@presence_app:attendance')!)).toEqual([localAttendance]);
+  });
+
+  it('should fall back to polling when the channel fails and subscribe again after a sync', async () => {
+    const fake = useFakeChannel();
+    useMemoryStorage();
+
+    await syncService.refreshRealtime();
+    fake.setStatus('CHANNEL_ERROR');
+    expect(supabase.removeChannel).toHaveBeenCalledWith(fake.channel);
+
+    await syncService.refreshRealtime();
+    expect(supabase.channel).toHaveBeenCalledTimes(2);
+  });
+
+  it('should unsubscribe when auto sync stops', async () => {
+    const fake = useFakeChannel();
+    useMemoryStorage();
+
+    await syncService.refreshRealtime();
+    // Same clubs: the channel is kept
+    await syncService.refreshRealtime();
+    expect(supabase.channel).toHaveBeenCalledTimes(1);
+
+    syncService.stopAutoSync();
+    expect(supabase.removeChannel).toHaveBeenCalledWith(fake.channel);
+  });
+});
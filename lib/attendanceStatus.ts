@@ -0,0 +1,76 @@
+import type { AttendanceRecord } from './dataService';
+
+/**
+ * Attendance statuses. Order is the one used when cycling in AttendanceScreen.
+ */
+export const ATTENDANCE_STATUSES = [
+  'present',
+  'absent',
+  'excused',
+  'late',
+  'left_early',
+  'injured_watching',
+] as const;
+
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+/**
+ * How a status is counted in the statistics:
+ * - attended: counts as a presence
+ * - excused: ignored, neither a presence nor a missed session
+ * - missed: counts against the participant
+ */
+export type StatusOutcome = 'attended' | 'excused' | 'missed';
+
+export const STATUS_OUTCOMES: StatusOutcome[] = ['attended', 'excused', 'missed'];
+
+export type StatusRules = Record<AttendanceStatus, StatusOutcome>;
+
+export const DEFAULT_STATUS_RULES: StatusRules = {
+  present: 'attended',
+  absent: 'missed',
+  excused: 'excused',
+  late: 'attended',
+  left_early: 'attended',
+  injured_watching: 'attended',
+};
+
+export const isAttendanceStatus = (value: unknown): value is AttendanceStatus => {
+  return typeof value === 'string' && (ATTENDANCE_STATUSES as readonly string[]).includes(value);
+};
+
+/**
+ * Statuses where the participant was physically there.
+ * Used to keep the legacy `present` boolean in sync for older clients.
+ */
+export const isPresentStatus = (status: AttendanceStatus): boolean => {
+  return status !== 'absent' && status !== 'excused';
+};
+
+/**
+ * Status of a record, falling back to the legacy boolean for records
+ * written before statuses existed.
+ */
+export const getAttendanceStatus = (record: Pick<AttendanceRecord, 'present'> & { status?: string | null }): AttendanceStatus => {
+  if (isAttendanceStatus(record.status)) {
+    return record.status;
+  }
+  return record.present ? 'present' : 'absent';
+};
+
+/**
+ * Merge club overrides on top of the default rules.
+ * Unknown statuses or outcomes are ignored.
+ */
+export const resolveStatusRules = (overrides?: Partial<Record<string, string>> | null): StatusRules => {
+  const rules: StatusRules = { ...DEFAULT_STATUS_RULES };
+  if (!overrides) return rules;
+
+  for (const [status, outcome] of Object.entries(overrides)) {
+    if (isAttendanceStatus(status) && STATUS_OUTCOMES.includes(outcome as StatusOutcome)) {
+      rules[status] = outcome as StatusOutcome;
+    }
+  }
+  return rules;
+};
+
@@ -50,9 +50,18 @@ export async function signOut() {
     '@presence_app:participants',
     '@presence_app:participant_sessions',
     '@presence_app:attendance',
+    '@presence_app:leave_periods',
+    '@presence_app:closures',
+    '@presence_app:seasons',
     '@presence_app:user',
     '@presence_app:never_ask_login',
     '@presence_app:deleted_items',
+    '@presence_app:outbox',
+    '@presence_app:outbox_seeded',
+    '@presence_app:sync_cursors',
+    '@presence_app:sync_base',
+    '@presence_app:sync_conflicts',
+    '@presence_app:club_roles',
     'last_sync_timestamp',
   ]);
   
@@ -0,0 +1,121 @@
+import type {
+  AttendanceRecord,
+  Closure,
+  Club,
+  LeavePeriod,
+  Participant,
+  ParticipantSession,
+  Season,
+  Session,
+} from './dataService';
+
+export const BACKUP_FORMAT = 'presence-club-backup';
+
+// Bump when the shape of a backup changes, and teach validateClubBackup to read the older ones
+export const BACKUP_VERSION = 1;
+
+/**
+ * Everything a club holds on this device, to move it to another phone
+ * without an account. Deletion marks keep rows removed here from coming back.
+ */
+export interface ClubBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  club: Club;
+  sessions: Session[];
+  participants: Participant[];
+  participant_sessions: ParticipantSession[];
+  attendance: AttendanceRecord[];
+  leave_periods: LeavePeriod[];
+  closures: Closure[];
+  seasons: Season[];
+  deleted_items: Record<string, string[]>;
+}
+
+// merge: backup rows are added to the club on this device, the most recently updated winning.
+// replace: the club on this device is dropped first.
+export type RestoreMode = 'merge' | 'replace';
+
+const BACKUP_LISTS = ['sessions', 'participants', 'participant_sessions', 'attendance', 'leave_periods', 'closures', 'seasons'] as const;
+
+/**
+ * Checks a parsed backup file. Throws when it isn't a club backup, holds rows
+ * of another club ('Rows of another club'), or comes from a newer version of
+ * the app ('Unsupported backup version').
+ */
+export const validateClubBackup = (data: unknown): ClubBackup => {
+  const backup = data as Partial<ClubBackup> | null;
+  if (!backup || typeof backup !== 'object' || backup.format !== BACKUP_FORMAT) {
+    throw new Error('Not a club backup');
+  }
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${backup.version}`);
+  }
+  if (!backup.club || typeof backup.club.id !== 'string' || typeof backup.club.name !== 'string') {
+    throw new Error('Missing club');
+  }
+  for (const list of BACKUP_LISTS) {
+    if (!Array.isArray(backup[list])) {
+      throw new Error(`Missing ${list}`);
+    }
+  }
+  const clubId = backup.club.id;
+  const clubRows = [backup.sessions!, backup.participants!, backup.leave_periods!, backup.closures!, backup.seasons!];
+  if (!clubRows.every(rows => rows.every(row => row.club_id === clubId))) {
+    throw new Error('Rows of another club');
+  }
+  // Restored rows mustn't point to sessions or participants the club doesn't hold
+  const sessionIds = new Set(backup.sessions!.map(s => s.id));
+  const participantIds = new Set(backup.participants!.map(p => p.id));
+  const referencesKnown =
+    [...backup.participant_sessions!, ...backup.attendance!].every(row => participantIds.has(row.participant_id) && sessionIds.has(row.session_id)) &&
+    backup.leave_periods!.every(l => participantIds.has(l.participant_id)) &&
+    backup.closures!.every(c => !c.session_id || sessionIds.has(c.session_id));
+  if (!referencesKnown) {
+    throw new Error('Rows of another club');
+  }
+  return { ...backup, deleted_items: backup.deleted_items || {} } as ClubBackup;
+};
+
+/**
+ * Rows of a table after a merge: the ones of this device plus the backup ones,
+ * the most recently updated kept when both hold the same key.
+ */
+export const mergeRows = <T>(local: T[], restored: T[], getKey: (row: T) => string): T[] => {
+  const updatedAt = (row: T) => (row as { updated_at?: string }).updated_at || '';
+  const rows = new Map(local.map(row => [getKey(row), row]));
+  for (const row of restored) {
+    const current = rows.get(getKey(row));
+    if (!current || updatedAt(row) >= updatedAt(current)) {
+      rows.set(getKey(row), row);
+    }
+  }
+  return [...rows.values()];
+};
+
+/**
+ * Points the references of a backup to new session and participant IDs,
+ * for rows that have to be re-keyed before being restored.
+ */
+export const remapBackupIds = (backup: ClubBackup, sessionIds: Map<string, string>, participantIds: Map<string, string>): ClubBackup => {
+  const session = (id: string) => sessionIds.get(id) ?? id;
+  const participant = (id: string) => participantIds.get(id) ?? id;
+  return {
+    ...backup,
+    sessions: backup.sessions.map(s => ({ ...s, id: session(s.id) })),
+    participants: backup.participants.map(p => ({ ...p, id: participant(p.id) })),
+    participant_sessions: backup.participant_sessions.map(ps => ({
+      ...ps,
+      participant_id: participant(ps.participant_id),
+      session_id: session(ps.session_id),
+    })),
+    attendance: backup.attendance.map(a => ({
+      ...a,
+      participant_id: participant(a.participant_id),
+      session_id: session(a.session_id),
+    })),
+    leave_periods: backup.leave_periods.map(l => ({ ...l, participant_id: participant(l.participant_id) })),
+    closures: backup.closures.map(c => (c.session_id ? { ...c, session_id: session(c.session_id) } : c)),
+  };
+};
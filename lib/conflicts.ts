@@ -0,0 +1,167 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getOutboxRecordKey } from './outbox';
+
+const SYNC_BASE_KEY = '@presence_app:sync_base';
+const CONFLICTS_KEY = '@presence_app:sync_conflicts';
+
+export type ConflictTable = 'clubs' | 'sessions' | 'participants' | 'attendance';
+
+export const CONFLICT_TABLES: ConflictTable[] = ['clubs', 'sessions', 'participants', 'attendance'];
+
+export const isConflictTable = (table: string): table is ConflictTable => {
+  return (CONFLICT_TABLES as string[]).includes(table);
+};
+
+// Fields that are never merged: identity, timestamps and local-only data
+const IGNORED_FIELDS: Record<ConflictTable, string[]> = {
+  clubs: ['id', 'owner_id', 'share_code', 'created_at', 'updated_at'],
+  sessions: ['id', 'club_id', 'created_at', 'updated_at'],
+  participants: ['id', 'club_id', 'preferred_session_ids', 'created_at', 'updated_at'],
+  // `present` is derived from status
+  attendance: ['id', 'participant_id', 'session_id', 'date', 'present', 'created_at', 'updated_at'],
+};
+
+/**
+ * The same field changed on this device and on the server since the last
+ * version both had in common. The server value is kept until the owner picks a side.
+ */
+export interface SyncConflict {
+  id: string; // table|record key|field
+  table: ConflictTable;
+  record_key: string;
+  club_id: string;
+  field: string;
+  local_value: any;
+  server_value: any;
+  record: any; // Server version of the record when the conflict was detected
+  detected_at: string;
+}
+
+export interface FieldMergeResult {
+  localFields: string[]; // Changed on this device only: the local value wins
+  serverFields: string[]; // Changed on the server (conflicts included): the server value wins
+  conflicts: { field: string; local_value: any; server_value: any }[];
+}
+
+const sameValue = (a: any, b: any): boolean => {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+/**
+ * Three-way merge of a record, field by field, against the last version both sides shared.
+ * - changed on one side only: that side wins
+ * - changed on both sides to different values: conflict, the server value is kept
+ */
+export const mergeRecordFields = (table: ConflictTable, base: any, local: any, server: any): FieldMergeResult => {
+  const result: FieldMergeResult = { localFields: [], serverFields: [], conflicts: [] };
+
+  for (const field of Object.keys(local)) {
+    // Fields the server doesn't have are local-only
+    if (IGNORED_FIELDS[table].includes(field) || !(field in server)) continue;
+
+    const localValue = local[field];
+    const serverValue = server[field];
+    if (sameValue(localValue, serverValue)) continue;
+
+    if (sameValue(serverValue, base[field])) {
+      result.localFields.push(field);
+    } else {
+      result.serverFields.push(field);
+      if (!sameValue(localValue, base[field])) {
+        result.conflicts.push({ field, local_value: localValue, server_value: serverValue });
+      }
+    }
+  }
+
+  return result;
+};
+
+export const pickFields = (record: any, fields: string[]): any => {
+  return Object.fromEntries(fields.map(field => [field, record[field]]));
+};
+
+export const toSyncConflicts = (
+  table: ConflictTable,
+  clubId: string,
+  server: any,
+  fieldConflicts: FieldMergeResult['conflicts']
+): SyncConflict[] => {
+  const recordKey = getOutboxRecordKey(table, server) || '';
+  return fieldConflicts.map(conflict => ({
+    ...conflict,
+    id: `${table}|${recordKey}|${conflict.field}`,
+    table,
+    record_key: recordKey,
+    club_id: clubId,
+    record: server,
+    detected_at: new Date().toISOString(),
+  }));
+};
+
+/**
+ * Last server version of each record (the merge base) and unresolved conflicts
+ */
+class ConflictStore {
+  private readBases = async (): Promise<Record<string, any>> => {
+    try {
+      const data = await AsyncStorage.getItem(SYNC_BASE_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch (e) {
+      return {};
+    }
+  };
+
+  getBases = async (table: ConflictTable): Promise<Map<string, any>> => {
+    const bases = await this.readBases();
+    const prefix = `${table}|`;
+    const result = new Map<string, any>();
+    for (const [key, record] of Object.entries(bases)) {
+      if (key.startsWith(prefix)) {
+        result.set(key.slice(prefix.length), record);
+      }
+    }
+    return result;
+  };
+
+  saveBases = async (table: ConflictTable, records: any[]): Promise<void> => {
+    if (records.length === 0) return;
+    const bases = await this.readBases();
+    for (const record of records) {
+      const key = getOutboxRecordKey(table, record);
+      if (key) {
+        bases[`${table}|${key}`] = record;
+      }
+    }
+    await AsyncStorage.setItem(SYNC_BASE_KEY, JSON.stringify(bases));
+  };
+
+  getConflicts = async (clubId?: string): Promise<SyncConflict[]> => {
+    try {
+      const data = await AsyncStorage.getItem(CONFLICTS_KEY);
+      const conflicts: SyncConflict[] = data ? JSON.parse(data) : [];
+      return clubId ? conflicts.filter(c => c.club_id === clubId) : conflicts;
+    } catch (e) {
+      return [];
+    }
+  };
+
+  /**
+   * Record new conflicts. A newer conflict on the same field replaces the previous one.
+   */
+  addConflicts = async (conflicts: SyncConflict[]): Promise<void> => {
+    if (conflicts.length === 0) return;
+    const newIds = new Set(conflicts.map(c => c.id));
+    const existing = await this.getConflicts();
+    await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify([
+      ...existing.filter(c => !newIds.has(c.id)),
+      ...conflicts,
+    ]));
+  };
+
+  removeConflict = async (id: string): Promise<void> => {
+    const existing = await this.getConflicts();
+    await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(existing.filter(c => c.id !== id)));
+  };
+}
+
+export const conflictStore = new ConflictStore();
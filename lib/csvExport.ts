@@ -0,0 +1,98 @@
+import type { AttendanceRecord, Participant, Session } from './dataService';
+import { getAttendanceStatus } from './attendanceStatus';
+
+type CsvValue = string | number | null | undefined;
+
+// Excel only reads accents right in a UTF-8 file starting with a byte order mark
+const BOM = '\uFEFF';
+
+/**
+ * RFC 4180 quoting: values holding a comma, a quote or a line break are quoted,
+ * quotes inside doubled. Text a spreadsheet would run as a formula (names coming
+ * from an imported file: "=HYPERLINK(...)") is prefixed with an apostrophe.
+ */
+export const escapeCsvValue = (value: CsvValue): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]): string => {
+  return BOM + rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Per-participant figures, as computed by StatsScreen for the selected period
+ */
+export interface ParticipantSummary {
+  first_name: string;
+  last_name: string;
+  grade?: string | null;
+  presentInAssigned: number;
+  totalAssigned: number;
+  bonusPresences: number;
+  bonusUsed: number;
+  percentage: string; // 'N/A' without assigned sessions
+}
+
+export const buildSummaryCsv = (rows: ParticipantSummary[], t: (key: string) => string): string => {
+  return toCsv([
+    [
+      t('export.lastName'),
+      t('export.firstName'),
+      t('export.grade'),
+      t('export.presentInAssigned'),
+      t('export.totalAssigned'),
+      t('export.bonusPresences'),
+      t('export.bonusUsed'),
+      t('export.percentage'),
+    ],
+    ...rows.map(p => [
+      p.last_name,
+      p.first_name,
+      p.grade,
+      p.presentInAssigned,
+      p.totalAssigned,
+      p.bonusPresences,
+      p.bonusUsed,
+      p.percentage === 'N/A' ? '' : p.percentage,
+    ]),
+  ]);
+};
+
+/**
+ * One row per participant, one column per session date attendance was taken on
+ * ("2024-10-07 18:00"), cells holding the recorded status. Blank when nothing was recorded.
+ */
+export const buildAttendanceMatrixCsv = (
+  participants: Pick<Participant, 'id' | 'first_name' | 'last_name'>[],
+  sessions: Pick<Session, 'id' | 'start_time'>[],
+  attendance: AttendanceRecord[],
+  t: (key: string) => string
+): string => {
+  const startTimes = new Map(sessions.map(s => [s.id, s.start_time]));
+  const columns = [...new Set(attendance.map(a => `${a.date}|${a.session_id}`))]
+    .map(key => {
+      const [date = '', sessionId = ''] = key.split('|');
+      return { key, date, sessionId, label: `${date} ${startTimes.get(sessionId) ?? ''}`.trim() };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const statuses = new Map(attendance.map(a => [`${a.participant_id}|${a.date}|${a.session_id}`, getAttendanceStatus(a)]));
+  const sortedParticipants = [...participants].sort((a, b) =>
+    a.last_name.localeCompare(b.last_name) || a.first_name.localeCompare(b.first_name)
+  );
+
+  return toCsv([
+    [t('export.lastName'), t('export.firstName'), ...columns.map(c => c.label)],
+    ...sortedParticipants.map(p => [
+      p.last_name,
+      p.first_name,
+      ...columns.map(c => {
+        const status = statuses.get(`${p.id}|${c.key}`);
+        return status ? t(`attendance.statuses.${status}`) : '';
+      }),
+    ]),
+  ]);
+};
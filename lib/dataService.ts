@@ -1,5 +1,13 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from './supabase';
+import { authManager } from './authManager';
+import { outbox, OutboxTable } from './outbox';
+import { conflictStore, SyncConflict } from './conflicts';
+import { AttendanceStatus, getAttendanceStatus, isPresentStatus } from './attendanceStatus';
+import type { ClubRole } from './permissions';
+import { ClubInvite, JoinFailure, toJoinFailure } from './invites';
+import { addDays, getLegacyDayNames, IsoWeekday, isOneOffSession, parseWeekday, toDateString } from './sessionSchedule';
+import { BACKUP_FORMAT, BACKUP_VERSION, ClubBackup, mergeRows, remapBackupIds, RestoreMode } from './clubBackup';
 
 const CLUBS_KEY = '@presence_app:clubs';
 const SESSIONS_KEY = '@presence_app:sessions';
@@ -8,6 +16,10 @@ const PARTICIPANT_SESSIONS_KEY = '@presence_app:participant_sessions';
 const ATTENDANCE_KEY = '@presence_app:attendance';
 const USER_KEY = '@presence_app:user';
 const DELETED_ITEMS_KEY = '@presence_app:deleted_items';
+const LEAVE_PERIODS_KEY = '@presence_app:leave_periods';
+const CLOSURES_KEY = '@presence_app:closures';
+const SEASONS_KEY = '@presence_app:seasons';
+const MEMBER_ROLES_KEY = '@presence_app:club_roles';
 
 /**
  * Generate a deterministic UUID v4-like ID from content.
@@ -38,12 +50,66 @@ export const generateContentBasedId = (content: string): string => {
   return `${h1.slice(0,8)}-${h1.slice(0,4)}-4${h2.slice(0,3)}-${['8','9','a','b'][Math.abs(hash) % 4]}${h2.slice(3,6)}-${h3.slice(0,4)}${h4.slice(0,8)}`.toLowerCase();
 };
 
+type SessionContent = Pick<Session, 'club_id' | 'start_time' | 'end_time' | 'start_date' | 'end_date' | 'location'> & {
+  day_of_week: IsoWeekday | string; // Day name in rows older versions wrote
+};
+
+const buildSessionContentKey = (session: SessionContent, day: string | number): string => {
+  let key = `${session.club_id}|${day}|${session.start_time}|${session.end_time}`;
+  if (session.start_date || session.end_date) {
+    key += `|${session.start_date || ''}|${session.end_date || ''}`;
+  }
+  // Two venues can hold a slot at the same time
+  const location = (session.location || '').trim().toLowerCase();
+  return location ? `${key}|@${location}` : key;
+};
+
+/**
+ * Content of a session, used to spot duplicates and for its deterministic ID.
+ * Dates and location only count when set, so weekly slots keep the IDs they always had.
+ * The day is the ISO weekday whatever the row holds, so 'Lundi' and 'Monday' are the same slot.
+ */
+export const getSessionContentKey = (session: SessionContent): string => {
+  return buildSessionContentKey(session, parseWeekday(session.day_of_week) ?? session.day_of_week);
+};
+
+export const getSessionHashId = (session: SessionContent): string => {
+  return generateContentBasedId(`session|${getSessionContentKey(session)}`);
+};
+
+/**
+ * Deterministic ID of a participant: names are trimmed and lowercased, so
+ * "Jean DUPONT " and "jean dupont" are the same person of a club.
+ */
+export const getParticipantHashId = (participant: Pick<Participant, 'club_id' | 'first_name' | 'last_name'>): string => {
+  return generateContentBasedId(
+    `participant|${participant.club_id}|${(participant.first_name || '').trim().toLowerCase()}|${(participant.last_name || '').trim().toLowerCase()}`
+  );
+};
+
+/**
+ * Whether a session carries its content-based ID. Sessions created while days were stored
+ * as names keep the ID derived from that name: it still counts, so they are never re-keyed.
+ */
+export const isSessionHashId = (session: SessionContent & { id: string }): boolean => {
+  if (session.id === getSessionHashId(session)) {
+    return true;
+  }
+  const weekday = parseWeekday(session.day_of_week);
+  return weekday !== null && getLegacyDayNames(weekday).some(name =>
+    session.id === generateContentBasedId(`session|${buildSessionContentKey(session, name)}`)
+  );
+};
+
 interface DeletedItems {
   clubs: string[];
   sessions: string[];
   participants: string[];
   participant_sessions: string[];
   attendance: string[];
+  leave_periods: string[];
+  closures: string[];
+  seasons: string[];
 }
 
 export interface Club {
@@ -52,6 +118,8 @@ export interface Club {
   description?: string;
   owner_id?: string;
   share_code?: string;
+  status_rules?: Partial<Record<AttendanceStatus, string>> | null; // Overrides of DEFAULT_STATUS_RULES for stats
+  stats_reset_date?: string; // Deprecated: migrated to seasons (see migrateStatsResetDates)
   created_at?: string;
   updated_at?: string;
 }
@@ -59,10 +127,14 @@ export interface Club {
 export interface Session {
   id: string;
   club_id: string;
-  day_of_week: string;
+  day_of_week: IsoWeekday;
   start_time: string;
   end_time: string;
-  date?: string;
+  start_date?: string | null; // YYYY-MM-DD, inclusive - runs from the start when missing
+  end_date?: string | null; // YYYY-MM-DD, inclusive - runs forever when missing
+  location?: string | null; // Venue or room
+  capacity?: number | null; // Maximum number of participants (mats, places)
+  archived_at?: string | null; // Set when the club stopped running it (see archiveSession)
   created_at?: string;
   updated_at?: string;
 }
@@ -72,12 +144,25 @@ export interface Participant {
   club_id: string;
   first_name: string;
   last_name: string;
-  is_long_term_sick?: boolean; // Exclude from attendance statistics
+  // Profile, all optional (see participantProfile.ts)
+  birth_date?: string | null; // YYYY-MM-DD
+  licence_number?: string | null;
+  emergency_contact?: string | null; // Name and phone number
+  guardian_name?: string | null; // For minors
+  guardian_phone?: string | null;
+  guardian_email?: string | null;
+  medical_certificate_expiry?: string | null; // YYYY-MM-DD
+  notes?: string | null;
+  is_long_term_sick?: boolean; // Deprecated: migrated to leave periods (see migrateLongTermSickFlags)
   preferred_session_ids?: string[]; // Array of session IDs this participant is assigned to
+  archived_at?: string | null; // Set when they left the club (see archiveParticipant)
   created_at?: string;
   updated_at?: string;
 }
 
+// What the session edit flow changes
+export type SessionChanges = Pick<Session, 'day_of_week' | 'start_time' | 'end_time' | 'location' | 'capacity'>;
+
 export interface ParticipantSession {
   id: string;
   participant_id: string;
@@ -89,16 +174,84 @@ export interface AttendanceRecord {
   session_id: string;
   participant_id: string;
   date: string;
-  present: boolean;
+  present: boolean; // Kept in sync with status for older clients
+  status?: AttendanceStatus;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface LeavePeriod {
+  id: string;
+  participant_id: string;
+  club_id: string;
+  start_date: string; // YYYY-MM-DD, inclusive
+  end_date?: string | null; // YYYY-MM-DD, inclusive - open-ended when missing
+  reason?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Check whether a date (YYYY-MM-DD) falls inside one of the given leave periods.
+ * Dates are compared as strings, which is safe for the ISO format.
+ */
+export const isDateInLeavePeriods = (date: string, periods: LeavePeriod[]): boolean => {
+  return periods.some(p => p.start_date <= date && (!p.end_date || date <= p.end_date));
+};
+
+/**
+ * Dates a club doesn't train: a single cancelled occurrence of a session, or a
+ * closure of the whole club (school holidays...) when there is no session_id
+ */
+export interface Closure {
+  id: string;
+  club_id: string;
+  session_id?: string | null;
+  start_date: string; // YYYY-MM-DD, inclusive
+  end_date: string; // YYYY-MM-DD, inclusive - same as start_date for a single day
+  reason?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A named period of a club (a sports year). Statistics cover the active season
+ * by default, earlier ones stay browsable.
+ */
+export interface Season {
+  id: string;
+  club_id: string;
+  name: string;
+  start_date: string; // YYYY-MM-DD, inclusive
+  end_date: string; // YYYY-MM-DD, inclusive
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * Season running on a date (YYYY-MM-DD), if any. Seasons of a club don't overlap.
+ */
+export const getSeasonOn = (seasons: Season[], date: string): Season | undefined => {
+  return seasons.find(s => s.start_date <= date && date <= s.end_date);
+};
+
 export interface User {
   id: string;
   email: string;
 }
 
+export interface ClubMember {
+  user_id: string;
+  display_name: string | null;
+  email: string;
+  role: ClubRole;
+  joined_at: string | null;
+}
+
+export type JoinClubResult =
+  | { club: Club; failure: null }
+  | { club: null; failure: JoinFailure };
+
 class DataService {
   public isOnline: boolean;
 
@@ -131,6 +284,18 @@ class DataService {
     
     // Clean up invalid attendance records with non-UUID IDs
     await this.cleanupInvalidAttendanceRecords();
+
+    // Derive attendance statuses from the legacy present flag
+    await this.migrateAttendanceStatuses();
+
+    // Convert legacy long-term sick flags into leave periods
+    await this.migrateLongTermSickFlags();
+
+    // Store session days as ISO weekdays instead of day names
+    await this.migrateSessionWeekdays();
+
+    // Turn stats reset dates into seasons
+    await this.migrateStatsResetDates();
   }
   
   // Remove attendance records with invalid UUID IDs
@@ -162,6 +327,25 @@ class DataService {
     }
   }
 
+  // Give a status to attendance records saved before statuses existed
+  private migrateAttendanceStatuses = async () => {
+    const attendanceData = await AsyncStorage.getItem(ATTENDANCE_KEY);
+    if (!attendanceData) return;
+
+    const attendance = JSON.parse(attendanceData);
+    let changed = false;
+    const migrated = attendance.map((a: AttendanceRecord) => {
+      if (a.status) return a;
+      changed = true;
+      // Keep updated_at untouched: this is not a user change
+      return { ...a, status: getAttendanceStatus(a) };
+    });
+
+    if (changed) {
+      await AsyncStorage.setItem(ATTENDANCE_KEY, JSON.stringify(migrated));
+    }
+  }
+
   checkOnline = () => {
     // Check online status in background without blocking
     supabase.from('clubs').select('id').limit(0)
@@ -180,12 +364,17 @@ class DataService {
   
   private getDeletedItems = async (): Promise<DeletedItems> => {
     const data = await AsyncStorage.getItem(DELETED_ITEMS_KEY);
-    return data ? JSON.parse(data) : {
+    // Older payloads may miss newer types, fill them in
+    if (data) return { leave_periods: [], closures: [], seasons: [], ...JSON.parse(data) };
+    return {
       clubs: [],
       sessions: [],
       participants: [],
       participant_sessions: [],
-      attendance: []
+      attendance: [],
+      leave_periods: [],
+      closures: [],
+      seasons: []
     };
   }
 
@@ -219,49 +408,56 @@ class DataService {
     return clubs.find(c => c.id === id) || null;
   }
 
-  // Join a club using a share code
-  joinClubByCode = async (shareCode: string): Promise<Club | null> => {
+  // Role of the current user in the clubs they joined (see permissions.ts)
+  getMemberRole = async (clubId: string): Promise<ClubRole | null> => {
+    try {
+      const data = await AsyncStorage.getItem(MEMBER_ROLES_KEY);
+      const roles: Record<string, ClubRole> = data ? JSON.parse(data) : {};
+      return roles[clubId] || null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  saveMemberRoles = async (roles: Record<string, ClubRole>): Promise<void> => {
+    await AsyncStorage.setItem(MEMBER_ROLES_KEY, JSON.stringify(roles));
+  }
+
+  private saveMemberRole = async (clubId: string, role: ClubRole): Promise<void> => {
+    const data = await AsyncStorage.getItem(MEMBER_ROLES_KEY);
+    const roles: Record<string, ClubRole> = data ? JSON.parse(data) : {};
+    await this.saveMemberRoles({ ...roles, [clubId]: role });
+  }
+
+  // Join a club using an invite code, the failure tells why the code was refused
+  joinClubByCode = async (code: string): Promise<JoinClubResult> => {
     try {
-      // Try to fetch club from server by share code
+      // The server checks the code and adds the user as a member
       const { data, error } = await supabase
-        .rpc('get_club_by_share_code', {
-          p_share_code: shareCode.toUpperCase()
+        .rpc('join_club_by_code', {
+          p_code: code.toUpperCase()
         });
 
       if (error) {
-        return null;
+        return { club: null, failure: 'error' };
       }
 
-      if (!data || data.length === 0) {
-        return null;
+      const clubData = data?.[0];
+      if (!clubData || (clubData.status !== 'joined' && clubData.status !== 'already_member')) {
+        return { club: null, failure: toJoinFailure(clubData?.status) };
       }
 
-      const clubData = data[0];
       const club: Club = {
         id: clubData.club_id,
         name: clubData.club_name,
         description: clubData.club_description,
         owner_id: clubData.owner_id,
-        share_code: clubData.share_code,
         created_at: clubData.created_at,
         updated_at: clubData.updated_at
       };
 
-      // Add user as a club member in the database
-      const { error: memberError } = await supabase
-        .from('club_members')
-        .insert({
-          club_id: club.id,
-          user_id: (await supabase.auth.getSession()).data.session?.user.id
-        })
-        .select()
-        .single();
-
-      if (memberError) {
-        // Ignore duplicate key errors (user already a member)
-        if (memberError.code !== '23505') {
-          // Silent fail for other errors
-        }
+      if (clubData.role) {
+        await this.saveMemberRole(club.id, clubData.role);
       }
 
       // Download all club data immediately
@@ -355,124 +551,193 @@ class DataService {
       }
       await AsyncStorage.setItem(CLUBS_KEY, JSON.stringify(clubs));
 
-      return club;
+      return { club, failure: null };
     } catch (error) {
-      return null;
+      return { club: null, failure: 'error' };
     }
   }
+
+  // Owner only: invite codes of a club, newest first (enforced by RLS)
+  getClubInvites = async (clubId: string): Promise<ClubInvite[]> => {
+    const { data, error } = await supabase
+      .from('club_invites')
+      .select('*')
+      .eq('club_id', clubId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  }
+
+  createClubInvite = async (
+    clubId: string,
+    options: { role: ClubInvite['role']; expires_at: string | null; max_uses: number | null }
+  ): Promise<ClubInvite> => {
+    const { data, error } = await supabase.rpc('create_club_invite', {
+      p_club_id: clubId,
+      p_role: options.role,
+      p_expires_at: options.expires_at,
+      p_max_uses: options.max_uses,
+    });
+    if (error) throw error;
+    return data[0];
+  }
+
+  // Members who already joined keep their access
+  revokeClubInvite = async (inviteId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('club_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', inviteId);
+    if (error) throw error;
+  }
+
+  // Members of a club with their profile, owner first (online only)
+  getClubMembers = async (clubId: string): Promise<ClubMember[]> => {
+    const { data, error } = await supabase.rpc('get_club_members', { p_club_id: clubId });
+    if (error) throw error;
+
+    const members: ClubMember[] = data || [];
+    return members.sort((a, b) => {
+      if (a.role === 'owner' || b.role === 'owner') return a.role === 'owner' ? -1 : 1;
+      return (a.joined_at || '').localeCompare(b.joined_at || '');
+    });
+  }
+
+  // Owner only: revoke a member's access (enforced by RLS)
+  removeClubMember = async (clubId: string, userId: string): Promise<void> => {
+    const { error } = await supabase
+      .from('club_members')
+      .delete()
+      .eq('club_id', clubId)
+      .eq('user_id', userId);
+    if (error) throw error;
+  }
+
+  /**
+   * Leave a club joined with a share code, then drop its data from this device
+   */
+  leaveClub = async (clubId: string): Promise<void> => {
+    const userId = await authManager.getUserId();
+    if (!userId) throw new Error('Not authenticated');
+
+    await this.removeClubMember(clubId, userId);
+    await this.purgeLocalClub(clubId);
+  }
+
+  /**
+   * Owner only: make a member the owner of the club, the current owner becomes a coach.
+   * The new owner_id and roles reach local storage with the next sync.
+   */
+  transferClubOwnership = async (clubId: string, newOwnerId: string): Promise<void> => {
+    const { error } = await supabase.rpc('transfer_club_ownership', {
+      p_club_id: clubId,
+      p_new_owner_id: newOwnerId,
+    });
+    if (error) throw error;
+  }
   
-  resetClubStats = async (clubId: string): Promise<void> => {
-    const resetDate = new Date().toISOString().split('T')[0];
-    
-    // Update club with reset date
+  deleteClub = async (id: string): Promise<void> => {
     const clubs = await this.getClubs();
-    const updatedClubs = clubs.map(c => {
-      if (c.id === clubId) {
-        return { ...c, stats_reset_date: resetDate };
-      }
-      return c;
-    });
-    await AsyncStorage.setItem(CLUBS_KEY, JSON.stringify(updatedClubs));
+    const club = clubs.find(c => c.id === id);
+    const sessionIds = (await this.getSessions(id)).map(s => s.id);
+    const participantIds = (await this.getParticipants(id)).map(p => p.id);
     
-    // Delete ALL attendance records from local storage
-    await AsyncStorage.removeItem(ATTENDANCE_KEY);
+    // Mark club and related data as deleted for sync
+    await this.markAsDeleted('clubs', id);
+    for (const sessionId of sessionIds) {
+      await this.markAsDeleted('sessions', sessionId);
+    }
+    for (const participantId of participantIds) {
+      await this.markAsDeleted('participants', participantId);
+    }
+    const allAttendance = await this.getAllAttendance();
+    const attendanceToDelete = allAttendance.filter(a => 
+      sessionIds.includes(a.session_id) || participantIds.includes(a.participant_id)
+    );
+    for (const att of attendanceToDelete) {
+      await this.markAsDeleted('attendance', att.id);
+    }
+    
+    await this.purgeLocalClub(id);
     
-    if (this.isOnline) {
-      try {
-        const club = updatedClubs.find(c => c.id === clubId);
-        await supabase.from('clubs').update({ stats_reset_date: club?.stats_reset_date }).eq('id', clubId);
-      } catch (e) {
-        // Silent fail - sync later
+    // Queue the cloud deletion ONLY if user is the owner
+    // (a club created offline was never uploaded, its pending upsert is skipped on replay)
+    if (club && !club.id.startsWith('local-')) {
+      const userId = await authManager.getUserId();
+      const isOwner = userId && club.owner_id === userId;
+      
+      if (isOwner) {
+        // Children first (foreign key constraints)
+        await outbox.enqueue({ op: 'delete', table: 'participant_sessions', match: participantIds.map(participant_id => ({ participant_id })) });
+        await outbox.enqueue({ op: 'delete', table: 'attendance', match: sessionIds.map(session_id => ({ session_id })) });
+        await outbox.enqueue({ op: 'delete', table: 'attendance', match: participantIds.map(participant_id => ({ participant_id })) });
+        await outbox.enqueue({ op: 'delete', table: 'leave_periods', match: [{ club_id: id }] });
+        await outbox.enqueue({ op: 'delete', table: 'closures', match: [{ club_id: id }] });
+        await outbox.enqueue({ op: 'delete', table: 'seasons', match: [{ club_id: id }] });
+        await outbox.enqueue({ op: 'delete', table: 'participants', match: [{ club_id: id }] });
+        await outbox.enqueue({ op: 'delete', table: 'sessions', match: [{ club_id: id }] });
+        await outbox.enqueue({ op: 'delete', table: 'clubs', match: [{ id }] });
       }
     }
   }
-  deleteClub = async (id: string): Promise<void> => {
+
+  /**
+   * Remove a club and everything attached to it from this device only.
+   * Nothing is queued for the server: used when the club is gone there already.
+   */
+  purgeLocalClub = async (id: string): Promise<void> => {
     const clubs = await this.getClubs();
-    const club = clubs.find(c => c.id === id);
-    const filtered = clubs.filter(c => c.id !== id);
-    await AsyncStorage.setItem(CLUBS_KEY, JSON.stringify(filtered));
-    
-    // Mark club as deleted for sync
-    await this.markAsDeleted('clubs', id);
+    await AsyncStorage.setItem(CLUBS_KEY, JSON.stringify(clubs.filter(c => c.id !== id)));
     
-    // Also delete related data locally
-    const sessions = await this.getSessions(id);
-    const sessionIds = sessions.map(s => s.id);
+    const sessionIds = (await this.getSessions(id)).map(s => s.id);
     const allSessions = await AsyncStorage.getItem(SESSIONS_KEY);
     if (allSessions) {
-      const filteredSessions = JSON.parse(allSessions).filter(s => s.club_id !== id);
+      const filteredSessions = JSON.parse(allSessions).filter((s: Session) => s.club_id !== id);
       await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(filteredSessions));
     }
-    // Mark all sessions as deleted
-    for (const sessionId of sessionIds) {
-      await this.markAsDeleted('sessions', sessionId);
-    }
     
-    const participants = await this.getParticipants(id);
-    const participantIds = participants.map(p => p.id);
+    const participantIds = (await this.getParticipants(id)).map(p => p.id);
     const allParticipants = await AsyncStorage.getItem(PARTICIPANTS_KEY);
     if (allParticipants) {
-      const filteredParticipants = JSON.parse(allParticipants).filter(p => p.club_id !== id);
+      const filteredParticipants = JSON.parse(allParticipants).filter((p: Participant) => p.club_id !== id);
       await AsyncStorage.setItem(PARTICIPANTS_KEY, JSON.stringify(filteredParticipants));
     }
-    // Mark all participants as deleted
-    for (const participantId of participantIds) {
-      await this.markAsDeleted('participants', participantId);
-    }
     
-    // Delete attendance for those sessions and participants
+    // Attendance for those sessions and participants
     const allAttendance = await AsyncStorage.getItem(ATTENDANCE_KEY);
     if (allAttendance) {
-      const attendanceRecords = JSON.parse(allAttendance);
-      const attendanceToDelete = attendanceRecords.filter(a => 
-        sessionIds.includes(a.session_id) || participantIds.includes(a.participant_id)
-      );
-      // Mark attendance as deleted
-      for (const att of attendanceToDelete) {
-        await this.markAsDeleted('attendance', att.id);
-      }
-      const filteredAttendance = attendanceRecords.filter(a => 
+      const filteredAttendance = JSON.parse(allAttendance).filter((a: AttendanceRecord) => 
         !sessionIds.includes(a.session_id) && !participantIds.includes(a.participant_id)
       );
       await AsyncStorage.setItem(ATTENDANCE_KEY, JSON.stringify(filteredAttendance));
     }
     
-    // Delete participant_sessions for these participants
+    // Participant_sessions for these participants
     const allPS = await AsyncStorage.getItem(PARTICIPANT_SESSIONS_KEY);
     if (allPS) {
-      const filteredPS = JSON.parse(allPS).filter(ps => !participantIds.includes(ps.participant_id));
+      const filteredPS = JSON.parse(allPS).filter((ps: ParticipantSession) => !participantIds.includes(ps.participant_id));
       await AsyncStorage.setItem(PARTICIPANT_SESSIONS_KEY, JSON.stringify(filteredPS));
     }
     
-    // Delete from cloud ONLY if user is the owner
-    if (this.isOnline && club) {
-      // Get current user to check ownership
-      const { data: { user } } = await supabase.auth.getUser();
-      const isOwner = user && club.owner_id === user.id;
-      
-      if (isOwner) {
-        try {
-          // Delete participant_sessions first (foreign key constraint)
-          if (participantIds.length > 0) {
-            await supabase.from('participant_sessions').delete().in('participant_id', participantIds);
-          }
-          // Delete attendance
-          if (sessionIds.length > 0) {
-            await supabase.from('attendance').delete().in('session_id', sessionIds);
-          }
-          if (participantIds.length > 0) {
-            await supabase.from('attendance').delete().in('participant_id', participantIds);
-          }
-          // Delete participants
-          await supabase.from('participants').delete().eq('club_id', id);
-          // Delete sessions
-          await supabase.from('sessions').delete().eq('club_id', id);
-          // Delete club
-          await supabase.from('clubs').delete().eq('id', id);
-        } catch (e) {
-          // Silent fail - club deleted locally, will try to sync later
-        }
-      }
+    // Leave periods for this club
+    const allPeriods = await AsyncStorage.getItem(LEAVE_PERIODS_KEY);
+    if (allPeriods) {
+      const filteredPeriods = JSON.parse(allPeriods).filter((l: LeavePeriod) => l.club_id !== id);
+      await AsyncStorage.setItem(LEAVE_PERIODS_KEY, JSON.stringify(filteredPeriods));
+    }
+
+    // Closures and cancelled sessions of this club
+    const allClosures = await AsyncStorage.getItem(CLOSURES_KEY);
+    if (allClosures) {
+      const filteredClosures = JSON.parse(allClosures).filter((c: Closure) => c.club_id !== id);
+      await AsyncStorage.setItem(CLOSURES_KEY, JSON.stringify(filteredClosures));
+    }
+
+    // Seasons of this club
+    const allSeasons = await AsyncStorage.getItem(SEASONS_KEY);
+    if (allSeasons) {
+      const filteredSeasons = JSON.parse(allSeasons).filter((s: Season) => s.club_id !== id);
+      await AsyncStorage.setItem(SEASONS_KEY, JSON.stringify(filteredSeasons));
     }
   }
 
@@ -496,40 +761,85 @@ class DataService {
     // Save locally first
     await AsyncStorage.setItem(CLUBS_KEY, JSON.stringify(clubs));
     
-    // Cloud sync will be handled by periodic SyncService
+    // Queued for the periodic SyncService
+    await outbox.enqueue({ op: 'upsert', table: 'clubs', records: [club] });
     
     return club;
   }
 
+  /**
+   * Queue the full preferred sessions set of every participant touched by a reference change
+   */
+  private enqueueParticipantSessionsOf = async (allPS: ParticipantSession[], participantIds: string[]): Promise<void> => {
+    for (const participantId of participantIds) {
+      await outbox.enqueue({
+        op: 'replace_participant_sessions',
+        table: 'participant_sessions',
+        participant_id: participantId,
+        records: allPS.filter(ps => ps.participant_id === participantId)
+      });
+    }
+  }
+
   /**
    * Migrate session references when session ID changes (old ID -> content hash ID)
-   * Updates attendance and participant_sessions to use the new ID
+   * Updates attendance, participant_sessions and cancelled dates to use the new ID.
+   * With fromDate the old session stays: only what happens from that date moves,
+   * and participants are assigned to both.
    */
-  private migrateSessionReferences = async (oldId: string, newId: string): Promise<void> => {
+  private migrateSessionReferences = async (oldId: string, newId: string, fromDate?: string): Promise<void> => {
     if (oldId === newId) return;
+    const isMoved = (date: string) => !fromDate || date >= fromDate;
     
     // Update attendance records
     const attendanceData = await AsyncStorage.getItem(ATTENDANCE_KEY);
     if (attendanceData) {
       const attendance = JSON.parse(attendanceData);
+      const moved = attendance.filter((a: any) => a.session_id === oldId && isMoved(a.date));
       const updated = attendance.map((a: any) => 
-        a.session_id === oldId ? { ...a, session_id: newId, updated_at: new Date().toISOString() } : a
+        a.session_id === oldId && isMoved(a.date) ? { ...a, session_id: newId, updated_at: new Date().toISOString() } : a
       );
       await AsyncStorage.setItem(ATTENDANCE_KEY, JSON.stringify(updated));
+      await outbox.enqueue({ op: 'upsert', table: 'attendance', records: updated.filter((a: any) => a.session_id === newId) });
+      await outbox.enqueue({
+        op: 'delete',
+        table: 'attendance',
+        match: moved.map((a: any) => ({ participant_id: a.participant_id, session_id: a.session_id, date: a.date }))
+      });
     }
     
     // Update participant_sessions records
     const psData = await AsyncStorage.getItem(PARTICIPANT_SESSIONS_KEY);
     if (psData) {
       const participantSessions = JSON.parse(psData);
-      const updated = participantSessions.map((ps: any) => 
-        ps.session_id === oldId ? { ...ps, session_id: newId, updated_at: new Date().toISOString() } : ps
-      );
+      const now = new Date().toISOString();
+      const updated = fromDate
+        ? [
+          ...participantSessions,
+          ...participantSessions
+            .filter((ps: any) => ps.session_id === oldId)
+            .map((ps: any) => ({ ...ps, id: Date.now().toString() + Math.random().toString(36).substr(2, 9), session_id: newId, created_at: now, updated_at: now })),
+        ]
+        : participantSessions.map((ps: any) => 
+          ps.session_id === oldId ? { ...ps, session_id: newId, updated_at: now } : ps
+        );
       await AsyncStorage.setItem(PARTICIPANT_SESSIONS_KEY, JSON.stringify(updated));
+      const touched = participantSessions.filter((ps: any) => ps.session_id === oldId).map((ps: any) => ps.participant_id);
+      await this.enqueueParticipantSessionsOf(updated, [...new Set<string>(touched)]);
+    }
+
+    // Cancelled dates of the session (their ID includes the session's)
+    const closuresData = await AsyncStorage.getItem(CLOSURES_KEY);
+    if (closuresData) {
+      const moved = JSON.parse(closuresData).filter((c: Closure) => c.session_id === oldId && isMoved(c.start_date));
+      for (const closure of moved) {
+        await this.deleteClosure(closure.id);
+        await this.saveClosure({ ...closure, id: '', session_id: newId });
+      }
     }
     
     // Also migrate the deleted items tracking
-    const deletedData = await AsyncStorage.getItem(DELETED_ITEMS_KEY);
+    const deletedData = fromDate ? null : await AsyncStorage.getItem(DELETED_ITEMS_KEY);
     if (deletedData) {
       const deleted = JSON.parse(deletedData);
       if (deleted.sessions?.includes(oldId)) {
@@ -551,10 +861,17 @@ class DataService {
     const attendanceData = await AsyncStorage.getItem(ATTENDANCE_KEY);
     if (attendanceData) {
       const attendance = JSON.parse(attendanceData);
+      const moved = attendance.filter((a: any) => a.participant_id === oldId);
       const updated = attendance.map((a: any) => 
         a.participant_id === oldId ? { ...a, participant_id: newId, updated_at: new Date().toISOString() } : a
       );
       await AsyncStorage.setItem(ATTENDANCE_KEY, JSON.stringify(updated));
+      await outbox.enqueue({ op: 'upsert', table: 'attendance', records: updated.filter((a: any) => a.participant_id === newId) });
+      await outbox.enqueue({
+        op: 'delete',
+        table: 'attendance',
+        match: moved.map((a: any) => ({ participant_id: a.participant_id, session_id: a.session_id, date: a.date }))
+      });
     }
     
     // Update participant_sessions records
@@ -565,6 +882,8 @@ class DataService {
         ps.participant_id === oldId ? { ...ps, participant_id: newId, updated_at: new Date().toISOString() } : ps
       );
       await AsyncStorage.setItem(PARTICIPANT_SESSIONS_KEY, JSON.stringify(updated));
+      // The old participant ends up with no sessions on the server
+      await this.enqueueParticipantSessionsOf(updated, [oldId, newId]);
     }
     
     // Also migrate the deleted items tracking
@@ -593,8 +912,7 @@ class DataService {
     session.updated_at = new Date().toISOString();
     
     // Always compute content-based hash ID
-    const contentKey = `session|${session.club_id}|${session.day_of_week}|${session.start_time}|${session.end_time}`;
-    const contentHashId = generateContentBasedId(contentKey);
+    const contentHashId = getSessionHashId(session);
     
     // Find existing by current ID
     const existingByIdIndex = sessions.findIndex((s: Session) => s.id === session.id);
@@ -602,7 +920,8 @@ class DataService {
     const existingByHashIndex = sessions.findIndex((s: Session) => s.id === contentHashId);
     
     // Check if current ID matches the content hash
-    const needsMigration = session.id && session.id !== contentHashId;
+    const needsMigration = session.id && !isSessionHashId(session);
+    let migratedFromId: string | null = null;
     
     if (needsMigration && existingByIdIndex >= 0) {
       // Old ID exists - need to migrate to content hash ID
@@ -615,14 +934,14 @@ class DataService {
         sessions[existingByHashIndex] = session;
         sessions.splice(existingByIdIndex, 1);
         
-        // Update references from old ID to new hash ID
-        await this.migrateSessionReferences(oldId, contentHashId);
+        // Update references from old ID to new hash ID (once the session itself is queued)
+        migratedFromId = oldId;
       } else {
         // Just update the ID in place
         sessions[existingByIdIndex] = session;
         
-        // Update references from old ID to new hash ID
-        await this.migrateSessionReferences(oldId, contentHashId);
+        // Update references from old ID to new hash ID (once the session itself is queued)
+        migratedFromId = oldId;
       }
     } else if (existingByIdIndex >= 0) {
       // ID already matches hash (or is the hash), just update
@@ -640,7 +959,11 @@ class DataService {
     // Save locally first
     await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
     
-    // Cloud sync will be handled by periodic SyncService
+    // Queued for the periodic SyncService
+    await outbox.enqueue({ op: 'upsert', table: 'sessions', records: [session] });
+    if (migratedFromId) {
+      await this.migrateSessionReferences(migratedFromId, session.id);
+    }
     
     return session;
   }
@@ -670,6 +993,86 @@ class DataService {
       const filtered = attendanceRecords.filter(a => a.session_id !== id);
       await AsyncStorage.setItem(ATTENDANCE_KEY, JSON.stringify(filtered));
     }
+
+    // Cancelled occurrences of the session (deleted with it on the server)
+    const allClosures = await AsyncStorage.getItem(CLOSURES_KEY);
+    if (allClosures) {
+      const filteredClosures = JSON.parse(allClosures).filter((c: Closure) => c.session_id !== id);
+      await AsyncStorage.setItem(CLOSURES_KEY, JSON.stringify(filteredClosures));
+    }
+
+    // Queued for the periodic SyncService, attendance first (foreign key constraint)
+    await outbox.enqueue({ op: 'delete', table: 'attendance', match: [{ session_id: id }] });
+    await outbox.enqueue({ op: 'delete', table: 'sessions', match: [{ id }] });
+  }
+
+  /**
+   * Archive a session the club no longer runs: it leaves the schedule and the
+   * assignment lists, but its attendance stays in the statistics. Unlike
+   * deleteSession nothing is removed, and restoreSession brings it back.
+   */
+  archiveSession = async (id: string): Promise<void> => {
+    await this.setArchived('sessions', id, new Date().toISOString());
+  }
+
+  restoreSession = async (id: string): Promise<void> => {
+    await this.setArchived('sessions', id, null);
+  }
+
+  /**
+   * Change the day, times or place of a session without losing its history.
+   * The ID of a session comes from its content, so the edited session gets a new
+   * one: attendance, assignments and cancelled dates move to it and the old row
+   * is deleted. With fromDate the change only applies from that date: the current
+   * session ends the day before and keeps the past, the edited one takes over.
+   */
+  updateSession = async (session: Session, changes: SessionChanges, fromDate?: string): Promise<Session> => {
+    const edited: Session = { ...session, ...changes };
+    const splits = !!fromDate && !isOneOffSession(session)
+      && (!session.start_date || session.start_date < fromDate)
+      && (!session.end_date || fromDate <= session.end_date);
+    if (!splits) {
+      return this.replaceSession(session, edited);
+    }
+
+    const ended = await this.replaceSession(session, { ...session, end_date: addDays(fromDate!, -1) });
+    return this.replaceSession(ended, { ...edited, start_date: fromDate!, end_date: session.end_date ?? null }, fromDate);
+  }
+
+  // Saves the new version of a session under its content-based ID. The current one is
+  // deleted, or kept when fromDate is given (the new version only takes over from then).
+  private replaceSession = async (current: Session, updated: Session, fromDate?: string): Promise<Session> => {
+    const allSessions = await AsyncStorage.getItem(SESSIONS_KEY);
+    const sessions: Session[] = allSessions ? JSON.parse(allSessions) : [];
+
+    // Changes that don't touch the content (capacity) keep the ID, legacy ones included
+    const newId = !fromDate && isSessionHashId({ ...updated, id: current.id }) ? current.id : getSessionHashId(updated);
+    if (sessions.some(s => s.id === newId && s.id !== current.id)) {
+      throw new Error('A session with the same day, times and place already exists');
+    }
+
+    const saved: Session = { ...updated, id: newId, updated_at: new Date().toISOString() };
+    const kept = fromDate ? sessions : sessions.filter(s => s.id !== current.id);
+    const index = kept.findIndex(s => s.id === newId);
+    if (index >= 0) {
+      kept[index] = saved;
+    } else {
+      kept.push(saved);
+    }
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(kept));
+    // Editing back to an earlier version: don't let sync delete it again
+    await this.clearDeletedMarks('sessions', [newId]);
+    await outbox.enqueue({ op: 'upsert', table: 'sessions', records: [saved] });
+
+    if (newId !== current.id) {
+      await this.migrateSessionReferences(current.id, newId, fromDate);
+      if (!fromDate) {
+        // Last, once nothing points to it anymore (foreign key constraints)
+        await this.markAsDeleted('sessions', current.id);
+        await outbox.enqueue({ op: 'delete', table: 'sessions', match: [{ id: current.id }] });
+      }
+    }
+    return saved;
   }
 
   getParticipants = async (clubId: string): Promise<Participant[]> => {
@@ -686,8 +1089,7 @@ class DataService {
     participant.updated_at = new Date().toISOString();
     
     // Always compute content-based hash ID (normalize names: trim & lowercase)
-    const contentKey = `participant|${participant.club_id}|${(participant.first_name || '').trim().toLowerCase()}|${(participant.last_name || '').trim().toLowerCase()}`;
-    const contentHashId = generateContentBasedId(contentKey);
+    const contentHashId = getParticipantHashId(participant);
     
     // Find existing by current ID
     const existingByIdIndex = participants.findIndex((p: Participant) => p.id === participant.id);
@@ -696,6 +1098,7 @@ class DataService {
     
     // Check if current ID matches the content hash
     const needsMigration = participant.id && participant.id !== contentHashId;
+    let migratedFromId: string | null = null;
     
     if (needsMigration && existingByIdIndex >= 0) {
       // Old ID exists - need to migrate to content hash ID
@@ -708,14 +1111,14 @@ class DataService {
         participants[existingByHashIndex] = participant;
         participants.splice(existingByIdIndex, 1);
         
-        // Update references from old ID to new hash ID
-        await this.migrateParticipantReferences(oldId, contentHashId);
+        // Update references from old ID to new hash ID (once the participant itself is queued)
+        migratedFromId = oldId;
       } else {
         // Just update the ID in place
         participants[existingByIdIndex] = participant;
         
-        // Update references from old ID to new hash ID
-        await this.migrateParticipantReferences(oldId, contentHashId);
+        // Update references from old ID to new hash ID (once the participant itself is queued)
+        migratedFromId = oldId;
       }
     } else if (existingByIdIndex >= 0) {
       // ID already matches hash (or is the hash), just update
@@ -733,11 +1136,77 @@ class DataService {
     // Save locally first
     await AsyncStorage.setItem(PARTICIPANTS_KEY, JSON.stringify(participants));
     
-    // Cloud sync will be handled by periodic SyncService
+    // Queued for the periodic SyncService (preferred sessions go through participant_sessions)
+    const { preferred_session_ids, ...dbParticipant } = participant;
+    await outbox.enqueue({ op: 'upsert', table: 'participants', records: [dbParticipant] });
+    if (migratedFromId) {
+      await this.migrateParticipantReferences(migratedFromId, participant.id);
+    }
     
     return participant;
   }
 
+  /**
+   * Adds many participants at once (CSV import): one write of each list and one
+   * queued upsert, instead of a saveParticipant per row. Participants already in
+   * the club are left untouched. Returns the participants added.
+   */
+  importParticipants = async (clubId: string, rows: Pick<Participant, 'first_name' | 'last_name' | 'preferred_session_ids'>[]): Promise<Participant[]> => {
+    const allParticipants = await AsyncStorage.getItem(PARTICIPANTS_KEY);
+    const participants: Participant[] = allParticipants ? JSON.parse(allParticipants) : [];
+    const existingIds = new Set(participants.map(p => p.id));
+    const now = new Date().toISOString();
+
+    const added: Participant[] = [];
+    for (const row of rows) {
+      const participant: Participant = {
+        id: getParticipantHashId({ club_id: clubId, first_name: row.first_name, last_name: row.last_name }),
+        club_id: clubId,
+        first_name: row.first_name.trim(),
+        last_name: row.last_name.trim(),
+        updated_at: now,
+      };
+      if (existingIds.has(participant.id)) {
+        continue;
+      }
+      existingIds.add(participant.id);
+      added.push({ ...participant, preferred_session_ids: [...new Set(row.preferred_session_ids || [])] });
+      participants.push(participant);
+    }
+    if (added.length === 0) {
+      return [];
+    }
+
+    await AsyncStorage.setItem(PARTICIPANTS_KEY, JSON.stringify(participants));
+    await this.clearDeletedMarks('participants', added.map(p => p.id));
+    await outbox.enqueue({ op: 'upsert', table: 'participants', records: added.map(({ preferred_session_ids, ...p }) => p) });
+
+    // Session assignments of the new participants, queued per participant like saveParticipantSessions
+    const localPS = await AsyncStorage.getItem(PARTICIPANT_SESSIONS_KEY);
+    const allPS: ParticipantSession[] = localPS ? JSON.parse(localPS) : [];
+    const assignments = added
+      .filter(p => p.preferred_session_ids!.length > 0)
+      .map(p => ({
+        participantId: p.id,
+        records: p.preferred_session_ids!.map(sessionId => ({
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+          participant_id: p.id,
+          session_id: sessionId,
+          created_at: now,
+          updated_at: now
+        })),
+      }));
+    if (assignments.length > 0) {
+      allPS.push(...assignments.flatMap(a => a.records));
+      await AsyncStorage.setItem(PARTICIPANT_SESSIONS_KEY, JSON.stringify(allPS));
+      for (const { participantId, records } of assignments) {
+        await outbox.enqueue({ op: 'replace_participant_sessions', table: 'participant_sessions', participant_id: participantId, records });
+      }
+    }
+
+    return added;
+  }
+
   deleteParticipant = async (id: string): Promise<void> => {
     const allParticipants = await AsyncStorage.getItem(PARTICIPANTS_KEY);
     let participant = null;
@@ -763,6 +1232,54 @@ class DataService {
       const filtered = attendanceRecords.filter(a => a.participant_id !== id);
       await AsyncStorage.setItem(ATTENDANCE_KEY, JSON.stringify(filtered));
     }
+
+    // Delete related leave periods
+    const allPeriods = await AsyncStorage.getItem(LEAVE_PERIODS_KEY);
+    if (allPeriods) {
+      const periods = JSON.parse(allPeriods);
+      for (const period of periods.filter((l: LeavePeriod) => l.participant_id === id)) {
+        await this.markAsDeleted('leave_periods', period.id);
+      }
+      const filtered = periods.filter((l: LeavePeriod) => l.participant_id !== id);
+      await AsyncStorage.setItem(LEAVE_PERIODS_KEY, JSON.stringify(filtered));
+    }
+
+    // Queued for the periodic SyncService, children first (foreign key constraints)
+    await outbox.enqueue({ op: 'delete', table: 'attendance', match: [{ participant_id: id }] });
+    await outbox.enqueue({ op: 'delete', table: 'participant_sessions', match: [{ participant_id: id }] });
+    await outbox.enqueue({ op: 'delete', table: 'leave_periods', match: [{ participant_id: id }] });
+    await outbox.enqueue({ op: 'delete', table: 'participants', match: [{ id }] });
+  }
+
+  /**
+   * Archive a participant who left the club: hidden from attendance taking and
+   * assignments, with their attendance and assignments kept for the statistics
+   * and for restoreParticipant.
+   */
+  archiveParticipant = async (id: string): Promise<void> => {
+    await this.setArchived('participants', id, new Date().toISOString());
+  }
+
+  restoreParticipant = async (id: string): Promise<void> => {
+    await this.setArchived('participants', id, null);
+  }
+
+  private setArchived = async (table: 'sessions' | 'participants', id: string, archivedAt: string | null): Promise<void> => {
+    const key = table === 'sessions' ? SESSIONS_KEY : PARTICIPANTS_KEY;
+    const stored = await AsyncStorage.getItem(key);
+    const records: Array<Session | Participant> = stored ? JSON.parse(stored) : [];
+    const record = records.find(r => r.id === id);
+    if (!record) {
+      return;
+    }
+
+    record.archived_at = archivedAt;
+    record.updated_at = new Date().toISOString();
+    await AsyncStorage.setItem(key, JSON.stringify(records));
+
+    // Queued for the periodic SyncService (preferred sessions go through participant_sessions)
+    const { preferred_session_ids, ...dbRecord } = record as Participant;
+    await outbox.enqueue({ op: 'upsert', table, records: [dbRecord] });
   }
 
   getAttendance = async (sessionId: string, date: string): Promise<AttendanceRecord[]> => {
@@ -777,6 +1294,13 @@ class DataService {
     return allAttendance;
   }
 
+  // Attendance of one club, through its sessions (archived ones included)
+  getClubAttendance = async (clubId: string): Promise<AttendanceRecord[]> => {
+    const sessionIds = new Set((await this.getSessions(clubId)).map(s => s.id));
+    const attendance = await this.getAllAttendance();
+    return attendance.filter(a => sessionIds.has(a.session_id));
+  }
+
   saveAttendance = async (records: AttendanceRecord[]): Promise<void> => {
     if (records.length === 0) {
       return;
@@ -797,9 +1321,12 @@ class DataService {
     const recordsWithTimestamps = records.map(record => {
       const contentKey = `attendance|${record.participant_id}|${record.session_id}|${record.date}`;
       const contentId = generateContentBasedId(contentKey);
+      const status = getAttendanceStatus(record);
       return {
         ...record,
         id: record.id || contentId, // Use existing ID or generate content-based ID
+        status,
+        present: isPresentStatus(status),
         updated_at: new Date().toISOString(),
       };
     });
@@ -809,7 +1336,8 @@ class DataService {
     // Save locally first
     await AsyncStorage.setItem(ATTENDANCE_KEY, JSON.stringify(attendance));
     
-    // Cloud sync will be handled by periodic SyncService
+    // Queued for the periodic SyncService
+    await outbox.enqueue({ op: 'upsert', table: 'attendance', records: recordsWithTimestamps });
   }
 
   getUser = async (): Promise<User | null> => {
@@ -854,21 +1382,20 @@ class DataService {
     
     // Add new relationships with timestamp for conflict resolution
     const now = new Date().toISOString();
-    sessionIds.forEach(sessionId => {
-      const newPS = {
-        id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-        participant_id: participantId,
-        session_id: sessionId,
-        created_at: now,
-        updated_at: now
-      };
-      allPS.push(newPS);
-    });
+    const newRecords = [...new Set(sessionIds)].map(sessionId => ({
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      participant_id: participantId,
+      session_id: sessionId,
+      created_at: now,
+      updated_at: now
+    }));
+    allPS.push(...newRecords);
     
     // Save locally first
     await AsyncStorage.setItem(PARTICIPANT_SESSIONS_KEY, JSON.stringify(allPS));
     
-    // Cloud sync will be handled by periodic SyncService
+    // Queued for the periodic SyncService - replaces the whole set on the server
+    await outbox.enqueue({ op: 'replace_participant_sessions', table: 'participant_sessions', participant_id: participantId, records: newRecords });
   }
 
   // Get participants with their preferred sessions loaded
@@ -882,6 +1409,453 @@ class DataService {
     
     return participants;
   }
+
+  // ============================================
+  // LEAVE PERIODS
+  // Dated absences (long-term sickness, injury...) excluded from statistics
+  // ============================================
+
+  getLeavePeriods = async (clubId: string): Promise<LeavePeriod[]> => {
+    const local = await AsyncStorage.getItem(LEAVE_PERIODS_KEY);
+    const periods = local ? JSON.parse(local).filter((l: LeavePeriod) => l.club_id === clubId) : [];
+    return periods;
+  }
+
+  getParticipantLeavePeriods = async (participantId: string): Promise<LeavePeriod[]> => {
+    const local = await AsyncStorage.getItem(LEAVE_PERIODS_KEY);
+    const periods = local ? JSON.parse(local).filter((l: LeavePeriod) => l.participant_id === participantId) : [];
+    return periods.sort((a: LeavePeriod, b: LeavePeriod) => b.start_date.localeCompare(a.start_date));
+  }
+
+  saveLeavePeriod = async (period: LeavePeriod): Promise<LeavePeriod> => {
+    const allPeriods = await AsyncStorage.getItem(LEAVE_PERIODS_KEY);
+    const periods = allPeriods ? JSON.parse(allPeriods) : [];
+
+    const now = new Date().toISOString();
+    period.updated_at = now;
+
+    const existingIndex = periods.findIndex((l: LeavePeriod) => l.id === period.id);
+    if (existingIndex >= 0) {
+      periods[existingIndex] = period;
+    } else {
+      // Content-based ID so the same leave created on two devices doesn't duplicate
+      period.id = generateContentBasedId(`leave_period|${period.participant_id}|${period.start_date}`);
+      period.created_at = now;
+      const hashIndex = periods.findIndex((l: LeavePeriod) => l.id === period.id);
+      if (hashIndex >= 0) {
+        periods[hashIndex] = period;
+      } else {
+        periods.push(period);
+      }
+      // Re-creating a previously deleted leave: don't let sync delete it again
+      await this.clearDeletedMarks('leave_periods', [period.id]);
+    }
+
+    // Save locally first
+    await AsyncStorage.setItem(LEAVE_PERIODS_KEY, JSON.stringify(periods));
+
+    // Queued for the periodic SyncService
+    await outbox.enqueue({ op: 'upsert', table: 'leave_periods', records: [period] });
+
+    return period;
+  }
+
+  deleteLeavePeriod = async (id: string): Promise<void> => {
+    const allPeriods = await AsyncStorage.getItem(LEAVE_PERIODS_KEY);
+    if (allPeriods) {
+      const filtered = JSON.parse(allPeriods).filter((l: LeavePeriod) => l.id !== id);
+      await AsyncStorage.setItem(LEAVE_PERIODS_KEY, JSON.stringify(filtered));
+    }
+
+    // Mark leave period as deleted for sync
+    await this.markAsDeleted('leave_periods', id);
+    await outbox.enqueue({ op: 'delete', table: 'leave_periods', match: [{ id }] });
+  }
+
+  // ============================================
+  // CLOSURES
+  // Cancelled session occurrences and club closures, excluded from
+  // upcoming sessions and statistics
+  // ============================================
+
+  getClosures = async (clubId: string): Promise<Closure[]> => {
+    const local = await AsyncStorage.getItem(CLOSURES_KEY);
+    const closures = local ? JSON.parse(local).filter((c: Closure) => c.club_id === clubId) : [];
+    return closures.sort((a: Closure, b: Closure) => b.start_date.localeCompare(a.start_date));
+  }
+
+  saveClosure = async (closure: Closure): Promise<Closure> => {
+    const allClosures = await AsyncStorage.getItem(CLOSURES_KEY);
+    const closures = allClosures ? JSON.parse(allClosures) : [];
+
+    const now = new Date().toISOString();
+    closure.updated_at = now;
+
+    const existingIndex = closures.findIndex((c: Closure) => c.id === closure.id);
+    if (existingIndex >= 0) {
+      closures[existingIndex] = closure;
+    } else {
+      // Content-based ID so cancelling the same date on two devices doesn't duplicate
+      closure.id = generateContentBasedId(`closure|${closure.club_id}|${closure.session_id || ''}|${closure.start_date}`);
+      closure.created_at = now;
+      const hashIndex = closures.findIndex((c: Closure) => c.id === closure.id);
+      if (hashIndex >= 0) {
+        closures[hashIndex] = closure;
+      } else {
+        closures.push(closure);
+      }
+      // Re-creating a previously deleted closure: don't let sync delete it again
+      await this.clearDeletedMarks('closures', [closure.id]);
+    }
+
+    // Save locally first
+    await AsyncStorage.setItem(CLOSURES_KEY, JSON.stringify(closures));
+
+    // Queued for the periodic SyncService
+    await outbox.enqueue({ op: 'upsert', table: 'closures', records: [closure] });
+
+    return closure;
+  }
+
+  deleteClosure = async (id: string): Promise<void> => {
+    const allClosures = await AsyncStorage.getItem(CLOSURES_KEY);
+    if (allClosures) {
+      const filtered = JSON.parse(allClosures).filter((c: Closure) => c.id !== id);
+      await AsyncStorage.setItem(CLOSURES_KEY, JSON.stringify(filtered));
+    }
+
+    // Mark closure as deleted for sync
+    await this.markAsDeleted('closures', id);
+    await outbox.enqueue({ op: 'delete', table: 'closures', match: [{ id }] });
+  }
+
+  // ============================================
+  // SEASONS
+  // Named periods of a club, setting the default range of the statistics
+  // ============================================
+
+  getSeasons = async (clubId: string): Promise<Season[]> => {
+    const local = await AsyncStorage.getItem(SEASONS_KEY);
+    const seasons = local ? JSON.parse(local).filter((s: Season) => s.club_id === clubId) : [];
+    return seasons.sort((a: Season, b: Season) => b.start_date.localeCompare(a.start_date));
+  }
+
+  saveSeason = async (season: Season): Promise<Season> => {
+    const allSeasons = await AsyncStorage.getItem(SEASONS_KEY);
+    const seasons = allSeasons ? JSON.parse(allSeasons) : [];
+
+    const now = new Date().toISOString();
+    season.updated_at = now;
+
+    const existingIndex = seasons.findIndex((s: Season) => s.id === season.id);
+    if (existingIndex >= 0) {
+      seasons[existingIndex] = season;
+    } else {
+      // Content-based ID so starting the same season on two devices doesn't duplicate
+      season.id = generateContentBasedId(`season|${season.club_id}|${season.start_date}`);
+      season.created_at = now;
+      const hashIndex = seasons.findIndex((s: Season) => s.id === season.id);
+      if (hashIndex >= 0) {
+        seasons[hashIndex] = season;
+      } else {
+        seasons.push(season);
+      }
+      // Re-creating a previously deleted season: don't let sync delete it again
+      await this.clearDeletedMarks('seasons', [season.id]);
+    }
+
+    // Save locally first
+    await AsyncStorage.setItem(SEASONS_KEY, JSON.stringify(seasons));
+
+    // Queued for the periodic SyncService
+    await outbox.enqueue({ op: 'upsert', table: 'seasons', records: [season] });
+
+    return season;
+  }
+
+  // Only the season goes: attendance of its dates is kept
+  deleteSeason = async (id: string): Promise<void> => {
+    const allSeasons = await AsyncStorage.getItem(SEASONS_KEY);
+    if (allSeasons) {
+      const filtered = JSON.parse(allSeasons).filter((s: Season) => s.id !== id);
+      await AsyncStorage.setItem(SEASONS_KEY, JSON.stringify(filtered));
+    }
+
+    // Mark season as deleted for sync
+    await this.markAsDeleted('seasons', id);
+    await outbox.enqueue({ op: 'delete', table: 'seasons', match: [{ id }] });
+  }
+
+  // ============================================
+  // CLUB BACKUP
+  // JSON files moving a club between devices without an account (see clubBackup.ts)
+  // ============================================
+
+  exportClubBackup = async (clubId: string): Promise<ClubBackup> => {
+    const club = await this.getClub(clubId);
+    if (!club) {
+      throw new Error('Club not found');
+    }
+    const participants = await this.getParticipants(clubId);
+    const participantIds = new Set(participants.map(p => p.id));
+    const allPS = await AsyncStorage.getItem(PARTICIPANT_SESSIONS_KEY);
+    const rows = {
+      sessions: await this.getSessions(clubId),
+      participant_sessions: (allPS ? JSON.parse(allPS) : []).filter((ps: ParticipantSession) => participantIds.has(ps.participant_id)),
+      attendance: await this.getClubAttendance(clubId),
+      leave_periods: await this.getLeavePeriods(clubId),
+      closures: await this.getClosures(clubId),
+      seasons: await this.getSeasons(clubId),
+    };
+
+    // Marks don't record their club: only the ones of this club's rows can go in its backup
+    const clubIds = new Set<string>([
+      club.id,
+      ...participantIds,
+      ...Object.values(rows).flatMap((list: { id: string }[]) => list.map(row => row.id)),
+    ]);
+    const deleted = await this.getDeletedItems();
+    const deletedItems = Object.fromEntries(
+      (Object.keys(deleted) as (keyof DeletedItems)[]).map(type => [type, deleted[type].filter(id => clubIds.has(id))])
+    );
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exported_at: new Date().toISOString(),
+      club,
+      participants: participants.map(({ preferred_session_ids, ...p }) => p),
+      ...rows,
+      deleted_items: deletedItems,
+    };
+  }
+
+  /**
+   * Restores a validated backup (see validateClubBackup). IDs are kept, except the ones
+   * that aren't the content hash of their row, which are re-keyed with their references.
+   * Replacing only drops the club from this device: rows already on the server stay there.
+   */
+  restoreClubBackup = async (validated: ClubBackup, mode: RestoreMode): Promise<Club> => {
+    const sessionIds = new Map<string, string>();
+    for (const session of validated.sessions) {
+      if (!isSessionHashId(session)) {
+        sessionIds.set(session.id, getSessionHashId(session));
+      }
+    }
+    const participantIds = new Map<string, string>();
+    for (const participant of validated.participants) {
+      const hashId = getParticipantHashId(participant);
+      if (participant.id !== hashId) {
+        participantIds.set(participant.id, hashId);
+      }
+    }
+    const backup = remapBackupIds(validated, sessionIds, participantIds);
+
+    if (mode === 'replace') {
+      await this.purgeLocalClub(backup.club.id);
+    }
+
+    const restoreRows = async <T>(key: string, restored: T[], getKey: (row: T) => string): Promise<T[]> => {
+      const local = await AsyncStorage.getItem(key);
+      const rows = mergeRows<T>(local ? JSON.parse(local) : [], restored, getKey);
+      await AsyncStorage.setItem(key, JSON.stringify(rows));
+      return rows;
+    };
+    await restoreRows(CLUBS_KEY, [backup.club], c => c.id);
+    await restoreRows(SESSIONS_KEY, backup.sessions, s => s.id);
+    await restoreRows(PARTICIPANTS_KEY, backup.participants, p => p.id);
+    const allPS = await restoreRows(PARTICIPANT_SESSIONS_KEY, backup.participant_sessions, ps => `${ps.participant_id}|${ps.session_id}`);
+    await restoreRows(ATTENDANCE_KEY, backup.attendance, a => `${a.participant_id}|${a.session_id}|${a.date}`);
+    await restoreRows(LEAVE_PERIODS_KEY, backup.leave_periods, l => l.id);
+    await restoreRows(CLOSURES_KEY, backup.closures, c => c.id);
+    await restoreRows(SEASONS_KEY, backup.seasons, s => s.id);
+
+    // Deletion marks of both devices, minus the rows just restored
+    const restoredIds = new Set([
+      backup.club.id,
+      ...[backup.sessions, backup.participants, backup.attendance, backup.leave_periods, backup.closures, backup.seasons]
+        .flatMap(rows => rows.map(row => row.id)),
+    ]);
+    const deleted = await this.getDeletedItems();
+    for (const type of Object.keys(deleted) as (keyof DeletedItems)[]) {
+      deleted[type] = [...new Set([...deleted[type], ...(backup.deleted_items[type] || [])])].filter(id => !restoredIds.has(id));
+    }
+    await AsyncStorage.setItem(DELETED_ITEMS_KEY, JSON.stringify(deleted));
+
+    // Queued like any other write: a signed-in device uploads the restored club
+    await outbox.enqueue({ op: 'upsert', table: 'clubs', records: [backup.club] });
+    const tables: [OutboxTable, any[]][] = [
+      ['sessions', backup.sessions],
+      ['participants', backup.participants.map(({ preferred_session_ids, ...p }) => p)],
+      ['attendance', backup.attendance],
+      ['leave_periods', backup.leave_periods],
+      ['closures', backup.closures],
+      ['seasons', backup.seasons],
+    ];
+    for (const [table, records] of tables) {
+      if (records.length > 0) {
+        await outbox.enqueue({ op: 'upsert', table, records });
+      }
+    }
+    await this.enqueueParticipantSessionsOf(allPS, backup.participants.map(p => p.id));
+
+    return backup.club;
+  }
+
+  /**
+   * Replace the day names older versions stored in sessions ('Lundi', 'Monday')
+   * by ISO weekdays. IDs are left alone: isSessionHashId() still recognizes the
+   * ones derived from names. Called after every sync too, for rows coming from
+   * older clients.
+   */
+  migrateSessionWeekdays = async (): Promise<void> => {
+    const sessionsData = await AsyncStorage.getItem(SESSIONS_KEY);
+    if (!sessionsData) return;
+
+    const sessions = JSON.parse(sessionsData);
+    let changed = false;
+    const migrated = sessions.map((s: Session) => {
+      const weekday = parseWeekday(s.day_of_week);
+      if (weekday === null || weekday === s.day_of_week) return s;
+      changed = true;
+      // Keep updated_at untouched: the server rows are migrated by sql/migrate_day_of_week.sql
+      return { ...s, day_of_week: weekday };
+    });
+
+    if (changed) {
+      await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(migrated));
+    }
+  }
+
+  /**
+   * Convert the legacy is_long_term_sick flag into an open-ended leave period.
+   * The start date is the participant's last update, which is the best guess we
+   * have for when the flag was set. Called after every sync so flags coming
+   * from older clients are converted too.
+   */
+  migrateLongTermSickFlags = async (): Promise<void> => {
+    const allParticipants = await AsyncStorage.getItem(PARTICIPANTS_KEY);
+    if (!allParticipants) return;
+
+    const participants = JSON.parse(allParticipants);
+    const flagged = participants.filter((p: Participant) => p.is_long_term_sick);
+    if (flagged.length === 0) return;
+
+    const allPeriods = await AsyncStorage.getItem(LEAVE_PERIODS_KEY);
+    const periods = allPeriods ? JSON.parse(allPeriods) : [];
+    const deletedIds = await this.getDeletedIds('leave_periods');
+    const now = new Date().toISOString();
+    const created: LeavePeriod[] = [];
+
+    for (const participant of flagged) {
+      const startDate = (participant.updated_at || participant.created_at || now).split('T')[0];
+      // One leave per participant: converting the flag again (from a device not yet updated) adds nothing
+      const id = generateContentBasedId(`leave_period|${participant.id}|long_term_sick`);
+      if (!deletedIds.includes(id) && !periods.some((l: LeavePeriod) => l.id === id)) {
+        created.push({
+          id,
+          participant_id: participant.id,
+          club_id: participant.club_id,
+          start_date: startDate,
+          end_date: null,
+          reason: null,
+          created_at: now,
+          updated_at: now
+        });
+      }
+      // Cleared on the server too, or the next download brings the flag back
+      participant.is_long_term_sick = false;
+      participant.updated_at = now;
+    }
+
+    await AsyncStorage.setItem(LEAVE_PERIODS_KEY, JSON.stringify([...periods, ...created]));
+    await AsyncStorage.setItem(PARTICIPANTS_KEY, JSON.stringify(participants));
+    await outbox.enqueue({ op: 'upsert', table: 'leave_periods', records: created });
+    await outbox.enqueue({
+      op: 'upsert',
+      table: 'participants',
+      records: flagged.map(({ preferred_session_ids, ...p }: Participant) => p),
+    });
+  }
+
+  /**
+   * Convert the legacy stats_reset_date of clubs into a season starting that day,
+   * so the statistics still open on the period since the reset. The season lasts
+   * a year, or until today when the reset is older. Clubs whose seasons already
+   * cover these dates keep their seasons. Called after every sync too, for clubs
+   * downloaded from a server that still has the column.
+   */
+  migrateStatsResetDates = async (): Promise<void> => {
+    const allClubs = await AsyncStorage.getItem(CLUBS_KEY);
+    if (!allClubs) return;
+
+    const clubs = JSON.parse(allClubs);
+    const flagged = clubs.filter((c: Club) => c.stats_reset_date);
+    if (flagged.length === 0) return;
+
+    const deletedIds = await this.getDeletedIds('seasons');
+    const today = toDateString(new Date());
+
+    for (const club of flagged) {
+      const startDate = club.stats_reset_date.split('T')[0];
+      const startYear = Number(startDate.slice(0, 4));
+      const yearEnd = addDays(`${startYear + 1}${startDate.slice(4)}`, -1);
+      const endDate = yearEnd > today ? yearEnd : today;
+      // Same ID as saveSeason: a season removed by the user isn't brought back
+      const id = generateContentBasedId(`season|${club.id}|${startDate}`);
+      const seasons = await this.getSeasons(club.id);
+      const overlaps = seasons.some(s => s.start_date <= endDate && s.end_date >= startDate);
+      if (!deletedIds.includes(id) && !overlaps) {
+        await this.saveSeason({
+          id: '', // Set by saveSeason
+          club_id: club.id,
+          name: endDate.slice(0, 4) === String(startYear) ? String(startYear) : `${startYear}-${endDate.slice(0, 4)}`,
+          start_date: startDate,
+          end_date: endDate,
+        });
+      }
+      // Never uploaded (see SERVER_COLUMNS in syncService), so only cleared locally
+      delete club.stats_reset_date;
+    }
+
+    await AsyncStorage.setItem(CLUBS_KEY, JSON.stringify(clubs));
+  }
+
+  getConflicts = async (clubId: string): Promise<SyncConflict[]> => {
+    return conflictStore.getConflicts(clubId);
+  }
+
+  /**
+   * Settle a sync conflict. The server value is already applied locally;
+   * keeping the local value saves it again so the next sync sends it.
+   */
+  resolveConflict = async (conflict: SyncConflict, keep: 'local' | 'server'): Promise<void> => {
+    if (keep === 'local') {
+      const value = { [conflict.field]: conflict.local_value };
+      const { record } = conflict;
+
+      if (conflict.table === 'clubs') {
+        const club = await this.getClub(record.id);
+        if (club) await this.saveClub({ ...club, ...value });
+      } else if (conflict.table === 'sessions') {
+        const session = (await this.getSessions(record.club_id)).find(s => s.id === record.id);
+        if (session) await this.saveSession({ ...session, ...value });
+      } else if (conflict.table === 'participants') {
+        const participant = (await this.getParticipants(record.club_id)).find(p => p.id === record.id);
+        if (participant) await this.saveParticipant({ ...participant, ...value });
+      } else {
+        // saveAttendance replaces the whole sheet of the session and date
+        const sheet = await this.getAttendance(record.session_id, record.date);
+        if (sheet.some(a => a.participant_id === record.participant_id)) {
+          await this.saveAttendance(sheet.map(a =>
+            a.participant_id === record.participant_id ? { ...a, ...value } : a
+          ));
+        }
+      }
+    }
+
+    await conflictStore.removeConflict(conflict.id);
+  }
 }
 
 export const dataService = new DataService();
\ No newline at end of file
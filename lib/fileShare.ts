@@ -0,0 +1,49 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Writes a file to the cache directory and opens the share sheet for it.
+ * The file is overwritten on the next export with the same name.
+ */
+export const shareFile = async (fileName: string, content: string, mimeType: string): Promise<void> => {
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(content);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+};
+
+/**
+ * Renders an HTML page to an A4 landscape PDF and opens the share sheet for it
+ */
+export const sharePdf = async (html: string): Promise<void> => {
+  const { uri } = await Print.printToFileAsync({ html, width: 842, height: 595 });
+  await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf' });
+};
+
+export const printHtml = async (html: string): Promise<void> => {
+  await Print.printAsync({ html, orientation: Print.Orientation.landscape });
+};
+
+/**
+ * Lets the user pick a file and reads it as text. Null when they cancelled.
+ */
+export const pickTextFile = async (mimeTypes: string[]): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  const asset = result.assets?.[0];
+  if (result.canceled || !asset) {
+    return null;
+  }
+  return new File(asset.uri).text();
+};
+
+// Safe file name part from a club name or a date range
+export const toFileNamePart = (value: string): string => {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents
+    .replace(/[^a-zA-Z0-9-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+};
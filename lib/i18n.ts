@@ -1,6 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { en } from '../locales/en';
 import { fr } from '../locales/fr';
+import { IsoWeekday, parseWeekday, WEEKDAY_KEYS } from './sessionSchedule';
 
 const LANGUAGE_KEY = '@presence_app:language';
 
@@ -56,24 +57,14 @@ class I18n {
     return typeof value === 'string' ? value : key;
   }
 
-  // Translate day names between languages
-  translateDay(dayName: string): string {
-    const frenchDays = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
-    const englishDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    
-    // Find the index in either French or English
-    let dayIndex = frenchDays.indexOf(dayName);
-    if (dayIndex === -1) {
-      dayIndex = englishDays.indexOf(dayName);
-    }
-    
-    if (dayIndex === -1) {
-      return dayName; // Return as-is if not found
+  // Name of a session's day in the current language
+  formatDay(day: IsoWeekday | string): string {
+    const weekday = parseWeekday(day);
+    if (weekday === null) {
+      return String(day); // Return as-is if not found
     }
     
-    // Return the day name in the current language
-    const translatedDay = this.currentLanguage === 'fr' ? frenchDays[dayIndex] : englishDays[dayIndex];
-    return translatedDay || dayName;
+    return this.t(`days.${WEEKDAY_KEYS[weekday]}`);
   }
 
   // Subscribe to language changes
@@ -0,0 +1,56 @@
+import type { ClubRole } from './permissions';
+
+/**
+ * An invite code of a club, see add_club_invites.sql
+ */
+export interface ClubInvite {
+  id: string;
+  club_id: string;
+  code: string;
+  role: Exclude<ClubRole, 'owner'>;
+  expires_at: string | null;
+  max_uses: number | null; // null = unlimited
+  use_count: number;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type InviteStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+/**
+ * Reasons join_club_by_code() refuses a code, plus 'error' when the server
+ * couldn't be reached. Each one has a message in joinClub.failures.
+ */
+export const JOIN_FAILURES = ['invalid', 'revoked', 'expired', 'exhausted', 'membershipLimit', 'error'] as const;
+
+export type JoinFailure = typeof JOIN_FAILURES[number];
+
+// join_club_by_code() statuses that aren't named like the failures
+const SERVER_FAILURES: Record<string, JoinFailure> = {
+  membership_limit: 'membershipLimit',
+};
+
+/**
+ * Whether an invite can still be used. Revoked wins over expired, which wins over exhausted,
+ * the same order join_club_by_code() checks them.
+ */
+export const getInviteStatus = (invite: ClubInvite, now: Date = new Date()): InviteStatus => {
+  if (invite.revoked_at) {
+    return 'revoked';
+  }
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) {
+    return 'exhausted';
+  }
+  return 'active';
+};
+
+/**
+ * Failure for a join_club_by_code() status, unknown statuses are treated as invalid codes
+ */
+export const toJoinFailure = (status: string | null | undefined): JoinFailure => {
+  const failure = (status && SERVER_FAILURES[status]) || status;
+  return (JOIN_FAILURES as readonly (string | null | undefined)[]).includes(failure) ? failure as JoinFailure : 'invalid';
+};
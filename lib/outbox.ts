@@ -0,0 +1,255 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const OUTBOX_KEY = '@presence_app:outbox';
+const BASE_RETRY_DELAY = 5000; // 5 seconds, doubled on every failed attempt
+const MAX_RETRY_DELAY = 10 * 60 * 1000; // 10 minutes
+
+export type OutboxTable = 'clubs' | 'sessions' | 'participants' | 'participant_sessions' | 'attendance' | 'leave_periods' | 'closures' | 'seasons';
+
+/**
+ * A pending write, recorded by DataService at the moment the user makes it.
+ * - upsert: records as stored locally (local-only fields are stripped on replay)
+ * - delete: one filter per row to delete, e.g. { id } or { participant_id, session_id, date }
+ * - replace_participant_sessions: the full set of preferred sessions of a participant
+ */
+export type OutboxPayload =
+  | { op: 'upsert'; table: OutboxTable; records: any[] }
+  | { op: 'delete'; table: OutboxTable; match: Record<string, string>[] }
+  | { op: 'replace_participant_sessions'; table: 'participant_sessions'; participant_id: string; records: any[] };
+
+export type OutboxOperation = OutboxPayload & {
+  id: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+};
+
+/**
+ * Key identifying the row a record or delete filter targets.
+ * Attendance and participant_sessions are matched on their natural keys because
+ * their local IDs don't always match the server ones.
+ */
+export const getOutboxRecordKey = (table: OutboxTable, record: any): string | null => {
+  if (table === 'attendance') {
+    if (!record.participant_id || !record.session_id || !record.date) return null;
+    return `${record.participant_id}|${record.session_id}|${record.date}`;
+  }
+  if (table === 'participant_sessions') {
+    return record.participant_id || null;
+  }
+  return record.id || null;
+};
+
+/**
+ * Durable queue of local writes waiting to be pushed to Supabase.
+ * Operations are replayed by SyncService in the order they were made and
+ * acknowledged one by one, so an edit is never lost because a later one failed.
+ */
+class Outbox {
+  private lock: Promise<unknown> = Promise.resolve();
+  private inFlight = new Set<string>();
+
+  // Serialize read-modify-write cycles on the stored queue
+  private withLock = <T>(fn: () => Promise<T>): Promise<T> => {
+    const result = this.lock.then(fn, fn);
+    this.lock = result.catch(() => {});
+    return result;
+  };
+
+  private read = async (): Promise<OutboxOperation[]> => {
+    try {
+      const data = await AsyncStorage.getItem(OUTBOX_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (e) {
+      return [];
+    }
+  };
+
+  private write = async (operations: OutboxOperation[]): Promise<void> => {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(operations));
+  };
+
+  /**
+   * Fold a new payload into the last queued operation when they target the same
+   * table with the same kind of write. Only the tail is considered so replay
+   * order is preserved.
+   */
+  private coalesce = (last: OutboxOperation, payload: OutboxPayload): boolean => {
+    if (this.inFlight.has(last.id) || last.attempts > 0) return false;
+    if (last.op !== payload.op || last.table !== payload.table) return false;
+
+    if (last.op === 'upsert' && payload.op === 'upsert') {
+      const byKey = new Map<string, any>();
+      const unkeyed: any[] = [];
+      for (const record of [...last.records, ...payload.records]) {
+        const key = getOutboxRecordKey(last.table, record);
+        if (key) {
+          byKey.delete(key); // Keep the latest version, at its latest position
+          byKey.set(key, record);
+        } else {
+          unkeyed.push(record);
+        }
+      }
+      last.records = [...byKey.values(), ...unkeyed];
+      return true;
+    }
+
+    if (last.op === 'delete' && payload.op === 'delete') {
+      last.match = [...last.match, ...payload.match];
+      return true;
+    }
+
+    if (last.op === 'replace_participant_sessions' && payload.op === 'replace_participant_sessions') {
+      if (last.participant_id !== payload.participant_id) return false;
+      last.records = payload.records;
+      return true;
+    }
+
+    return false;
+  };
+
+  enqueue = (payload: OutboxPayload): Promise<void> => {
+    if (payload.op === 'upsert' && payload.records.length === 0) return Promise.resolve();
+    if (payload.op === 'delete' && payload.match.length === 0) return Promise.resolve();
+
+    return this.withLock(async () => {
+      const operations = await this.read();
+      const last = operations[operations.length - 1];
+      if (!last || !this.coalesce(last, payload)) {
+        operations.push({
+          ...payload,
+          id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          created_at: new Date().toISOString(),
+          attempts: 0,
+          next_attempt_at: null,
+          last_error: null,
+        });
+      }
+      await this.write(operations);
+    });
+  };
+
+  getOperations = async (): Promise<OutboxOperation[]> => {
+    return this.withLock(this.read);
+  };
+
+  /**
+   * Whether an operation may be attempted now (not waiting for a retry).
+   */
+  isReady = (operation: OutboxOperation, now: number = Date.now()): boolean => {
+    return !operation.next_attempt_at || new Date(operation.next_attempt_at).getTime() <= now;
+  };
+
+  markInFlight = (id: string) => {
+    this.inFlight.add(id);
+  };
+
+  /**
+   * Remove an operation once the server has accepted it.
+   */
+  ack = (id: string): Promise<void> => {
+    return this.withLock(async () => {
+      this.inFlight.delete(id);
+      const operations = await this.read();
+      await this.write(operations.filter(op => op.id !== id));
+    });
+  };
+
+  /**
+   * Record a failed attempt and schedule the next one with exponential backoff.
+   * The operation stays queued however long it keeps failing (a device offline for
+   * days): only errors the server will never accept drop it, see drop().
+   */
+  fail = (id: string, error: string): Promise<void> => {
+    return this.withLock(async () => {
+      this.inFlight.delete(id);
+      const operations = await this.read();
+      const operation = operations.find(op => op.id === id);
+      if (!operation) return;
+
+      operation.attempts += 1;
+      operation.last_error = error;
+      const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, operation.attempts - 1), MAX_RETRY_DELAY);
+      operation.next_attempt_at = new Date(Date.now() + delay).toISOString();
+      await this.write(operations);
+    });
+  };
+
+  /**
+   * Remove an operation the server will never accept (invalid data, constraint violation...).
+   */
+  drop = (id: string, error: string): Promise<void> => {
+    return this.withLock(async () => {
+      this.inFlight.delete(id);
+      const operations = await this.read();
+      const operation = operations.find(op => op.id === id);
+      if (operation) {
+        console.error(`[Outbox] Dropping ${operation.op} on ${operation.table}: ${error}`);
+      }
+      await this.write(operations.filter(op => op.id !== id));
+    });
+  };
+
+  /**
+   * Point queued operations to the server ID of a club created offline.
+   */
+  remapClubId = (oldId: string, newId: string): Promise<void> => {
+    return this.withLock(async () => {
+      const operations = await this.read();
+      const remap = (record: any) => {
+        const updated = { ...record };
+        if (updated.club_id === oldId) updated.club_id = newId;
+        if (updated.id === oldId) updated.id = newId;
+        return updated;
+      };
+      for (const operation of operations) {
+        if (operation.op === 'delete') {
+          operation.match = operation.match.map(remap);
+        } else if (operation.op === 'upsert') {
+          operation.records = operation.records.map(remap);
+        }
+      }
+      await this.write(operations);
+    });
+  };
+
+  /**
+   * Keys of rows with a write still waiting in the queue, per table.
+   * Used to keep stale server rows from overwriting these local changes during merge.
+   */
+  getPendingKeys = async (): Promise<Record<OutboxTable, Set<string>>> => {
+    const pending: Record<OutboxTable, Set<string>> = {
+      clubs: new Set(),
+      sessions: new Set(),
+      participants: new Set(),
+      participant_sessions: new Set(),
+      attendance: new Set(),
+      leave_periods: new Set(),
+      closures: new Set(),
+      seasons: new Set(),
+    };
+    const operations = await this.getOperations();
+    for (const operation of operations) {
+      const rows = operation.op === 'delete'
+        ? operation.match
+        : operation.op === 'upsert'
+          ? operation.records
+          : [{ participant_id: operation.participant_id }];
+      for (const row of rows) {
+        const key = getOutboxRecordKey(operation.table, row);
+        if (key) pending[operation.table].add(key);
+      }
+    }
+    return pending;
+  };
+
+  clear = (): Promise<void> => {
+    return this.withLock(async () => {
+      this.inFlight.clear();
+      await AsyncStorage.removeItem(OUTBOX_KEY);
+    });
+  };
+}
+
+export const outbox = new Outbox();
@@ -0,0 +1,136 @@
+import { getParticipantHashId, Participant, Session } from './dataService';
+import { parseWeekday } from './sessionSchedule';
+
+/**
+ * A line of an imported participants file, checked against the club.
+ * errors hold translation keys, with the faulty value for unknown sessions.
+ */
+export interface ImportRow {
+  line: number; // 1-based row of the file
+  first_name: string;
+  last_name: string;
+  session_ids: string[];
+  errors: { key: string; value?: string }[];
+  duplicate: 'existing' | 'file' | null; // Already in the club, or earlier in the file
+}
+
+// Header cells recognized on the first line, which is then skipped
+const FIRST_NAME_HEADERS = ['first name', 'firstname', 'first_name', 'prénom', 'prenom'];
+
+/**
+ * Cells of a CSV text. Commas or semicolons (spreadsheets set to French write those),
+ * whichever the first line uses most; quoted cells may hold either, quotes and line breaks.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    rows.push([...row, cell]);
+  }
+  return rows;
+};
+
+/**
+ * Session a "Monday 18:00" / "lundi 18h" cell points to, among the club's active sessions
+ */
+export const findImportedSession = (value: string, sessions: Session[]): Session | undefined => {
+  const match = value.trim().match(/^(.+?)\s+(\d{1,2})(?:[:h](\d{2})?)?$/i);
+  if (!match) return undefined;
+  const [, day = '', hours = '', minutes = '00'] = match;
+  const weekday = parseWeekday(day);
+  const startTime = `${hours.padStart(2, '0')}:${minutes || '00'}`;
+  return sessions.find(s =>
+    !s.archived_at && parseWeekday(s.day_of_week) === weekday && s.start_time.slice(0, 5) === startTime
+  );
+};
+
+/**
+ * Rows of a participants file: first name, last name, then any number of session
+ * cells ("Monday 18:00"), several sessions of a cell separated by "|". Empty lines are skipped.
+ */
+export const parseParticipantImport = (
+  text: string,
+  clubId: string,
+  sessions: Session[],
+  existing: Pick<Participant, 'id'>[]
+): ImportRow[] => {
+  const existingIds = new Set(existing.map(p => p.id));
+  const seenIds = new Set<string>();
+  const lines = parseCsv(text);
+  const hasHeader = FIRST_NAME_HEADERS.includes((lines[0]?.[0] ?? '').trim().toLowerCase());
+
+  const rows: ImportRow[] = [];
+  lines.forEach((cells, index) => {
+    if ((hasHeader && index === 0) || cells.every(cell => !cell.trim())) {
+      return;
+    }
+    const [firstName = '', lastName = '', ...sessionCells] = cells.map(cell => cell.trim());
+    const errors: ImportRow['errors'] = [];
+    const sessionIds: string[] = [];
+
+    if (!firstName || !lastName) {
+      errors.push({ key: 'importParticipants.nameRequired' });
+    }
+    for (const value of sessionCells.flatMap(cell => cell.split('|')).map(v => v.trim()).filter(Boolean)) {
+      const session = findImportedSession(value, sessions);
+      if (session) {
+        sessionIds.push(session.id);
+      } else {
+        errors.push({ key: 'importParticipants.unknownSession', value });
+      }
+    }
+
+    let duplicate: ImportRow['duplicate'] = null;
+    if (firstName && lastName) {
+      const id = getParticipantHashId({ club_id: clubId, first_name: firstName, last_name: lastName });
+      duplicate = existingIds.has(id) ? 'existing' : seenIds.has(id) ? 'file' : null;
+      seenIds.add(id);
+    }
+
+    rows.push({
+      line: index + 1,
+      first_name: firstName,
+      last_name: lastName,
+      session_ids: [...new Set(sessionIds)],
+      errors,
+      duplicate,
+    });
+  });
+  return rows;
+};
+
+// Rows the import adds: valid and not already there
+export const getImportableRows = (rows: ImportRow[]): ImportRow[] => {
+  return rows.filter(row => row.errors.length === 0 && !row.duplicate);
+};
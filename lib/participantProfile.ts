@@ -0,0 +1,80 @@
+import type { Participant } from './dataService';
+import { isValidDateString } from './sessionSchedule';
+
+export type ProfileField =
+  | 'birth_date'
+  | 'licence_number'
+  | 'emergency_contact'
+  | 'guardian_name'
+  | 'guardian_phone'
+  | 'guardian_email'
+  | 'medical_certificate_expiry'
+  | 'notes';
+
+// Form values of the profile fields, '' when not filled in
+export type ProfileForm = Record<ProfileField, string>;
+
+export const PROFILE_FIELDS: ProfileField[] = [
+  'birth_date',
+  'licence_number',
+  'emergency_contact',
+  'guardian_name',
+  'guardian_phone',
+  'guardian_email',
+  'medical_certificate_expiry',
+  'notes',
+];
+
+export const PROFILE_DATE_FIELDS: ProfileField[] = ['birth_date', 'medical_certificate_expiry'];
+
+// Same limits as check_text_field_sizes() (sql/add_participant_profiles.sql)
+export const PROFILE_MAX_LENGTHS: Partial<Record<ProfileField, number>> = {
+  licence_number: 50,
+  emergency_contact: 200,
+  guardian_name: 200,
+  guardian_phone: 30,
+  guardian_email: 254,
+  notes: 2000,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const getProfileForm = (participant?: Partial<Participant>): ProfileForm => {
+  return Object.fromEntries(
+    PROFILE_FIELDS.map(field => [field, participant?.[field] ?? ''])
+  ) as ProfileForm;
+};
+
+/**
+ * Translation key of the first invalid value of a profile form, null when it can be saved
+ */
+export const validateProfileForm = (form: ProfileForm, today: string): string | null => {
+  for (const field of PROFILE_DATE_FIELDS) {
+    const value = form[field].trim();
+    if (value && !isValidDateString(value)) {
+      return 'participantProfile.invalidDate';
+    }
+  }
+  if (form.birth_date.trim() > today) {
+    return 'participantProfile.birthDateInFuture';
+  }
+  const email = form.guardian_email.trim();
+  if (email && !EMAIL_PATTERN.test(email)) {
+    return 'participantProfile.invalidEmail';
+  }
+  return null;
+};
+
+/**
+ * Participant fields of a profile form: trimmed, null when empty so the server column is cleared
+ */
+export const getProfileChanges = (form: ProfileForm): Pick<Participant, ProfileField> => {
+  return Object.fromEntries(
+    PROFILE_FIELDS.map(field => [field, form[field].trim() || null])
+  ) as Pick<Participant, ProfileField>;
+};
+
+// Missing certificates aren't flagged: not every club asks for one
+export const isCertificateExpired = (participant: Pick<Participant, 'medical_certificate_expiry'>, today: string): boolean => {
+  return !!participant.medical_certificate_expiry && participant.medical_certificate_expiry < today;
+};
@@ -0,0 +1,58 @@
+import { authManager } from './authManager';
+import { dataService } from './dataService';
+
+/**
+ * Roles in a club. The owner is the user in clubs.owner_id, everyone else
+ * gets a role in club_members. Must match add_club_roles.sql.
+ */
+export const CLUB_ROLES = ['owner', 'coach', 'viewer'] as const;
+
+export type ClubRole = typeof CLUB_ROLES[number];
+
+export type ClubPermission =
+  | 'manageClub' // Name, share code, seasons, members, conflicts, deletion
+  | 'manageSessions' // Sessions, cancelled dates and closures
+  | 'editParticipants' // Participants, their sessions and leave periods
+  | 'takeAttendance'
+  | 'viewStats';
+
+const ROLE_PERMISSIONS: Record<ClubRole, ClubPermission[]> = {
+  owner: ['manageClub', 'manageSessions', 'editParticipants', 'takeAttendance', 'viewStats'],
+  coach: ['editParticipants', 'takeAttendance', 'viewStats'],
+  viewer: ['viewStats'],
+};
+
+// Members who joined before roles existed could already take attendance
+const DEFAULT_MEMBER_ROLE: ClubRole = 'coach';
+
+export const isClubRole = (value: unknown): value is ClubRole => {
+  return typeof value === 'string' && (CLUB_ROLES as readonly string[]).includes(value);
+};
+
+export const can = (role: ClubRole, permission: ClubPermission): boolean => {
+  return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+/**
+ * Role of a user in a club. Without an account, or for a club created before
+ * signing in, everything is local and the user has every permission.
+ */
+export const resolveClubRole = (
+  club: { owner_id?: string },
+  userId: string | null,
+  memberRole: ClubRole | null
+): ClubRole => {
+  if (!userId || !club.owner_id || club.owner_id === userId) {
+    return 'owner';
+  }
+  return memberRole && memberRole !== 'owner' ? memberRole : DEFAULT_MEMBER_ROLE;
+};
+
+/**
+ * Role of the signed-in user in a club
+ */
+export const getClubRole = async (club: { id: string; owner_id?: string }): Promise<ClubRole> => {
+  const userId = await authManager.getUserId();
+  const memberRole = await dataService.getMemberRole(club.id);
+  return resolveClubRole(club, userId, memberRole ?? null);
+};
@@ -0,0 +1,131 @@
+import type { AttendanceRecord, Closure, Participant, Session } from './dataService';
+import { getAttendanceStatus, StatusOutcome, StatusRules } from './attendanceStatus';
+import { addDays, getOccurrenceDates, isOccurrenceCancelled } from './sessionSchedule';
+
+export interface RegisterOptions {
+  clubName: string;
+  sessionLabel: string;
+  monthLabel: string; // "October 2024", in the app language
+  dates: string[];
+  participants: Pick<Participant, 'id' | 'first_name' | 'last_name'>[];
+  attendance: AttendanceRecord[]; // Records of the session in the month
+  rules: StatusRules;
+  t: (key: string) => string;
+}
+
+/**
+ * First and last day of a month given as YYYY-MM
+ */
+export const getMonthRange = (month: string): { from: string; to: string } => {
+  const from = `${month}-01`;
+  const [year = 0, monthIndex = 1] = month.split('-').map(Number);
+  const nextMonth = monthIndex === 12 ? `${year + 1}-01` : `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+  return { from, to: addDays(`${nextMonth}-01`, -1) };
+};
+
+/**
+ * Dates of the register columns: the session's schedule in the month, minus
+ * cancellations, plus any date attendance was recorded on.
+ */
+export const getRegisterDates = (
+  session: Session,
+  month: string,
+  attendance: AttendanceRecord[],
+  closures: Closure[]
+): string[] => {
+  const { from, to } = getMonthRange(month);
+  const scheduled = getOccurrenceDates(session, from, to)
+    .filter(date => !isOccurrenceCancelled(closures, session.id, date));
+  const recorded = attendance
+    .filter(a => a.session_id === session.id && from <= a.date && a.date <= to)
+    .map(a => a.date);
+  return [...new Set([...scheduled, ...recorded])].sort();
+};
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+/**
+ * Printable monthly register of one session: a row per participant, a column per date
+ * with the status outcome under the club's rules, totals and a signature block.
+ */
+export const buildRegisterHtml = ({
+  clubName,
+  sessionLabel,
+  monthLabel,
+  dates,
+  participants,
+  attendance,
+  rules,
+  t,
+}: RegisterOptions): string => {
+  const outcomes = new Map<string, StatusOutcome>(
+    attendance.map(a => [`${a.participant_id}|${a.date}`, rules[getAttendanceStatus(a)]])
+  );
+  const marks: Record<StatusOutcome, string> = {
+    attended: t('register.marks.attended'),
+    excused: t('register.marks.excused'),
+    missed: t('register.marks.missed'),
+  };
+  const sortedParticipants = [...participants].sort((a, b) =>
+    a.last_name.localeCompare(b.last_name) || a.first_name.localeCompare(b.first_name)
+  );
+  const countAttended = (keys: string[]) => keys.filter(key => outcomes.get(key) === 'attended').length;
+
+  const headerCells = dates
+    .map(date => `<th>${escapeHtml(date.slice(8, 10))}/${escapeHtml(date.slice(5, 7))}</th>`)
+    .join('');
+  const rows = sortedParticipants.map(p => {
+    const cells = dates.map(date => {
+      const outcome = outcomes.get(`${p.id}|${date}`);
+      return `<td class="mark">${outcome ? escapeHtml(marks[outcome]) : ''}</td>`;
+    }).join('');
+    const total = countAttended(dates.map(date => `${p.id}|${date}`));
+    return `<tr><td class="name">${escapeHtml(p.last_name.toUpperCase())} ${escapeHtml(p.first_name)}</td>${cells}<td class="total">${total}</td></tr>`;
+  }).join('\n');
+  const totalCells = dates
+    .map(date => `<td class="total">${countAttended(sortedParticipants.map(p => `${p.id}|${date}`))}</td>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(t('register.title'))} - ${escapeHtml(clubName)}</title>
+<style>
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; font-size: 11px; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 13px; font-weight: normal; margin: 0 0 16px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #444; padding: 4px; text-align: center; }
+  td.name { text-align: left; white-space: nowrap; }
+  td.total, tr.totals td { font-weight: bold; }
+  .legend { margin-top: 8px; color: #555; }
+  .signatures { display: flex; gap: 48px; margin-top: 32px; }
+  .signature { flex: 1; border-top: 1px solid #444; padding-top: 4px; height: 64px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(t('register.title'))} - ${escapeHtml(clubName)}</h1>
+<h2>${escapeHtml(sessionLabel)} - ${escapeHtml(monthLabel)}</h2>
+<table>
+<tr><th>${escapeHtml(t('register.participant'))}</th>${headerCells}<th>${escapeHtml(t('register.total'))}</th></tr>
+${rows}
+<tr class="totals"><td class="name">${escapeHtml(t('register.total'))}</td>${totalCells}<td></td></tr>
+</table>
+<p class="legend">${escapeHtml(t('register.legend'))}</p>
+<div class="signatures">
+  <div class="signature">${escapeHtml(t('register.coachSignature'))}</div>
+  <div class="signature">${escapeHtml(t('register.presidentSignature'))}</div>
+  <div class="signature">${escapeHtml(t('register.signedOn'))}</div>
+</div>
+</body>
+</html>
+`;
+};
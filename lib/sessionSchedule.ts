@@ -0,0 +1,246 @@
+import type { Closure, Session } from './dataService';
+
+/**
+ * Occurrence engine: turns session rows into dated occurrences.
+ *
+ * Dates are calendar dates (YYYY-MM-DD) in the device's timezone and all the
+ * arithmetic is done on them, never on timestamps, so a weekly session stays on
+ * its weekday across DST changes. Times are only attached at the end, with
+ * getOccurrenceStart().
+ */
+
+type SessionDates = Pick<Session, 'start_date' | 'end_date'>;
+
+// Sessions saved by older versions may still hold a day name until they are migrated
+type ScheduledSession = Pick<Session, 'id' | 'start_time' | 'start_date' | 'end_date'> & { day_of_week: IsoWeekday | string };
+
+// ISO 8601 weekday: 1 = Monday ... 7 = Sunday
+export type IsoWeekday = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export interface SessionOccurrence<S extends ScheduledSession = Session> {
+  session: S;
+  date: string; // YYYY-MM-DD
+}
+
+/**
+ * Day names stored in day_of_week by older versions, indexed like Date.getDay() (Sunday first)
+ */
+const LEGACY_DAY_NAMES = {
+  fr: ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'],
+  en: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+};
+
+// Key of each weekday in the days.* translations
+export const WEEKDAY_KEYS: Record<IsoWeekday, string> = {
+  1: 'monday',
+  2: 'tuesday',
+  3: 'wednesday',
+  4: 'thursday',
+  5: 'friday',
+  6: 'saturday',
+  7: 'sunday',
+};
+
+const isIsoWeekday = (value: number): value is IsoWeekday => {
+  return Number.isInteger(value) && value >= 1 && value <= 7;
+};
+
+/**
+ * Weekday of a day_of_week value: an ISO weekday (canonical code, as a number or a string)
+ * or a day name written by older versions, French or English in any case. Null when it can't be read.
+ */
+export const parseWeekday = (day: string | number | null | undefined): IsoWeekday | null => {
+  if (typeof day === 'number') {
+    return isIsoWeekday(day) ? day : null;
+  }
+  const value = (day || '').trim();
+  if (/^\d$/.test(value)) {
+    const weekday = Number(value);
+    return isIsoWeekday(weekday) ? weekday : null;
+  }
+  const name = value.toLowerCase();
+  for (const names of Object.values(LEGACY_DAY_NAMES)) {
+    const index = names.findIndex(n => n.toLowerCase() === name);
+    if (index >= 0) {
+      return (index === 0 ? 7 : index) as IsoWeekday;
+    }
+  }
+  return null;
+};
+
+/**
+ * Names older versions stored for a weekday (French, then English)
+ */
+export const getLegacyDayNames = (weekday: IsoWeekday): string[] => {
+  return [LEGACY_DAY_NAMES.fr[weekday % 7]!, LEGACY_DAY_NAMES.en[weekday % 7]!];
+};
+
+/**
+ * Calendar date of a moment as YYYY-MM-DD, in the device's timezone or in the given IANA one
+ */
+export const toDateString = (date: Date, timeZone?: string): string => {
+  if (timeZone) {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  }
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Dates are handled as UTC midnights internally: no DST there
+const parseDate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year!, month! - 1, day!));
+};
+
+export const addDays = (date: string, days: number): string => {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0]!;
+};
+
+/**
+ * Whether a typed value is a YYYY-MM-DD date that exists: '2024-02-31' would roll over
+ * to March in JS but is rejected by Postgres, which makes the server drop the write.
+ */
+export const isValidDateString = (value: string): boolean => {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && addDays(value, 0) === value;
+};
+
+export const getWeekday = (date: string): IsoWeekday => {
+  const day = parseDate(date).getUTCDay();
+  return (day === 0 ? 7 : day) as IsoWeekday;
+};
+
+/**
+ * Local moment a session starts (or ends) on a date, DST-aware
+ */
+export const getOccurrenceStart = (date: string, time: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year!, month! - 1, day!, hours || 0, minutes || 0, 0, 0);
+};
+
+/**
+ * A one-off session (a tournament, an extra training) runs on a single date:
+ * it starts and ends the same day. Weekly slots have no dates, or a season range.
+ */
+export const isOneOffSession = (session: SessionDates): boolean => {
+  return !!session.start_date && session.start_date === session.end_date;
+};
+
+/**
+ * Whether a session runs on a date (YYYY-MM-DD). Dates are compared as strings,
+ * like leave periods.
+ */
+export const isSessionActiveOn = (session: SessionDates, date: string): boolean => {
+  return (!session.start_date || session.start_date <= date) && (!session.end_date || date <= session.end_date);
+};
+
+/**
+ * Closure cancelling an occurrence of a session: the session's own cancellation,
+ * or a closure of the whole club covering the date
+ */
+export const getOccurrenceClosure = (closures: Closure[], sessionId: string, date: string): Closure | undefined => {
+  return closures.find(c =>
+    (!c.session_id || c.session_id === sessionId) && c.start_date <= date && date <= c.end_date
+  );
+};
+
+export const isOccurrenceCancelled = (closures: Closure[], sessionId: string, date: string): boolean => {
+  return !!getOccurrenceClosure(closures, sessionId, date);
+};
+
+/**
+ * Dates a session runs on between two dates (inclusive), cancellations not applied.
+ * One-off sessions run on their date whatever their day_of_week says.
+ */
+export const getOccurrenceDates = (session: Omit<ScheduledSession, 'id' | 'start_time'>, from: string, to: string): string[] => {
+  const first = session.start_date && session.start_date > from ? session.start_date : from;
+  const last = session.end_date && session.end_date < to ? session.end_date : to;
+  if (first > last) {
+    return [];
+  }
+  if (isOneOffSession(session)) {
+    return [session.start_date!];
+  }
+
+  const weekday = parseWeekday(session.day_of_week);
+  if (weekday === null) {
+    return []; // Day not recognized
+  }
+
+  const dates: string[] = [];
+  for (let date = addDays(first, (weekday - getWeekday(first) + 7) % 7); date <= last; date = addDays(date, 7)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+/**
+ * Occurrences of sessions between two dates (inclusive), sorted by date then start time.
+ * Cancelled dates and club closures are left out.
+ */
+export const expandSessions = <S extends ScheduledSession>(
+  sessions: S[],
+  from: string,
+  to: string,
+  closures: Closure[] = []
+): SessionOccurrence<S>[] => {
+  const occurrences: SessionOccurrence<S>[] = [];
+  for (const session of sessions) {
+    for (const date of getOccurrenceDates(session, from, to)) {
+      if (!isOccurrenceCancelled(closures, session.id, date)) {
+        occurrences.push({ session, date });
+      }
+    }
+  }
+  return occurrences.sort((a, b) =>
+    a.date.localeCompare(b.date) || a.session.start_time.localeCompare(b.session.start_time)
+  );
+};
+
+/**
+ * Sort order of session lists: by weekday from Monday, then start time. Unknown days last.
+ */
+export const compareSessions = (
+  a: Pick<ScheduledSession, 'day_of_week' | 'start_time'>,
+  b: Pick<ScheduledSession, 'day_of_week' | 'start_time'>
+): number => {
+  const dayA = parseWeekday(a.day_of_week) ?? 8;
+  const dayB = parseWeekday(b.day_of_week) ?? 8;
+  return dayA - dayB || a.start_time.localeCompare(b.start_time);
+};
+
+/**
+ * Dates part of a session label ("on 2026-06-14", "from 2026-09-01 until 2027-06-30"),
+ * empty for a weekly slot that runs all year
+ */
+export const getSessionDatesLabel = (session: SessionDates, t: (key: string) => string): string => {
+  if (isOneOffSession(session)) {
+    return t('club.sessionOn').replace('{{date}}', session.start_date!);
+  }
+  const parts: string[] = [];
+  if (session.start_date) {
+    parts.push(t('club.sessionFrom').replace('{{date}}', session.start_date));
+  }
+  if (session.end_date) {
+    parts.push(t('club.sessionUntil').replace('{{date}}', session.end_date));
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Place part of a session label ("Dojo 2 · 12 spots"), empty when neither is set
+ */
+export const getSessionPlaceLabel = (session: Pick<Session, 'location' | 'capacity'>, t: (key: string) => string): string => {
+  const parts: string[] = [];
+  if (session.location) {
+    parts.push(session.location);
+  }
+  if (session.capacity) {
+    parts.push(t('club.sessionCapacity').replace('{{count}}', String(session.capacity)));
+  }
+  return parts.join(' · ');
+};
@@ -0,0 +1,96 @@
+import type { AttendanceRecord, Closure, Season, Session } from './dataService';
+import { getAttendanceStatus, StatusRules } from './attendanceStatus';
+import { addDays, getOccurrenceDates, isOccurrenceCancelled } from './sessionSchedule';
+
+/**
+ * Periods the statistics can cover. Dates are calendar dates (YYYY-MM-DD)
+ * compared as strings, like the rest of the schedule.
+ */
+export type StatsPeriod =
+  | { kind: 'month' } // From the 1st of the current month
+  | { kind: 'last30' }
+  | { kind: 'season'; season: Season }
+  | { kind: 'custom'; from: string; to: string }
+  | { kind: 'all' };
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Dates covered by a period on a given day, null for all time
+ */
+export const getPeriodRange = (period: StatsPeriod, today: string): DateRange | null => {
+  switch (period.kind) {
+    case 'month':
+      return { from: `${today.slice(0, 8)}01`, to: today };
+    case 'last30':
+      return { from: addDays(today, -29), to: today };
+    case 'season':
+      return { from: period.season.start_date, to: period.season.end_date };
+    case 'custom':
+      return { from: period.from, to: period.to };
+    case 'all':
+      return null;
+  }
+};
+
+export const isDateInRange = (date: string, range: DateRange | null): boolean => {
+  return !range || (range.from <= date && date <= range.to);
+};
+
+export interface DateTurnout {
+  date: string;
+  present: number; // Records counted as attended under the club's status rules
+  taken: boolean; // False when nobody recorded attendance that day
+}
+
+export interface SessionReport {
+  dates: DateTurnout[]; // Most recent first
+  averageTurnout: number | null; // Over the dates attendance was taken
+  fillRate: number | null; // Average turnout against assigned participants, in percent
+  missingDates: string[]; // Dates the session ran without attendance being taken
+}
+
+/**
+ * Turnout of one session over a range (up to today). Dates come from the schedule,
+ * minus cancellations, plus any date attendance was recorded on. Without a range
+ * the report starts at the first recorded date.
+ */
+export const getSessionReport = (
+  session: Session,
+  attendance: AttendanceRecord[],
+  assignedCount: number,
+  closures: Closure[],
+  rules: StatusRules,
+  range: DateRange | null,
+  today: string
+): SessionReport => {
+  const records = attendance.filter(a => a.session_id === session.id && isDateInRange(a.date, range));
+  const recordedDates = new Set(records.map(a => a.date));
+  const from = range?.from ?? [...recordedDates].sort()[0] ?? today;
+  const to = range && range.to < today ? range.to : today;
+
+  const scheduledDates = getOccurrenceDates(session, from, to)
+    .filter(date => !isOccurrenceCancelled(closures, session.id, date));
+  const dates = [...new Set([...scheduledDates, ...recordedDates])]
+    .sort((a, b) => b.localeCompare(a))
+    .map(date => ({
+      date,
+      present: records.filter(a => a.date === date && rules[getAttendanceStatus(a)] === 'attended').length,
+      taken: recordedDates.has(date),
+    }));
+
+  const takenDates = dates.filter(d => d.taken);
+  const averageTurnout = takenDates.length > 0
+    ? takenDates.reduce((sum, d) => sum + d.present, 0) / takenDates.length
+    : null;
+
+  return {
+    dates,
+    averageTurnout,
+    fillRate: averageTurnout !== null && assignedCount > 0 ? averageTurnout / assignedCount * 100 : null,
+    missingDates: dates.filter(d => !d.taken).map(d => d.date),
+  };
+};
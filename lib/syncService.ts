@@ -1,11 +1,59 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 import { authManager } from './authManager';
-import { dataService, generateContentBasedId } from './dataService';
+import { dataService, generateContentBasedId, getSessionContentKey, getSessionHashId, isSessionHashId } from './dataService';
+import { getAttendanceStatus, isPresentStatus } from './attendanceStatus';
+import { outbox, getOutboxRecordKey, OutboxOperation, OutboxTable } from './outbox';
+import { can, resolveClubRole } from './permissions';
+import { PROFILE_FIELDS } from './participantProfile';
+import { conflictStore, isConflictTable, CONFLICT_TABLES, mergeRecordFields, pickFields, toSyncConflicts, ConflictTable, SyncConflict } from './conflicts';
 
 const LAST_SYNC_KEY = 'last_sync_timestamp';
+const OUTBOX_SEEDED_KEY = '@presence_app:outbox_seeded';
 const SYNC_INTERVAL = 60000; // 60 seconds (increased to reduce lock contention)
 const MIN_SYNC_DELAY = 5000; // Minimum 5 seconds between syncs
+const SYNC_CURSORS_KEY = '@presence_app:sync_cursors';
+const SYNC_SCHEMA_VERSION = 1; // Bump when the local data format changes: every device does a full resync
+const PAGE_SIZE = 1000; // Max rows returned by Supabase per request
+const CURSOR_OVERLAP = 60000; // Re-read the last minute before each cursor
+const TOMBSTONE_RETENTION = 90 * 24 * 60 * 60 * 1000; // Must match purge_sync_tombstones()
+
+const REALTIME_CHANNEL = 'presence_app:club_changes';
+
+const PULLED_TABLES = ['sessions', 'participants', 'participant_sessions', 'attendance', 'leave_periods', 'closures', 'seasons'] as const;
+type PulledTable = typeof PULLED_TABLES[number];
+
+/**
+ * Postgres errors retrying won't fix: invalid data (22), constraint violations (23),
+ * permission or schema errors (42) and errors raised by our own functions (P0),
+ * plus PostgREST request and schema errors (PGRST1xx, PGRST2xx: unknown column...).
+ * PostgREST JWT errors (PGRST3xx) go away once the session is refreshed.
+ */
+const isPermanentError = (error: any): boolean => {
+  return typeof error?.code === 'string' && /^(22|23|42|P0|PGRST[12])/.test(error.code);
+};
+
+/**
+ * Columns of each table the app writes (see sql/). Local-only and legacy fields
+ * (preferred_session_ids, stats_reset_date...) are left out of uploads: PostgREST
+ * rejects the whole request for a single unknown column.
+ */
+const SERVER_COLUMNS: Record<OutboxTable, string[]> = {
+  clubs: ['id', 'name', 'description', 'owner_id', 'status_rules', 'updated_at'],
+  sessions: ['id', 'club_id', 'day_of_week', 'start_time', 'end_time', 'start_date', 'end_date', 'location', 'capacity', 'archived_at', 'updated_at'],
+  participants: ['id', 'club_id', 'first_name', 'last_name', ...PROFILE_FIELDS, 'is_long_term_sick', 'archived_at', 'updated_at'],
+  participant_sessions: ['participant_id', 'session_id', 'updated_at'],
+  attendance: ['participant_id', 'session_id', 'date', 'present', 'status', 'updated_at'], // Keyed by participant, session and date
+  leave_periods: ['id', 'participant_id', 'club_id', 'start_date', 'end_date', 'reason', 'updated_at'],
+  closures: ['id', 'club_id', 'session_id', 'start_date', 'end_date', 'reason', 'updated_at'],
+  seasons: ['id', 'club_id', 'name', 'start_date', 'end_date', 'updated_at'],
+};
+
+// Server columns a local record holds: absent fields stay absent so the upsert leaves them alone
+const toServerRecord = (table: OutboxTable, record: any): any => {
+  return Object.fromEntries(SERVER_COLUMNS[table].filter(column => column in record).map(column => [column, record[column]]));
+};
 
 export interface SyncStatus {
   isSyncing: boolean;
@@ -13,11 +61,56 @@ export interface SyncStatus {
   error: string | null;
 }
 
+export type RealtimeTable = 'attendance' | 'participants';
+
+// Row changed by another device, received through the realtime channel and saved locally
+export interface RemoteChange {
+  table: RealtimeTable;
+  clubId: string;
+  record: any;
+}
+
+// Latest server timestamps downloaded for a club, per table
+interface ClubSyncCursor {
+  tables: Partial<Record<PulledTable, string>>;
+  tombstones: string | null;
+  synced_at: string;
+}
+
+interface SyncCursors {
+  schema_version: number;
+  clubs: Record<string, ClubSyncCursor>;
+}
+
+// Row deleted on the server (sync_tombstones table)
+interface SyncTombstone {
+  table_name: PulledTable;
+  record_id: string;
+  club_id: string;
+  participant_id: string | null;
+  session_id: string | null;
+  date: string | null;
+  deleted_at: string;
+}
+
+interface ClubPull {
+  clubId: string;
+  fullResync: boolean;
+  rows: Record<PulledTable, any[]>;
+  tombstones: SyncTombstone[];
+  cursor: ClubSyncCursor;
+}
+
 class SyncService {
   private syncInterval: NodeJS.Timeout | null = null;
   private isSyncing = false;
   private lastSyncTime = 0;
   private statusListeners: ((status: SyncStatus) => void)[] = [];
+  private remoteChangeListeners: ((changes: RemoteChange[]) => void)[] = [];
+  private realtimeChannel: RealtimeChannel | null = null;
+  private realtimeClubsKey = ''; // Club IDs the channel listens to
+  private realtimeQueue: { table: RealtimeTable; payload: any }[] = [];
+  private realtimeFlush: Promise<void> | null = null;
   private hasMigratedSessions = false; // Only migrate once per app session
   private hasCleanedDuplicates = false; // Only cleanup server once per app session
   private hasCleanedLocalDuplicates = false; // Only cleanup local once per app session
@@ -43,10 +136,9 @@ class SyncService {
       }
 
       for (const session of serverSessions) {
-        const contentKey = `session|${session.club_id}|${session.day_of_week}|${session.start_time}|${session.end_time}`;
-        const hashId = generateContentBasedId(contentKey);
+        const hashId = getSessionHashId(session);
         
-        if (session.id !== hashId) {
+        if (!isSessionHashId(session)) {
           console.log(`[Migration] Session needs migration:`);
           console.log(`  Old ID: ${session.id}`);
           console.log(`  New Hash ID: ${hashId}`);
@@ -92,7 +184,12 @@ class SyncService {
                 club_id: session.club_id,
                 day_of_week: session.day_of_week,
                 start_time: session.start_time,
-                end_time: session.end_time
+                end_time: session.end_time,
+                start_date: session.start_date ?? null,
+                end_date: session.end_date ?? null,
+                location: session.location ?? null,
+                capacity: session.capacity ?? null,
+                archived_at: session.archived_at ?? null
               });
             
             if (insertError) {
@@ -145,28 +242,27 @@ class SyncService {
     
     const sessions = JSON.parse(sessionsData);
     const idMapping: Map<string, string> = new Map(); // old -> new
-    const seenHashes = new Set<string>();
+    const seenHashes = new Map<string, string>(); // content hash -> kept ID
     const migratedSessions: any[] = [];
     
     for (const session of sessions) {
-      const contentKey = `session|${session.club_id}|${session.day_of_week}|${session.start_time}|${session.end_time}`;
-      const hashId = generateContentBasedId(contentKey);
+      const hashId = getSessionHashId(session);
+      const keptId = seenHashes.get(hashId);
       
-      if (seenHashes.has(hashId)) {
+      if (keptId) {
         // Duplicate - skip this session but record mapping
-        console.log(`  Skipping duplicate: ${session.id} -> ${hashId}`);
-        idMapping.set(session.id, hashId);
+        console.log(`  Skipping duplicate: ${session.id} -> ${keptId}`);
+        idMapping.set(session.id, keptId);
         continue;
       }
       
-      seenHashes.add(hashId);
-      
-      if (session.id !== hashId) {
+      if (!isSessionHashId(session)) {
         console.log(`  Migrating: ${session.id} -> ${hashId}`);
         idMapping.set(session.id, hashId);
         session.id = hashId;
       }
       
+      seenHashes.set(hashId, session.id);
       migratedSessions.push(session);
     }
     
@@ -309,7 +405,7 @@ class SyncService {
       const sessionsByContent = new Map<string, any[]>();
       
       for (const session of sessions) {
-        const contentKey = `${session.club_id}|${session.day_of_week}|${session.start_time}|${session.end_time}`;
+        const contentKey = getSessionContentKey(session);
         if (!sessionsByContent.has(contentKey)) {
           sessionsByContent.set(contentKey, []);
         }
@@ -323,10 +419,7 @@ class SyncService {
         if (dups.length > 1) {
           console.log(`[Cleanup] Found ${dups.length} local duplicate sessions for: ${contentKey}`);
           
-          const parts = contentKey.split('|');
-          const expectedHashId = generateContentBasedId(`session|${parts[0]}|${parts[1]}|${parts[2]}|${parts[3]}`);
-          
-          let toKeep = dups.find(s => s.id === expectedHashId);
+          let toKeep = dups.find(isSessionHashId);
           if (!toKeep) {
             toKeep = dups.reduce((newest, s) => {
               const newestTime = new Date(newest.updated_at || newest.created_at || 0).getTime();
@@ -430,7 +523,7 @@ class SyncService {
         const sessionsByContent = new Map<string, any[]>();
         
         for (const session of serverSessions) {
-          const contentKey = `${session.club_id}|${session.day_of_week}|${session.start_time}|${session.end_time}`;
+          const contentKey = getSessionContentKey(session);
           if (!sessionsByContent.has(contentKey)) {
             sessionsByContent.set(contentKey, []);
           }
@@ -443,10 +536,7 @@ class SyncService {
             console.log(`[Cleanup] Found ${sessions.length} duplicate sessions for: ${contentKey}`);
             
             // Find the one to keep (prefer content-hash ID)
-            const parts = contentKey.split('|');
-            const expectedHashId = generateContentBasedId(`session|${parts[0]}|${parts[1]}|${parts[2]}|${parts[3]}`);
-            
-            let toKeep = sessions.find(s => s.id === expectedHashId);
+            let toKeep = sessions.find(isSessionHashId);
             if (!toKeep) {
               // No content hash, keep the newest
               toKeep = sessions.reduce((newest, s) => {
@@ -563,6 +653,125 @@ class SyncService {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
+    this.stopRealtime();
+  };
+
+  // ============================================
+  // REALTIME
+  // ============================================
+
+  /**
+   * Listen to attendance and participant changes in the local clubs, so what a co-coach
+   * records shows up right away. Polling keeps running next to it: it catches up on
+   * anything the channel missed, and is all that's left when the channel can't connect.
+   * Called after each auto sync, which also follows clubs joined or left.
+   */
+  refreshRealtime = async (): Promise<void> => {
+    try {
+      const clubs = await dataService.getClubs();
+      const clubIds = clubs.map(c => c.id).filter(id => !id.startsWith('local-')).sort();
+      const clubsKey = clubIds.join(',');
+      if (this.realtimeChannel && clubsKey === this.realtimeClubsKey) {
+        return;
+      }
+
+      this.stopRealtime();
+      if (clubIds.length === 0) {
+        return;
+      }
+
+      const channel = supabase
+        .channel(REALTIME_CHANNEL)
+        // attendance has no club_id: RLS only sends the rows of the user's clubs
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'attendance' },
+          (payload) => this.queueRealtimeChange('attendance', payload))
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'participants', filter: `club_id=in.(${clubsKey})` },
+          (payload) => this.queueRealtimeChange('participants', payload))
+        .subscribe((status) => {
+          if (channel !== this.realtimeChannel) return;
+          if (status === 'SUBSCRIBED') {
+            console.log(`[Realtime] Listening to ${clubIds.length} club(s)`);
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            // Retried after the next successful sync
+            console.log(`[Realtime] ${status}, falling back to polling`);
+            this.stopRealtime();
+          }
+        });
+
+      this.realtimeChannel = channel;
+      this.realtimeClubsKey = clubsKey;
+    } catch (error) {
+      console.log('[Realtime] Could not subscribe:', error);
+      this.stopRealtime();
+    }
+  };
+
+  private stopRealtime = () => {
+    if (this.realtimeChannel) {
+      supabase.removeChannel(this.realtimeChannel).catch(() => {});
+      this.realtimeChannel = null;
+    }
+    this.realtimeClubsKey = '';
+    this.realtimeQueue = [];
+  };
+
+  private queueRealtimeChange = (table: RealtimeTable, payload: any) => {
+    this.realtimeQueue.push({ table, payload });
+    this.flushRealtimeChanges();
+  };
+
+  /**
+   * Apply queued realtime changes one at a time, never while a sync is merging
+   * (syncNow flushes the queue when it's done). Listeners get each batch at once.
+   */
+  private flushRealtimeChanges = () => {
+    if (this.isSyncing || this.realtimeFlush) {
+      return;
+    }
+    this.realtimeFlush = (async () => {
+      const applied: RemoteChange[] = [];
+      while (!this.isSyncing) {
+        const queued = this.realtimeQueue.shift();
+        if (!queued) break;
+        try {
+          const change = await this.applyRealtimeChange(queued.table, queued.payload);
+          if (change) applied.push(change);
+        } catch (error) {
+          console.log('[Realtime] Could not apply change:', error);
+        }
+      }
+      if (applied.length > 0) {
+        this.remoteChangeListeners.forEach(listener => listener(applied));
+      }
+    })().finally(() => {
+      this.realtimeFlush = null;
+    });
+  };
+
+  private applyRealtimeChange = async (table: RealtimeTable, payload: any): Promise<RemoteChange | null> => {
+    if (payload.eventType === 'DELETE') {
+      // Deletions only carry the primary key: their tombstones are applied by a sync
+      this.syncNow().catch(() => {});
+      return null;
+    }
+
+    const record = payload.new;
+    const key = getOutboxRecordKey(table, record);
+    const pendingKeys = await outbox.getPendingKeys();
+    // A local write still waiting in the outbox is newer, it's merged when replayed
+    if (key && pendingKeys[table].has(key)) {
+      return null;
+    }
+
+    const clubId = await this.getRecordClubId(table, record);
+    const session = await authManager.getSession();
+    if (!clubId || !session) {
+      return null;
+    }
+
+    await this.mergeDataWithLocal(table, [record], session.user.id);
+    await conflictStore.saveBases(table, [record]);
+    return { table, clubId, record };
   };
 
   syncNow = async (): Promise<boolean> => {
@@ -586,6 +795,8 @@ class SyncService {
     try {
       this.isSyncing = true;
       this.notifyListeners({ isSyncing: true, lastSync: await this.getLastSyncTime(), error: null });
+      // Let realtime changes being saved finish first
+      await this.realtimeFlush;
 
       // Check if user is authenticated (using cached session)
       let stepStart = Date.now();
@@ -607,408 +818,87 @@ class SyncService {
       stepStart = timer('Step 0 - Migration & Cleanup', stepStart);
 
       // ============================================
-      // STEP 1: DOWNLOAD ALL DATA FROM SERVER FIRST
+      // STEP 1: REPLAY QUEUED LOCAL WRITES (outbox)
+      // Every local mutation was queued when it was made, in order
       // ============================================
-      
-      // Download all clubs user has access to
+      await this.seedOutbox(session.user.id);
+      await this.replayOutbox(session.user.id);
+      stepStart = timer('Step 1 - Replay outbox', stepStart);
+
+      // ============================================
+      // STEP 2: DOWNLOAD CHANGES FROM SERVER
+      // Only rows changed since the last successful sync of each club
+      // ============================================
+      const pendingKeys = await outbox.getPendingKeys();
+
+      // Download all clubs user has access to (always complete, to detect removed clubs)
       const { data: serverClubs, error: clubsError } = await supabase
         .from('clubs')
         .select('*')
         .order('created_at', { ascending: false });
-      
-
+      if (clubsError) throw clubsError;
+
+      // Role in the clubs joined with a share code (owners are known from owner_id)
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('club_members')
+        .select('club_id, role')
+        .eq('user_id', session.user.id);
+      if (!membershipsError) {
+        await dataService.saveMemberRoles(Object.fromEntries((memberships || []).map(m => [m.club_id, m.role])));
+      }
 
-      // Download all data for these clubs
       const serverData: any = {
         clubs: serverClubs || [],
         sessions: [],
         participants: [],
         participant_sessions: [],
-        attendance: []
-      };
-
-      if (serverClubs && serverClubs.length > 0) {
-        const clubIds = serverClubs.map(c => c.id);
-
-        // Download sessions and participants in PARALLEL (they're independent)
-        const [sessionsResult, participantsResult] = await Promise.all([
-          supabase.from('sessions').select('*').in('club_id', clubIds),
-          supabase.from('participants').select('*').in('club_id', clubIds)
-        ]);
-        
-        serverData.sessions = sessionsResult.data || [];
-        serverData.participants = participantsResult.data || [];
-
-        // Now download participant_sessions and attendance in PARALLEL
-        // (they depend on results above but not on each other)
-        const participantIds = serverData.participants.map((p: any) => p.id);
-        const sessionIds = serverData.sessions.map((s: any) => s.id);
-
-        const [psResult, attendanceResult] = await Promise.all([
-          participantIds.length > 0 
-            ? supabase.from('participant_sessions').select('*').in('participant_id', participantIds)
-            : Promise.resolve({ data: [] }),
-          sessionIds.length > 0
-            ? supabase.from('attendance').select('*').in('session_id', sessionIds)
-            : Promise.resolve({ data: [] })
-        ]);
-
-        serverData.participant_sessions = psResult.data || [];
-        serverData.attendance = attendanceResult.data || [];
-      }
-      stepStart = timer('Step 1 - Download from server', stepStart);
-
-      // ============================================
-      // STEP 2: UPLOAD LOCAL CHANGES TO SERVER FIRST
-      // This ensures local IDs get mapped to server UUIDs before merging
-      // ============================================
-      
-      const localClubs = await dataService.getClubs();
-      const uploadedIds: any = {
-        sessions: new Set<string>(),
-        participants: new Set<string>()
-      };
-
-      // Helper functions for batching
-      const isValidUUID = (id: string) => {
-        if (!id) return false;
-        const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-        return uuidRegex.test(id);
-      };
-      
-      const generateUUID = () => {
-        return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-          const r = Math.random() * 16 | 0;
-          const v = c === 'x' ? r : (r & 0x3 | 0x8);
-          return v.toString(16);
-        });
+        attendance: [],
+        leave_periods: [],
+        closures: [],
+        seasons: []
       };
 
-      // Collect all data to upload in batches
-      const sessionsToUpsert: any[] = [];
-      const participantsToUpsert: any[] = [];
-      const participantSessionsToUpsert: any[] = [];
-      const attendanceToUpsert: any[] = [];
-      const clubsToUpsert: any[] = [];
-
-      // Upload local-only clubs (these need individual handling for ID mapping)
-      for (const club of localClubs) {
-        if (club.id.startsWith('local-')) {
-          await this.uploadLocalClub(club, session.user.id, uploadedIds);
-        } else if (club.owner_id === session.user.id) {
-          clubsToUpsert.push(club);
-        }
-      }
-
-      // Batch upsert clubs
-      if (clubsToUpsert.length > 0) {
-        await supabase.from('clubs').upsert(clubsToUpsert, { onConflict: 'id' });
-      }
-
-      // Collect sessions and participants (only non-local IDs for batch)
-      for (const club of localClubs) {
-        const localSessions = await dataService.getSessions(club.id);
-        for (const sess of localSessions) {
-          if (sess.id.startsWith('local-')) {
-            // Local IDs need individual handling for ID mapping
-            const serverSession = await this.uploadToSupabase('sessions', sess, 'INSERT');
-            if (serverSession) {
-              uploadedIds.sessions.add(serverSession.id);
-              await this.updateLocalId('sessions', sess.id, serverSession.id);
-            }
-          } else {
-            sessionsToUpsert.push(sess);
-          }
-        }
-
-        const localParticipants = await dataService.getParticipants(club.id);
-        for (const participant of localParticipants) {
-          // Strip local-only fields that don't exist in DB schema
-          const { preferred_session_ids, ...dbParticipant } = participant as any;
-          
-          if (participant.id.startsWith('local-')) {
-            const serverParticipant = await this.uploadToSupabase('participants', dbParticipant, 'INSERT');
-            if (serverParticipant) {
-              uploadedIds.participants.add(serverParticipant.id);
-              await this.updateLocalId('participants', participant.id, serverParticipant.id);
-            }
-          } else {
-            participantsToUpsert.push(dbParticipant);
-          }
-        }
-      }
-
-      // Batch upsert sessions and participants IN PARALLEL
-      const [sessionsUpsertResult, participantsUpsertResult] = await Promise.all([
-        sessionsToUpsert.length > 0 
-          ? supabase.from('sessions').upsert(sessionsToUpsert, { onConflict: 'id' })
-          : Promise.resolve({ error: null }),
-        participantsToUpsert.length > 0 
-          ? supabase.from('participants').upsert(participantsToUpsert, { onConflict: 'id' })
-          : Promise.resolve({ error: null })
-      ]);
-      
-      if (sessionsUpsertResult.error) {
-        console.error('[Upload] Sessions upsert FAILED:', sessionsUpsertResult.error.message);
-      }
-      if (participantsUpsertResult.error) {
-        console.error('[Upload] Participants upsert FAILED:', participantsUpsertResult.error.message);
-      }
-
-      // Collect participant_sessions and attendance for batch upsert IN PARALLEL
-      const [allPS, allAttendance] = await Promise.all([
-        AsyncStorage.getItem('@presence_app:participant_sessions'),
-        AsyncStorage.getItem('@presence_app:attendance')
-      ]);
-      
-      // Build set of valid IDs - use ONLY what's confirmed on server
-      // serverData is from Step 1 download, but we just uploaded more data
-      // The upsert should have added participantsToUpsert and sessionsToUpsert
-      // ONLY if the upserts succeeded, include the uploaded IDs
-      const serverParticipantIds = new Set(serverData.participants.map((p: any) => p.id));
-      const serverSessionIds = new Set(serverData.sessions.map((s: any) => s.id));
-      
-      // Only include uploaded IDs if the upsert succeeded
-      if (!participantsUpsertResult.error) {
-        for (const p of participantsToUpsert) {
-          serverParticipantIds.add(p.id);
-        }
-      }
-      if (!sessionsUpsertResult.error) {
-        for (const s of sessionsToUpsert) {
-          serverSessionIds.add(s.id);
-        }
-      }
-      
-      const validParticipantIds = serverParticipantIds;
-      const validSessionIds = serverSessionIds;
-      
-      console.log(`[Upload] Valid participants: ${validParticipantIds.size}, Valid sessions: ${validSessionIds.size}`);
-      
-      if (allPS) {
-        const psList = JSON.parse(allPS);
-        const updatedPsList = [...psList];
-        
-        console.log(`[Upload] Total participant_sessions in local storage: ${psList.length}`);
-        
-        // Use a Map to dedupe by composite key (participant_id + session_id)
-        // Keep the most recent record for each combination
-        const psMap = new Map<string, any>();
-        
-        for (let i = 0; i < updatedPsList.length; i++) {
-          const ps = updatedPsList[i];
-          if (isValidUUID(ps.participant_id) && isValidUUID(ps.session_id)) {
-            // Only upload if both participant AND session exist on server
-            if (!validParticipantIds.has(ps.participant_id)) {
-              console.log(`[Upload] Skipping PS - participant not on server: ${ps.participant_id.slice(0,8)}...`);
-              continue;
-            }
-            if (!validSessionIds.has(ps.session_id)) {
-              console.log(`[Upload] Skipping PS - session not on server: ${ps.session_id.slice(0,8)}...`);
-              continue;
-            }
-            
-            if (!isValidUUID(ps.id)) {
-              ps.id = generateUUID();
-              updatedPsList[i] = ps;
-            }
-            
-            // Dedupe by composite key, keeping most recent
-            const key = `${ps.participant_id}|${ps.session_id}`;
-            const existing = psMap.get(key);
-            if (!existing || new Date(ps.updated_at || ps.created_at || 0) > new Date(existing.updated_at || existing.created_at || 0)) {
-              psMap.set(key, ps);
-            }
-          } else {
-            console.log(`[Upload] Skipping PS - invalid UUIDs: participant=${ps.participant_id?.slice(0,8)}, session=${ps.session_id?.slice(0,8)}`);
-          }
-        }
-        
-        // Convert map values to array
-        participantSessionsToUpsert.push(...psMap.values());
-        
-        // Debug: list unique participant IDs we're about to upsert
-        const uniquePIds = [...new Set(participantSessionsToUpsert.map(ps => ps.participant_id))];
-        console.log(`[Upload] Unique participant IDs in upsert: ${uniquePIds.length}`);
-        
-        // Check if any are NOT in validParticipantIds (shouldn't happen but let's verify)
-        const invalidPIds = uniquePIds.filter(pid => !validParticipantIds.has(pid));
-        if (invalidPIds.length > 0) {
-          console.error(`[Upload] BUG! Invalid participant IDs slipped through: ${invalidPIds.map(id => id.slice(0,8)).join(', ')}`);
-        }
-        
-        // Same for session IDs
-        const uniqueSIds = [...new Set(participantSessionsToUpsert.map(ps => ps.session_id))];
-        const invalidSIds = uniqueSIds.filter(sid => !validSessionIds.has(sid));
-        if (invalidSIds.length > 0) {
-          console.error(`[Upload] BUG! Invalid session IDs slipped through: ${invalidSIds.map(id => id.slice(0,8)).join(', ')}`);
-        }
-        
-        console.log(`[Upload] participant_sessions to upsert: ${participantSessionsToUpsert.length} (deduped from ${psList.length})`);
-        
-        await AsyncStorage.setItem('@presence_app:participant_sessions', JSON.stringify(updatedPsList));
-      }
-
-      if (allAttendance) {
-        const attendanceList = JSON.parse(allAttendance);
-        
-        // Use a Map to dedupe by composite key (participant_id + session_id + date)
-        // Keep the most recent record for each combination
-        const attMap = new Map<string, any>();
-        
-        for (const attendance of attendanceList) {
-          if (attendance.participant_id?.startsWith('local-') || 
-              attendance.session_id?.startsWith('local-') ||
-              !attendance.participant_id ||
-              !attendance.session_id ||
-              !isValidUUID(attendance.participant_id) ||
-              !isValidUUID(attendance.session_id)) {
-            continue;
-          }
-          if (!isValidUUID(attendance.id)) {
-            attendance.id = generateUUID();
-          }
-          
-          // Dedupe by composite key, keeping most recent
-          const key = `${attendance.participant_id}|${attendance.session_id}|${attendance.date}`;
-          const existing = attMap.get(key);
-          if (!existing || new Date(attendance.updated_at || attendance.created_at || 0) > new Date(existing.updated_at || existing.created_at || 0)) {
-            attMap.set(key, attendance);
-          }
+      const cursors = await this.getSyncCursors();
+      const pulls: ClubPull[] = [];
+      for (const club of serverData.clubs) {
+        const pull = await this.pullClub(club.id, cursors.clubs[club.id]);
+        pulls.push(pull);
+        for (const table of PULLED_TABLES) {
+          serverData[table].push(...pull.rows[table]);
         }
-        
-        // Convert map values to array
-        attendanceToUpsert.push(...attMap.values());
-        console.log(`[Upload] attendance to upsert: ${attendanceToUpsert.length} (deduped from ${attendanceList.length})`);
-      }
-
-      // Batch upsert participant_sessions and attendance IN PARALLEL
-      // For participant_sessions, remove 'id' field - let server use composite key (participant_id, session_id)
-      const psWithoutIds = participantSessionsToUpsert.map(({ id, ...rest }) => rest);
-      // For attendance, remove 'id' field - use composite key (participant_id, session_id, date)
-      const attWithoutIds = attendanceToUpsert.map(({ id, ...rest }) => rest);
-      
-      const [psUpsertResult, attUpsertResult] = await Promise.all([
-        psWithoutIds.length > 0 
-          ? supabase.from('participant_sessions').upsert(psWithoutIds, { onConflict: 'participant_id,session_id' })
-          : Promise.resolve({ error: null }),
-        attWithoutIds.length > 0 
-          ? supabase.from('attendance').upsert(attWithoutIds, { onConflict: 'participant_id,session_id,date' })
-          : Promise.resolve({ error: null })
-      ]);
-      
-      if (psUpsertResult.error) {
-        console.error('[Upload] participant_sessions upsert FAILED:', psUpsertResult.error.message);
-      } else {
-        console.log(`[Upload] participant_sessions upsert SUCCESS (${psWithoutIds.length} records)`);
-      }
-      
-      if (attUpsertResult.error) {
-        console.error('[Upload] attendance upsert FAILED:', attUpsertResult.error.message);
-      } else {
-        console.log(`[Upload] attendance upsert SUCCESS (${attWithoutIds.length} records)`);
       }
 
-      // Handle deletions - compare ALL local participant_sessions vs server
-      // Use the raw local data (allPS), not the filtered participantSessionsToUpsert
-      if (allPS) {
-        const localPSList = JSON.parse(allPS);
-        
-        // Build set of ALL local participant_session keys (regardless of validity)
-        const allLocalPSKeys = new Set(
-          localPSList
-            .filter((ps: any) => isValidUUID(ps.participant_id) && isValidUUID(ps.session_id))
-            .map((ps: any) => `${ps.participant_id}|${ps.session_id}`)
-        );
-        
-        // Get ALL participants that exist on server (from downloaded data)
-        const serverParticipantIdsList = serverData.participants.map((p: any) => p.id);
-        
-        if (serverParticipantIdsList.length > 0) {
-          const { data: serverPS } = await supabase
-            .from('participant_sessions')
-            .select('participant_id, session_id')
-            .in('participant_id', serverParticipantIdsList);
-          
-          if (serverPS) {
-            // Find server records that don't exist locally - these should be deleted
-            const toDelete = serverPS.filter(sps => !allLocalPSKeys.has(`${sps.participant_id}|${sps.session_id}`));
-            
-            if (toDelete.length > 0) {
-              console.log(`[Upload] Deleting ${toDelete.length} participant_sessions removed locally`);
-              for (const sps of toDelete) {
-                console.log(`  - Deleting: participant=${sps.participant_id.slice(0,8)}... session=${sps.session_id.slice(0,8)}...`);
-              }
-              
-              // Delete all in parallel
-              await Promise.all(toDelete.map(sps => 
-                supabase
-                  .from('participant_sessions')
-                  .delete()
-                  .eq('participant_id', sps.participant_id)
-                  .eq('session_id', sps.session_id)
-              ));
-            }
-          }
-        }
-      }
-      stepStart = timer('Step 2 - Upload to server', stepStart);
+      // Deletions made on other devices
+      await this.applyTombstones(pulls.flatMap(pull => pull.tombstones), pendingKeys);
+      stepStart = timer('Step 2 - Download from server', stepStart);
 
       // ============================================
-      // STEP 2.5: UPDATE serverData WITH UPLOADED LOCAL DATA
-      // The serverData from Step 1 is stale - it doesn't have our uploads
-      // We need to merge the uploaded data into serverData so Step 3 doesn't
-      // overwrite local changes with old server values
+      // STEP 2.5: PROTECT WRITES STILL WAITING IN THE OUTBOX
+      // Server rows for these are stale, local ones must win the merge
       // ============================================
-      
-      // Update serverData.participants with uploaded local participants
-      if (!participantsUpsertResult.error && participantsToUpsert.length > 0) {
-        const uploadedParticipantIds = new Set(participantsToUpsert.map(p => p.id));
-        // Replace server records with local records for uploaded participants
-        serverData.participants = serverData.participants.filter((p: any) => !uploadedParticipantIds.has(p.id));
-        serverData.participants.push(...participantsToUpsert);
-        console.log(`[Sync] Updated serverData.participants with ${participantsToUpsert.length} uploaded records`);
-      }
-      
-      // Update serverData.sessions with uploaded local sessions
-      if (!sessionsUpsertResult.error && sessionsToUpsert.length > 0) {
-        const uploadedSessionIds = new Set(sessionsToUpsert.map(s => s.id));
-        // Replace server records with local records for uploaded sessions
-        serverData.sessions = serverData.sessions.filter((s: any) => !uploadedSessionIds.has(s.id));
-        serverData.sessions.push(...sessionsToUpsert);
-        console.log(`[Sync] Updated serverData.sessions with ${sessionsToUpsert.length} uploaded records`);
-      }
-      
-      // Update serverData.attendance with uploaded local attendance
-      // Use composite key (participant_id, session_id, date) for matching
-      if (!attUpsertResult.error && attendanceToUpsert.length > 0) {
-        const uploadedAttendanceKeys = new Set(
-          attendanceToUpsert.map(a => `${a.participant_id}|${a.session_id}|${a.date}`)
-        );
-        // Replace server records with local records for uploaded attendance
-        serverData.attendance = serverData.attendance.filter((a: any) => 
-          !uploadedAttendanceKeys.has(`${a.participant_id}|${a.session_id}|${a.date}`)
-        );
-        serverData.attendance.push(...attendanceToUpsert);
-        console.log(`[Sync] Updated serverData.attendance with ${attendanceToUpsert.length} uploaded records`);
+      for (const table of Object.keys(pendingKeys) as OutboxTable[]) {
+        if (pendingKeys[table].size === 0) continue;
+        serverData[table] = serverData[table].filter((r: any) => {
+          const key = getOutboxRecordKey(table, r);
+          return !key || !pendingKeys[table].has(key);
+        });
       }
-      
+
       // Deduplicate serverData to prevent any duplicates from propagating
       // Use CONTENT-BASED deduplication for sessions and participants, not just ID
       const dedupeSessionsByContent = (arr: any[]) => {
         const seenContent = new Map<string, any>(); // content -> record (keep newest)
         for (const item of arr) {
-          const contentKey = `${item.club_id}|${item.day_of_week}|${item.start_time}|${item.end_time}`;
+          const contentKey = getSessionContentKey(item);
           const existing = seenContent.get(contentKey);
           if (!existing) {
             seenContent.set(contentKey, item);
           } else {
             // Keep the one with the content-based hash ID, or the newer one
-            const expectedHashId = generateContentBasedId(`session|${item.club_id}|${item.day_of_week}|${item.start_time}|${item.end_time}`);
-            if (item.id === expectedHashId) {
+            if (isSessionHashId(item)) {
               console.log(`[Dedupe] Keeping content-hash session ${item.id.slice(0,8)}... over ${existing.id.slice(0,8)}...`);
               seenContent.set(contentKey, item);
-            } else if (existing.id !== expectedHashId) {
+            } else if (!isSessionHashId(existing)) {
               // Neither has content hash, keep newer
               const existingTime = new Date(existing.updated_at || existing.created_at || 0).getTime();
               const itemTime = new Date(item.updated_at || item.created_at || 0).getTime();
@@ -1065,7 +955,6 @@ class SyncService {
 
       // ============================================
       // STEP 3: MERGE SERVER DATA WITH LOCAL
-      // serverData now includes our uploaded changes from Step 2.5
       // ============================================
       
       await this.mergeDataWithLocal('clubs', serverData.clubs, session.user.id);
@@ -1073,23 +962,48 @@ class SyncService {
       await this.mergeDataWithLocal('participants', serverData.participants, session.user.id);
       await this.mergeDataWithLocal('participant_sessions', serverData.participant_sessions || [], session.user.id);
       await this.mergeDataWithLocal('attendance', serverData.attendance, session.user.id);
+      await this.mergeDataWithLocal('leave_periods', serverData.leave_periods, session.user.id);
+      await this.mergeDataWithLocal('closures', serverData.closures, session.user.id);
+      await this.mergeDataWithLocal('seasons', serverData.seasons, session.user.id);
+      // Downloaded versions become the base of the next field-level merges
+      for (const table of CONFLICT_TABLES) {
+        await conflictStore.saveBases(table, serverData[table]);
+      }
+      // Older clients may still push the legacy long-term sick flag
+      await dataService.migrateLongTermSickFlags();
+      // ...and day names in sessions
+      await dataService.migrateSessionWeekdays();
+      // ...and stats reset dates in clubs
+      await dataService.migrateStatsResetDates();
+
+      // Full downloads can't rely on tombstones: drop local rows the server doesn't have
+      for (const pull of pulls.filter(p => p.fullResync)) {
+        await this.pruneDeletedRows(pull, pendingKeys);
+      }
+      await this.removeMissingClubs(serverData.clubs, pendingKeys);
       stepStart = timer('Step 3 - Merge with local', stepStart);
 
       // ============================================
-      // STEP 4: DELETE ITEMS MARKED FOR DELETION
-      // Only delete items explicitly marked by user
+      // STEP 4: FORGET DELETIONS THE SERVER HAS APPLIED
       // ============================================
       
-      await this.deleteMarkedItems('sessions');
-      await this.deleteMarkedItems('participants');
-      await this.deleteMarkedItems('attendance');
-      await this.deleteMarkedItems('clubs');
-      stepStart = timer('Step 4 - Delete marked items', stepStart);
+      await this.clearSyncedDeletions();
+      stepStart = timer('Step 4 - Clear synced deletions', stepStart);
+
+      // Only a successful sync moves the cursors forward
+      await this.saveSyncCursors({
+        schema_version: SYNC_SCHEMA_VERSION,
+        clubs: Object.fromEntries(pulls.map(pull => [pull.clubId, pull.cursor]))
+      });
 
       // Update last sync time
       await this.updateLastSyncTime();
       const newLastSync = await this.getLastSyncTime();
       this.notifyListeners({ isSyncing: false, lastSync: newLastSync, error: null });
+
+      if (this.syncInterval) {
+        await this.refreshRealtime();
+      }
       
       timer('TOTAL SYNC TIME', syncStart);
       return true;
@@ -1103,130 +1017,20 @@ class SyncService {
       return false;
     } finally {
       this.isSyncing = false;
+      this.flushRealtimeChanges();
     }
   };
 
-  private syncClub = async (
-    clubId: string, 
-    since: Date, 
-    skipSessionIds: Set<string> = new Set(), 
-    skipParticipantIds: Set<string> = new Set()
-  ) => {
-    try {
-      const sinceStr = since.toISOString();
-
-      // Fetch club data (updated since last sync)
-      const { data: clubData } = await supabase
-        .from('clubs')
-        .select('*')
-        .eq('id', clubId)
-        .or(`created_at.gte.${sinceStr},updated_at.gte.${sinceStr}`);
-
-      // Fetch sessions for this club (updated since last sync)
-      const { data: sessionsData, error: sessionsError } = await supabase
-        .from('sessions')
-        .select('*')
-        .eq('club_id', clubId)
-        .or(`created_at.gte.${sinceStr},updated_at.gte.${sinceStr}`);
-
-
-
-      // Fetch participants for this club (updated since last sync)
-      const { data: participantsData } = await supabase
-        .from('participants')
-        .select('*')
-        .eq('club_id', clubId)
-        .or(`created_at.gte.${sinceStr},updated_at.gte.${sinceStr}`);
-
-      // Fetch participant_sessions for participants in this club
-      const { data: participantSessionsData } = await supabase
-        .from('participant_sessions')
-        .select('*, participants!inner(club_id)')
-        .eq('participants.club_id', clubId)
-        .or(`created_at.gte.${sinceStr},updated_at.gte.${sinceStr}`);
-
-      // Fetch attendance for participants in this club
-      const { data: attendanceData } = await supabase
-        .from('attendance')
-        .select('*, participants!inner(club_id)')
-        .eq('participants.club_id', clubId)
-        .gte('created_at', sinceStr);
-
-      // Apply changes to local storage (filter out IDs we just uploaded to prevent duplicates)
-      if (clubData && clubData.length > 0) {
-        await this.syncTableRecords('clubs', clubData);
-      }
-      if (sessionsData && sessionsData.length > 0) {
-        const filteredSessions = sessionsData.filter(s => !skipSessionIds.has(s.id));
-        if (filteredSessions.length > 0) {
-          await this.syncTableRecords('sessions', filteredSessions);
-        }
-      }
-      if (participantsData && participantsData.length > 0) {
-        const filteredParticipants = participantsData.filter(p => !skipParticipantIds.has(p.id));
-        if (filteredParticipants.length > 0) {
-          await this.syncTableRecords('participants', filteredParticipants);
-        }
-      }
-      if (participantSessionsData && participantSessionsData.length > 0) {
-        await this.syncTableRecords('participant_sessions', participantSessionsData);
-      }
-      if (attendanceData && attendanceData.length > 0) {
-        await this.syncTableRecords('attendance', attendanceData);
-      }
-
-    } catch (error) {
-      // Silent fail
-    }
-  };
-
-  private syncTableRecords = async (tableName: string, records: any[]) => {
-    const storageKey = this.getStorageKey(tableName);
-    const local = await AsyncStorage.getItem(storageKey);
-    let localRecords = local ? JSON.parse(local) : [];
-
-    // Merge server records into local storage
-    for (const serverRecord of records) {
-      const existingIndex = localRecords.findIndex((r: any) => r.id === serverRecord.id);
-      
-      if (existingIndex >= 0) {
-        const localRecord = localRecords[existingIndex];
-        
-        // For clubs, participants, and participant_sessions, always trust server
-        if (['clubs', 'participants', 'participant_sessions'].includes(tableName)) {
-          localRecords[existingIndex] = { ...localRecord, ...serverRecord };
-        } else {
-          // For sessions and attendance, compare timestamps
-          const serverUpdated = serverRecord.updated_at || serverRecord.created_at;
-          const localUpdated = localRecord.updated_at || localRecord.created_at;
-          
-          if (serverUpdated && localUpdated) {
-            const serverTime = new Date(serverUpdated).getTime();
-            const localTime = new Date(localUpdated).getTime();
-            
-            if (serverTime > localTime) {
-              localRecords[existingIndex] = { ...localRecord, ...serverRecord };
-            }
-          } else {
-            localRecords[existingIndex] = { ...localRecord, ...serverRecord };
-          }
-        }
-      } else {
-        // Add new record from server
-        localRecords.push(serverRecord);
-      }
-    }
-
-    await AsyncStorage.setItem(storageKey, JSON.stringify(localRecords));
-  };
-
   private getStorageKey = (tableName: string): string => {
     const keyMap: Record<string, string> = {
       'clubs': '@presence_app:clubs',
       'sessions': '@presence_app:sessions',
       'participants': '@presence_app:participants',
       'attendance': '@presence_app:attendance',
-      'participant_sessions': '@presence_app:participant_sessions'
+      'participant_sessions': '@presence_app:participant_sessions',
+      'leave_periods': '@presence_app:leave_periods',
+      'closures': '@presence_app:closures',
+      'seasons': '@presence_app:seasons'
     };
     return keyMap[tableName] || `@presence_app:${tableName}`;
   };
@@ -1240,218 +1044,15 @@ class SyncService {
     await AsyncStorage.setItem(LAST_SYNC_KEY, new Date().toISOString());
   };
 
-  // Upload local data to server
-  uploadToSupabase = async (
-    table: string,
-    record: any,
-    operation: 'INSERT' | 'UPDATE' | 'DELETE'
-  ): Promise<any> => {
-    try {
-      const session = await authManager.getSession();
-      if (!session) {
-        return null;
-      }
-
-      if (operation === 'DELETE') {
-        // Skip delete if record is local-only (never uploaded to server)
-        if (record.id?.startsWith('local-')) {
-          return null;
-        }
-        
-        const { data, error } = await supabase
-          .from(table)
-          .delete()
-          .eq('id', record.id)
-          .select()
-          .maybeSingle(); // Use maybeSingle() instead of single() to allow 0 results
-        
-        if (error) {
-          throw error;
-        }
-        
-        return data;
-      } else if (operation === 'INSERT' || operation === 'UPDATE') {
-        // For UPDATE operations on sessions/attendance, check if local data is newer
-        // For clubs/participants/participant_sessions, always upload (owner is source of truth)
-        if (operation === 'UPDATE' && record.id && !record.id.startsWith('local-') && !['clubs', 'participants', 'participant_sessions'].includes(table)) {
-          const { data: serverRecord } = await supabase
-            .from(table)
-            .select('updated_at')
-            .eq('id', record.id)
-            .single();
-          
-          if (serverRecord?.updated_at && record.updated_at) {
-            const serverTime = new Date(serverRecord.updated_at).getTime();
-            const localTime = new Date(record.updated_at).getTime();
-            
-            if (localTime <= serverTime) {
-              return serverRecord;
-            }
-          }
-        }
-        
-        // Prepare record for upload (remove local-only fields and map to new schema)
-        const cleanRecord: any = { ...record };
-        delete cleanRecord.preferred_session_ids; // This is handled by participant_sessions table
-        
-        // Map old fields to new schema
-        if (table === 'clubs') {
-          // Clubs: keep only id, name, description, owner_id, updated_at
-          const { id, name, description, owner_id, updated_at } = cleanRecord;
-          const mappedRecord: any = { 
-            name, 
-            description,
-            owner_id: owner_id || session.user.id, // Ensure owner_id is set
-            updated_at: updated_at || new Date().toISOString() // Preserve local timestamp
-          };
-          
-          if (operation === 'UPDATE' && id && !id.startsWith('local-')) {
-            // Use UPDATE for existing clubs to avoid triggering INSERT constraint
-            const { data, error } = await supabase
-              .from(table)
-              .update(mappedRecord)
-              .eq('id', id)
-              .select()
-              .single();
-            
-            if (error) throw error;
-            return data;
-          } else {
-            // Use upsert for INSERT operations
-            if (id && !id.startsWith('local-')) mappedRecord.id = id;
-            
-            const { data, error } = await supabase
-              .from(table)
-              .upsert(mappedRecord, { onConflict: 'id' })
-              .select()
-              .single();
-            
-            if (error) throw error;
-            return data;
-          }
-        } else if (table === 'sessions') {
-          // Sessions: keep day_of_week, start_time, end_time (updated_at is handled by DB trigger)
-          const { id, club_id, day_of_week, start_time, end_time } = cleanRecord;
-          const mappedRecord: any = { 
-            club_id,
-            day_of_week,
-            start_time,
-            end_time
-            // Don't send updated_at - let database trigger handle it
-          };
-          
-          // IDs are now content-based (deterministic), so always include them
-          // This ensures same content = same ID everywhere, no duplicates possible
-          if (id && !id.startsWith('local-')) {
-            mappedRecord.id = id;
-          }
-          
-          const { data, error } = await supabase
-            .from(table)
-            .upsert(mappedRecord, { onConflict: 'id' })
-            .select()
-            .single();
-          
-          if (error) {
-            throw error;
-          }
-          return data;
-        } else if (table === 'participants') {
-          // Participants: keep id, club_id, first_name, last_name, is_long_term_sick, updated_at
-          const { id, club_id, first_name, last_name, is_long_term_sick, updated_at } = cleanRecord;
-          const mappedRecord: any = { 
-            club_id,
-            first_name,
-            last_name,
-            is_long_term_sick: is_long_term_sick || false,
-            updated_at: updated_at || new Date().toISOString() // Preserve local timestamp for conflict resolution
-          };
-          
-          // IDs are now content-based (deterministic), so always include them
-          // This ensures same content = same ID everywhere, no duplicates possible
-          if (id && !id.startsWith('local-')) {
-            mappedRecord.id = id;
-          }
-          
-          const { data, error } = await supabase
-            .from(table)
-            .upsert(mappedRecord, { onConflict: 'id' })
-            .select()
-            .single();
-          
-          if (error) throw error;
-          return data;
-        } else if (table === 'participant_sessions') {
-          // Participant_sessions: keep participant_id, session_id, and updated_at for conflict resolution
-          const { participant_id, session_id, updated_at } = cleanRecord;
-          const mappedRecord: any = { 
-            participant_id,
-            session_id,
-            updated_at: updated_at || new Date().toISOString() // Preserve local timestamp
-          };
-          // Don't include id - use the composite key (participant_id, session_id) for conflict resolution
-          
-          const { data, error } = await supabase
-            .from(table)
-            .upsert(mappedRecord, { onConflict: 'participant_id,session_id' })
-            .select()
-            .single();
-          
-          if (error) throw error;
-          return data;
-        } else if (table === 'attendance') {
-          // Attendance: keep participant_id, session_id, date, present
-          // Note: Use UPSERT with unique constraint on (participant_id, session_id, date)
-          const { id, participant_id, session_id, date, present } = cleanRecord;
-          
-          const mappedRecord: any = { 
-            participant_id,
-            session_id,
-            date,
-            present: present || false
-          };
-          
-          // Always use UPSERT with the natural key (participant_id, session_id, date)
-          // The database has a unique constraint on these three fields
-          const { data, error } = await supabase
-            .from(table)
-            .upsert(mappedRecord, { 
-              onConflict: 'participant_id,session_id,date',
-              ignoreDuplicates: false 
-            })
-            .select()
-            .single();
-          
-          if (error) {
-            throw error;
-          }
-          return data;
-        } else {
-          // Other tables: use as-is
-          const { data, error } = await supabase
-            .from(table)
-            .upsert(cleanRecord)
-            .select()
-            .single();
-          
-          if (error) throw error;
-          return data;
-        }
-      }
-    } catch (error) {
-      throw error;
-    }
-  };
-
-  // ============================================
-  // HELPER FUNCTIONS FOR NEW SYNC LOGIC
-  // ============================================
+  // ============================================
+  // HELPER FUNCTIONS FOR NEW SYNC LOGIC
+  // ============================================
 
   /**
    * Merge server data with local data based on timestamps
    * Server data takes precedence if it's newer or if local doesn't exist
    */
-  private mergeDataWithLocal = async (type: 'clubs' | 'sessions' | 'participants' | 'participant_sessions' | 'attendance', serverRecords: any[], userId: string): Promise<void> => {
+  private mergeDataWithLocal = async (type: 'clubs' | 'sessions' | 'participants' | 'participant_sessions' | 'attendance' | 'leave_periods' | 'closures' | 'seasons', serverRecords: any[], userId: string): Promise<void> => {
     const storageKey = this.getStorageKey(type);
     const localData = await AsyncStorage.getItem(storageKey);
     const localRecords = localData ? JSON.parse(localData) : [];
@@ -1460,6 +1061,9 @@ class SyncService {
     const deletedIds = await dataService.getDeletedIds(type);
     const deletedIdsSet = new Set(deletedIds);
 
+    // Last downloaded versions, for field-level merging
+    const bases = isConflictTable(type) ? await conflictStore.getBases(type) : new Map<string, any>();
+
     // For participant_sessions, use composite key (participant_id + session_id) instead of id
     if (type === 'participant_sessions') {
       await this.mergeParticipantSessions(serverRecords, localRecords, storageKey, userId, deletedIdsSet);
@@ -1468,7 +1072,7 @@ class SyncService {
 
     // For attendance, use composite key (participant_id + session_id + date) instead of id
     if (type === 'attendance') {
-      await this.mergeAttendance(serverRecords, localRecords, storageKey, deletedIdsSet);
+      await this.mergeAttendance(serverRecords, localRecords, storageKey, deletedIdsSet, bases);
       return;
     }
 
@@ -1477,9 +1081,9 @@ class SyncService {
     const mergedRecords = [...localRecords];
 
     // For sessions: create a content-based map for deduplication
-    // Key format: "club_id|day_of_week|start_time|end_time"
+    // Key format: "club_id|day_of_week|start_time|end_time", plus the dates when set
     const sessionContentMap: Map<string, any> | null = type === 'sessions' 
-      ? new Map<string, any>(localRecords.map((r: any) => [`${r.club_id}|${r.day_of_week}|${r.start_time}|${r.end_time}`, r]))
+      ? new Map<string, any>(localRecords.map((r: any) => [getSessionContentKey(r), r]))
       : null;
 
     // For participants: create a content-based map for deduplication
@@ -1498,11 +1102,11 @@ class SyncService {
 
       // For sessions: also check content-based match using the deterministic hash
       if (!localRecord && type === 'sessions' && sessionContentMap) {
-        const contentKey = `${serverRecord.club_id}|${serverRecord.day_of_week}|${serverRecord.start_time}|${serverRecord.end_time}`;
+        const contentKey = getSessionContentKey(serverRecord);
         const matchByContent = sessionContentMap.get(contentKey);
         
         // Also compute what the content hash ID should be
-        const expectedHashId = generateContentBasedId(`session|${serverRecord.club_id}|${serverRecord.day_of_week}|${serverRecord.start_time}|${serverRecord.end_time}`);
+        const expectedHashId = getSessionHashId(serverRecord);
         const matchByHashId = localMap.get(expectedHashId);
         
         // Prefer match by hash ID, fallback to content map
@@ -1559,7 +1163,7 @@ class SyncService {
       if (!localRecord) {
         // For sessions: check if we already added a record with the same content from server
         if (type === 'sessions' && sessionContentMap) {
-          const contentKey = `${serverRecord.club_id}|${serverRecord.day_of_week}|${serverRecord.start_time}|${serverRecord.end_time}`;
+          const contentKey = getSessionContentKey(serverRecord);
           if (sessionContentMap.has(contentKey)) {
             // Already have a record with this content, skip this duplicate
             console.log(`[Merge] Skipping duplicate session from server: ${serverRecord.id.slice(0,8)}... (content already exists)`);
@@ -1584,41 +1188,50 @@ class SyncService {
         // New record from server, add it
         mergedRecords.push(serverRecord);
       } else {
-        // Check if user is owner for this entity
-        let isOwner = false;
+        // Check if user can edit this entity
+        let canEdit = false;
         if (type === 'clubs') {
-          isOwner = serverRecord.owner_id === userId;
-        } else if (type === 'sessions' || type === 'participants') {
-          // For sessions/participants, check club ownership
+          canEdit = serverRecord.owner_id === userId;
+        } else if (type === 'sessions' || type === 'participants' || type === 'leave_periods' || type === 'closures' || type === 'seasons') {
+          // For sessions/participants/leave periods/closures/seasons, check the user's role in the club
           const clubs = await dataService.getClubs();
           const club = clubs.find(c => c.id === serverRecord.club_id);
-          isOwner = club?.owner_id === userId;
+          const permission = type === 'seasons' ? 'manageClub'
+            : type === 'sessions' || type === 'closures' ? 'manageSessions'
+            : 'editParticipants';
+          canEdit = !!club && can(resolveClubRole(club, userId, await dataService.getMemberRole(club.id)), permission);
         } else if (type === 'participant_sessions') {
-          // For participant_sessions, check via participant's club ownership
+          // For participant_sessions, check via participant's club
           const clubs = await dataService.getClubs();
           const allParticipants = await AsyncStorage.getItem('@presence_app:participants');
           const participants = allParticipants ? JSON.parse(allParticipants) : [];
           const participant = participants.find((p: any) => p.id === serverRecord.participant_id);
-          if (participant) {
-            const club = clubs.find(c => c.id === participant.club_id);
-            isOwner = club?.owner_id === userId;
+          const club = participant ? clubs.find(c => c.id === participant.club_id) : undefined;
+          if (club) {
+            canEdit = can(resolveClubRole(club, userId, await dataService.getMemberRole(club.id)), 'editParticipants');
           } else {
             // If participant not found locally, use timestamp resolution
-            isOwner = true;
+            canEdit = true;
           }
         } else if (type === 'attendance') {
           // For attendance, always use timestamp conflict resolution
-          isOwner = true; // Treat everyone as having edit rights
+          canEdit = true; // Treat everyone as having edit rights
         }
 
-        if (!isOwner && type !== 'attendance') {
-          // Non-owner for clubs/sessions/participants: server ALWAYS wins
+        if (!canEdit && type !== 'attendance') {
+          // Read-only for clubs/sessions/participants: server ALWAYS wins
           const index = mergedRecords.findIndex((r: any) => r.id === serverRecord.id);
           if (index >= 0) {
             mergedRecords[index] = serverRecord;
           }
+        } else if (isConflictTable(type) && bases.has(serverRecord.id)) {
+          // Editor: merge field by field against the last downloaded version
+          const index = mergedRecords.findIndex((r: any) => r.id === serverRecord.id);
+          if (index >= 0) {
+            mergedRecords[index] = await this.mergeDownloadedFields(type, bases.get(serverRecord.id), localRecord, serverRecord);
+          }
         } else {
-          // Owner or attendance: compare timestamps
+          // Editor without a common version: compare timestamps
           const serverTime = new Date(serverRecord.updated_at || serverRecord.created_at).getTime();
           const localTime = new Date(localRecord.updated_at || localRecord.created_at).getTime();
 
@@ -1775,6 +1388,27 @@ class SyncService {
     }
   };
 
+  /**
+   * Field-level merge of a downloaded row with its local version. Fields only changed
+   * locally are kept and sent back to the server, true conflicts are recorded for review.
+   */
+  private mergeDownloadedFields = async (table: ConflictTable, base: any, localRecord: any, serverRecord: any): Promise<any> => {
+    const fields = mergeRecordFields(table, base, localRecord, serverRecord);
+    const merged = { ...localRecord, ...serverRecord, ...pickFields(localRecord, fields.localFields) };
+    if (table === 'attendance') {
+      merged.present = isPresentStatus(getAttendanceStatus(merged));
+    }
+
+    if (fields.conflicts.length > 0) {
+      const clubId = await this.getRecordClubId(table, serverRecord);
+      await conflictStore.addConflicts(toSyncConflicts(table, clubId, serverRecord, fields.conflicts));
+    }
+    if (fields.localFields.length > 0) {
+      await outbox.enqueue({ op: 'upsert', table, records: [merged] });
+    }
+    return merged;
+  };
+
   /**
    * Merge attendance records using composite key (participant_id + session_id + date)
    * Local always wins if it was modified more recently
@@ -1783,7 +1417,8 @@ class SyncService {
     serverRecords: any[],
     localRecords: any[],
     storageKey: string,
-    deletedIdsSet: Set<string>
+    deletedIdsSet: Set<string>,
+    bases: Map<string, any>
   ): Promise<void> => {
     console.log(`[Attendance Merge] Server: ${serverRecords.length}, Local: ${localRecords.length}`);
 
@@ -1819,6 +1454,9 @@ class SyncService {
       if (!serverRecord) {
         // Only exists locally, keep it
         mergedRecords.push(localRecord);
+      } else if (bases.has(key)) {
+        // Merge field by field against the last downloaded version
+        mergedRecords.push(await this.mergeDownloadedFields('attendance', bases.get(key), localRecord, serverRecord));
       } else {
         // Exists in both - compare timestamps, local wins if newer or equal
         const localTime = new Date(localRecord.updated_at || localRecord.created_at || 0).getTime();
@@ -1855,78 +1493,54 @@ class SyncService {
   };
 
   /**
-   * Upload a local-only club and all its data
+   * Upload a club created offline and switch local data and queued writes to its server ID
    */
-  private uploadLocalClub = async (club: any, userId: string, uploadedIds: any): Promise<void> => {
-    try {
-      const oldClubId = club.id;
-      
-      // Check if club already exists on server (by name and owner_id)
-      const { data: existingClubs } = await supabase
+  private uploadLocalClub = async (club: any, userId: string): Promise<string> => {
+    const oldClubId = club.id;
+    
+    // Check if club already exists on server (by name and owner_id)
+    const { data: existingClubs } = await supabase
+      .from('clubs')
+      .select('*')
+      .eq('name', club.name)
+      .eq('owner_id', userId)
+      .limit(1);
+    
+    let serverClub;
+    
+    if (existingClubs && existingClubs.length > 0) {
+      serverClub = existingClubs[0];
+    } else {
+      // Insert new club
+      const { data: newClub, error: insertError } = await supabase
         .from('clubs')
-        .select('*')
-        .eq('name', club.name)
-        .eq('owner_id', userId)
-        .limit(1);
-      
-      let serverClub;
+        .insert({
+          name: club.name,
+          description: club.description || '',
+          owner_id: userId,
+          status_rules: club.status_rules ?? null,
+          updated_at: club.updated_at || new Date().toISOString()
+        })
+        .select()
+        .single();
       
-      if (existingClubs && existingClubs.length > 0) {
-        serverClub = existingClubs[0];
-      } else {
-        // Insert new club
-        const { data: newClub, error: insertError } = await supabase
-          .from('clubs')
-          .insert({
-            name: club.name,
-            description: club.description || '',
-            owner_id: userId,
-            updated_at: club.updated_at || new Date().toISOString()
-          })
-          .select()
-          .single();
-        
-        if (insertError) throw insertError;
-        serverClub = newClub;
-        
-        // Add owner as club member
-        await supabase
-          .from('club_members')
-          .insert({
-            club_id: serverClub.id,
-            user_id: userId
-          });
-      }
+      if (insertError) throw insertError;
+      serverClub = newClub;
       
-      // Update local club ID
-      await this.updateLocalId('clubs', oldClubId, serverClub.id);
-      
-      // Upload sessions for this club
-      const sessions = await dataService.getSessions(serverClub.id);
-      for (const session of sessions) {
-        if (session.id.startsWith('local-')) {
-          const serverSession = await this.uploadToSupabase('sessions', { ...session, club_id: serverClub.id }, 'INSERT');
-          if (serverSession) {
-            uploadedIds.sessions.add(serverSession.id);
-            await this.updateLocalId('sessions', session.id, serverSession.id);
-          }
-        }
-      }
-      
-      // Upload participants for this club
-      const participants = await dataService.getParticipants(serverClub.id);
-      for (const participant of participants) {
-        if (participant.id.startsWith('local-')) {
-          const serverParticipant = await this.uploadToSupabase('participants', { ...participant, club_id: serverClub.id }, 'INSERT');
-          if (serverParticipant) {
-            uploadedIds.participants.add(serverParticipant.id);
-            await this.updateLocalId('participants', participant.id, serverParticipant.id);
-          }
-        }
-      }
-    } catch (error) {
-      // Silent fail
+      // Add owner as club member
+      await supabase
+        .from('club_members')
+        .insert({
+          club_id: serverClub.id,
+          user_id: userId,
+          role: 'owner'
+        });
     }
+    
+    // Update local club ID, then the sessions/participants queued under the old one
+    await this.updateLocalId('clubs', oldClubId, serverClub.id);
+    await outbox.remapClubId(oldClubId, serverClub.id);
+    return serverClub.id;
   };
 
   /**
@@ -2001,37 +1615,620 @@ class SyncService {
         );
         await AsyncStorage.setItem('@presence_app:participants', JSON.stringify(updated));
       }
+      // Update leave periods
+      const leavePeriodsData = await AsyncStorage.getItem('@presence_app:leave_periods');
+      if (leavePeriodsData) {
+        const leavePeriods = JSON.parse(leavePeriodsData);
+        const updated = leavePeriods.map((l: any) => 
+          l.club_id === oldId ? { ...l, club_id: newId } : l
+        );
+        await AsyncStorage.setItem('@presence_app:leave_periods', JSON.stringify(updated));
+      }
+      // Update closures
+      const closuresData = await AsyncStorage.getItem('@presence_app:closures');
+      if (closuresData) {
+        const closures = JSON.parse(closuresData);
+        const updated = closures.map((c: any) => 
+          c.club_id === oldId ? { ...c, club_id: newId } : c
+        );
+        await AsyncStorage.setItem('@presence_app:closures', JSON.stringify(updated));
+      }
+      // Update seasons
+      const seasonsData = await AsyncStorage.getItem('@presence_app:seasons');
+      if (seasonsData) {
+        const seasons = JSON.parse(seasonsData);
+        const updated = seasons.map((s: any) => 
+          s.club_id === oldId ? { ...s, club_id: newId } : s
+        );
+        await AsyncStorage.setItem('@presence_app:seasons', JSON.stringify(updated));
+      }
     }
   };
 
+  // ============================================
+  // OUTBOX REPLAY
+  // ============================================
+
   /**
-   * Delete items from server that are marked for deletion
+   * One-time upgrade from the full-table upload: queue everything stored locally
+   * so edits made before the outbox existed still reach the server.
    */
-  private deleteMarkedItems = async (type: 'clubs' | 'sessions' | 'participants' | 'attendance'): Promise<void> => {
-    const deletedIds = await dataService.getDeletedIds(type);
-    
-    if (deletedIds.length === 0) {
+  private seedOutbox = async (userId: string): Promise<void> => {
+    if (await AsyncStorage.getItem(OUTBOX_SEEDED_KEY)) {
       return;
     }
 
-    for (const id of deletedIds) {
-      // Skip invalid IDs (null, undefined, or local-only)
-      if (!id || id === 'undefined' || id.startsWith('local-')) {
-        continue;
+    const localClubs = await dataService.getClubs();
+    const localSessionIds = new Set<string>();
+    const localParticipantIds = new Set<string>();
+
+    await outbox.enqueue({
+      op: 'upsert',
+      table: 'clubs',
+      records: localClubs.filter(c => c.id.startsWith('local-') || c.owner_id === userId)
+    });
+
+    for (const club of localClubs) {
+      const sessions = await dataService.getSessions(club.id);
+      sessions.forEach(s => localSessionIds.add(s.id));
+      await outbox.enqueue({ op: 'upsert', table: 'sessions', records: sessions });
+
+      const participants = await dataService.getParticipants(club.id);
+      participants.forEach(p => localParticipantIds.add(p.id));
+      await outbox.enqueue({
+        op: 'upsert',
+        table: 'participants',
+        records: participants.map(({ preferred_session_ids, ...p }) => p)
+      });
+    }
+
+    // Preferred sessions: one full set per participant, deduped keeping the most recent row
+    const psData = await AsyncStorage.getItem('@presence_app:participant_sessions');
+    const psByParticipant = new Map<string, Map<string, any>>();
+    for (const id of localParticipantIds) {
+      psByParticipant.set(id, new Map());
+    }
+    for (const ps of psData ? JSON.parse(psData) : []) {
+      const sessionsOfParticipant = psByParticipant.get(ps.participant_id);
+      if (!sessionsOfParticipant || !localSessionIds.has(ps.session_id)) continue;
+      const existing = sessionsOfParticipant.get(ps.session_id);
+      if (!existing || new Date(ps.updated_at || ps.created_at || 0) > new Date(existing.updated_at || existing.created_at || 0)) {
+        sessionsOfParticipant.set(ps.session_id, ps);
       }
+    }
+    for (const [participantId, sessionsOfParticipant] of psByParticipant) {
+      await outbox.enqueue({
+        op: 'replace_participant_sessions',
+        table: 'participant_sessions',
+        participant_id: participantId,
+        records: [...sessionsOfParticipant.values()]
+      });
+    }
+
+    const attendanceData = await AsyncStorage.getItem('@presence_app:attendance');
+    await outbox.enqueue({ op: 'upsert', table: 'attendance', records: attendanceData ? JSON.parse(attendanceData) : [] });
+
+    const leavePeriodsData = await AsyncStorage.getItem('@presence_app:leave_periods');
+    await outbox.enqueue({ op: 'upsert', table: 'leave_periods', records: leavePeriodsData ? JSON.parse(leavePeriodsData) : [] });
+
+    // Pending deletions, children first
+    for (const type of ['attendance', 'leave_periods', 'participants', 'sessions', 'clubs'] as const) {
+      const deletedIds = await dataService.getDeletedIds(type);
+      await outbox.enqueue({ op: 'delete', table: type, match: deletedIds.filter(id => id && id !== 'undefined').map(id => ({ id })) });
+    }
+
+    await AsyncStorage.setItem(OUTBOX_SEEDED_KEY, 'true');
+  };
 
+  /**
+   * Push queued local writes to the server, oldest first.
+   * Stops at the first operation that can't go through yet so later writes never
+   * overtake it. Failed operations are retried with backoff on later syncs.
+   */
+  private replayOutbox = async (userId: string): Promise<void> => {
+    const queued = await outbox.getOperations();
+    const now = Date.now();
+
+    for (const { id } of queued) {
+      // Re-read: uploading an offline club rewrites the operations queued after it
+      const operation = (await outbox.getOperations()).find(op => op.id === id);
+      if (!operation) continue;
+      if (!outbox.isReady(operation, now)) break;
+
+      outbox.markInFlight(operation.id);
       try {
-        await supabase
-          .from(type)
-          .delete()
-          .eq('id', id);
-      } catch (error) {
-        // Silent fail
+        await this.applyOutboxOperation(operation, userId);
+        await outbox.ack(operation.id);
+      } catch (error: any) {
+        const message = error?.message || String(error);
+        if (isPermanentError(error)) {
+          await outbox.drop(operation.id, message);
+        } else {
+          console.log(`[Outbox] ${operation.op} on ${operation.table} failed, will retry:`, message);
+          await outbox.fail(operation.id, message);
+          break;
+        }
+      }
+    }
+  };
+
+  /**
+   * Send one queued operation. Throws the Supabase error so the caller can decide
+   * between retrying and dropping it.
+   */
+  private applyOutboxOperation = async (operation: OutboxOperation, userId: string): Promise<void> => {
+    if (operation.op === 'delete') {
+      for (const match of operation.match) {
+        // Rows created offline never reached the server
+        if (Object.values(match).some(value => !value || value.startsWith('local-'))) continue;
+        const { error } = await supabase.from(operation.table).delete().match(match);
+        if (error) throw error;
+      }
+      return;
+    }
+
+    if (operation.op === 'replace_participant_sessions') {
+      // Don't send 'id' - use the composite key (participant_id, session_id)
+      const rows = operation.records.map(ps => ({
+        participant_id: ps.participant_id,
+        session_id: ps.session_id,
+        updated_at: ps.updated_at || operation.created_at
+      }));
+      if (rows.length > 0) {
+        const { error } = await supabase
+          .from('participant_sessions')
+          .upsert(rows, { onConflict: 'participant_id,session_id' });
+        if (error) throw error;
+      }
+
+      // Then remove the sessions the participant was unassigned from
+      let staleRows = supabase
+        .from('participant_sessions')
+        .delete()
+        .eq('participant_id', operation.participant_id);
+      if (rows.length > 0) {
+        staleRows = staleRows.not('session_id', 'in', `(${rows.map(r => r.session_id).join(',')})`);
+      }
+      const { error } = await staleRows;
+      if (error) throw error;
+      return;
+    }
+
+    let records = operation.records;
+
+    if (operation.table === 'clubs') {
+      const uploadable = [];
+      for (const club of records) {
+        if (club.id.startsWith('local-')) {
+          // Skip clubs deleted before they ever reached the server
+          if (await dataService.getClub(club.id)) {
+            await this.uploadLocalClub(club, userId);
+          }
+        } else if (!club.owner_id || club.owner_id === userId) {
+          uploadable.push(club);
+        }
+      }
+      records = uploadable;
+    }
+
+    // Rows of an offline club deleted before it was uploaded
+    records = records.filter(r => !r.club_id?.startsWith('local-'));
+
+    if (operation.table === 'attendance') {
+      records = records.map(record => ({ ...record, status: getAttendanceStatus(record) }));
+    }
+    records = records.map(record => toServerRecord(operation.table, record));
+
+    if (records.length === 0) return;
+
+    // Keep the fields other devices changed since we last downloaded these rows
+    const merge = isConflictTable(operation.table)
+      ? await this.mergeWithServerRows(operation.table, records)
+      : null;
+    if (merge) {
+      records = merge.records;
+    }
+
+    const { error } = await supabase
+      .from(operation.table)
+      .upsert(records, { onConflict: operation.table === 'attendance' ? 'participant_id,session_id,date' : 'id' });
+    if (error) throw error;
+
+    if (merge && isConflictTable(operation.table)) {
+      await conflictStore.saveBases(operation.table, records);
+      await conflictStore.addConflicts(merge.conflicts);
+      await this.applyServerFields(operation.table, merge.serverFields);
+    }
+  };
+
+  /**
+   * Merge queued records field by field with the current server rows: only the fields
+   * changed on this device since the last downloaded version (the base) are sent.
+   * Records without a base (never downloaded) are sent as they are.
+   */
+  private mergeWithServerRows = async (table: ConflictTable, records: any[]): Promise<{
+    records: any[];
+    conflicts: SyncConflict[];
+    serverFields: Map<string, any>;
+  }> => {
+    const bases = await conflictStore.getBases(table);
+    const result = { records: [...records], conflicts: [] as SyncConflict[], serverFields: new Map<string, any>() };
+    if (!records.some(r => bases.has(getOutboxRecordKey(table, r) || ''))) {
+      return result;
+    }
+
+    const { data: serverRows, error } = table === 'attendance'
+      ? await supabase
+          .from('attendance')
+          .select('*')
+          .in('participant_id', [...new Set(records.map(r => r.participant_id))])
+          .in('session_id', [...new Set(records.map(r => r.session_id))])
+          .in('date', [...new Set(records.map(r => r.date))])
+      : await supabase
+          .from(table)
+          .select('*')
+          .in('id', records.map(r => r.id));
+    if (error) throw error;
+
+    const serverByKey = new Map<string, any>();
+    for (const row of serverRows || []) {
+      serverByKey.set(getOutboxRecordKey(table, row) || '', row);
+    }
+
+    result.records = [];
+    for (const record of records) {
+      const key = getOutboxRecordKey(table, record) || '';
+      const base = bases.get(key);
+      const server = serverByKey.get(key);
+      if (!base || !server) {
+        result.records.push(record);
+        continue;
+      }
+
+      const fields = mergeRecordFields(table, base, record, server);
+      const merged = { ...record, ...pickFields(server, fields.serverFields) };
+      if (table === 'attendance') {
+        merged.present = isPresentStatus(getAttendanceStatus(merged));
+      }
+      result.records.push(merged);
+
+      if (fields.serverFields.length > 0) {
+        result.serverFields.set(key, pickFields(merged, [...fields.serverFields, 'present'].filter(f => f in merged)));
+      }
+      if (fields.conflicts.length > 0) {
+        const clubId = await this.getRecordClubId(table, server);
+        result.conflicts.push(...toSyncConflicts(table, clubId, server, fields.conflicts));
+      }
+    }
+    return result;
+  };
+
+  /**
+   * Copy the server values kept by a field-level merge into local storage
+   */
+  private applyServerFields = async (table: ConflictTable, serverFields: Map<string, any>): Promise<void> => {
+    if (serverFields.size === 0) return;
+    const storageKey = this.getStorageKey(table);
+    const data = await AsyncStorage.getItem(storageKey);
+    const localRecords: any[] = data ? JSON.parse(data) : [];
+    const updated = localRecords.map(record => {
+      const fields = serverFields.get(getOutboxRecordKey(table, record) || '');
+      return fields ? { ...record, ...fields } : record;
+    });
+    await AsyncStorage.setItem(storageKey, JSON.stringify(updated));
+  };
+
+  private getRecordClubId = async (table: ConflictTable, record: any): Promise<string> => {
+    if (table === 'clubs') return record.id;
+    if (table !== 'attendance') return record.club_id;
+    const participantsData = await AsyncStorage.getItem('@presence_app:participants');
+    const participants = participantsData ? JSON.parse(participantsData) : [];
+    return participants.find((p: any) => p.id === record.participant_id)?.club_id || '';
+  };
+
+  /**
+   * Deletion marks keep deleted rows from coming back during merge.
+   * Once no delete is waiting in the outbox the server has applied them all.
+   */
+  private clearSyncedDeletions = async (): Promise<void> => {
+    const operations = await outbox.getOperations();
+    if (operations.some(op => op.op === 'delete')) {
+      return;
+    }
+
+    for (const type of ['clubs', 'sessions', 'participants', 'attendance', 'leave_periods', 'closures', 'seasons'] as const) {
+      const deletedIds = await dataService.getDeletedIds(type);
+      if (deletedIds.length > 0) {
+        await dataService.clearDeletedMarks(type, deletedIds);
+      }
+    }
+  };
+
+  // ============================================
+  // INCREMENTAL DOWNLOAD
+  // ============================================
+
+  private getSyncCursors = async (): Promise<SyncCursors> => {
+    try {
+      const data = await AsyncStorage.getItem(SYNC_CURSORS_KEY);
+      const cursors: SyncCursors | null = data ? JSON.parse(data) : null;
+      if (cursors && cursors.schema_version === SYNC_SCHEMA_VERSION) {
+        return cursors;
+      }
+      if (cursors) {
+        console.log(`[Sync] Sync schema changed (${cursors.schema_version} -> ${SYNC_SCHEMA_VERSION}), full resync`);
+      }
+    } catch (e) {
+      // Unreadable cursors: start over with a full resync
+    }
+    return { schema_version: SYNC_SCHEMA_VERSION, clubs: {} };
+  };
+
+  private saveSyncCursors = async (cursors: SyncCursors): Promise<void> => {
+    await AsyncStorage.setItem(SYNC_CURSORS_KEY, JSON.stringify(cursors));
+  };
+
+  /**
+   * Latest timestamp among the rows received, or the previous cursor if none is newer
+   */
+  private advanceCursor = (rows: any[], field: 'updated_at' | 'deleted_at', previous: string | null): string | null => {
+    let cursor = previous;
+    for (const row of rows) {
+      const value = row[field];
+      if (value && (!cursor || new Date(value).getTime() > new Date(cursor).getTime())) {
+        cursor = value;
+      }
+    }
+    return cursor;
+  };
+
+  // Rows committed slightly out of order are picked up by the next sync
+  private withOverlap = (cursor: string): string => {
+    return new Date(new Date(cursor).getTime() - CURSOR_OVERLAP).toISOString();
+  };
+
+  /**
+   * Download the rows of a club changed since a cursor (all rows when there is none), page by page.
+   * attendance and participant_sessions have no club_id: they're filtered through their participant.
+   */
+  private fetchChangedRows = async (table: PulledTable, clubId: string, since: string | null): Promise<any[]> => {
+    const viaParticipant = table === 'attendance' || table === 'participant_sessions';
+    const rows: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from(table)
+        .select(viaParticipant ? '*, participants!inner(club_id)' : '*')
+        .eq(viaParticipant ? 'participants.club_id' : 'club_id', clubId);
+      if (since) {
+        query = query.gte('updated_at', this.withOverlap(since));
+      }
+      const { data, error } = await query
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return viaParticipant ? rows.map(({ participants, ...row }) => row) : rows;
+  };
+
+  /**
+   * Rows deleted on the server since a cursor, recorded by the sync_tombstones triggers
+   */
+  private fetchTombstones = async (clubId: string, since: string | null): Promise<SyncTombstone[]> => {
+    const tombstones: SyncTombstone[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('sync_tombstones')
+        .select('*')
+        .eq('club_id', clubId);
+      if (since) {
+        query = query.gte('deleted_at', this.withOverlap(since));
       }
+      const { data, error } = await query
+        .order('deleted_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      tombstones.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
     }
 
-    // Clear the deletion marks after successful sync
-    await dataService.clearDeletedMarks(type, deletedIds);
+    return tombstones;
+  };
+
+  /**
+   * Download what changed in a club since its last successful sync.
+   * Falls back to a full download when the club has no cursor yet or wasn't synced
+   * for longer than tombstones are kept on the server.
+   */
+  private pullClub = async (clubId: string, cursor: ClubSyncCursor | undefined): Promise<ClubPull> => {
+    const previous = cursor && Date.now() - new Date(cursor.synced_at).getTime() < TOMBSTONE_RETENTION
+      ? cursor
+      : null;
+    const fullResync = previous === null;
+
+    const tableRows = await Promise.all(
+      PULLED_TABLES.map(table => this.fetchChangedRows(table, clubId, previous?.tables[table] ?? null))
+    );
+    const rows = {} as Record<PulledTable, any[]>;
+    PULLED_TABLES.forEach((table, index) => {
+      rows[table] = tableRows[index] || [];
+    });
+
+    let tombstones: SyncTombstone[] = [];
+    let tombstonesCursor: string | null;
+    if (fullResync) {
+      // Everything deleted so far is already missing from the full download
+      const { data, error } = await supabase
+        .from('sync_tombstones')
+        .select('deleted_at')
+        .eq('club_id', clubId)
+        .order('deleted_at', { ascending: false })
+        .limit(1);
+      if (error) throw error;
+      tombstonesCursor = data?.[0]?.deleted_at ?? null;
+    } else {
+      tombstones = await this.fetchTombstones(clubId, previous.tombstones);
+      tombstonesCursor = this.advanceCursor(tombstones, 'deleted_at', previous.tombstones);
+    }
+
+    // A participant's preferred sessions are merged as a whole set: complete the sets that changed
+    const changedParticipantIds = [...new Set(rows.participant_sessions.map(ps => ps.participant_id))];
+    if (!fullResync && changedParticipantIds.length > 0) {
+      const { data, error } = await supabase
+        .from('participant_sessions')
+        .select('*')
+        .in('participant_id', changedParticipantIds);
+      if (error) throw error;
+      rows.participant_sessions = data || [];
+    }
+
+    const nextCursor: ClubSyncCursor = { tables: {}, tombstones: tombstonesCursor, synced_at: new Date().toISOString() };
+    for (const table of PULLED_TABLES) {
+      const tableCursor = this.advanceCursor(rows[table], 'updated_at', previous?.tables[table] ?? null);
+      if (tableCursor) {
+        nextCursor.tables[table] = tableCursor;
+      }
+    }
+
+    return { clubId, fullResync, rows, tombstones, cursor: nextCursor };
+  };
+
+  private removeLocalRows = async (type: PulledTable, shouldRemove: (row: any) => boolean): Promise<number> => {
+    const storageKey = this.getStorageKey(type);
+    const data = await AsyncStorage.getItem(storageKey);
+    const rows: any[] = data ? JSON.parse(data) : [];
+    const kept = rows.filter(row => !shouldRemove(row));
+    if (kept.length !== rows.length) {
+      await AsyncStorage.setItem(storageKey, JSON.stringify(kept));
+    }
+    return rows.length - kept.length;
+  };
+
+  /**
+   * Remove rows deleted on another device. Rows with a local write still waiting
+   * in the outbox are kept: that write is newer than the deletion.
+   */
+  private applyTombstones = async (tombstones: SyncTombstone[], pendingKeys: Record<OutboxTable, Set<string>>): Promise<void> => {
+    if (tombstones.length === 0) return;
+
+    const removed: Record<PulledTable, Set<string>> = {
+      sessions: new Set(),
+      participants: new Set(),
+      participant_sessions: new Set(),
+      attendance: new Set(),
+      leave_periods: new Set(),
+      closures: new Set(),
+      seasons: new Set(),
+    };
+    for (const tombstone of tombstones) {
+      const table = tombstone.table_name;
+      if (!removed[table]) continue;
+      if (table === 'attendance') {
+        removed.attendance.add(`${tombstone.participant_id}|${tombstone.session_id}|${tombstone.date}`);
+      } else if (table === 'participant_sessions') {
+        removed.participant_sessions.add(`${tombstone.participant_id}|${tombstone.session_id}`);
+      } else {
+        removed[table].add(tombstone.record_id);
+      }
+    }
+
+    const isPending = (table: PulledTable, row: any) => {
+      const key = getOutboxRecordKey(table, row);
+      return !!key && pendingKeys[table].has(key);
+    };
+    const sessionIds = new Set([...removed.sessions].filter(id => !pendingKeys.sessions.has(id)));
+    const participantIds = new Set([...removed.participants].filter(id => !pendingKeys.participants.has(id)));
+
+    let count = 0;
+    count += await this.removeLocalRows('sessions', s => sessionIds.has(s.id));
+    count += await this.removeLocalRows('participants', p => participantIds.has(p.id));
+    count += await this.removeLocalRows('leave_periods', lp =>
+      participantIds.has(lp.participant_id) || (removed.leave_periods.has(lp.id) && !isPending('leave_periods', lp))
+    );
+    count += await this.removeLocalRows('closures', c =>
+      sessionIds.has(c.session_id) || (removed.closures.has(c.id) && !isPending('closures', c))
+    );
+    count += await this.removeLocalRows('seasons', s => removed.seasons.has(s.id) && !isPending('seasons', s));
+    count += await this.removeLocalRows('attendance', a =>
+      sessionIds.has(a.session_id) || participantIds.has(a.participant_id)
+      || (removed.attendance.has(`${a.participant_id}|${a.session_id}|${a.date}`) && !isPending('attendance', a))
+    );
+    count += await this.removeLocalRows('participant_sessions', ps =>
+      sessionIds.has(ps.session_id) || participantIds.has(ps.participant_id)
+      || (removed.participant_sessions.has(`${ps.participant_id}|${ps.session_id}`) && !isPending('participant_sessions', ps))
+    );
+
+    if (count > 0) {
+      console.log(`[Sync] Removed ${count} local rows deleted on another device`);
+    }
+  };
+
+  /**
+   * After a full download: local rows of the club the server doesn't have anymore
+   * were deleted elsewhere (their tombstones may have been purged already).
+   */
+  private pruneDeletedRows = async (pull: ClubPull, pendingKeys: Record<OutboxTable, Set<string>>): Promise<void> => {
+    const serverKeys = (table: PulledTable, getKey: (row: any) => string) => new Set(pull.rows[table].map(getKey));
+    const byId = (row: any) => row.id;
+    const attendanceKey = (row: any) => `${row.participant_id}|${row.session_id}|${row.date}`;
+    const psKey = (row: any) => `${row.participant_id}|${row.session_id}`;
+
+    const participantsData = await AsyncStorage.getItem('@presence_app:participants');
+    const clubParticipantIds = new Set<string>(
+      (participantsData ? JSON.parse(participantsData) : [])
+        .filter((p: any) => p.club_id === pull.clubId)
+        .map((p: any) => p.id)
+    );
+
+    let count = 0;
+    for (const table of ['sessions', 'participants', 'leave_periods', 'closures', 'seasons'] as const) {
+      const onServer = serverKeys(table, byId);
+      count += await this.removeLocalRows(table, row =>
+        row.club_id === pull.clubId && !onServer.has(row.id) && !pendingKeys[table].has(row.id)
+      );
+    }
+
+    const attendanceOnServer = serverKeys('attendance', attendanceKey);
+    count += await this.removeLocalRows('attendance', a =>
+      clubParticipantIds.has(a.participant_id)
+      && !attendanceOnServer.has(attendanceKey(a))
+      && !pendingKeys.attendance.has(attendanceKey(a))
+    );
+
+    const psOnServer = serverKeys('participant_sessions', psKey);
+    count += await this.removeLocalRows('participant_sessions', ps =>
+      clubParticipantIds.has(ps.participant_id)
+      && !psOnServer.has(psKey(ps))
+      && !pendingKeys.participant_sessions.has(ps.participant_id)
+    );
+
+    if (count > 0) {
+      console.log(`[Sync] Full resync removed ${count} local rows missing from the server`);
+    }
+  };
+
+  /**
+   * Clubs missing from the server list were deleted, or we were removed from them
+   */
+  private removeMissingClubs = async (serverClubs: any[], pendingKeys: Record<OutboxTable, Set<string>>): Promise<void> => {
+    const serverClubIds = new Set(serverClubs.map(c => c.id));
+    const localClubs = await dataService.getClubs();
+
+    for (const club of localClubs) {
+      if (club.id.startsWith('local-') || serverClubIds.has(club.id) || pendingKeys.clubs.has(club.id)) {
+        continue;
+      }
+      console.log(`[Sync] Club ${club.id.slice(0, 8)}... is no longer on the server, removing it locally`);
+      await dataService.purgeLocalClub(club.id);
+    }
   };
 
   // Join a club with share code - DISABLED (sharing removed from simplified schema)
@@ -2054,6 +2251,15 @@ class SyncService {
     };
   };
 
+  // Subscribe to rows changed by other devices, received in realtime
+  onRemoteChange = (callback: (changes: RemoteChange[]) => void) => {
+    this.remoteChangeListeners.push(callback);
+
+    return () => {
+      this.remoteChangeListeners = this.remoteChangeListeners.filter(l => l !== callback);
+    };
+  };
+
   private notifyListeners = (status: SyncStatus) => {
     this.statusListeners.forEach(listener => listener(status));
   };
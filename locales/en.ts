@@ -38,6 +38,7 @@ export const en = {
 
   // Club Details
   club: {
+    import: 'Import',
     title: 'Club Details',
     editName: 'Edit Name',
     shareClub: 'Share Club',
@@ -52,16 +53,42 @@ export const en = {
     confirmDelete: 'Are you sure you want to delete this club? This action is irreversible.',
     errorDeletingClub: 'Unable to delete club',
     confirmDeleteSession: 'Do you want to delete the session',
-    ownerOnly: '(only owner can delete)',
+    sessionOn: 'on {{date}}',
+    sessionFrom: 'from {{date}}',
+    sessionUntil: 'until {{date}}',
+    sessionCapacity: '{{count}} spots',
+    closures: 'Closures',
+    ownerOnly: '(only owner can edit)',
+    archive: 'Archive',
+    archiveSession: 'Archive Session',
+    confirmArchiveSession: 'Archive the session {{name}}? It will no longer be scheduled, its attendance stays in the statistics.',
+    archived: 'Archived',
+    archivedHint: 'Tap to restore, long press to delete permanently with all attendance',
+    restore: 'Restore',
+    deletePermanently: 'Delete Permanently',
     stats: 'Statistics',
     administration: 'Club Details',
     settings: 'Settings',
     language: 'Language / Langue',
-    shareCode: 'Share Code',
-    startYear: 'Start Year',
-    statsSince: 'Stats since',
-    confirmReset: 'Are you sure you want to reset statistics? All attendance records will be kept but counters will be reset to zero.',
-    statsReset: 'Statistics reset',
+    inviteCodes: 'Invite codes',
+    seasons: 'Seasons',
+    currentSeason: 'Current: {{name}}',
+  },
+
+  // Club backup
+  backup: {
+    export: 'Back up the club',
+    exportHint: 'A file to move the club to another phone',
+    restore: 'Restore a backup',
+    chooseMode: 'This club is already on this phone. Merge the backup with it, or replace it with the backup?',
+    merge: 'Merge',
+    replace: 'Replace',
+    otherClub: 'This backup holds the club "{{name}}". Restore it on this phone?',
+    restored: 'Backup restored',
+    invalidFile: 'This file is not a club backup',
+    newerVersion: 'This backup comes from a newer version of the app, please update it first',
+    exportError: 'Unable to back up the club',
+    restoreError: 'Unable to restore the backup',
   },
 
   // Create Club
@@ -90,14 +117,55 @@ export const en = {
     error: 'Unable to add participant',
   },
 
+  // Import Participants
+  importParticipants: {
+    title: 'Import participants',
+    description: 'One participant per line: first name, last name, then optionally their sessions ("Monday 18:00", several separated by |). Comma or semicolon separated, a header line is allowed.',
+    chooseFile: 'Choose a CSV file',
+    orPaste: 'Or paste the lines',
+    placeholder: 'Jean,Dupont,Monday 18:00|Wednesday 18:00',
+    readError: 'Unable to read the file',
+    preview: '{{count}} of {{total}} lines will be imported',
+    line: 'Line {{line}}',
+    nameRequired: 'First and last name are required',
+    unknownSession: 'Unknown session: {{value}}',
+    alreadyInClub: 'Already in the club, skipped',
+    duplicateInFile: 'Already earlier in the file, skipped',
+    overLimit: 'Only {{count}} more participant(s) fit in the free plan',
+    import: 'Import {{count}} participant(s)',
+    imported: '{{count}} participant(s) imported',
+    error: 'Error importing participants',
+  },
+
+  // Participant Profile
+  participantProfile: {
+    title: 'Profile',
+    description: 'Optional details, kept with the club',
+    birth_date: 'Birth date (YYYY-MM-DD)',
+    licence_number: 'Licence number',
+    emergency_contact: 'Emergency contact (name and phone)',
+    guardian: 'Parent or guardian',
+    guardian_name: 'Guardian name',
+    guardian_phone: 'Guardian phone',
+    guardian_email: 'Guardian email',
+    medical_certificate_expiry: 'Medical certificate expiry (YYYY-MM-DD)',
+    notes: 'Notes',
+    certificateExpired: 'The medical certificate has expired',
+    invalidDate: 'Dates must use the YYYY-MM-DD format.',
+    birthDateInFuture: 'The birth date cannot be in the future.',
+    invalidEmail: 'The guardian email is not a valid address.',
+  },
+
   // Edit Participant
   editParticipant: {
     title: 'Edit Participant',
     update: 'Save',
-    delete: 'Delete Participant',
+    archive: 'Archive Participant',
+    confirmArchive: 'Archive {{name}}? They will no longer appear in attendance lists, their attendance stays in the statistics.',
     confirmDelete: 'Are you sure you want to delete',
-    cannotDelete: 'Only the club owner can delete participants',
-    cannotEdit: 'Only the club owner can edit participants',
+    cannotDelete: 'Only the club owner and coaches can delete participants',
+    cannotEdit: 'Only the club owner and coaches can edit participants',
+    viewOnly: 'Read only',
     firstName: 'First Name',
     firstNamePlaceholder: 'First Name *',
     lastName: 'Last Name',
@@ -106,10 +174,18 @@ export const en = {
     sessionsAssigned: 'Assigned Sessions',
     sessionsDesc: 'Select the sessions this participant is enrolled in',
     required: 'First name and last name are required.',
-    longTermSick: 'Long-term sick',
-    longTermSickDesc: 'Absences will not count in statistics',
+    leavePeriods: 'Leave Periods',
+    leavePeriodsDesc: 'Sessions during a leave period (long-term sickness, injury...) do not count in statistics',
+    leaveStartPlaceholder: 'Start (YYYY-MM-DD) *',
+    leaveEndPlaceholder: 'End (YYYY-MM-DD, optional)',
+    leaveReasonPlaceholder: 'Reason (optional)',
+    addLeave: 'Add Leave Period',
+    noLeave: 'No leave period',
+    leaveOngoing: 'ongoing',
+    invalidLeaveDates: 'Dates must use the YYYY-MM-DD format and the end date must not be before the start date.',
+    confirmDeleteLeave: 'Delete this leave period?',
     updated: 'Participant updated.',
-    deleted: 'Participant deleted.',
+    archived: 'Participant archived.',
   },
 
   // Add Session
@@ -122,6 +198,30 @@ export const en = {
     error: 'Unable to add session. Please try again.',
     endTimeAfterStart: 'End time must be after start time. It has been automatically adjusted.',
     selectStartFirst: 'Please select start time first',
+    weekly: 'Weekly',
+    oneOff: 'One-off',
+    date: 'Date',
+    datePlaceholder: 'Date (YYYY-MM-DD)',
+    validity: 'Season (optional)',
+    startDatePlaceholder: 'From (YYYY-MM-DD)',
+    endDatePlaceholder: 'Until (YYYY-MM-DD)',
+    invalidDate: 'Please enter a valid date (YYYY-MM-DD)',
+    invalidDates: 'Please enter valid dates (YYYY-MM-DD), the end not before the start',
+    place: 'Place (optional)',
+    locationPlaceholder: 'Venue or room',
+    capacityPlaceholder: 'Maximum participants',
+    invalidCapacity: 'The capacity must be a whole number above 0',
+  },
+
+  // Edit Session
+  editSession: {
+    title: 'Edit Session',
+    applyFrom: 'Apply from (optional)',
+    applyFromPlaceholder: 'From (YYYY-MM-DD)',
+    applyFromHint: 'Leave empty to change every date. With a date, earlier dates keep the current schedule.',
+    save: 'Save',
+    error: 'Unable to save the session. Please try again.',
+    alreadyExists: 'Another session already has this day, time and place.',
   },
 
   // Days of week
@@ -152,6 +252,18 @@ export const en = {
     sharePresent: '✅ Present',
     shareAbsent: '❌ Absent',
     errorSharing: 'Unable to share attendance.',
+    shareExcused: '📝 Excused',
+    statusHint: 'Long-press a participant to choose another status',
+    chooseStatus: 'Status',
+    overCapacity: 'Over capacity: {{count}} present for {{capacity}} spots',
+    statuses: {
+      present: 'Present',
+      absent: 'Absent',
+      excused: 'Excused',
+      late: 'Late',
+      left_early: 'Left early',
+      injured_watching: 'Injured, watching',
+    },
   },
 
   // Stats
@@ -166,7 +278,8 @@ export const en = {
     bonusRemaining: 'bonus remaining',
     bonusRemainingPlural: 'bonuses remaining',
     shareTitle: 'Attendance Statistics',
-    sharePeriod: 'Period: since',
+    sharePeriod: 'Period:',
+    shareSession: 'Session:',
     shareRanking: '🏆 Ranking',
     shareRate: 'Rate:',
     shareBonusUsed: 'Bonuses used:',
@@ -175,6 +288,75 @@ export const en = {
     missedSessions: 'Missed Sessions',
     noAttendedSessions: 'No attended sessions',
     noMissedSessions: 'No missed sessions',
+    allTime: 'All time',
+    seasonEnded: 'Season ended on {{date}}, read only',
+    thisMonth: 'This month',
+    last30Days: 'Last 30 days',
+    thisSeason: 'This season',
+    custom: 'Custom',
+    allSessions: 'All sessions',
+    range: '{{start}} to {{end}}',
+    fromPlaceholder: 'From (YYYY-MM-DD)',
+    toPlaceholder: 'To (YYYY-MM-DD, today if empty)',
+    apply: 'Apply',
+    invalidRange: 'Please enter valid dates (YYYY-MM-DD), the end not before the start',
+    bySession: 'Report by session',
+    statusRules: 'Counting Rules',
+    statusRulesDesc: 'Choose how each status counts in the statistics. Tap to change.',
+    outcomes: {
+      attended: 'Attended',
+      excused: 'Excused',
+      missed: 'Missed',
+    },
+  },
+
+  // Session Report
+  sessionReport: {
+    title: 'Sessions',
+    averageTurnout: 'Average turnout: {{count}}',
+    fillRate: 'Fill rate: {{rate}}% of {{count}} assigned',
+    noAssigned: 'No assigned participants',
+    notTaken: 'Attendance not taken on {{count}} date(s)',
+    notTakenOn: 'Not taken',
+    present: '{{count}} present',
+    noDates: 'No sessions in this period',
+  },
+
+  // Export
+  export: {
+    title: 'Export CSV',
+    chooseFile: 'Which file do you want to export for the selected period?',
+    summary: 'Summary',
+    matrix: 'Attendance by date',
+    error: 'Unable to export the file',
+    lastName: 'Last name',
+    firstName: 'First name',
+    grade: 'Grade',
+    presentInAssigned: 'Assigned sessions attended',
+    totalAssigned: 'Assigned sessions',
+    bonusPresences: 'Bonus presences',
+    bonusUsed: 'Bonus used',
+    percentage: 'Attendance rate (%)',
+  },
+
+  // Attendance register
+  register: {
+    title: 'Attendance register',
+    participant: 'Participant',
+    total: 'Total',
+    marks: {
+      attended: 'P',
+      excused: 'E',
+      missed: 'A',
+    },
+    legend: 'P: present, E: excused, A: absent, blank: not recorded',
+    coachSignature: 'Coach signature',
+    presidentSignature: 'President signature',
+    signedOn: 'Date',
+    print: 'Print',
+    pdf: 'Share PDF',
+    html: 'Share HTML',
+    error: 'Unable to create the register',
   },
 
   // Usage Limits
@@ -219,21 +401,146 @@ export const en = {
     doNotLogin: 'I don\'t want to sign in',
   },
 
+  // Club roles
+  roles: {
+    owner: 'Owner',
+    coach: 'Coach',
+    viewer: 'Viewer',
+    notAllowed: 'Your role in this club does not allow this',
+    readOnlyAttendance: 'Read only: viewers cannot take attendance',
+  },
+
+  // Club members
+  members: {
+    title: 'Members',
+    you: 'you',
+    joinedOn: 'Joined on',
+    noMembers: 'No members yet',
+    errorLoading: 'Members can only be listed when online',
+    retry: 'Retry',
+    remove: 'Remove member',
+    confirmRemove: 'Remove {{name}} from the club? They will lose access to its data.',
+    errorRemoving: 'Unable to remove this member',
+    leave: 'Leave club',
+    confirmLeave: 'Leave {{clubName}}? Its data will be removed from this device.',
+    errorLeaving: 'Unable to leave the club. Check your connection.',
+    transferOwnership: 'Transfer ownership',
+    transferHint: 'Choose the member who will become the owner. You will stay in the club as a coach.',
+    transfer: 'Transfer',
+    confirmTransfer: 'Make {{name}} the owner of {{clubName}}? You will no longer be able to manage the club.',
+    errorTransferring: 'Unable to transfer the club. Check your connection.',
+    errorOwnershipLimit: 'This member already owns a club and cannot own another one.',
+  },
+
+  // Cancelled sessions and club closures
+  closures: {
+    title: 'Closures',
+    description: 'Cancel one date of a session, or close the club for a holiday. These dates are hidden from upcoming sessions and don\'t count in the statistics.',
+    scope: 'Applies to',
+    wholeClub: 'Whole club',
+    deletedSession: 'Deleted session',
+    dates: 'Dates',
+    startDatePlaceholder: 'From (YYYY-MM-DD)',
+    endDatePlaceholder: 'Until (YYYY-MM-DD), leave empty for a single day',
+    reasonPlaceholder: 'Reason (optional)',
+    cancelSession: 'Cancel session',
+    closeClub: 'Close club',
+    list: 'Cancellations and closures',
+    noClosures: 'No cancellations or closures',
+    range: '{{start}} to {{end}}',
+    invalidDates: 'Please enter valid dates (YYYY-MM-DD), the end not before the start',
+    confirmDelete: 'Delete this closure? The sessions will be held again on these dates.',
+    errorSaving: 'Unable to save the closure',
+    errorDeleting: 'Unable to delete the closure',
+  },
+
+  // Seasons
+  seasons: {
+    title: 'Seasons',
+    description: 'Name the periods of your club, such as a sports year. Statistics show the current season by default and earlier seasons stay available. Attendance is never deleted.',
+    newSeason: 'New season',
+    namePlaceholder: 'Name (e.g. 2025-2026) *',
+    startDatePlaceholder: 'Start (YYYY-MM-DD) *',
+    endDatePlaceholder: 'End (YYYY-MM-DD) *',
+    add: 'Add Season',
+    list: 'Seasons',
+    noSeasons: 'No seasons',
+    range: '{{start}} to {{end}}',
+    active: 'Current season',
+    past: 'Ended',
+    upcoming: 'Upcoming',
+    nameRequired: 'The season needs a name.',
+    invalidDates: 'Please enter valid dates (YYYY-MM-DD), the end not before the start',
+    overlap: 'These dates overlap another season.',
+    confirmDelete: 'Delete the season {{name}}? Its attendance is kept.',
+    errorSaving: 'Unable to save the season',
+    errorDeleting: 'Unable to delete the season',
+  },
+
+  // Sync Conflicts
+  conflicts: {
+    title: 'Sync Conflicts',
+    description: 'These values were changed on this device and on another one at the same time. Choose the one to keep.',
+    noConflicts: 'No conflicts to review',
+    toReview: '{{count}} sync conflict(s) to review',
+    keepMine: 'This device',
+    keepTheirs: 'Other device',
+    errorResolving: 'Unable to resolve the conflict',
+    fields: {
+      name: 'Name',
+      description: 'Description',
+      status_rules: 'Statistics rules',
+      day_of_week: 'Day',
+      start_time: 'Start time',
+      end_time: 'End time',
+      location: 'Place',
+      capacity: 'Capacity',
+      archived_at: 'Archived',
+      date: 'Date',
+      first_name: 'First name',
+      last_name: 'Last name',
+      birth_date: 'Birth date',
+      licence_number: 'Licence number',
+      emergency_contact: 'Emergency contact',
+      guardian_name: 'Guardian name',
+      guardian_phone: 'Guardian phone',
+      guardian_email: 'Guardian email',
+      medical_certificate_expiry: 'Medical certificate expiry',
+      notes: 'Notes',
+      status: 'Attendance status',
+    },
+  },
+
   // Share
   share: {
-    title: 'Share Club',
-    shareCode: 'Share Code',
-    instructions: 'Share this code with other users so they can join your club.',
-    description: 'Other teachers can join this club with this code',
-    copy: 'Copy code',
-    shareButton: '📤 Share code',
-    copyButton: '📋 Copy code',
-    copied: 'Code copied',
-    copiedMessage: 'Share this code with other teachers so they can join the club.',
+    title: 'Invite codes',
+    description: 'Other teachers join this club with one of its codes. Each code gives a role and can expire or be limited in uses.',
+    role: 'Role given',
+    expiry: 'Valid for',
+    days: '{{count}} days',
+    noExpiry: 'No expiry',
+    maxUses: 'Uses',
+    unlimited: 'Unlimited',
+    createInvite: 'Create a code',
+    invites: 'Codes',
+    expiresOn: 'Expires on {{date}}',
+    uses: 'Used {{count}}/{{max}} times',
+    usesUnlimited: 'Used {{count}} times',
+    statuses: {
+      active: 'Active',
+      revoked: 'Revoked',
+      expired: 'Expired',
+      exhausted: 'Used up',
+    },
+    shareButton: 'Share code',
     shareMessage: 'Join my club "{{clubName}}" on the attendance app!\n\nCode: {{code}}\n\nUse the "Join a club" option in the app.',
     shareMessageTitle: 'Club invitation: {{clubName}}',
-    errorLoading: 'Unable to load share code',
-    codeNotAvailable: 'Share code not available',
+    revoke: 'Revoke code',
+    confirmRevoke: 'Revoke the code {{code}}? Nobody will be able to join with it, members who already joined stay in the club.',
+    errorLoading: 'Invite codes can only be managed when online',
+    errorCreating: 'Unable to create the code',
+    errorRevoking: 'Unable to revoke the code',
+    retry: 'Retry',
   },
 
   // Join Club
@@ -252,5 +559,13 @@ export const en = {
     invalidCodeError: 'Invalid share code or club not found',
     joinSuccess: 'You have successfully joined the club "{{clubName}}"!',
     joinError: 'Unable to join club. Please verify the code is correct.',
+    failures: {
+      invalid: 'Invalid code or club not found',
+      revoked: 'This code has been revoked by the club owner',
+      expired: 'This code has expired, ask the club owner for a new one',
+      exhausted: 'This code has already been used the maximum number of times',
+      membershipLimit: 'You have reached the free limit of 5 joined clubs',
+      error: 'Unable to join club. Check your connection.',
+    },
   },
 };
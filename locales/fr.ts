@@ -38,6 +38,7 @@ export const fr = {
 
   // Club Details
   club: {
+    import: 'Importer',
     title: 'Détails du club',
     editName: 'Modifier le nom',
     shareClub: 'Partager le club',
@@ -52,16 +53,42 @@ export const fr = {
     confirmDelete: 'Êtes-vous sûr de vouloir supprimer ce club ? Cette action est irréversible.',
     errorDeletingClub: 'Impossible de supprimer le club',
     confirmDeleteSession: 'Voulez-vous supprimer la session',
-    ownerOnly: '(seul le propriétaire peut supprimer)',
+    sessionOn: 'le {{date}}',
+    sessionFrom: 'du {{date}}',
+    sessionUntil: 'au {{date}}',
+    sessionCapacity: '{{count}} places',
+    closures: 'Fermetures',
+    ownerOnly: '(seul le propriétaire peut modifier)',
+    archive: 'Archiver',
+    archiveSession: 'Archiver la session',
+    confirmArchiveSession: 'Archiver la session {{name}} ? Elle ne sera plus planifiée, ses présences restent dans les statistiques.',
+    archived: 'Archivés',
+    archivedHint: 'Appuyez pour restaurer, appui long pour supprimer définitivement avec toutes les présences',
+    restore: 'Restaurer',
+    deletePermanently: 'Supprimer définitivement',
     stats: 'Statistiques',
     administration: 'Détails du club',
     settings: 'Paramètres',
     language: 'Langue / Language',
-    shareCode: 'Code de partage',
-    startYear: 'Démarrer l\'année',
-    statsSince: 'Stats depuis le',
-    confirmReset: 'Êtes-vous sûr de vouloir réinitialiser les statistiques ? Toutes les présences seront conservées mais les compteurs seront remis à zéro.',
-    statsReset: 'Statistiques réinitialisées',
+    inviteCodes: 'Codes d\'invitation',
+    seasons: 'Saisons',
+    currentSeason: 'En cours : {{name}}',
+  },
+
+  // Club backup
+  backup: {
+    export: 'Sauvegarder le club',
+    exportHint: 'Un fichier pour transférer le club sur un autre téléphone',
+    restore: 'Restaurer une sauvegarde',
+    chooseMode: 'Ce club est déjà sur ce téléphone. Fusionner la sauvegarde avec lui, ou le remplacer par la sauvegarde ?',
+    merge: 'Fusionner',
+    replace: 'Remplacer',
+    otherClub: 'Cette sauvegarde contient le club "{{name}}". Le restaurer sur ce téléphone ?',
+    restored: 'Sauvegarde restaurée',
+    invalidFile: 'Ce fichier n\'est pas une sauvegarde de club',
+    newerVersion: 'Cette sauvegarde vient d\'une version plus récente de l\'application, mettez-la d\'abord à jour',
+    exportError: 'Impossible de sauvegarder le club',
+    restoreError: 'Impossible de restaurer la sauvegarde',
   },
 
   // Create Club
@@ -90,14 +117,55 @@ export const fr = {
     error: 'Impossible d\'ajouter le participant',
   },
 
+  // Import Participants
+  importParticipants: {
+    title: 'Importer des participants',
+    description: 'Un participant par ligne : prénom, nom, puis éventuellement ses créneaux ("lundi 18:00", plusieurs séparés par |). Séparateur virgule ou point-virgule, une ligne d\'en-tête est acceptée.',
+    chooseFile: 'Choisir un fichier CSV',
+    orPaste: 'Ou coller les lignes',
+    placeholder: 'Jean;Dupont;lundi 18:00|mercredi 18:00',
+    readError: 'Impossible de lire le fichier',
+    preview: '{{count}} ligne(s) sur {{total}} seront importées',
+    line: 'Ligne {{line}}',
+    nameRequired: 'Le prénom et le nom sont requis',
+    unknownSession: 'Créneau inconnu : {{value}}',
+    alreadyInClub: 'Déjà dans le club, ignoré',
+    duplicateInFile: 'Déjà présent plus haut dans le fichier, ignoré',
+    overLimit: 'Seulement {{count}} participant(s) de plus possible(s) avec l\'offre gratuite',
+    import: 'Importer {{count}} participant(s)',
+    imported: '{{count}} participant(s) importé(s)',
+    error: 'Erreur lors de l\'import des participants',
+  },
+
+  // Participant Profile
+  participantProfile: {
+    title: 'Profil',
+    description: 'Informations facultatives, conservées avec le club',
+    birth_date: 'Date de naissance (AAAA-MM-JJ)',
+    licence_number: 'Numéro de licence',
+    emergency_contact: 'Contact d\'urgence (nom et téléphone)',
+    guardian: 'Parent ou responsable légal',
+    guardian_name: 'Nom du responsable',
+    guardian_phone: 'Téléphone du responsable',
+    guardian_email: 'E-mail du responsable',
+    medical_certificate_expiry: 'Fin du certificat médical (AAAA-MM-JJ)',
+    notes: 'Notes',
+    certificateExpired: 'Le certificat médical a expiré',
+    invalidDate: 'Les dates doivent être au format AAAA-MM-JJ.',
+    birthDateInFuture: 'La date de naissance ne peut pas être dans le futur.',
+    invalidEmail: 'L\'e-mail du responsable n\'est pas une adresse valide.',
+  },
+
   // Edit Participant
   editParticipant: {
     title: 'Modifier le participant',
     update: 'Enregistrer',
-    delete: 'Supprimer le participant',
+    archive: 'Archiver le participant',
+    confirmArchive: 'Archiver {{name}} ? Il n\'apparaîtra plus dans les listes d\'appel, ses présences restent dans les statistiques.',
     confirmDelete: 'Êtes-vous sûr de vouloir supprimer',
-    cannotDelete: 'Seul le propriétaire du club peut supprimer des participants',
-    cannotEdit: 'Seul le propriétaire du club peut modifier des participants',
+    cannotDelete: 'Seuls le propriétaire du club et les entraîneurs peuvent supprimer des participants',
+    cannotEdit: 'Seuls le propriétaire du club et les entraîneurs peuvent modifier des participants',
+    viewOnly: 'Lecture seule',
     firstName: 'Prénom',
     firstNamePlaceholder: 'Prénom *',
     lastName: 'Nom',
@@ -106,10 +174,18 @@ export const fr = {
     sessionsAssigned: 'Sessions assignées',
     sessionsDesc: 'Sélectionnez les sessions auxquelles ce participant est inscrit',
     required: 'Le prénom et le nom sont requis.',
-    longTermSick: 'Malade longue durée',
-    longTermSickDesc: 'Les absences ne comptent pas dans les statistiques',
+    leavePeriods: 'Périodes d\'absence',
+    leavePeriodsDesc: 'Les séances pendant une période d\'absence (maladie longue durée, blessure...) ne comptent pas dans les statistiques',
+    leaveStartPlaceholder: 'Début (AAAA-MM-JJ) *',
+    leaveEndPlaceholder: 'Fin (AAAA-MM-JJ, optionnel)',
+    leaveReasonPlaceholder: 'Motif (optionnel)',
+    addLeave: 'Ajouter une période',
+    noLeave: 'Aucune période d\'absence',
+    leaveOngoing: 'en cours',
+    invalidLeaveDates: 'Les dates doivent être au format AAAA-MM-JJ et la fin ne peut pas précéder le début.',
+    confirmDeleteLeave: 'Supprimer cette période d\'absence ?',
     updated: 'Le participant a été modifié.',
-    deleted: 'Participant supprimé.',
+    archived: 'Participant archivé.',
   },
 
   // Add Session
@@ -122,6 +198,30 @@ export const fr = {
     error: 'Impossible d\'ajouter la session. Veuillez réessayer.',
     endTimeAfterStart: 'L\'heure de fin doit être après l\'heure de début. Elle a été ajustée automatiquement.',
     selectStartFirst: 'Veuillez d\'abord sélectionner l\'heure de début',
+    weekly: 'Hebdomadaire',
+    oneOff: 'Ponctuelle',
+    date: 'Date',
+    datePlaceholder: 'Date (AAAA-MM-JJ)',
+    validity: 'Saison (facultatif)',
+    startDatePlaceholder: 'Du (AAAA-MM-JJ)',
+    endDatePlaceholder: 'Au (AAAA-MM-JJ)',
+    invalidDate: 'Veuillez saisir une date valide (AAAA-MM-JJ)',
+    invalidDates: 'Veuillez saisir des dates valides (AAAA-MM-JJ), la fin ne peut pas précéder le début',
+    place: 'Lieu (facultatif)',
+    locationPlaceholder: 'Salle ou lieu',
+    capacityPlaceholder: 'Nombre maximum de participants',
+    invalidCapacity: 'La capacité doit être un nombre entier supérieur à 0',
+  },
+
+  // Edit Session
+  editSession: {
+    title: 'Modifier la session',
+    applyFrom: 'Appliquer à partir du (facultatif)',
+    applyFromPlaceholder: 'Du (AAAA-MM-JJ)',
+    applyFromHint: 'Laissez vide pour modifier toutes les dates. Avec une date, les dates précédentes gardent l\'horaire actuel.',
+    save: 'Enregistrer',
+    error: 'Impossible d\'enregistrer la session. Veuillez réessayer.',
+    alreadyExists: 'Une autre session a déjà ce jour, cet horaire et ce lieu.',
   },
 
   // Days of week
@@ -152,6 +252,18 @@ export const fr = {
     sharePresent: '✅ Présents',
     shareAbsent: '❌ Absents',
     errorSharing: 'Impossible de partager les présences.',
+    shareExcused: '📝 Excusés',
+    statusHint: 'Appui long sur un participant pour choisir un autre statut',
+    chooseStatus: 'Statut',
+    overCapacity: 'Capacité dépassée : {{count}} présents pour {{capacity}} places',
+    statuses: {
+      present: 'Présent',
+      absent: 'Absent',
+      excused: 'Excusé',
+      late: 'En retard',
+      left_early: 'Parti plus tôt',
+      injured_watching: 'Blessé, a regardé',
+    },
   },
 
   // Stats
@@ -166,7 +278,8 @@ export const fr = {
     bonusRemaining: 'bonus restant',
     bonusRemainingPlural: 'bonus restants',
     shareTitle: 'Statistiques de présence',
-    sharePeriod: 'Période: depuis le',
+    sharePeriod: 'Période :',
+    shareSession: 'Créneau :',
     shareRanking: '🏆 Classement',
     shareRate: 'Taux:',
     shareBonusUsed: 'Bonus utilisés:',
@@ -175,6 +288,75 @@ export const fr = {
     missedSessions: 'Sessions manquées',
     noAttendedSessions: 'Aucune session présente',
     noMissedSessions: 'Aucune session manquée',
+    allTime: 'Depuis le début',
+    seasonEnded: 'Saison terminée le {{date}}, en lecture seule',
+    thisMonth: 'Ce mois-ci',
+    last30Days: '30 derniers jours',
+    thisSeason: 'Cette saison',
+    custom: 'Personnalisée',
+    allSessions: 'Tous les créneaux',
+    range: 'du {{start}} au {{end}}',
+    fromPlaceholder: 'Du (AAAA-MM-JJ)',
+    toPlaceholder: 'Au (AAAA-MM-JJ, aujourd\'hui si vide)',
+    apply: 'Appliquer',
+    invalidRange: 'Veuillez saisir des dates valides (AAAA-MM-JJ), la fin après le début',
+    bySession: 'Rapport par créneau',
+    statusRules: 'Règles de comptage',
+    statusRulesDesc: 'Choisissez comment chaque statut compte dans les statistiques. Appuyez pour changer.',
+    outcomes: {
+      attended: 'Présent',
+      excused: 'Excusé',
+      missed: 'Manqué',
+    },
+  },
+
+  // Session Report
+  sessionReport: {
+    title: 'Créneaux',
+    averageTurnout: 'Fréquentation moyenne : {{count}}',
+    fillRate: 'Taux de remplissage : {{rate}} % de {{count}} inscrits',
+    noAssigned: 'Aucun participant inscrit',
+    notTaken: 'Présences non saisies sur {{count}} date(s)',
+    notTakenOn: 'Non saisie',
+    present: '{{count}} présent(s)',
+    noDates: 'Aucune séance sur cette période',
+  },
+
+  // Export
+  export: {
+    title: 'Exporter en CSV',
+    chooseFile: 'Quel fichier exporter pour la période sélectionnée ?',
+    summary: 'Récapitulatif',
+    matrix: 'Présences par date',
+    error: 'Impossible d\'exporter le fichier',
+    lastName: 'Nom',
+    firstName: 'Prénom',
+    grade: 'Grade',
+    presentInAssigned: 'Séances assignées suivies',
+    totalAssigned: 'Séances assignées',
+    bonusPresences: 'Présences bonus',
+    bonusUsed: 'Bonus utilisés',
+    percentage: 'Taux de présence (%)',
+  },
+
+  // Attendance register
+  register: {
+    title: 'Registre de présence',
+    participant: 'Participant',
+    total: 'Total',
+    marks: {
+      attended: 'P',
+      excused: 'E',
+      missed: 'A',
+    },
+    legend: 'P : présent, E : excusé, A : absent, vide : non saisi',
+    coachSignature: 'Signature de l\'entraîneur',
+    presidentSignature: 'Signature du président',
+    signedOn: 'Date',
+    print: 'Imprimer',
+    pdf: 'Partager en PDF',
+    html: 'Partager en HTML',
+    error: 'Impossible de créer le registre',
   },
 
   // Usage Limits
@@ -219,21 +401,146 @@ export const fr = {
     doNotLogin: 'Je ne veux pas me connecter',
   },
 
+  // Club roles
+  roles: {
+    owner: 'Propriétaire',
+    coach: 'Entraîneur',
+    viewer: 'Lecteur',
+    notAllowed: 'Votre rôle dans ce club ne le permet pas',
+    readOnlyAttendance: 'Lecture seule : les lecteurs ne peuvent pas faire l\'appel',
+  },
+
+  // Club members
+  members: {
+    title: 'Membres',
+    you: 'vous',
+    joinedOn: 'Membre depuis le',
+    noMembers: 'Aucun membre pour l\'instant',
+    errorLoading: 'Les membres ne sont visibles qu\'en ligne',
+    retry: 'Réessayer',
+    remove: 'Retirer le membre',
+    confirmRemove: 'Retirer {{name}} du club ? Il n\'aura plus accès à ses données.',
+    errorRemoving: 'Impossible de retirer ce membre',
+    leave: 'Quitter le club',
+    confirmLeave: 'Quitter {{clubName}} ? Ses données seront supprimées de cet appareil.',
+    errorLeaving: 'Impossible de quitter le club. Vérifiez votre connexion.',
+    transferOwnership: 'Transférer la propriété',
+    transferHint: 'Choisissez le membre qui deviendra propriétaire. Vous resterez dans le club en tant qu\'entraîneur.',
+    transfer: 'Transférer',
+    confirmTransfer: 'Rendre {{name}} propriétaire de {{clubName}} ? Vous ne pourrez plus gérer le club.',
+    errorTransferring: 'Impossible de transférer le club. Vérifiez votre connexion.',
+    errorOwnershipLimit: 'Ce membre possède déjà un club et ne peut pas en posséder un autre.',
+  },
+
+  // Cancelled sessions and club closures
+  closures: {
+    title: 'Fermetures',
+    description: 'Annulez une date d\'une session, ou fermez le club pendant les vacances. Ces dates sont retirées des prochaines sessions et ne comptent pas dans les statistiques.',
+    scope: 'S\'applique à',
+    wholeClub: 'Tout le club',
+    deletedSession: 'Session supprimée',
+    dates: 'Dates',
+    startDatePlaceholder: 'Du (AAAA-MM-JJ)',
+    endDatePlaceholder: 'Au (AAAA-MM-JJ), vide pour un seul jour',
+    reasonPlaceholder: 'Motif (facultatif)',
+    cancelSession: 'Annuler la session',
+    closeClub: 'Fermer le club',
+    list: 'Annulations et fermetures',
+    noClosures: 'Aucune annulation ni fermeture',
+    range: 'du {{start}} au {{end}}',
+    invalidDates: 'Veuillez saisir des dates valides (AAAA-MM-JJ), la fin ne peut pas précéder le début',
+    confirmDelete: 'Supprimer cette fermeture ? Les sessions auront de nouveau lieu à ces dates.',
+    errorSaving: 'Impossible d\'enregistrer la fermeture',
+    errorDeleting: 'Impossible de supprimer la fermeture',
+  },
+
+  // Seasons
+  seasons: {
+    title: 'Saisons',
+    description: 'Nommez les périodes de votre club, comme une saison sportive. Les statistiques affichent la saison en cours par défaut et les saisons précédentes restent consultables. Les présences ne sont jamais supprimées.',
+    newSeason: 'Nouvelle saison',
+    namePlaceholder: 'Nom (ex. 2025-2026) *',
+    startDatePlaceholder: 'Début (AAAA-MM-JJ) *',
+    endDatePlaceholder: 'Fin (AAAA-MM-JJ) *',
+    add: 'Ajouter la saison',
+    list: 'Saisons',
+    noSeasons: 'Aucune saison',
+    range: 'du {{start}} au {{end}}',
+    active: 'Saison en cours',
+    past: 'Terminée',
+    upcoming: 'À venir',
+    nameRequired: 'La saison doit avoir un nom.',
+    invalidDates: 'Veuillez saisir des dates valides (AAAA-MM-JJ), la fin ne peut pas précéder le début',
+    overlap: 'Ces dates chevauchent une autre saison.',
+    confirmDelete: 'Supprimer la saison {{name}} ? Ses présences sont conservées.',
+    errorSaving: 'Impossible d\'enregistrer la saison',
+    errorDeleting: 'Impossible de supprimer la saison',
+  },
+
+  // Sync Conflicts
+  conflicts: {
+    title: 'Conflits de synchronisation',
+    description: 'Ces valeurs ont été modifiées sur cet appareil et sur un autre en même temps. Choisissez celle à conserver.',
+    noConflicts: 'Aucun conflit à examiner',
+    toReview: '{{count}} conflit(s) de synchronisation à examiner',
+    keepMine: 'Cet appareil',
+    keepTheirs: 'Autre appareil',
+    errorResolving: 'Impossible de résoudre le conflit',
+    fields: {
+      name: 'Nom',
+      description: 'Description',
+      status_rules: 'Règles des statistiques',
+      day_of_week: 'Jour',
+      start_time: 'Heure de début',
+      end_time: 'Heure de fin',
+      location: 'Lieu',
+      capacity: 'Capacité',
+      archived_at: 'Archivé',
+      date: 'Date',
+      first_name: 'Prénom',
+      last_name: 'Nom',
+      birth_date: 'Date de naissance',
+      licence_number: 'Numéro de licence',
+      emergency_contact: 'Contact d\'urgence',
+      guardian_name: 'Nom du responsable',
+      guardian_phone: 'Téléphone du responsable',
+      guardian_email: 'E-mail du responsable',
+      medical_certificate_expiry: 'Fin du certificat médical',
+      notes: 'Notes',
+      status: 'Statut de présence',
+    },
+  },
+
   // Share
   share: {
-    title: 'Partager le club',
-    shareCode: 'Code de partage',
-    instructions: 'Partagez ce code avec d\'autres utilisateurs pour qu\'ils puissent rejoindre votre club.',
-    description: 'Les autres enseignants peuvent rejoindre ce club avec ce code',
-    copy: 'Copier le code',
-    shareButton: '📤 Partager le code',
-    copyButton: '📋 Copier le code',
-    copied: 'Code copié',
-    copiedMessage: 'Partagez ce code avec les autres enseignants pour qu\'ils puissent rejoindre le club.',
+    title: 'Codes d\'invitation',
+    description: 'Les autres enseignants rejoignent ce club avec l\'un de ses codes. Chaque code donne un rôle et peut expirer ou être limité en utilisations.',
+    role: 'Rôle donné',
+    expiry: 'Valable',
+    days: '{{count}} jours',
+    noExpiry: 'Sans expiration',
+    maxUses: 'Utilisations',
+    unlimited: 'Illimitées',
+    createInvite: 'Créer un code',
+    invites: 'Codes',
+    expiresOn: 'Expire le {{date}}',
+    uses: 'Utilisé {{count}}/{{max}} fois',
+    usesUnlimited: 'Utilisé {{count}} fois',
+    statuses: {
+      active: 'Actif',
+      revoked: 'Révoqué',
+      expired: 'Expiré',
+      exhausted: 'Épuisé',
+    },
+    shareButton: 'Partager le code',
     shareMessage: 'Rejoignez mon club "{{clubName}}" sur l\'app de présences!\n\nCode: {{code}}\n\nUtilisez l\'option "Rejoindre un club" dans l\'app.',
     shareMessageTitle: 'Invitation club: {{clubName}}',
-    errorLoading: 'Impossible de charger le code de partage',
-    codeNotAvailable: 'Code de partage non disponible',
+    revoke: 'Révoquer le code',
+    confirmRevoke: 'Révoquer le code {{code}} ? Plus personne ne pourra l\'utiliser, les membres déjà inscrits restent dans le club.',
+    errorLoading: 'Les codes d\'invitation ne se gèrent qu\'en ligne',
+    errorCreating: 'Impossible de créer le code',
+    errorRevoking: 'Impossible de révoquer le code',
+    retry: 'Réessayer',
   },
 
   // Join Club
@@ -252,5 +559,13 @@ export const fr = {
     invalidCodeError: 'Code de partage invalide ou club introuvable',
     joinSuccess: 'Vous avez rejoint le club "{{clubName}}" avec succès!',
     joinError: 'Impossible de rejoindre le club. Vérifiez que le code est correct.',
+    failures: {
+      invalid: 'Code invalide ou club introuvable',
+      revoked: 'Ce code a été révoqué par le propriétaire du club',
+      expired: 'Ce code a expiré, demandez-en un nouveau au propriétaire du club',
+      exhausted: 'Ce code a déjà été utilisé le nombre maximum de fois',
+      membershipLimit: 'Vous avez atteint la limite gratuite de 5 clubs rejoints',
+      error: 'Impossible de rejoindre le club. Vérifiez votre connexion.',
+    },
   },
 };
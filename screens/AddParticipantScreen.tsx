@@ -6,35 +6,38 @@ import { usageService } from '../lib/usageService';
 import { hasReachedParticipantsLimit, getLimitMessage, USAGE_LIMITS, shouldShowWarning } from '../lib/usageLimits';
 import { UsageBadge } from '../components/UsageBadge';
 import { UpgradePrompt } from '../components/UpgradePrompt';
+import { ParticipantProfileFields } from '../components/ParticipantProfileFields';
 import { useTranslation } from '../contexts/LanguageContext';
 import { theme } from '../lib/theme';
-import { authManager } from '../lib/authManager';
+import { can, getClubRole } from '../lib/permissions';
+import { compareSessions, toDateString } from '../lib/sessionSchedule';
+import { getProfileChanges, getProfileForm, validateProfileForm } from '../lib/participantProfile';
 
 export default function AddParticipantScreen({ route, navigation }) {
   const { clubId } = route.params;
-  const { t, translateDay } = useTranslation();
+  const { t, formatDay } = useTranslation();
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
+  const [profile, setProfile] = useState(getProfileForm());
   const [sessions, setSessions] = useState([]);
   const [selectedSessions, setSelectedSessions] = useState([]);
   const [participantCount, setParticipantCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    checkOwnershipAndFetchData();
+    checkPermissionAndFetchData();
   }, []);
 
-  const checkOwnershipAndFetchData = async () => {
+  const checkPermissionAndFetchData = async () => {
     try {
-      // Check ownership
-      const userId = await authManager.getUserId();
+      // Check permission
       const clubData = await dataService.getClub(clubId);
-      const isOwner = !userId || userId === clubData?.owner_id;
+      const canEditParticipants = !clubData || can(await getClubRole(clubData), 'editParticipants');
       
-      if (!isOwner) {
+      if (!canEditParticipants) {
         Alert.alert(
           t('common.error'),
-          t('errors.ownerOnly'),
+          t('roles.notAllowed'),
           [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
         );
         return;
@@ -58,12 +61,7 @@ export default function AddParticipantScreen({ route, navigation }) {
   const fetchSessions = async () => {
     const data = await dataService.getSessions(clubId);
     // Sort sessions by day and time
-    const sortedSessions = data.sort((a, b) => {
-      const dayOrder = ['Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi', 'Dimanche'];
-      const dayComparison = dayOrder.indexOf(a.day_of_week) - dayOrder.indexOf(b.day_of_week);
-      if (dayComparison !== 0) return dayComparison;
-      return a.start_time.localeCompare(b.start_time);
-    });
+    const sortedSessions = data.filter(s => !s.archived_at).sort(compareSessions);
     setSessions(sortedSessions);
   };
 
@@ -81,6 +79,12 @@ export default function AddParticipantScreen({ route, navigation }) {
       return;
     }
 
+    const profileError = validateProfileForm(profile, toDateString(new Date()));
+    if (profileError) {
+      Alert.alert(t('common.error'), t(profileError));
+      return;
+    }
+
     // Check limit before adding
     if (hasReachedParticipantsLimit(participantCount)) {
       Alert.alert(
@@ -93,9 +97,11 @@ export default function AddParticipantScreen({ route, navigation }) {
 
     try {
       const participant = { 
+        id: '', // Set by saveParticipant
         club_id: clubId, 
         first_name: firstName.trim(), 
         last_name: lastName.trim(),
+        ...getProfileChanges(profile),
         preferred_session_ids: selectedSessions // Include session assignments
       };
       
@@ -175,6 +181,12 @@ export default function AddParticipantScreen({ route, navigation }) {
           placeholderTextColor={theme.colors.text.secondary}
         />
 
+        <Text style={styles.sectionTitle}>{t('participantProfile.title')}</Text>
+        <Text style={styles.sectionDescription}>
+          {t('participantProfile.description')}
+        </Text>
+        <ParticipantProfileFields form={profile} onChange={setProfile} />
+
         <Text style={styles.sectionTitle}>{t('addParticipant.regularSessions')}</Text>
         <Text style={styles.sectionDescription}>
           {t('addParticipant.regularSessionsDesc')}
@@ -198,7 +210,7 @@ export default function AddParticipantScreen({ route, navigation }) {
               )}
             </View>
             <Text style={styles.sessionLabel}>
-              {translateDay(session.day_of_week)} {session.start_time}-{session.end_time}
+              {formatDay(session.day_of_week)} {session.start_time}-{session.end_time}
             </Text>
           </TouchableOpacity>
         ))}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Platform, Alert, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Platform, Alert, ScrollView, TextInput } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { dataService } from '../lib/dataService';
@@ -9,12 +9,21 @@ import { UsageBadge } from '../components/UsageBadge';
 import { UpgradePrompt } from '../components/UpgradePrompt';
 import { useTranslation } from '../contexts/LanguageContext';
 import { theme } from '../lib/theme';
-import { authManager } from '../lib/authManager';
+import { can, getClubRole } from '../lib/permissions';
+import { getWeekday, IsoWeekday, isValidDateString } from '../lib/sessionSchedule';
+
+type SessionKind = 'weekly' | 'oneOff';
 
 export default function AddSessionScreen({ route, navigation }) {
   const { clubId } = route.params;
-  const { t, language } = useTranslation();
-  const [day, setDay] = useState(language === 'fr' ? 'Lundi' : 'Monday');
+  const { t } = useTranslation();
+  const [kind, setKind] = useState<SessionKind>('weekly');
+  const [day, setDay] = useState<IsoWeekday>(1); // Monday
+  const [oneOffDate, setOneOffDate] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [location, setLocation] = useState('');
+  const [capacity, setCapacity] = useState('');
   const [startTime, setStartTime] = useState(new Date(2000, 0, 1, 9, 0)); // 9:00 AM
   const [endTime, setEndTime] = useState(new Date(2000, 0, 1, 10, 0)); // 10:00 AM
   const [showStartPicker, setShowStartPicker] = useState(false);
@@ -24,20 +33,19 @@ export default function AddSessionScreen({ route, navigation }) {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    checkOwnershipAndLimit();
+    checkPermissionAndLimit();
   }, []);
 
-  const checkOwnershipAndLimit = async () => {
+  const checkPermissionAndLimit = async () => {
     try {
-      // Check ownership
-      const userId = await authManager.getUserId();
+      // Check permission
       const clubData = await dataService.getClub(clubId);
-      const isOwner = !userId || userId === clubData?.owner_id;
+      const canManageSessions = !clubData || can(await getClubRole(clubData), 'manageSessions');
       
-      if (!isOwner) {
+      if (!canManageSessions) {
         Alert.alert(
           t('common.error'),
-          t('errors.ownerOnly'),
+          t('roles.notAllowed'),
           [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
         );
         return;
@@ -108,8 +116,35 @@ export default function AddSessionScreen({ route, navigation }) {
       return;
     }
 
+    const start = (kind === 'oneOff' ? oneOffDate : startDate).trim();
+    const end = (kind === 'oneOff' ? oneOffDate : endDate).trim();
+
+    if (kind === 'oneOff' && !isValidDateString(start)) {
+      Alert.alert(t('common.error'), t('addSession.invalidDate'));
+      return;
+    }
+    if ((start && !isValidDateString(start)) || (end && (!isValidDateString(end) || (start && end < start)))) {
+      Alert.alert(t('common.error'), t('addSession.invalidDates'));
+      return;
+    }
+    const maxParticipants = capacity.trim();
+    if (maxParticipants && (!/^\d+$/.test(maxParticipants) || Number(maxParticipants) === 0)) {
+      Alert.alert(t('common.error'), t('addSession.invalidCapacity'));
+      return;
+    }
+
     try {
-      const session = { club_id: clubId, day_of_week: day, start_time: formatTime(startTime), end_time: formatTime(endTime) };
+      const session = {
+        club_id: clubId,
+        // A one-off session takes the day of its date
+        day_of_week: kind === 'oneOff' ? getWeekday(start) : day,
+        start_time: formatTime(startTime),
+        end_time: formatTime(endTime),
+        start_date: start || null,
+        end_date: end || null,
+        location: location.trim() || null,
+        capacity: maxParticipants ? Number(maxParticipants) : null,
+      };
       // Wait for local save (fast), cloud sync happens in background
       await dataService.saveSession(session);
       // Navigate after local save completes
@@ -162,24 +197,87 @@ export default function AddSessionScreen({ route, navigation }) {
           />
         )}
 
-        <Text style={styles.label}>{t('addSession.dayOfWeek')}</Text>
-        <View style={styles.pickerContainer}>
-          <Picker
-            selectedValue={day}
-            onValueChange={setDay}
-            style={styles.picker}
-            itemStyle={styles.pickerItem}
-          >
-            <Picker.Item label={t('days.monday')} value={language === 'fr' ? 'Lundi' : 'Monday'} />
-            <Picker.Item label={t('days.tuesday')} value={language === 'fr' ? 'Mardi' : 'Tuesday'} />
-            <Picker.Item label={t('days.wednesday')} value={language === 'fr' ? 'Mercredi' : 'Wednesday'} />
-            <Picker.Item label={t('days.thursday')} value={language === 'fr' ? 'Jeudi' : 'Thursday'} />
-            <Picker.Item label={t('days.friday')} value={language === 'fr' ? 'Vendredi' : 'Friday'} />
-            <Picker.Item label={t('days.saturday')} value={language === 'fr' ? 'Samedi' : 'Saturday'} />
-            <Picker.Item label={t('days.sunday')} value={language === 'fr' ? 'Dimanche' : 'Sunday'} />
-          </Picker>
+        <View style={styles.kindSelector}>
+          {(['weekly', 'oneOff'] as SessionKind[]).map(value => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.kindOption, kind === value && styles.kindOptionSelected]}
+              onPress={() => setKind(value)}
+            >
+              <Text style={[styles.kindOptionText, kind === value && styles.kindOptionTextSelected]}>
+                {t(`addSession.${value}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
 
+        {kind === 'oneOff' ? (
+          <>
+            <Text style={styles.label}>{t('addSession.date')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t('addSession.datePlaceholder')}
+              placeholderTextColor={theme.colors.text.secondary}
+              value={oneOffDate}
+              onChangeText={setOneOffDate}
+            />
+          </>
+        ) : (
+          <>
+            <Text style={styles.label}>{t('addSession.dayOfWeek')}</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={day}
+                onValueChange={setDay}
+                style={styles.picker}
+                itemStyle={styles.pickerItem}
+              >
+                <Picker.Item label={t('days.monday')} value={1} />
+                <Picker.Item label={t('days.tuesday')} value={2} />
+                <Picker.Item label={t('days.wednesday')} value={3} />
+                <Picker.Item label={t('days.thursday')} value={4} />
+                <Picker.Item label={t('days.friday')} value={5} />
+                <Picker.Item label={t('days.saturday')} value={6} />
+                <Picker.Item label={t('days.sunday')} value={7} />
+              </Picker>
+            </View>
+
+            <Text style={styles.label}>{t('addSession.validity')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t('addSession.startDatePlaceholder')}
+              placeholderTextColor={theme.colors.text.secondary}
+              value={startDate}
+              onChangeText={setStartDate}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder={t('addSession.endDatePlaceholder')}
+              placeholderTextColor={theme.colors.text.secondary}
+              value={endDate}
+              onChangeText={setEndDate}
+            />
+          </>
+        )}
+
+        <Text style={styles.label}>{t('addSession.place')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('addSession.locationPlaceholder')}
+          placeholderTextColor={theme.colors.text.secondary}
+          value={location}
+          onChangeText={setLocation}
+          maxLength={100}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder={t('addSession.capacityPlaceholder')}
+          placeholderTextColor={theme.colors.text.secondary}
+          value={capacity}
+          onChangeText={setCapacity}
+          keyboardType="number-pad"
+        />
+
         <Text style={styles.label}>{t('addSession.startTime')}</Text>
         <TouchableOpacity onPress={() => setShowStartPicker(true)} style={styles.timeButton}>
           <Text style={styles.timeButtonText}>{formatTime(startTime)}</Text>
@@ -280,6 +378,39 @@ const styles = StyleSheet.create({
   pickerItem: {
     color: theme.colors.text.primary,
   },
+  kindSelector: {
+    flexDirection: 'row',
+    gap: theme.space[2],
+    marginBottom: theme.space[4],
+  },
+  kindOption: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    alignItems: 'center',
+  },
+  kindOptionSelected: {
+    backgroundColor: theme.colors.primary[700],
+  },
+  kindOptionText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.primary[700],
+  },
+  kindOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[4],
+  },
   timeButton: {
     backgroundColor: theme.colors.surface,
     borderWidth: 1,
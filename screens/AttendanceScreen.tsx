@@ -1,23 +1,69 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, FlatList, TouchableOpacity, StyleSheet, Share, Alert } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Share, Alert, Modal } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { dataService } from '../lib/dataService';
+import { syncService } from '../lib/syncService';
+import { can, getClubRole } from '../lib/permissions';
+import { ATTENDANCE_STATUSES, AttendanceStatus, getAttendanceStatus, isPresentStatus } from '../lib/attendanceStatus';
+import { getSessionPlaceLabel } from '../lib/sessionSchedule';
 import { theme } from '../lib/theme';
 import { useTranslation } from '../contexts/LanguageContext';
 
 export default function AttendanceScreen({ route, navigation }: any) {
-  const { t, language, translateDay } = useTranslation();
+  const { t, language, formatDay } = useTranslation();
   const { session, date } = route.params;
   const [participants, setParticipants] = useState<any[]>([]);
-  const [attendance, setAttendance] = useState<any>({});
+  const [attendance, setAttendance] = useState<Record<string, AttendanceStatus>>({});
+  const [statusPickerFor, setStatusPickerFor] = useState<any>(null);
+  const [canTakeAttendance, setCanTakeAttendance] = useState(false);
+  // Participants marked on this phone: a co-coach's changes don't overwrite them
+  const editedIds = useRef(new Set<string>());
 
   useEffect(() => {
     loadData();
+    checkPermission();
   }, []);
 
-  const loadData = async () => {    
-    // Load participants first
-    const data = await dataService.getParticipantsWithSessions(session.club_id);
+  // Live updates from co-coaches taking attendance for the same session
+  useEffect(() => {
+    return syncService.onRemoteChange(async (changes) => {
+      const sheetChanges = changes.filter(change =>
+        change.table === 'attendance' && change.record.session_id === session.id && change.record.date === date
+      );
+      if (sheetChanges.length > 0) {
+        setAttendance(prev => {
+          const next = { ...prev };
+          sheetChanges.forEach(change => {
+            if (!editedIds.current.has(change.record.participant_id)) {
+              next[change.record.participant_id] = getAttendanceStatus(change.record);
+            }
+          });
+          return next;
+        });
+      }
+
+      if (changes.some(change => change.table === 'participants' && change.clubId === session.club_id)) {
+        const updated = await loadParticipants();
+        setAttendance(prev => {
+          const next = { ...prev };
+          updated.forEach(p => {
+            if (!next[p.id]) next[p.id] = 'absent';
+          });
+          return next;
+        });
+      }
+    });
+  }, []);
+
+  // Viewers can only look at the sheet
+  const checkPermission = async () => {
+    const club = await dataService.getClub(session.club_id);
+    setCanTakeAttendance(!club || can(await getClubRole(club), 'takeAttendance'));
+  };
+
+  const loadParticipants = async () => {
+    // Archived participants left the club: their past attendance only shows in the stats
+    const data = (await dataService.getParticipantsWithSessions(session.club_id)).filter(p => !p.archived_at);
     
     // Sort participants: 1) Preferred session first, 2) By last name
     const sortedData = data.sort((a, b) => {
@@ -33,22 +79,40 @@ export default function AttendanceScreen({ route, navigation }: any) {
     });
     
     setParticipants(sortedData);
+    return sortedData;
+  };
+
+  const loadData = async () => {    
+    // Load participants first
+    const sortedData = await loadParticipants();
     
     // Initialize attendance as absent
-    const init: any = {};
-    sortedData.forEach(p => init[p.id] = false);
+    const init: Record<string, AttendanceStatus> = {};
+    sortedData.forEach(p => init[p.id] = 'absent');
     
     // Load existing attendance and merge with init
     const existingData = await dataService.getAttendance(session.id, date);
     existingData.forEach(a => {
-      init[a.participant_id] = a.present;
+      init[a.participant_id] = getAttendanceStatus(a);
     });
     
     setAttendance(init);
   };
 
-  const toggleAttendance = (id: any) => {
-    setAttendance((prev: any) => ({ ...prev, [id]: !prev[id] }));
+  const isPresent = (id: string) => isPresentStatus(attendance[id] ?? 'absent');
+
+  // Tap toggles present/absent, other statuses are chosen with a long-press
+  const toggleAttendance = (id: string) => {
+    editedIds.current.add(id);
+    setAttendance(prev => ({ ...prev, [id]: isPresentStatus(prev[id] ?? 'absent') ? 'absent' : 'present' }));
+  };
+
+  const selectStatus = (status: AttendanceStatus) => {
+    if (statusPickerFor) {
+      editedIds.current.add(statusPickerFor.id);
+      setAttendance(prev => ({ ...prev, [statusPickerFor.id]: status }));
+    }
+    setStatusPickerFor(null);
   };
 
   const saveAttendance = async () => {
@@ -56,7 +120,8 @@ export default function AttendanceScreen({ route, navigation }: any) {
       session_id: session.id,
       participant_id: pid,
       date,
-      present: attendance[pid]
+      status: attendance[pid],
+      present: isPresent(pid)
     }));
     dataService.checkOnline();
     // Wait for local save (fast), cloud sync happens in background
@@ -67,8 +132,13 @@ export default function AttendanceScreen({ route, navigation }: any) {
 
   const shareAttendance = async () => {
     try {
-      const presentParticipants = participants.filter(p => attendance[p.id]);
-      const absentParticipants = participants.filter(p => !attendance[p.id] && p.preferred_session_ids?.includes(session.id));
+      const presentParticipants = participants.filter(p => isPresent(p.id));
+      const excusedParticipants = participants.filter(p => attendance[p.id] === 'excused');
+      const absentParticipants = participants.filter(p => attendance[p.id] === 'absent' && p.preferred_session_ids?.includes(session.id));
+      const statusSuffix = (id: string) => {
+        const status = attendance[id];
+        return status && status !== 'present' ? ` (${t(`attendance.statuses.${status}`)})` : '';
+      };
       
       const formattedDate = new Date(date).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US', { 
         weekday: 'long', 
@@ -78,17 +148,24 @@ export default function AttendanceScreen({ route, navigation }: any) {
       });
       
       let message = `${t('attendance.shareTitle')} ${formattedDate}\n`;
-      message += `${translateDay(session.day_of_week)} ${session.start_time} à ${session.end_time}\n\n`;
+      message += `${formatDay(session.day_of_week)} ${session.start_time} à ${session.end_time}\n\n`;
       message += `${t('attendance.sharePresent')} (${presentCount}/${assignedParticipantsCount}):\n`;
       
       if (presentParticipants.length > 0) {
         presentParticipants.forEach(p => {
-          message += `  • ${p.first_name} ${p.last_name.toUpperCase()}\n`;
+          message += `  • ${p.first_name} ${p.last_name.toUpperCase()}${statusSuffix(p.id)}\n`;
         });
       } else {
         message += `  ${t('attendance.noPresent')}\n`;
       }
       
+      if (excusedParticipants.length > 0) {
+        message += `\n${t('attendance.shareExcused')} (${excusedParticipants.length}):\n`;
+        excusedParticipants.forEach(p => {
+          message += `  • ${p.first_name} ${p.last_name.toUpperCase()}\n`;
+        });
+      }
+      
       if (absentParticipants.length > 0) {
         message += `\n${t('attendance.shareAbsent')} (${absentParticipants.length}):\n`;
         absentParticipants.forEach(p => {
@@ -109,15 +186,19 @@ export default function AttendanceScreen({ route, navigation }: any) {
   };
 
   const uncheckAll = () => {
-    const resetAttendance: any = {};
-    participants.forEach(p => resetAttendance[p.id] = false);
+    const resetAttendance: Record<string, AttendanceStatus> = {};
+    participants.forEach(p => {
+      resetAttendance[p.id] = 'absent';
+      editedIds.current.add(p.id);
+    });
     setAttendance(resetAttendance);
   };
 
-  const presentCount = Object.values(attendance).filter(Boolean).length;
+  const presentCount = Object.values(attendance).filter(isPresentStatus).length;
   const assignedParticipantsCount = participants.filter(p => 
     p.preferred_session_ids?.includes(session.id)
   ).length;
+  const isOverCapacity = !!session.capacity && presentCount > session.capacity;
 
   return (
     <View style={styles.container}>
@@ -139,6 +220,9 @@ export default function AttendanceScreen({ route, navigation }: any) {
               <Text style={styles.sessionTime}>
                 {session.start_time} - {session.end_time}
               </Text>
+              {!!getSessionPlaceLabel(session, t) && (
+                <Text style={styles.sessionTime}>{getSessionPlaceLabel(session, t)}</Text>
+              )}
             </View>
           </View>
         </View>
@@ -148,10 +232,21 @@ export default function AttendanceScreen({ route, navigation }: any) {
           <Text style={styles.presentCountText}>
             {t('attendance.presentCount')}: {presentCount} / {assignedParticipantsCount}
           </Text>
-          <TouchableOpacity style={styles.uncheckButton} onPress={uncheckAll}>
-            <Text style={styles.uncheckButtonText}>{t('attendance.uncheckAll')}</Text>
-          </TouchableOpacity>
+          {canTakeAttendance && (
+            <TouchableOpacity style={styles.uncheckButton} onPress={uncheckAll}>
+              <Text style={styles.uncheckButtonText}>{t('attendance.uncheckAll')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      {isOverCapacity && (
+        <View style={styles.capacityWarning}>
+          <Feather name="alert-triangle" size={16} color={theme.colors.danger} />
+          <Text style={styles.capacityWarningText}>
+            {t('attendance.overCapacity').replace('{{count}}', String(presentCount)).replace('{{capacity}}', String(session.capacity))}
+          </Text>
         </View>
+      )}
+      <Text style={styles.statusHint}>{canTakeAttendance ? t('attendance.statusHint') : t('roles.readOnlyAttendance')}</Text>
 
       {/* Attendance List */}
       <View style={styles.attendanceList}>
@@ -160,23 +255,32 @@ export default function AttendanceScreen({ route, navigation }: any) {
             keyExtractor={(item) => item.id.toString()}
             renderItem={({ item }) => {
               const isAssignedSession = item.preferred_session_ids?.includes(session.id) || false;
+              const status = attendance[item.id] ?? 'absent';
+              const present = isPresentStatus(status);
               return (
                 <TouchableOpacity
                   onPress={() => toggleAttendance(item.id)}
+                  onLongPress={() => setStatusPickerFor(item)}
+                  disabled={!canTakeAttendance}
                   style={[
                     styles.attendanceItem,
-                    attendance[item.id] && styles.attendanceItemPresent
+                    present && styles.attendanceItemPresent
                   ]}
                 >
                   <View style={[
                     styles.checkbox,
-                    attendance[item.id] && styles.checkboxChecked
+                    present && styles.checkboxChecked
                   ]}>
-                    {attendance[item.id] && <Feather name="check" size={20} color="white" />}
+                    {present && <Feather name="check" size={20} color="white" />}
                   </View>
                   <Text style={styles.participantName}>
                     {item.last_name.toUpperCase()} {item.first_name}
                   </Text>
+                  {status !== 'present' && status !== 'absent' && (
+                    <View style={styles.statusBadge}>
+                      <Text style={styles.statusBadgeText}>{t(`attendance.statuses.${status}`)}</Text>
+                    </View>
+                  )}
                   {isAssignedSession && (
                     <Feather name="star" size={16} color="#FFB84D" style={styles.assignedBadge} />
                   )}
@@ -194,10 +298,45 @@ export default function AttendanceScreen({ route, navigation }: any) {
               <Text style={styles.buttonSecondaryText}>Partager</Text>
             </View>
           </TouchableOpacity>
-          <TouchableOpacity style={styles.buttonPrimary} onPress={saveAttendance}>
-            <Text style={styles.buttonPrimaryText}>Enregistrer</Text>
-          </TouchableOpacity>
+          {canTakeAttendance && (
+            <TouchableOpacity style={styles.buttonPrimary} onPress={saveAttendance}>
+              <Text style={styles.buttonPrimaryText}>Enregistrer</Text>
+            </TouchableOpacity>
+          )}
         </View>
+
+      {/* Status Picker Modal */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={!!statusPickerFor}
+        onRequestClose={() => setStatusPickerFor(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {t('attendance.chooseStatus')} - {statusPickerFor?.last_name.toUpperCase()} {statusPickerFor?.first_name}
+              </Text>
+              <TouchableOpacity onPress={() => setStatusPickerFor(null)} style={styles.closeButton}>
+                <Feather name="x" size={24} color={theme.colors.text.primary} />
+              </TouchableOpacity>
+            </View>
+            {ATTENDANCE_STATUSES.map(status => (
+              <TouchableOpacity
+                key={status}
+                style={styles.statusOption}
+                onPress={() => selectStatus(status)}
+              >
+                <Text style={styles.statusOptionText}>{t(`attendance.statuses.${status}`)}</Text>
+                {statusPickerFor && attendance[statusPickerFor.id] === status && (
+                  <Feather name="check" size={20} color={theme.colors.success} />
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -299,6 +438,81 @@ const styles = StyleSheet.create({
   assignedBadge: {
     marginLeft: theme.space[2],
   },
+  capacityWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.space[2],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[2],
+    backgroundColor: theme.colors.dangerBg,
+  },
+  capacityWarningText: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.danger,
+  },
+  statusHint: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    paddingVertical: theme.space[1],
+  },
+  statusBadge: {
+    backgroundColor: theme.colors.bg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.space[2],
+    paddingVertical: theme.space[1] / 2,
+    marginLeft: theme.space[2],
+  },
+  statusBadgeText: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  // Modal styles
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderTopLeftRadius: theme.borderRadius.lg,
+    borderTopRightRadius: theme.borderRadius.lg,
+    paddingBottom: theme.space[6],
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: theme.space[4],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  modalTitle: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    flex: 1,
+  },
+  closeButton: {
+    padding: theme.space[2],
+  },
+  statusOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: theme.space[3],
+    paddingHorizontal: theme.space[4],
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  statusOptionText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+  },
   saveContainer: { 
     marginTop: theme.space[5], 
     marginBottom: theme.space[5], 
@@ -8,6 +8,7 @@ import { useUser } from '../contexts/UserContext';
 import { theme } from '../lib/theme';
 import { signInWithOAuth, signOut } from '../lib/auth';
 import { authManager } from '../lib/authManager';
+import { syncService } from '../lib/syncService';
 import { useTranslation } from '../contexts/LanguageContext';
 
 const NEVER_ASK_AGAIN_KEY = '@presence_app:never_ask_login';
@@ -104,6 +105,7 @@ const AuthScreen: React.FC = () => {
       await signOut();
       // Invalidate cache and update state
       authManager.invalidateCache();
+      syncService.stopAutoSync();
       setIsAuthenticated(false);
       Alert.alert(t('common.success'), t('auth.signOutSuccess'));
     } catch (error: any) {
@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, FlatList, TextInput } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { dataService, Closure, Session } from '../lib/dataService';
+import { can, getClubRole } from '../lib/permissions';
+import { isValidDateString } from '../lib/sessionSchedule';
+import { theme } from '../lib/theme';
+import { useTranslation } from '../contexts/LanguageContext';
+
+// Scope of a new closure: the whole club, or a session id
+const WHOLE_CLUB = '';
+
+export default function ClosuresScreen({ route, navigation }: any) {
+  const { t, formatDay, language } = useTranslation();
+  const { club, sessionId, date } = route.params;
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [canManageSessions, setCanManageSessions] = useState(false);
+  const [scope, setScope] = useState<string>(sessionId || WHOLE_CLUB);
+  const [startDate, setStartDate] = useState<string>(date || '');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    loadClosures();
+    checkPermission();
+  }, []);
+
+  const checkPermission = async () => {
+    setCanManageSessions(can(await getClubRole(club), 'manageSessions'));
+  };
+
+  const loadClosures = async () => {
+    const [data, clubSessions] = await Promise.all([
+      dataService.getClosures(club.id),
+      dataService.getSessions(club.id),
+    ]);
+    setClosures(data);
+    setSessions(clubSessions);
+  };
+
+  const getSessionLabel = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    return session ? `${formatDay(session.day_of_week)} ${session.start_time}-${session.end_time}` : t('closures.deletedSession');
+  };
+
+  const formatDate = (value: string) => {
+    return new Date(`${value}T12:00:00`).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US');
+  };
+
+  const addClosure = async () => {
+    const start = startDate.trim();
+    const end = endDate.trim() || start;
+
+    if (!isValidDateString(start) || !isValidDateString(end) || end < start) {
+      Alert.alert(t('common.error'), t('closures.invalidDates'));
+      return;
+    }
+
+    try {
+      const saved = await dataService.saveClosure({
+        id: '',
+        club_id: club.id,
+        session_id: scope || null,
+        start_date: start,
+        end_date: end,
+        reason: reason.trim() || null,
+      });
+      setClosures(current => [saved, ...current.filter(c => c.id !== saved.id)].sort((a, b) => b.start_date.localeCompare(a.start_date)));
+      setStartDate('');
+      setEndDate('');
+      setReason('');
+    } catch (error) {
+      Alert.alert(t('common.error'), t('closures.errorSaving'));
+    }
+  };
+
+  const deleteClosure = (closure: Closure) => {
+    Alert.alert(
+      t('common.delete'),
+      t('closures.confirmDelete'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dataService.deleteClosure(closure.id);
+              setClosures(current => current.filter(c => c.id !== closure.id));
+            } catch (error) {
+              Alert.alert(t('common.error'), t('closures.errorDeleting'));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderClosure = ({ item }: { item: Closure }) => (
+    <View style={styles.closureCard}>
+      <View style={styles.closureInfo}>
+        <Text style={styles.closureTitle}>
+          {item.session_id ? getSessionLabel(item.session_id) : t('closures.wholeClub')}
+        </Text>
+        <Text style={styles.closureDetail}>
+          {item.start_date === item.end_date
+            ? formatDate(item.start_date)
+            : t('closures.range').replace('{{start}}', formatDate(item.start_date)).replace('{{end}}', formatDate(item.end_date))}
+        </Text>
+        {!!item.reason && <Text style={styles.closureDetail}>{item.reason}</Text>}
+      </View>
+      {canManageSessions && (
+        <TouchableOpacity style={styles.iconButton} onPress={() => deleteClosure(item)} accessibilityLabel={t('common.delete')}>
+          <Feather name="trash-2" size={20} color={theme.colors.danger} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderNewClosure = () => (
+    <View style={styles.newClosure}>
+      <Text style={styles.description}>{t('closures.description')}</Text>
+
+      {canManageSessions && (
+        <>
+          <Text style={styles.optionLabel}>{t('closures.scope')}</Text>
+          <View style={styles.options}>
+            {[WHOLE_CLUB, ...sessions.filter(s => !s.archived_at).map(s => s.id)].map(option => (
+              <TouchableOpacity
+                key={option || 'club'}
+                style={[styles.option, option === scope && styles.optionSelected]}
+                onPress={() => setScope(option)}
+              >
+                <Text style={[styles.optionText, option === scope && styles.optionTextSelected]}>
+                  {option ? getSessionLabel(option) : t('closures.wholeClub')}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.optionLabel}>{t('closures.dates')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={t('closures.startDatePlaceholder')}
+            placeholderTextColor={theme.colors.text.secondary}
+            value={startDate}
+            onChangeText={setStartDate}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder={t('closures.endDatePlaceholder')}
+            placeholderTextColor={theme.colors.text.secondary}
+            value={endDate}
+            onChangeText={setEndDate}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder={t('closures.reasonPlaceholder')}
+            placeholderTextColor={theme.colors.text.secondary}
+            value={reason}
+            onChangeText={setReason}
+            maxLength={500}
+          />
+
+          <TouchableOpacity style={styles.button} onPress={addClosure}>
+            <Text style={styles.buttonText}>{scope ? t('closures.cancelSession') : t('closures.closeClub')}</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>{t('closures.list')}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{t('closures.title')}</Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={closures}
+        keyExtractor={(item) => item.id}
+        renderItem={renderClosure}
+        contentContainerStyle={styles.contentContainer}
+        ListHeaderComponent={renderNewClosure()}
+        ListEmptyComponent={<Text style={styles.emptyText}>{t('closures.noClosures')}</Text>}
+        keyboardShouldPersistTaps="handled"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
+  },
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  mainHeader: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  newClosure: {
+    marginBottom: theme.space[2],
+  },
+  description: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.space[1],
+  },
+  optionLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginTop: theme.space[3],
+    marginBottom: theme.space[2],
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.space[2],
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.space[3],
+    paddingVertical: theme.space[2],
+  },
+  optionSelected: {
+    backgroundColor: theme.colors.primary[700],
+  },
+  optionText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.primary[700],
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[2],
+  },
+  button: {
+    ...theme.components.buttonPrimary,
+    marginTop: theme.space[3],
+  },
+  buttonText: {
+    color: theme.colors.surface,
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.space[5],
+  },
+  closureCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.space[3],
+    marginBottom: theme.space[2],
+  },
+  closureInfo: {
+    flex: 1,
+    gap: theme.space[1],
+  },
+  closureTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  closureDetail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  iconButton: {
+    padding: theme.space[2],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    paddingVertical: theme.space[5],
+  },
+});
@@ -1,65 +1,42 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ScrollView, TextInput, Keyboard, Share } from 'react-native';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ScrollView, TextInput, Keyboard } from 'react-native';
 import { Feather } from '@expo/vector-icons';
-import { dataService } from '../lib/dataService';
+import { dataService, getSeasonOn, isDateInLeavePeriods, Season } from '../lib/dataService';
 import { syncService } from '../lib/syncService';
 import { authManager } from '../lib/authManager';
+import { can, ClubRole, getClubRole } from '../lib/permissions';
+import { compareSessions, getSessionDatesLabel, toDateString } from '../lib/sessionSchedule';
 import { signOut } from '../lib/auth';
+import { RestoreMode, validateClubBackup } from '../lib/clubBackup';
+import { pickTextFile, shareFile, toFileNamePart } from '../lib/fileShare';
 import { LanguageSelector } from '../components/LanguageSelector';
 import { useTranslation } from '../contexts/LanguageContext';
 import { theme } from '../lib/theme';
 
 export default function ClubDetailsScreen({ route, navigation }: any) {
   const { club } = route.params;
-  const { t, translateDay } = useTranslation();
+  const { t, formatDay } = useTranslation();
   const [sessions, setSessions] = useState<any[]>([]);
   const [participants, setParticipants] = useState<any[]>([]);
+  const [archivedSessions, setArchivedSessions] = useState<any[]>([]);
+  const [archivedParticipants, setArchivedParticipants] = useState<any[]>([]);
+  const [onLeaveIds, setOnLeaveIds] = useState<string[]>([]);
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState(club.name);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-  const [isOwner, setIsOwner] = useState(false);
-  const [shareCode, setShareCode] = useState(club.share_code);
+  const [role, setRole] = useState<ClubRole>('viewer');
+  const [conflictCount, setConflictCount] = useState(0);
+  const [currentSeason, setCurrentSeason] = useState<Season | undefined>(undefined);
 
   useEffect(() => {
     checkAuth();
     fetchSessions();
     fetchParticipants();
-    ensureShareCode();
+    fetchConflicts();
+    fetchSeasons();
   }, []);
 
-  const ensureShareCode = async () => {
-    // If club doesn't have a share code and it's not a local club, generate one
-    if (!shareCode && !club.id.startsWith('local-')) {
-      try {
-        const { supabase } = await import('../lib/supabase');
-        // Call the SQL function to generate a share code
-        const { data, error } = await supabase.rpc('generate_share_code');
-        
-        if (error) {
-          return;
-        }
-        
-        const newShareCode = data;
-        
-        // Update the club with the new share code
-        const { error: updateError } = await supabase
-          .from('clubs')
-          .update({ share_code: newShareCode })
-          .eq('id', club.id);
-        
-        if (!updateError) {
-          setShareCode(newShareCode);
-          // Update local storage
-          club.share_code = newShareCode;
-          await dataService.saveClub(club);
-        }
-      } catch (error) {
-        // Silent fail
-      }
-    }
-  };
-
   const handleLogout = async () => {
     try {
       await signOut();
@@ -78,17 +55,21 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
     if (isAuth) {
       const userId = await authManager.getUserId();
       setCurrentUserId(userId);
-      setIsOwner(userId === club.owner_id);
-    } else {
-      // Not logged in = local-only mode = full permissions
-      setIsOwner(true);
     }
+    // Not logged in = local-only mode = full permissions
+    setRole(await getClubRole(club));
   };
 
+  const canManageClub = can(role, 'manageClub');
+  const canManageSessions = can(role, 'manageSessions');
+  const canEditParticipants = can(role, 'editParticipants');
+
   useEffect(() => {
     const unsubscribe = navigation.addListener('focus', () => {
       fetchSessions();
       fetchParticipants();
+      fetchConflicts();
+      fetchSeasons();
     });
     return unsubscribe;
   }, [navigation]);
@@ -96,36 +77,27 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
   const fetchSessions = async () => {
     const data = await dataService.getSessions(club.id);
     
-    // Helper to get day index for sorting
-    const getDayIndex = (dayName: string) => {
-      const frenchDays = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
-      const englishDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      
-      let index = frenchDays.indexOf(dayName);
-      if (index === -1) {
-        index = englishDays.indexOf(dayName);
-      }
-      return index === -1 ? 999 : index; // Unknown days at the end
-    };
-    
     // Sort sessions by day of week, then by start time
-    const sortedData = [...data].sort((a, b) => {
-      const dayA = getDayIndex(a.day_of_week);
-      const dayB = getDayIndex(b.day_of_week);
-      
-      if (dayA !== dayB) {
-        return dayA - dayB;
-      }
-      
-      // Same day, sort by time
-      return a.start_time.localeCompare(b.start_time);
-    });
+    const sortedData = [...data].sort(compareSessions);
     
-    setSessions(sortedData);
+    setSessions(sortedData.filter(s => !s.archived_at));
+    setArchivedSessions(sortedData.filter(s => s.archived_at));
+  };
+
+  const fetchConflicts = async () => {
+    const conflicts = await dataService.getConflicts(club.id);
+    setConflictCount(conflicts.length);
+  };
+
+  const fetchSeasons = async () => {
+    const seasons = await dataService.getSeasons(club.id);
+    setCurrentSeason(getSeasonOn(seasons, toDateString(new Date())));
   };
 
   const fetchParticipants = async () => {
     const data = await dataService.getParticipantsWithSessions(club.id);
+    const leavePeriods = await dataService.getLeavePeriods(club.id);
+    const today = new Date().toISOString().slice(0, 10);
     
     // Sort participants alphabetically by last name, then first name
     const sortedData = [...data].sort((a, b) => {
@@ -136,7 +108,66 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
       return a.first_name.localeCompare(b.first_name, 'fr', { sensitivity: 'base' });
     });
     
-    setParticipants(sortedData);
+    setParticipants(sortedData.filter(p => !p.archived_at));
+    setArchivedParticipants(sortedData.filter(p => p.archived_at));
+    // Kept apart from participant records, which are passed on to EditParticipant and saved as-is
+    setOnLeaveIds(sortedData
+      .filter(p => isDateInLeavePeriods(today, leavePeriods.filter(l => l.participant_id === p.id)))
+      .map(p => p.id));
+  };
+
+  // Everything the club holds on this phone, to move it to another one without an account
+  const exportBackup = async () => {
+    try {
+      const backup = await dataService.exportClubBackup(club.id);
+      const fileName = `${toFileNamePart(club.name)}_backup_${toDateString(new Date())}.json`;
+      await shareFile(fileName, JSON.stringify(backup, null, 2), 'application/json');
+    } catch (error) {
+      Alert.alert(t('common.error'), t('backup.exportError'));
+    }
+  };
+
+  const restoreBackup = async () => {
+    let backup;
+    try {
+      const content = await pickTextFile(['application/json', 'text/plain']);
+      if (content === null) return;
+      backup = validateClubBackup(JSON.parse(content));
+    } catch (error: any) {
+      const isNewer = error.message && error.message.includes('Unsupported backup version');
+      Alert.alert(t('common.error'), t(isNewer ? 'backup.newerVersion' : 'backup.invalidFile'));
+      return;
+    }
+
+    const restore = async (mode: RestoreMode) => {
+      try {
+        const restored = await dataService.restoreClubBackup(backup, mode);
+        if (restored.id === club.id) {
+          fetchSessions();
+          fetchParticipants();
+          fetchSeasons();
+          Alert.alert(t('common.success'), t('backup.restored'));
+        } else {
+          navigation.navigate('ClubDetails', { club: restored });
+        }
+      } catch (error) {
+        Alert.alert(t('common.error'), t('backup.restoreError'));
+      }
+    };
+
+    // A backup of another club is added next to this one
+    if (backup.club.id !== club.id) {
+      Alert.alert(t('backup.restore'), t('backup.otherClub').replace('{{name}}', backup.club.name), [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('backup.restore'), onPress: () => restore('merge') },
+      ]);
+      return;
+    }
+    Alert.alert(t('backup.restore'), t('backup.chooseMode'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('backup.merge'), onPress: () => restore('merge') },
+      { text: t('backup.replace'), style: 'destructive', onPress: () => restore('replace') },
+    ]);
   };
 
   const deleteClub = async () => {
@@ -164,19 +195,21 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
     );
   };
 
-  const deleteSession = async (sessionId: string, sessionName: string) => {
+  const getSessionLabel = (session: any) => {
+    const dates = getSessionDatesLabel(session, t);
+    return `${formatDay(session.day_of_week)} ${session.start_time}-${session.end_time}${dates ? ` ${dates}` : ''}`;
+  };
+
+  const archiveSession = (sessionId: string, sessionName: string) => {
     Alert.alert(
-      `${t('common.delete')} ${t('club.session')}`,
-      `${t('club.confirmDeleteSession')} ${sessionName} ?`,
+      t('club.archiveSession'),
+      t('club.confirmArchiveSession').replace('{{name}}', sessionName),
       [
         { text: t('common.cancel'), style: 'cancel' },
         {
-          text: t('common.delete'),
-          style: 'destructive',
+          text: t('club.archive'),
           onPress: async () => {
-            // Wait for local delete to complete
-            await dataService.deleteSession(sessionId);
-            // Refresh list after delete completes
+            await dataService.archiveSession(sessionId);
             fetchSessions();
           }
         }
@@ -184,35 +217,57 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
     );
   };
 
+  const restoreSession = async (sessionId: string) => {
+    await dataService.restoreSession(sessionId);
+    fetchSessions();
+  };
+
+  const restoreParticipant = async (participantId: string) => {
+    await dataService.restoreParticipant(participantId);
+    fetchParticipants();
+  };
 
-  const resetStats = async () => {
+  // Only archived participants can be deleted, with all their attendance
+  const deleteParticipant = (participant: any) => {
     Alert.alert(
-      t('club.startYear'),
-      t('club.confirmReset'),
+      t('club.deletePermanently'),
+      `${t('editParticipant.confirmDelete')} ${participant.first_name} ${participant.last_name} ?`,
       [
         { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Réinitialiser',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
-            await dataService.resetClubStats(club.id);
-            
-            // Reload club with updated stats_reset_date
-            const clubs = await dataService.getClubs();
-            const updatedClub = clubs.find(c => c.id === club.id);
-            
-            Alert.alert(t('common.success'), t('club.statsReset'));
-            
-            // Update navigation params with fresh club data
-            if (updatedClub) {
-              navigation.setParams({ club: updatedClub });
-            }
+            await dataService.deleteParticipant(participant.id);
+            fetchParticipants();
+          }
+        }
+      ]
+    );
+  };
+
+  // Only archived sessions can be deleted, with all their attendance
+  const deleteSession = async (sessionId: string, sessionName: string) => {
+    Alert.alert(
+      `${t('common.delete')} ${t('club.session')}`,
+      `${t('club.confirmDeleteSession')} ${sessionName} ?`,
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            // Wait for local delete to complete
+            await dataService.deleteSession(sessionId);
+            // Refresh list after delete completes
+            fetchSessions();
           }
         }
       ]
     );
   };
 
+
   const saveClubName = async () => {
     Keyboard.dismiss();
     
@@ -230,19 +285,6 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
     setIsEditingName(false);
   };
 
-  const shareClubCode = async () => {
-    if (!shareCode) return;
-    
-    try {
-      await Share.share({
-        message: `${shareCode}`,
-        title: `Partager le club ${club.name}`
-      });
-    } catch (error) {
-      // Silent fail
-    }
-  };
-
   return (
     <View style={styles.container}>
       {/* Header Container */}
@@ -291,7 +333,7 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
             <>
               <Text style={styles.title}>{club.name}</Text>
               {/* Only owner can edit club name */}
-              {isOwner && (
+              {canManageClub && (
                 <TouchableOpacity
                   style={styles.editButton}
                   onPress={() => setIsEditingName(true)}
@@ -314,6 +356,32 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
               <Text style={styles.buttonOutlineText}>{t('club.stats')}</Text>
             </View>
           </TouchableOpacity>
+          {/* Members are listed on the server */}
+          {isAuthenticated && !club.id.startsWith('local-') && (
+            <TouchableOpacity
+              style={styles.buttonOutline}
+              onPress={() => navigation.navigate('Members', { club })}
+            >
+              <View style={styles.buttonWithIcon}>
+                <Feather name="users" size={18} color={theme.colors.primary[700]} />
+                <Text style={styles.buttonOutlineText}>{t('members.title')}</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+          {/* Only owner settles sync conflicts */}
+          {canManageClub && conflictCount > 0 && (
+            <TouchableOpacity
+              style={styles.buttonConflicts}
+              onPress={() => navigation.navigate('Conflicts', { club })}
+            >
+              <View style={styles.buttonWithIcon}>
+                <Feather name="alert-triangle" size={18} color="#CC7A00" />
+                <Text style={styles.buttonConflictsText}>
+                  {t('conflicts.toReview').replace('{{count}}', String(conflictCount))}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.section}>
@@ -325,8 +393,17 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
               </View>
             )}
             <View style={styles.sectionHeaderSpacer} />
-            {/* Only owners can add participants */}
-            {isOwner && (
+            {/* Only owners and coaches can add participants */}
+            {canEditParticipants && (
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => navigation.navigate('ImportParticipants', { clubId: club.id })}
+              >
+                <Feather name="upload" size={18} color={theme.colors.primary[700]} />
+                <Text style={styles.headerButtonText}>{t('club.import')}</Text>
+              </TouchableOpacity>
+            )}
+            {canEditParticipants && (
               <TouchableOpacity
                 style={styles.headerButton}
                 onPress={() => navigation.navigate('AddParticipant', { clubId: club.id })}
@@ -342,20 +419,20 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
             renderItem={({ item }) => (
               <TouchableOpacity 
                 style={styles.listItem}
-                onPress={isOwner ? () => navigation.navigate('EditParticipant', { participant: item, clubId: club.id }) : undefined}
-                disabled={!isOwner}
+                onPress={canEditParticipants ? () => navigation.navigate('EditParticipant', { participant: item, clubId: club.id }) : undefined}
+                disabled={!canEditParticipants}
               >
                 <View style={styles.listItemContent}>
                   <Text style={styles.listItemText}>
                     {item.last_name.toUpperCase()} {item.first_name}
                   </Text>
-                  {item.is_long_term_sick && (
+                  {onLeaveIds.includes(item.id) && (
                     <View style={styles.sickBadge}>
                       <Text style={styles.sickBadgeText}>🤒</Text>
                     </View>
                   )}
                 </View>
-                {isOwner && <Feather name="chevron-right" size={20} color={theme.colors.text.secondary} />}
+                {canEditParticipants && <Feather name="chevron-right" size={20} color={theme.colors.text.secondary} />}
               </TouchableOpacity>
             )}
             scrollEnabled={false}
@@ -372,8 +449,15 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
               </View>
             )}
             <View style={styles.sectionHeaderSpacer} />
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => navigation.navigate('Closures', { club })}
+            >
+              <Feather name="calendar" size={18} color={theme.colors.primary[700]} />
+              <Text style={styles.headerButtonText}>{t('club.closures')}</Text>
+            </TouchableOpacity>
             {/* Only owner can add sessions */}
-            {isOwner && (
+            {canManageSessions && (
               <TouchableOpacity
                 style={styles.headerButton}
                 onPress={() => navigation.navigate('AddSession', { clubId: club.id })}
@@ -389,12 +473,14 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
             renderItem={({ item }) => (
               <TouchableOpacity 
                 style={styles.listItem}
-                onLongPress={isOwner ? () => deleteSession(item.id, `${translateDay(item.day_of_week)} ${item.start_time}-${item.end_time}`) : undefined}
+                onPress={canManageSessions ? () => navigation.navigate('EditSession', { session: item }) : undefined}
+                onLongPress={canManageSessions ? () => archiveSession(item.id, getSessionLabel(item)) : undefined}
               >
                 <Text style={styles.sessionText}>
-                  {translateDay(item.day_of_week)} {item.start_time}-{item.end_time}
+                  {getSessionLabel(item)}
                 </Text>
-                {!isOwner && <Text style={styles.ownerOnlyHint}>{t('club.ownerOnly')}</Text>}
+                {canManageSessions && <Feather name="chevron-right" size={20} color={theme.colors.text.secondary} />}
+                {!canManageSessions && <Text style={styles.ownerOnlyHint}>{t('club.ownerOnly')}</Text>}
               </TouchableOpacity>
             )}
             scrollEnabled={false}
@@ -402,6 +488,47 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
           />
         </View>
 
+        {/* Archived sessions and participants, kept for the statistics */}
+        {(archivedSessions.length > 0 || archivedParticipants.length > 0) && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>{t('club.archived')}</Text>
+              <View style={styles.countBadge}>
+                <Text style={styles.countBadgeText}>{archivedSessions.length + archivedParticipants.length}</Text>
+              </View>
+            </View>
+            {(canEditParticipants || canManageSessions) && (
+              <Text style={styles.archivedHint}>{t('club.archivedHint')}</Text>
+            )}
+            {archivedParticipants.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                style={styles.listItem}
+                onPress={canEditParticipants ? () => restoreParticipant(item.id) : undefined}
+                onLongPress={canEditParticipants ? () => deleteParticipant(item) : undefined}
+                disabled={!canEditParticipants}
+              >
+                <Text style={styles.archivedText}>
+                  {item.last_name.toUpperCase()} {item.first_name}
+                </Text>
+                {canEditParticipants && <Feather name="rotate-ccw" size={18} color={theme.colors.primary[700]} accessibilityLabel={t('club.restore')} />}
+              </TouchableOpacity>
+            ))}
+            {archivedSessions.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                style={styles.listItem}
+                onPress={canManageSessions ? () => restoreSession(item.id) : undefined}
+                onLongPress={canManageSessions ? () => deleteSession(item.id, getSessionLabel(item)) : undefined}
+                disabled={!canManageSessions}
+              >
+                <Text style={styles.archivedText}>{getSessionLabel(item)}</Text>
+                {canManageSessions && <Feather name="rotate-ccw" size={18} color={theme.colors.primary[700]} accessibilityLabel={t('club.restore')} />}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Settings Section - Available to all users */}
         <View style={styles.adminSection}>
           <Text style={styles.adminSectionTitle}>{t('club.settings')}</Text>
@@ -429,45 +556,69 @@ export default function ClubDetailsScreen({ route, navigation }: any) {
         </View>
 
         {/* Admin Section - Only owner can reset stats */}
-        {isOwner && (
+        {canManageClub && (
           <View style={styles.adminSection}>
             <Text style={styles.adminSectionTitle}>{t('club.administration')}</Text>
             
-            {/* Share Code */}
-            {shareCode && (
-              <View style={styles.adminRow}>
+            {/* Invite codes */}
+            {isAuthenticated && !club.id.startsWith('local-') && (
+              <TouchableOpacity
+                style={styles.adminRow}
+                onPress={() => navigation.navigate('ShareClub', { clubId: club.id, clubName: club.name })}
+              >
                 <View style={styles.adminRowContent}>
-                  <Text style={styles.adminRowLabel}>{t('club.shareCode')}</Text>
-                  <Text style={styles.shareCodeText}>{shareCode}</Text>
+                  <Text style={styles.adminRowLabel}>{t('club.inviteCodes')}</Text>
                 </View>
-                <TouchableOpacity
-                  style={styles.adminIconButton}
-                  onPress={shareClubCode}
-                >
-                  <Feather name="share-2" size={20} color={theme.colors.primary[700]} />
-                </TouchableOpacity>
-              </View>
+                <Feather name="share-2" size={20} color={theme.colors.primary[700]} />
+              </TouchableOpacity>
             )}
             
             <TouchableOpacity
               style={styles.adminRow}
-              onPress={resetStats}
+              onPress={() => navigation.navigate('Seasons', { club })}
             >
               <View style={styles.adminRowContent}>
-                <Text style={styles.adminRowLabel}>{t('club.startYear')}</Text>
-                {club.stats_reset_date && (
+                <Text style={styles.adminRowLabel}>{t('club.seasons')}</Text>
+                {currentSeason && (
                   <Text style={styles.adminRowHint}>
-                    {t('club.statsSince')} {new Date(club.stats_reset_date).toLocaleDateString('fr-FR')}
+                    {t('club.currentSeason').replace('{{name}}', currentSeason.name)}
                   </Text>
                 )}
               </View>
-              <Feather name="refresh-cw" size={20} color={theme.colors.primary[700]} />
+              <Feather name="calendar" size={20} color={theme.colors.primary[700]} />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.adminRow} onPress={exportBackup}>
+              <View style={styles.adminRowContent}>
+                <Text style={styles.adminRowLabel}>{t('backup.export')}</Text>
+                <Text style={styles.adminRowHint}>{t('backup.exportHint')}</Text>
+              </View>
+              <Feather name="download" size={20} color={theme.colors.primary[700]} />
             </TouchableOpacity>
+            <TouchableOpacity style={styles.adminRow} onPress={restoreBackup}>
+              <View style={styles.adminRowContent}>
+                <Text style={styles.adminRowLabel}>{t('backup.restore')}</Text>
+              </View>
+              <Feather name="upload" size={20} color={theme.colors.primary[700]} />
+            </TouchableOpacity>
+
+            {/* Hand the club over to a member */}
+            {isAuthenticated && !club.id.startsWith('local-') && (
+              <TouchableOpacity
+                style={styles.adminRow}
+                onPress={() => navigation.navigate('Members', { club, transfer: true })}
+              >
+                <View style={styles.adminRowContent}>
+                  <Text style={styles.adminRowLabel}>{t('members.transferOwnership')}</Text>
+                </View>
+                <Feather name="key" size={20} color={theme.colors.primary[700]} />
+              </TouchableOpacity>
+            )}
           </View>
         )}
 
         {/* Only owner can delete club */}
-        {isOwner && (
+        {canManageClub && (
           <View style={styles.dangerContainer}>
             <TouchableOpacity style={styles.buttonDanger} onPress={deleteClub}>
               <Text style={styles.buttonDangerText}>{t('club.deleteClub')}</Text>
@@ -583,6 +734,20 @@ const styles = StyleSheet.create({
     color: theme.colors.text.secondary,
     fontSize: theme.typography.fontSize.md,
   },
+  buttonConflicts: {
+    backgroundColor: '#FFF4E6',
+    borderWidth: 1,
+    borderColor: '#FFB84D',
+    borderRadius: theme.borderRadius.md,
+    paddingVertical: theme.space[2],
+    paddingHorizontal: theme.space[3],
+    alignItems: 'center',
+  },
+  buttonConflictsText: {
+    color: '#CC7A00',
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
   buttonTest: {
     backgroundColor: '#FFF4E6',
     borderRadius: theme.borderRadius.md,
@@ -636,9 +801,6 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.sm,
     color: theme.colors.text.secondary,
   },
-  adminIconButton: {
-    padding: theme.space[2],
-  },
   logoutRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -655,12 +817,6 @@ const styles = StyleSheet.create({
     fontWeight: theme.typography.fontWeight.medium,
     color: theme.colors.error,
   },
-  shareCodeText: {
-    fontSize: theme.typography.fontSize.xl,
-    fontWeight: theme.typography.fontWeight.semibold,
-    color: theme.colors.primary[700],
-    letterSpacing: 2,
-  },
   listItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -769,6 +925,17 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.fontSize.md,
     color: theme.colors.text.primary,
   },
+  archivedText: {
+    flex: 1,
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.secondary,
+  },
+  archivedHint: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    marginBottom: theme.space[2],
+  },
   dangerContainer: {
     marginTop: theme.space[4],
     marginBottom: theme.space[4],
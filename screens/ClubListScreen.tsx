@@ -1,16 +1,18 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, FlatList, StyleSheet, TouchableOpacity } from 'react-native';
+import { View, Text, FlatList, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { Feather } from '@expo/vector-icons';
-import { dataService } from '../lib/dataService';
+import { Club, dataService } from '../lib/dataService';
 import { signOut } from '../lib/auth';
 import { authManager } from '../lib/authManager';
 import { syncService } from '../lib/syncService';
+import { ClubBackup, RestoreMode, validateClubBackup } from '../lib/clubBackup';
+import { pickTextFile } from '../lib/fileShare';
 import { theme } from '../lib/theme';
 import { useTranslation } from '../contexts/LanguageContext';
 
 export default function ClubListScreen({ navigation }) {
   const { t } = useTranslation();
-  const [clubs, setClubs] = useState([]);
+  const [clubs, setClubs] = useState<Club[]>([]);
 
   const fetchClubs = async () => {
     const data = await dataService.getClubs();
@@ -28,6 +30,39 @@ export default function ClubListScreen({ navigation }) {
     }
   };
 
+  // Club moved from another phone (see exportBackup in ClubDetailsScreen)
+  const restoreBackup = async () => {
+    let backup: ClubBackup;
+    try {
+      const content = await pickTextFile(['application/json', 'text/plain']);
+      if (content === null) return;
+      backup = validateClubBackup(JSON.parse(content));
+    } catch (error: any) {
+      const isNewer = error.message && error.message.includes('Unsupported backup version');
+      Alert.alert(t('common.error'), t(isNewer ? 'backup.newerVersion' : 'backup.invalidFile'));
+      return;
+    }
+
+    const restore = async (mode: RestoreMode) => {
+      try {
+        const restored = await dataService.restoreClubBackup(backup, mode);
+        navigation.navigate('ClubDetails', { club: restored });
+      } catch (error) {
+        Alert.alert(t('common.error'), t('backup.restoreError'));
+      }
+    };
+
+    if (!clubs.some(c => c.id === backup.club.id)) {
+      await restore('merge');
+      return;
+    }
+    Alert.alert(t('backup.restore'), t('backup.chooseMode'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('backup.merge'), onPress: () => restore('merge') },
+      { text: t('backup.replace'), style: 'destructive', onPress: () => restore('replace') },
+    ]);
+  };
+
   useEffect(() => {
     fetchClubs();
   }, []);
@@ -68,6 +103,10 @@ export default function ClubListScreen({ navigation }) {
           <Text style={styles.buttonSecondaryText}>{t('home.joinClub')}</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity style={styles.buttonSecondary} onPress={restoreBackup}>
+          <Text style={styles.buttonSecondaryText}>{t('backup.restore')}</Text>
+        </TouchableOpacity>
+
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
           <Feather name="log-out" size={20} color={theme.colors.error} />
           <Text style={styles.logoutText}>{t('auth.signOut')}</Text>
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { dataService } from '../lib/dataService';
+import { SyncConflict } from '../lib/conflicts';
+import { useTranslation } from '../contexts/LanguageContext';
+import { theme } from '../lib/theme';
+
+export default function ConflictsScreen({ route, navigation }: any) {
+  const { club } = route.params;
+  const { t, formatDay } = useTranslation();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [participantNames, setParticipantNames] = useState<Record<string, string>>({});
+  const [sessionLabels, setSessionLabels] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = async () => {
+    const [data, participants, sessions] = await Promise.all([
+      dataService.getConflicts(club.id),
+      dataService.getParticipants(club.id),
+      dataService.getSessions(club.id),
+    ]);
+    setConflicts(data.sort((a, b) => a.detected_at.localeCompare(b.detected_at)));
+    setParticipantNames(Object.fromEntries(participants.map(p => [p.id, `${p.first_name} ${p.last_name}`])));
+    setSessionLabels(Object.fromEntries(sessions.map(s => [s.id, `${formatDay(s.day_of_week)} ${s.start_time}-${s.end_time}`])));
+  };
+
+  const resolve = async (conflict: SyncConflict, keep: 'local' | 'server') => {
+    setResolvingId(conflict.id);
+    try {
+      await dataService.resolveConflict(conflict, keep);
+      setConflicts(current => current.filter(c => c.id !== conflict.id));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('conflicts.errorResolving'));
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const getRecordLabel = (conflict: SyncConflict) => {
+    const { record } = conflict;
+    switch (conflict.table) {
+      case 'clubs':
+        return record.name;
+      case 'sessions':
+        return `${formatDay(record.day_of_week)} ${record.start_time}-${record.end_time}`;
+      case 'participants':
+        return `${record.first_name} ${record.last_name}`;
+      case 'attendance':
+        return `${participantNames[record.participant_id] || '?'} · ${sessionLabels[record.session_id] || ''} · ${new Date(record.date).toLocaleDateString('fr-FR')}`;
+    }
+  };
+
+  const getFieldLabel = (field: string) => {
+    const key = `conflicts.fields.${field}`;
+    const label = t(key);
+    return label === key ? field : label;
+  };
+
+  const formatValue = (field: string, value: any) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'status') return t(`attendance.statuses.${value}`);
+    if (field === 'day_of_week') return formatDay(value);
+    if (typeof value === 'boolean') return value ? t('common.yes') : t('common.no');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const renderConflict = ({ item }: { item: SyncConflict }) => {
+    const disabled = resolvingId === item.id;
+    return (
+      <View style={styles.card}>
+        <Text style={styles.recordLabel}>{getRecordLabel(item)}</Text>
+        <Text style={styles.fieldLabel}>{getFieldLabel(item.field)}</Text>
+        <View style={styles.choices}>
+          <TouchableOpacity
+            style={styles.choice}
+            onPress={() => resolve(item, 'local')}
+            disabled={disabled}
+          >
+            <Text style={styles.choiceTitle}>{t('conflicts.keepMine')}</Text>
+            <Text style={styles.choiceValue}>{formatValue(item.field, item.local_value)}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.choice}
+            onPress={() => resolve(item, 'server')}
+            disabled={disabled}
+          >
+            <Text style={styles.choiceTitle}>{t('conflicts.keepTheirs')}</Text>
+            <Text style={styles.choiceValue}>{formatValue(item.field, item.server_value)}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{t('conflicts.title')}</Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={conflicts}
+        keyExtractor={(item) => item.id}
+        renderItem={renderConflict}
+        contentContainerStyle={styles.contentContainer}
+        ListHeaderComponent={
+          conflicts.length > 0 ? <Text style={styles.description}>{t('conflicts.description')}</Text> : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Feather name="check-circle" size={32} color={theme.colors.success} />
+            <Text style={styles.emptyText}>{t('conflicts.noConflicts')}</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
+  },
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  mainHeader: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  description: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.space[4],
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.space[4],
+    marginBottom: theme.space[3],
+  },
+  recordLabel: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  fieldLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.space[1],
+    marginBottom: theme.space[3],
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: theme.space[2],
+  },
+  choice: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.sm,
+    padding: theme.space[3],
+  },
+  choiceTitle: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.primary[700],
+    fontWeight: theme.typography.fontWeight.medium,
+    marginBottom: theme.space[1],
+  },
+  choiceValue: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: theme.space[7],
+    gap: theme.space[3],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -1,54 +1,73 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ScrollView, Switch } from 'react-native';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, ScrollView } from 'react-native';
 import { Feather } from '@expo/vector-icons';
-import { dataService } from '../lib/dataService';
-import { authManager } from '../lib/authManager';
+import { dataService, LeavePeriod } from '../lib/dataService';
+import { can, getClubRole } from '../lib/permissions';
+import { compareSessions, isValidDateString, toDateString } from '../lib/sessionSchedule';
+import { getProfileChanges, getProfileForm, validateProfileForm } from '../lib/participantProfile';
+import { ParticipantProfileFields } from '../components/ParticipantProfileFields';
 import { theme } from '../lib/theme';
 import { useTranslation } from '../contexts/LanguageContext';
 
 export default function EditParticipantScreen({ route, navigation }: any) {
-  const { t, translateDay } = useTranslation();
+  const { t, formatDay } = useTranslation();
   const { participant, clubId } = route.params;
   const [firstName, setFirstName] = useState(participant.first_name);
   const [lastName, setLastName] = useState(participant.last_name);
-  const [isLongTermSick, setIsLongTermSick] = useState(participant.is_long_term_sick || false);
+  const [profile, setProfile] = useState(getProfileForm(participant));
+  const [leavePeriods, setLeavePeriods] = useState<LeavePeriod[]>([]);
+  const [leaveStart, setLeaveStart] = useState('');
+  const [leaveEnd, setLeaveEnd] = useState('');
+  const [leaveReason, setLeaveReason] = useState('');
   const [sessions, setSessions] = useState<any[]>([]);
   const [selectedSessions, setSelectedSessions] = useState<string[]>([]);
-  const [isOwner, setIsOwner] = useState(false);
+  // Other participants of the club assigned to each session
+  const [otherAssignedCounts, setOtherAssignedCounts] = useState<Record<string, number>>({});
+  const [canEdit, setCanEdit] = useState(false);
   const [club, setClub] = useState<any>(null);
 
   useEffect(() => {
     loadSessions();
     loadParticipantSessions();
-    checkOwnership();
+    loadLeavePeriods();
+    checkPermission();
   }, []);
 
-  const checkOwnership = async () => {
+  const checkPermission = async () => {
     const clubData = await dataService.getClub(clubId);
     setClub(clubData);
     
-    const userId = await authManager.getUserId();
-    // If not logged in (userId is null), allow editing (local-only mode)
-    setIsOwner(!userId || userId === clubData?.owner_id);
+    // If not logged in, allow editing (local-only mode)
+    setCanEdit(!clubData || can(await getClubRole(clubData), 'editParticipants'));
   };
 
   const loadSessions = async () => {
-    const data = await dataService.getSessions(clubId);
+    const [data, participants] = await Promise.all([
+      dataService.getSessions(clubId),
+      dataService.getParticipantsWithSessions(clubId),
+    ]);
     
     // Sort sessions by day of week, then by time
-    const getDayIndex = (dayName: string) => {
-      const frenchDays = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
-      return frenchDays.indexOf(dayName);
-    };
+    const sortedSessions = data.filter(s => !s.archived_at).sort(compareSessions);
     
-    const sortedSessions = [...data].sort((a, b) => {
-      const dayA = getDayIndex(a.day_of_week);
-      const dayB = getDayIndex(b.day_of_week);
-      if (dayA !== dayB) return dayA - dayB;
-      return a.start_time.localeCompare(b.start_time);
-    });
+    const counts: Record<string, number> = {};
+    participants
+      .filter(p => p.id !== participant.id && !p.archived_at)
+      .forEach(p => (p.preferred_session_ids || []).forEach((id: string) => {
+        counts[id] = (counts[id] || 0) + 1;
+      }));
     
     setSessions(sortedSessions);
+    setOtherAssignedCounts(counts);
+  };
+
+  // How full a session is with the current selection: "8/12", or just "8" without capacity
+  const getSessionFill = (session: any) => {
+    const count = (otherAssignedCounts[session.id] || 0) + (selectedSessions.includes(session.id) ? 1 : 0);
+    return {
+      label: session.capacity ? `${count}/${session.capacity}` : String(count),
+      isFull: !!session.capacity && count >= session.capacity,
+    };
   };
 
   const loadParticipantSessions = async () => {
@@ -56,6 +75,53 @@ export default function EditParticipantScreen({ route, navigation }: any) {
     setSelectedSessions(sessionIds);
   };
 
+  const loadLeavePeriods = async () => {
+    const periods = await dataService.getParticipantLeavePeriods(participant.id);
+    setLeavePeriods(periods);
+  };
+
+  const addLeavePeriod = async () => {
+    const start = leaveStart.trim();
+    const end = leaveEnd.trim();
+
+    if (!isValidDateString(start) || (end && (!isValidDateString(end) || end < start))) {
+      Alert.alert(t('common.error'), t('editParticipant.invalidLeaveDates'));
+      return;
+    }
+
+    await dataService.saveLeavePeriod({
+      id: '',
+      participant_id: participant.id,
+      club_id: clubId,
+      start_date: start,
+      end_date: end || null,
+      reason: leaveReason.trim() || null,
+    });
+
+    setLeaveStart('');
+    setLeaveEnd('');
+    setLeaveReason('');
+    await loadLeavePeriods();
+  };
+
+  const deleteLeavePeriod = (period: LeavePeriod) => {
+    Alert.alert(
+      t('editParticipant.leavePeriods'),
+      t('editParticipant.confirmDeleteLeave'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            await dataService.deleteLeavePeriod(period.id);
+            await loadLeavePeriods();
+          }
+        }
+      ]
+    );
+  };
+
   const toggleSession = (sessionId: string) => {
     if (selectedSessions.includes(sessionId)) {
       setSelectedSessions(selectedSessions.filter(id => id !== sessionId));
@@ -70,11 +136,17 @@ export default function EditParticipantScreen({ route, navigation }: any) {
       return;
     }
 
+    const profileError = validateProfileForm(profile, toDateString(new Date()));
+    if (profileError) {
+      Alert.alert(t('common.error'), t(profileError));
+      return;
+    }
+
     const updatedParticipant = {
       ...participant,
       first_name: firstName.trim(),
       last_name: lastName.trim(),
-      is_long_term_sick: isLongTermSick,
+      ...getProfileChanges(profile),
       preferred_session_ids: selectedSessions // Include session assignments
     };
 
@@ -86,18 +158,18 @@ export default function EditParticipantScreen({ route, navigation }: any) {
     navigation.goBack();
   };
 
-  const deleteParticipant = () => {
+  // Participants who leave are archived: their attendance stays in the statistics
+  const archiveParticipant = () => {
     Alert.alert(
-      t('editParticipant.delete'),
-      `${t('editParticipant.confirmDelete')} ${firstName} ${lastName} ?`,
+      t('editParticipant.archive'),
+      t('editParticipant.confirmArchive').replace('{{name}}', `${firstName} ${lastName}`),
       [
         { text: t('common.cancel'), style: 'cancel' },
         {
-          text: t('common.delete'),
-          style: 'destructive',
+          text: t('club.archive'),
           onPress: async () => {
-            await dataService.deleteParticipant(participant.id);
-            Alert.alert(t('common.success'), t('editParticipant.deleted'));
+            await dataService.archiveParticipant(participant.id);
+            Alert.alert(t('common.success'), t('editParticipant.archived'));
             navigation.goBack();
           }
         }
@@ -120,7 +192,7 @@ export default function EditParticipantScreen({ route, navigation }: any) {
       <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
         <Text style={styles.sectionTitle}>{t('editParticipant.information')}</Text>
         
-        {!isOwner && (
+        {!canEdit && (
           <Text style={styles.ownerOnlyHint}>
             {t('editParticipant.viewOnly')}
           </Text>
@@ -132,7 +204,7 @@ export default function EditParticipantScreen({ route, navigation }: any) {
           placeholderTextColor={theme.colors.text.secondary}
           value={firstName}
           onChangeText={setFirstName}
-          editable={isOwner}
+          editable={canEdit}
         />
 
         <TextInput
@@ -141,24 +213,69 @@ export default function EditParticipantScreen({ route, navigation }: any) {
           placeholderTextColor={theme.colors.text.secondary}
           value={lastName}
           onChangeText={setLastName}
-          editable={isOwner}
+          editable={canEdit}
         />
 
-        <View style={styles.switchContainer}>
-          <View style={styles.switchLabelContainer}>
-            <Text style={styles.switchLabel}>{t('editParticipant.longTermSick')}</Text>
-            <Text style={styles.switchDescription}>
-              {t('editParticipant.longTermSickDesc')}
-            </Text>
+        <Text style={styles.sectionTitle}>{t('participantProfile.title')}</Text>
+        <Text style={styles.sectionDescription}>
+          {t('participantProfile.description')}
+        </Text>
+        <ParticipantProfileFields form={profile} onChange={setProfile} editable={canEdit} />
+
+        <Text style={styles.sectionTitle}>{t('editParticipant.leavePeriods')}</Text>
+        <Text style={styles.sectionDescription}>
+          {t('editParticipant.leavePeriodsDesc')}
+        </Text>
+
+        {leavePeriods.length === 0 && (
+          <Text style={styles.emptyText}>{t('editParticipant.noLeave')}</Text>
+        )}
+
+        {leavePeriods.map((period) => (
+          <View key={period.id} style={styles.leaveItem}>
+            <View style={styles.leaveItemContent}>
+              <Text style={styles.leaveDates}>
+                {period.start_date} → {period.end_date || t('editParticipant.leaveOngoing')}
+              </Text>
+              {!!period.reason && <Text style={styles.leaveReason}>{period.reason}</Text>}
+            </View>
+            {canEdit && (
+              <TouchableOpacity onPress={() => deleteLeavePeriod(period)}>
+                <Feather name="trash-2" size={18} color={theme.colors.danger} />
+              </TouchableOpacity>
+            )}
           </View>
-          <Switch
-            value={isLongTermSick}
-            onValueChange={setIsLongTermSick}
-            trackColor={{ false: theme.colors.disabled, true: theme.colors.success }}
-            thumbColor="#FFFFFF"
-            disabled={!isOwner}
-          />
-        </View>
+        ))}
+
+        {canEdit && (
+          <View style={styles.leaveForm}>
+            <TextInput
+              style={styles.input}
+              placeholder={t('editParticipant.leaveStartPlaceholder')}
+              placeholderTextColor={theme.colors.text.secondary}
+              value={leaveStart}
+              onChangeText={setLeaveStart}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder={t('editParticipant.leaveEndPlaceholder')}
+              placeholderTextColor={theme.colors.text.secondary}
+              value={leaveEnd}
+              onChangeText={setLeaveEnd}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder={t('editParticipant.leaveReasonPlaceholder')}
+              placeholderTextColor={theme.colors.text.secondary}
+              value={leaveReason}
+              onChangeText={setLeaveReason}
+              maxLength={500}
+            />
+            <TouchableOpacity style={styles.buttonSecondary} onPress={addLeavePeriod}>
+              <Text style={styles.buttonSecondaryText}>{t('editParticipant.addLeave')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
         <Text style={styles.sectionTitle}>{t('editParticipant.sessionsAssigned')}</Text>
         <Text style={styles.sectionDescription}>
@@ -173,7 +290,7 @@ export default function EditParticipantScreen({ route, navigation }: any) {
               selectedSessions.includes(session.id) && styles.sessionCheckboxSelected
             ]}
             onPress={() => toggleSession(session.id)}
-            disabled={!isOwner}
+            disabled={!canEdit}
           >
             <View style={[
               styles.checkbox,
@@ -184,26 +301,30 @@ export default function EditParticipantScreen({ route, navigation }: any) {
               )}
             </View>
             <Text style={styles.sessionLabel}>
-              {translateDay(session.day_of_week)} {session.start_time}-{session.end_time}
+              {formatDay(session.day_of_week)} {session.start_time}-{session.end_time}
+              {session.location ? ` · ${session.location}` : ''}
+            </Text>
+            <Text style={[styles.sessionFill, getSessionFill(session).isFull && styles.sessionFillFull]}>
+              {getSessionFill(session).label}
             </Text>
           </TouchableOpacity>
         ))}
 
-        {/* Only owner can update participant details */}
-        {isOwner && (
+        {/* Only owners and coaches can update participant details */}
+        {canEdit && (
           <TouchableOpacity style={styles.buttonPrimary} onPress={saveParticipant}>
             <Text style={styles.buttonPrimaryText}>{t('editParticipant.update')}</Text>
           </TouchableOpacity>
         )}
 
-        {/* Only owner can delete participants */}
-        {isOwner && (
-          <TouchableOpacity style={styles.buttonDanger} onPress={deleteParticipant}>
-            <Text style={styles.buttonDangerText}>{t('editParticipant.delete')}</Text>
+        {/* Only owners and coaches can archive participants */}
+        {canEdit && (
+          <TouchableOpacity style={styles.buttonDanger} onPress={archiveParticipant}>
+            <Text style={styles.buttonDangerText}>{t('editParticipant.archive')}</Text>
           </TouchableOpacity>
         )}
         
-        {!isOwner && (
+        {!canEdit && (
           <Text style={styles.ownerOnlyHint}>
             {t('editParticipant.cannotEdit')}
           </Text>
@@ -276,7 +397,7 @@ const styles = StyleSheet.create({
     height: theme.space[7] * 3,
     textAlignVertical: 'top',
   },
-  switchContainer: {
+  leaveItem: {
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
@@ -285,22 +406,31 @@ const styles = StyleSheet.create({
     borderColor: theme.colors.border,
     borderRadius: theme.borderRadius.md,
     padding: theme.space[3],
-    marginBottom: theme.space[4],
+    marginBottom: theme.space[2],
   },
-  switchLabelContainer: {
+  leaveItemContent: {
     flex: 1,
     marginRight: theme.space[3],
   },
-  switchLabel: {
+  leaveDates: {
     fontSize: theme.typography.fontSize.md,
     fontWeight: theme.typography.fontWeight.medium,
     color: theme.colors.text.primary,
-    marginBottom: theme.space[1],
   },
-  switchDescription: {
+  leaveReason: {
     fontSize: theme.typography.fontSize.sm,
     color: theme.colors.text.secondary,
-    lineHeight: 18,
+    marginTop: theme.space[1],
+  },
+  leaveForm: {
+    marginTop: theme.space[2],
+    marginBottom: theme.space[4],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    marginBottom: theme.space[3],
   },
   sessionCheckbox: {
     flexDirection: 'row',
@@ -335,12 +465,35 @@ const styles = StyleSheet.create({
     color: theme.colors.text.primary,
     flex: 1,
   },
+  sessionFill: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.space[2],
+  },
+  sessionFillFull: {
+    color: theme.colors.danger,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
   buttonPrimary: theme.components.buttonPrimary,
   buttonPrimaryText: {
     color: theme.colors.surface,
     fontSize: theme.typography.fontSize.md,
     fontWeight: theme.typography.fontWeight.semibold,
   },
+  buttonSecondary: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.md,
+    paddingVertical: theme.space[3],
+    paddingHorizontal: theme.space[4],
+    alignItems: 'center',
+  },
+  buttonSecondaryText: {
+    color: theme.colors.primary[700],
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.medium,
+  },
   buttonDanger: {
     backgroundColor: theme.colors.dangerBg,
     borderWidth: 1,
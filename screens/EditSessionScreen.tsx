@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform, Alert, ScrollView, TextInput } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { dataService, Session } from '../lib/dataService';
+import { useTranslation } from '../contexts/LanguageContext';
+import { theme } from '../lib/theme';
+import { can, getClubRole } from '../lib/permissions';
+import { IsoWeekday, isOneOffSession, isValidDateString, parseWeekday } from '../lib/sessionSchedule';
+
+// "HH:MM" to a Date the time pickers can show
+const toTimeDate = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours || 0, minutes || 0);
+};
+
+export default function EditSessionScreen({ route, navigation }: any) {
+  const { session }: { session: Session } = route.params;
+  const { t } = useTranslation();
+  const isOneOff = isOneOffSession(session);
+  const [day, setDay] = useState<IsoWeekday>(parseWeekday(session.day_of_week) ?? 1);
+  const [startTime, setStartTime] = useState(toTimeDate(session.start_time));
+  const [endTime, setEndTime] = useState(toTimeDate(session.end_time));
+  const [showStartPicker, setShowStartPicker] = useState(false);
+  const [showEndPicker, setShowEndPicker] = useState(false);
+  const [location, setLocation] = useState(session.location || '');
+  const [capacity, setCapacity] = useState(session.capacity ? String(session.capacity) : '');
+  const [fromDate, setFromDate] = useState('');
+
+  useEffect(() => {
+    checkPermission();
+  }, []);
+
+  const checkPermission = async () => {
+    try {
+      const clubData = await dataService.getClub(session.club_id);
+      if (clubData && !can(await getClubRole(clubData), 'manageSessions')) {
+        Alert.alert(
+          t('common.error'),
+          t('roles.notAllowed'),
+          [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
+        );
+      }
+    } catch (error) {
+      // Silent fail
+    }
+  };
+
+  const formatTime = (date: Date) => {
+    const hours = date.getHours().toString().padStart(2, '0');
+    const minutes = date.getMinutes().toString().padStart(2, '0');
+    return `${hours}:${minutes}`;
+  };
+
+  const onStartTimeChange = (_event: any, selectedDate?: Date) => {
+    setShowStartPicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      setStartTime(selectedDate);
+
+      // Keep the end time after the start time
+      if (endTime <= selectedDate) {
+        const newEndTime = new Date(selectedDate);
+        newEndTime.setHours(selectedDate.getHours() + 1);
+        setEndTime(newEndTime);
+      }
+    }
+  };
+
+  const onEndTimeChange = (_event: any, selectedDate?: Date) => {
+    setShowEndPicker(Platform.OS === 'ios');
+    if (selectedDate) {
+      if (selectedDate <= startTime) {
+        const adjustedEndTime = new Date(startTime);
+        adjustedEndTime.setHours(startTime.getHours() + 1);
+        setEndTime(adjustedEndTime);
+
+        Alert.alert(
+          t('common.error'),
+          t('addSession.endTimeAfterStart'),
+          [{ text: t('common.ok') }]
+        );
+      } else {
+        setEndTime(selectedDate);
+      }
+    }
+  };
+
+  const saveSession = async () => {
+    const from = fromDate.trim();
+    if (from && !isValidDateString(from)) {
+      Alert.alert(t('common.error'), t('addSession.invalidDate'));
+      return;
+    }
+
+    const maxParticipants = capacity.trim();
+    if (maxParticipants && (!/^\d+$/.test(maxParticipants) || Number(maxParticipants) === 0)) {
+      Alert.alert(t('common.error'), t('addSession.invalidCapacity'));
+      return;
+    }
+
+    try {
+      await dataService.updateSession(session, {
+        day_of_week: isOneOff ? session.day_of_week : day,
+        start_time: formatTime(startTime),
+        end_time: formatTime(endTime),
+        location: location.trim() || null,
+        capacity: maxParticipants ? Number(maxParticipants) : null,
+      }, from || undefined);
+      navigation.goBack();
+    } catch (error: any) {
+      if (error.message && error.message.includes('already exists')) {
+        Alert.alert(t('common.error'), t('editSession.alreadyExists'));
+      } else {
+        Alert.alert(t('common.error'), t('editSession.error'));
+      }
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header Container */}
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        {/* Main Header */}
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{t('editSession.title')}</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* A one-off session keeps the day of its date */}
+        {!isOneOff && (
+          <>
+            <Text style={styles.label}>{t('addSession.dayOfWeek')}</Text>
+            <View style={styles.pickerContainer}>
+              <Picker
+                selectedValue={day}
+                onValueChange={setDay}
+                style={styles.picker}
+                itemStyle={styles.pickerItem}
+              >
+                <Picker.Item label={t('days.monday')} value={1} />
+                <Picker.Item label={t('days.tuesday')} value={2} />
+                <Picker.Item label={t('days.wednesday')} value={3} />
+                <Picker.Item label={t('days.thursday')} value={4} />
+                <Picker.Item label={t('days.friday')} value={5} />
+                <Picker.Item label={t('days.saturday')} value={6} />
+                <Picker.Item label={t('days.sunday')} value={7} />
+              </Picker>
+            </View>
+          </>
+        )}
+
+        <Text style={styles.label}>{t('addSession.startTime')}</Text>
+        <TouchableOpacity onPress={() => setShowStartPicker(true)} style={styles.timeButton}>
+          <Text style={styles.timeButtonText}>{formatTime(startTime)}</Text>
+        </TouchableOpacity>
+        {showStartPicker && (
+          <DateTimePicker
+            value={startTime}
+            mode="time"
+            is24Hour={true}
+            display="default"
+            onChange={onStartTimeChange}
+          />
+        )}
+
+        <Text style={styles.label}>{t('addSession.endTime')}</Text>
+        <TouchableOpacity onPress={() => setShowEndPicker(true)} style={styles.timeButton}>
+          <Text style={styles.timeButtonText}>{formatTime(endTime)}</Text>
+        </TouchableOpacity>
+        {showEndPicker && (
+          <DateTimePicker
+            value={endTime}
+            mode="time"
+            is24Hour={true}
+            display="default"
+            onChange={onEndTimeChange}
+            minimumDate={startTime}
+          />
+        )}
+
+        <Text style={styles.label}>{t('addSession.place')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('addSession.locationPlaceholder')}
+          placeholderTextColor={theme.colors.text.secondary}
+          value={location}
+          onChangeText={setLocation}
+          maxLength={100}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder={t('addSession.capacityPlaceholder')}
+          placeholderTextColor={theme.colors.text.secondary}
+          value={capacity}
+          onChangeText={setCapacity}
+          keyboardType="number-pad"
+        />
+
+        {!isOneOff && (
+          <>
+            <Text style={styles.label}>{t('editSession.applyFrom')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t('editSession.applyFromPlaceholder')}
+              placeholderTextColor={theme.colors.text.secondary}
+              value={fromDate}
+              onChangeText={setFromDate}
+            />
+            <Text style={styles.helperText}>{t('editSession.applyFromHint')}</Text>
+          </>
+        )}
+
+        <TouchableOpacity style={styles.buttonPrimary} onPress={saveSession}>
+          <Text style={styles.buttonPrimaryText}>{t('editSession.save')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
+  },
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  mainHeader: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  label: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[2],
+  },
+  pickerContainer: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.space[4],
+  },
+  picker: {
+    color: theme.colors.text.primary,
+  },
+  pickerItem: {
+    color: theme.colors.text.primary,
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[4],
+  },
+  timeButton: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    marginBottom: theme.space[4],
+  },
+  timeButtonText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+  helperText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    marginTop: -theme.space[3],
+    marginBottom: theme.space[4],
+  },
+  buttonPrimary: theme.components.buttonPrimary,
+  buttonPrimaryText: {
+    color: theme.colors.surface,
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+});
@@ -2,13 +2,14 @@ import React, { useEffect, useState, useRef } from 'react';
 import { View, Text, FlatList, TouchableOpacity, StyleSheet } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import { dataService } from '../lib/dataService';
+import { addDays, expandSessions, getOccurrenceStart, getSessionPlaceLabel, toDateString } from '../lib/sessionSchedule';
 import { syncService } from '../lib/syncService';
 import { authManager } from '../lib/authManager';
 import { useTranslation } from '../contexts/LanguageContext';
 import { theme } from '../lib/theme';
 
 export default function HomeScreen({ navigation }: any) {
-  const { t, language, translateDay } = useTranslation();
+  const { t, language, formatDay } = useTranslation();
   const [clubs, setClubs] = useState<any[]>([]);
   const [selectedClub, setSelectedClub] = useState<any>(null);
   const [upcomingSessions, setUpcomingSessions] = useState<any[]>([]);
@@ -72,6 +73,16 @@ export default function HomeScreen({ navigation }: any) {
     };
   }, [isAuthenticated]);
 
+  // Refresh attendance counts when a co-coach records attendance
+  useEffect(() => {
+    if (!selectedClub) return;
+    return syncService.onRemoteChange((changes) => {
+      if (changes.some(change => change.clubId === selectedClub.id)) {
+        fetchSessionsForClub(selectedClub);
+      }
+    });
+  }, [selectedClub]);
+
   const checkAuth = async () => {
     const isAuth = await authManager.isAuthenticated();
     setIsAuthenticated(isAuth);
@@ -118,101 +129,58 @@ export default function HomeScreen({ navigation }: any) {
   };
 
   const fetchSessionsForClub = async (club: any) => {
-    const sessions = await dataService.getSessions(club.id);
+    const sessions = (await dataService.getSessions(club.id)).filter(s => !s.archived_at);
+    const closures = await dataService.getClosures(club.id);
     const now = new Date();
+    const today = toDateString(now);
+    const tomorrow = addDays(today, 1);
     const upcomingBasic = [];
     const weeksToGenerate = 4; // Generate 4 weeks of sessions
 
-    // Helper to get day index, handling both French and English
-    const getDayIndex = (dayName: string) => {
-      const frenchDays = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
-      const englishDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      
-      let index = frenchDays.indexOf(dayName);
-      if (index === -1) {
-        index = englishDays.indexOf(dayName);
-      }
-      return index;
-    };
-
     // First pass: generate all upcoming sessions without counts
-    for (const session of sessions) {
-      const dayIndex = getDayIndex(session.day_of_week);      
-      if (dayIndex === -1) {
-        continue; // Skip this session if day is not recognized
+    // (from yesterday: a session stays open up to 24h after it ends)
+    const occurrences = expandSessions(sessions, addDays(today, -1), addDays(today, weeksToGenerate * 7 - 1), closures);
+    for (const { session, date: sessionDate } of occurrences) {
+      const sessionEnd = getOccurrenceStart(sessionDate, session.end_time);
+
+      // Check if attendance has been recorded for this session
+      const attendance = await dataService.getAttendance(session.id, sessionDate);
+      const hasAttendance = attendance && attendance.length > 0;
+
+      // If no attendance recorded, keep open for 24h; otherwise 3h after end
+      const expirationHours = hasAttendance ? 3 : 24;
+      const expirationTime = new Date(sessionEnd.getTime() + expirationHours * 60 * 60 * 1000);
+
+      // Skip if this session's expiration window has passed
+      if (expirationTime <= now) {
+        continue;
       }
-      
-      // Generate multiple weeks of this session (including the most recent past occurrence)
-      for (let week = -1; week < weeksToGenerate; week++) {
-        // Calculate days until next occurrence of this day
-        const daysUntilNext = (dayIndex - now.getDay() + 7) % 7;
-        let nextDate = new Date(now);
-        nextDate.setDate(now.getDate() + daysUntilNext + (week * 7));
-        
-        // Parse session time
-        const [hours, minutes] = session.start_time.split(':').map(Number);
-        const sessionTime = new Date(nextDate);
-        sessionTime.setHours(hours, minutes, 0, 0);
-        
-        // Parse end time to check expiration window
-        const [endHours, endMinutes] = session.end_time.split(':').map(Number);
-        const sessionEnd = new Date(nextDate);
-        sessionEnd.setHours(endHours, endMinutes, 0, 0);
-        
-        // Check if attendance has been recorded for this session
-        const sessionDate = nextDate.toISOString().split('T')[0];
-        const attendance = await dataService.getAttendance(session.id, sessionDate);
-        const hasAttendance = attendance && attendance.length > 0;
-        
-        // If no attendance recorded, keep open for 24h; otherwise 3h after end
-        const expirationHours = hasAttendance ? 3 : 24;
-        const expirationTime = new Date(sessionEnd.getTime() + expirationHours * 60 * 60 * 1000);
-        
-        // Skip if this session's expiration window has passed
-        if (expirationTime <= now) {
-          continue;
-        }
-        
-        // Determine display date
-        let displayDate;
-        const tomorrow = new Date(now);
-        tomorrow.setDate(now.getDate() + 1);
-        tomorrow.setHours(0, 0, 0, 0);
-        const nextDateOnly = new Date(nextDate);
-        nextDateOnly.setHours(0, 0, 0, 0);
-        const todayOnly = new Date(now);
-        todayOnly.setHours(0, 0, 0, 0);
-        
-        if (nextDateOnly.getTime() === todayOnly.getTime()) {
-          displayDate = language === 'fr' ? 'Aujourd\'hui' : 'Today';
-        } else if (nextDateOnly.getTime() === tomorrow.getTime()) {
-          displayDate = language === 'fr' ? 'Demain' : 'Tomorrow';
-        } else {
-          // Include day of week in the display
-          displayDate = nextDate.toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US', { 
-            weekday: 'long',
-            day: 'numeric', 
-            month: 'long'
-          });
-          // Capitalize first letter
-          displayDate = displayDate.charAt(0).toUpperCase() + displayDate.slice(1);
-        }
-        
-        upcomingBasic.push({ 
-          ...session, 
-          club, 
-          date: nextDate.toISOString().split('T')[0], 
-          displayDate, 
-          dateObj: nextDate 
+
+      // Determine display date
+      let displayDate;
+      if (sessionDate === today) {
+        displayDate = language === 'fr' ? 'Aujourd\'hui' : 'Today';
+      } else if (sessionDate === tomorrow) {
+        displayDate = language === 'fr' ? 'Demain' : 'Tomorrow';
+      } else {
+        // Include day of week in the display
+        displayDate = getOccurrenceStart(sessionDate, session.start_time).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US', { 
+          weekday: 'long',
+          day: 'numeric', 
+          month: 'long'
         });
+        // Capitalize first letter
+        displayDate = displayDate.charAt(0).toUpperCase() + displayDate.slice(1);
       }
-    }
 
-    // Sort by date and time
-    upcomingBasic.sort((a, b) => {
-      if (a.dateObj.getTime() !== b.dateObj.getTime()) return a.dateObj.getTime() - b.dateObj.getTime();
-      return a.start_time.localeCompare(b.start_time);
-    });
+      // Occurrences come sorted by date and time
+      upcomingBasic.push({ 
+        ...session, 
+        club, 
+        date: sessionDate, 
+        displayDate
+      });
+    }
 
     // Take top 10
     const top10 = upcomingBasic.slice(0, 10);
@@ -246,7 +214,7 @@ export default function HomeScreen({ navigation }: any) {
   const getAssignedCount = async (session: any) => {
     try {
       const participants = await dataService.getParticipantsWithSessions(session.club_id);
-      return participants.filter(p => p.preferred_session_ids?.includes(session.id)).length;
+      return participants.filter(p => !p.archived_at && p.preferred_session_ids?.includes(session.id)).length;
     } catch (error) {
       return 0;
     }
@@ -330,15 +298,8 @@ export default function HomeScreen({ navigation }: any) {
           renderItem={({ item }) => {
             const now = new Date();
             
-            // Parse session date and time
-            const [startHours, startMinutes] = item.start_time.split(':').map(Number);
-            const [endHours, endMinutes] = item.end_time.split(':').map(Number);
-            
-            const sessionStart = new Date(item.date + 'T00:00:00');
-            sessionStart.setHours(startHours, startMinutes, 0, 0);
-            
-            const sessionEnd = new Date(item.date + 'T00:00:00');
-            sessionEnd.setHours(endHours, endMinutes, 0, 0);
+            const sessionStart = getOccurrenceStart(item.date, item.start_time);
+            const sessionEnd = getOccurrenceStart(item.date, item.end_time);
             
             // Session is active 2h before start
             // Expiration: 3h after end if attendance recorded, 24h if not
@@ -353,9 +314,8 @@ export default function HomeScreen({ navigation }: any) {
                 style={[styles.sessionItem, !isActive && styles.sessionItemDisabled]}
                 onPress={() => {
                   if (isActive) {
-                    const { dateObj, ...sessionWithoutDate } = item;
                     navigation.navigate('Attendance', { 
-                      session: sessionWithoutDate, 
+                      session: item, 
                       date: item.date
                     });
                   }
@@ -374,6 +334,14 @@ export default function HomeScreen({ navigation }: any) {
                         {item.start_time}-{item.end_time}
                       </Text>
                     </View>
+                    {!!getSessionPlaceLabel(item, t) && (
+                      <View style={styles.timeContainer}>
+                        <Feather name="map-pin" size={20} color={theme.colors.text.secondary} style={[!isActive && styles.iconDisabled]} />
+                        <Text style={[styles.timeText, !isActive && styles.textDisabled]}>
+                          {getSessionPlaceLabel(item, t)}
+                        </Text>
+                      </View>
+                    )}
                   </View>
                   <View style={styles.presentCountContainer}>
                     <Text style={[styles.presentCountText, !isActive && styles.textDisabled]}>
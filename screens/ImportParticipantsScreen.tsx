@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { dataService, Participant, Session } from '../lib/dataService';
+import { usageService } from '../lib/usageService';
+import { getLimitMessage, USAGE_LIMITS } from '../lib/usageLimits';
+import { getImportableRows, ImportRow, parseParticipantImport } from '../lib/participantImport';
+import { can, getClubRole } from '../lib/permissions';
+import { pickTextFile } from '../lib/fileShare';
+import { UsageBadge } from '../components/UsageBadge';
+import { useTranslation } from '../contexts/LanguageContext';
+import { theme } from '../lib/theme';
+
+export default function ImportParticipantsScreen({ route, navigation }: any) {
+  const { clubId } = route.params;
+  const { t, formatDay } = useTranslation();
+  const [text, setText] = useState('');
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [participantCount, setParticipantCount] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Parsed again once sessions and participants are loaded: a file picked earlier matches them too
+  const rows = useMemo(
+    () => parseParticipantImport(text, clubId, sessions, participants),
+    [text, clubId, sessions, participants]
+  );
+  const importable = getImportableRows(rows);
+  const remaining = Math.max(0, USAGE_LIMITS.PARTICIPANTS_PER_CLUB - participantCount);
+  const isOverLimit = importable.length > remaining;
+
+  useEffect(() => {
+    checkPermissionAndFetchData();
+  }, []);
+
+  const checkPermissionAndFetchData = async () => {
+    try {
+      const clubData = await dataService.getClub(clubId);
+      if (clubData && !can(await getClubRole(clubData), 'editParticipants')) {
+        Alert.alert(
+          t('common.error'),
+          t('roles.notAllowed'),
+          [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
+
+      const [clubSessions, clubParticipants, stats] = await Promise.all([
+        dataService.getSessions(clubId),
+        dataService.getParticipants(clubId),
+        usageService.getClubUsageStats(clubId),
+      ]);
+      setSessions(clubSessions);
+      setParticipants(clubParticipants);
+      setParticipantCount(stats.participants);
+    } catch (error) {
+      // Silent fail
+    }
+  };
+
+  const pickFile = async () => {
+    try {
+      const content = await pickTextFile(['text/csv', 'text/comma-separated-values', 'text/plain']);
+      if (content !== null) {
+        setText(content);
+      }
+    } catch (error) {
+      Alert.alert(t('common.error'), t('importParticipants.readError'));
+    }
+  };
+
+  const importParticipants = async () => {
+    if (isOverLimit) {
+      Alert.alert(t('limits.limitReached'), getLimitMessage('participants') + '\n\n' + t('limits.upgradeMessage'));
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const added = await dataService.importParticipants(clubId, importable.map(row => ({
+        first_name: row.first_name,
+        last_name: row.last_name,
+        preferred_session_ids: row.session_ids,
+      })));
+      Alert.alert(
+        t('common.success'),
+        t('importParticipants.imported').replace('{{count}}', String(added.length)),
+        [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      Alert.alert(t('common.error'), t('importParticipants.error'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const getSessionName = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    return session ? `${formatDay(session.day_of_week)} ${session.start_time}` : '';
+  };
+
+  const getRowStatus = (row: ImportRow) => {
+    if (row.errors.length > 0) {
+      return row.errors.map(error => t(error.key).replace('{{value}}', error.value ?? '')).join('\n');
+    }
+    if (row.duplicate === 'existing') return t('importParticipants.alreadyInClub');
+    if (row.duplicate === 'file') return t('importParticipants.duplicateInFile');
+    return null;
+  };
+
+  const renderRow = (row: ImportRow) => {
+    const status = getRowStatus(row);
+    return (
+      <View key={row.line} style={[styles.rowCard, !!status && styles.rowCardSkipped]}>
+        <Feather
+          name={row.errors.length > 0 ? 'alert-circle' : row.duplicate ? 'copy' : 'check-circle'}
+          size={18}
+          color={row.errors.length > 0 ? theme.colors.danger : row.duplicate ? theme.colors.text.secondary : theme.colors.success}
+        />
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowName}>
+            {t('importParticipants.line').replace('{{line}}', String(row.line))} · {row.last_name.toUpperCase()} {row.first_name}
+          </Text>
+          {row.session_ids.length > 0 && (
+            <Text style={styles.rowDetail}>{row.session_ids.map(getSessionName).join(', ')}</Text>
+          )}
+          {status && (
+            <Text style={row.errors.length > 0 ? styles.rowError : styles.rowDetail}>{status}</Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header Container */}
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        {/* Main Header */}
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{t('importParticipants.title')}</Text>
+        </View>
+      </View>
+
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer} keyboardShouldPersistTaps="handled">
+        <UsageBadge
+          current={participantCount}
+          limit={USAGE_LIMITS.PARTICIPANTS_PER_CLUB}
+          label={t('limits.participantsInClub')}
+        />
+        <Text style={styles.description}>{t('importParticipants.description')}</Text>
+
+        <TouchableOpacity style={styles.buttonSecondary} onPress={pickFile}>
+          <Feather name="file-text" size={18} color={theme.colors.primary[700]} />
+          <Text style={styles.buttonSecondaryText}>{t('importParticipants.chooseFile')}</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.label}>{t('importParticipants.orPaste')}</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          placeholder={t('importParticipants.placeholder')}
+          placeholderTextColor={theme.colors.text.secondary}
+          value={text}
+          onChangeText={setText}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        {rows.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>
+              {t('importParticipants.preview')
+                .replace('{{count}}', String(importable.length))
+                .replace('{{total}}', String(rows.length))}
+            </Text>
+            {isOverLimit && (
+              <Text style={styles.rowError}>
+                {t('importParticipants.overLimit').replace('{{count}}', String(remaining))}
+              </Text>
+            )}
+            {rows.map(renderRow)}
+
+            <TouchableOpacity
+              style={[styles.buttonPrimary, (importable.length === 0 || isOverLimit || isImporting) && styles.buttonDisabled]}
+              onPress={importParticipants}
+              disabled={importable.length === 0 || isOverLimit || isImporting}
+            >
+              <Text style={styles.buttonPrimaryText}>
+                {t('importParticipants.import').replace('{{count}}', String(importable.length))}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
+  },
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  mainHeader: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  description: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginVertical: theme.space[3],
+    lineHeight: 20,
+  },
+  label: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginTop: theme.space[4],
+    marginBottom: theme.space[2],
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[4],
+  },
+  textArea: {
+    height: theme.space[7] * 4, // 4 lines height
+    textAlignVertical: 'top',
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[2],
+  },
+  rowCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: theme.space[2],
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    marginBottom: theme.space[2],
+  },
+  rowCardSkipped: {
+    opacity: 0.7,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: theme.space[1],
+  },
+  rowName: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+  rowDetail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  rowError: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.danger,
+    marginBottom: theme.space[2],
+  },
+  buttonSecondary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.space[2],
+    borderWidth: 1,
+    borderColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+  },
+  buttonSecondaryText: {
+    color: theme.colors.primary[700],
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+  buttonPrimary: {
+    ...theme.components.buttonPrimary,
+    marginTop: theme.space[3],
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonPrimaryText: {
+    color: theme.colors.surface,
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+});
@@ -40,10 +40,10 @@ export default function JoinClubScreen({ navigation }) {
 
     setLoading(true);
     try {
-      const club = await dataService.joinClubByCode(code.trim().toUpperCase());
+      const { club, failure } = await dataService.joinClubByCode(code.trim().toUpperCase());
       
       if (!club) {
-        Alert.alert(t('common.error'), t('joinClub.invalidCodeError'));
+        Alert.alert(t('common.error'), t(`joinClub.failures.${failure}`));
         return;
       }
       
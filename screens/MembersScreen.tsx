@@ -0,0 +1,324 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { dataService, ClubMember } from '../lib/dataService';
+import { syncService } from '../lib/syncService';
+import { authManager } from '../lib/authManager';
+import { can, ClubRole, getClubRole } from '../lib/permissions';
+import { useTranslation } from '../contexts/LanguageContext';
+import { theme } from '../lib/theme';
+
+export default function MembersScreen({ route, navigation }: any) {
+  const { club, transfer } = route.params;
+  const { t, language } = useTranslation();
+  const [members, setMembers] = useState<ClubMember[]>([]);
+  const [role, setRole] = useState<ClubRole>('viewer');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  const loadMembers = async () => {
+    setLoading(true);
+    setLoadError(false);
+    try {
+      setRole(await getClubRole(club));
+      setCurrentUserId(await authManager.getUserId());
+      setMembers(await dataService.getClubMembers(club.id));
+    } catch (error) {
+      // Members are only listed online
+      setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const canManageMembers = can(role, 'manageClub');
+
+  const removeMember = (member: ClubMember) => {
+    Alert.alert(
+      t('members.remove'),
+      t('members.confirmRemove').replace('{{name}}', member.display_name || member.email),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('members.remove'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dataService.removeClubMember(club.id, member.user_id);
+              setMembers(current => current.filter(m => m.user_id !== member.user_id));
+            } catch (error) {
+              Alert.alert(t('common.error'), t('members.errorRemoving'));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const transferOwnership = (member: ClubMember) => {
+    Alert.alert(
+      t('members.transferOwnership'),
+      t('members.confirmTransfer').replace('{{name}}', member.display_name || member.email).replace('{{clubName}}', club.name),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('members.transfer'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dataService.transferClubOwnership(club.id, member.user_id);
+              // Bring the new owner and roles to this device
+              await syncService.syncNow().catch(() => false);
+              navigation.navigate('Home');
+            } catch (error: any) {
+              if (error?.message?.includes('can only own 1 club')) {
+                Alert.alert(t('common.error'), t('members.errorOwnershipLimit'));
+              } else {
+                Alert.alert(t('common.error'), t('members.errorTransferring'));
+              }
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const leaveClub = () => {
+    Alert.alert(
+      t('members.leave'),
+      t('members.confirmLeave').replace('{{clubName}}', club.name),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('members.leave'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dataService.leaveClub(club.id);
+              // Stop receiving the club's live updates
+              syncService.refreshRealtime();
+              navigation.navigate('Home');
+            } catch (error) {
+              Alert.alert(t('common.error'), t('members.errorLeaving'));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderMember = ({ item }: { item: ClubMember }) => {
+    const isCurrentUser = item.user_id === currentUserId;
+    const canReceiveOwnership = transfer && canManageMembers && item.role !== 'owner';
+    return (
+      <TouchableOpacity
+        style={[styles.memberRow, transfer && !canReceiveOwnership && styles.memberRowDisabled]}
+        onPress={() => transferOwnership(item)}
+        disabled={!canReceiveOwnership}
+      >
+        <View style={styles.memberInfo}>
+          <Text style={styles.memberName}>
+            {item.display_name || item.email}
+            {isCurrentUser ? ` (${t('members.you')})` : ''}
+          </Text>
+          {!!item.display_name && <Text style={styles.memberEmail}>{item.email}</Text>}
+          {item.joined_at && (
+            <Text style={styles.memberJoined}>
+              {t('members.joinedOn')} {new Date(item.joined_at).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US')}
+            </Text>
+          )}
+        </View>
+        <View style={styles.roleBadge}>
+          <Text style={styles.roleBadgeText}>{t(`roles.${item.role}`)}</Text>
+        </View>
+        {!transfer && canManageMembers && item.role !== 'owner' && (
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => removeMember(item)}
+            accessibilityLabel={t('members.remove')}
+          >
+            <Feather name="user-x" size={20} color={theme.colors.danger} />
+          </TouchableOpacity>
+        )}
+        {canReceiveOwnership && <Feather name="chevron-right" size={20} color={theme.colors.primary[700]} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{transfer ? t('members.transferOwnership') : t('members.title')}</Text>
+        </View>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color={theme.colors.primary[500]} />
+      ) : (
+        <FlatList
+          data={members}
+          keyExtractor={(item) => item.user_id}
+          renderItem={renderMember}
+          contentContainerStyle={styles.contentContainer}
+          ListHeaderComponent={
+            <View style={styles.listHeader}>
+              <Text style={styles.clubName}>{club.name}</Text>
+              {transfer && <Text style={styles.transferHint}>{t('members.transferHint')}</Text>}
+            </View>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>{loadError ? t('members.errorLoading') : t('members.noMembers')}</Text>
+              {loadError && (
+                <TouchableOpacity onPress={loadMembers}>
+                  <Text style={styles.retryText}>{t('members.retry')}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          }
+          ListFooterComponent={
+            !canManageMembers && !transfer ? (
+              <TouchableOpacity style={styles.buttonDanger} onPress={leaveClub}>
+                <Text style={styles.buttonDangerText}>{t('members.leave')}</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
+  },
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  mainHeader: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  loader: {
+    marginTop: theme.space[7],
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  listHeader: {
+    marginBottom: theme.space[3],
+    gap: theme.space[1],
+  },
+  clubName: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  transferHint: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.space[3],
+    marginBottom: theme.space[2],
+    gap: theme.space[2],
+  },
+  memberRowDisabled: {
+    opacity: 0.6,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  memberEmail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  memberJoined: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: theme.space[1],
+  },
+  roleBadge: {
+    backgroundColor: theme.colors.bg,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.space[2],
+    paddingVertical: theme.space[1],
+  },
+  roleBadgeText: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.primary[700],
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  removeButton: {
+    padding: theme.space[2],
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: theme.space[7],
+    gap: theme.space[3],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+  },
+  retryText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.primary[700],
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  buttonDanger: {
+    ...theme.components.buttonPrimary,
+    backgroundColor: theme.colors.danger,
+    marginTop: theme.space[5],
+  },
+  buttonDangerText: {
+    color: theme.colors.surface,
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+});
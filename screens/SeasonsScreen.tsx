@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, FlatList, TextInput } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { dataService, Season } from '../lib/dataService';
+import { can, getClubRole } from '../lib/permissions';
+import { isValidDateString, toDateString } from '../lib/sessionSchedule';
+import { theme } from '../lib/theme';
+import { useTranslation } from '../contexts/LanguageContext';
+
+export default function SeasonsScreen({ route, navigation }: any) {
+  const { t, language } = useTranslation();
+  const { club } = route.params;
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [canManageClub, setCanManageClub] = useState(false);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const today = toDateString(new Date());
+
+  useEffect(() => {
+    loadSeasons();
+    checkPermission();
+  }, []);
+
+  const checkPermission = async () => {
+    setCanManageClub(can(await getClubRole(club), 'manageClub'));
+  };
+
+  const loadSeasons = async () => {
+    setSeasons(await dataService.getSeasons(club.id));
+  };
+
+  const formatDate = (value: string) => {
+    return new Date(`${value}T12:00:00`).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US');
+  };
+
+  const getSeasonStatus = (season: Season) => {
+    if (season.end_date < today) return t('seasons.past');
+    if (season.start_date > today) return t('seasons.upcoming');
+    return t('seasons.active');
+  };
+
+  const addSeason = async () => {
+    const start = startDate.trim();
+    const end = endDate.trim();
+
+    if (!name.trim()) {
+      Alert.alert(t('common.error'), t('seasons.nameRequired'));
+      return;
+    }
+    if (!isValidDateString(start) || !isValidDateString(end) || end < start) {
+      Alert.alert(t('common.error'), t('seasons.invalidDates'));
+      return;
+    }
+    // A date belongs to one season at most: it decides the default statistics range
+    if (seasons.some(s => s.start_date <= end && start <= s.end_date)) {
+      Alert.alert(t('common.error'), t('seasons.overlap'));
+      return;
+    }
+
+    try {
+      const saved = await dataService.saveSeason({
+        id: '',
+        club_id: club.id,
+        name: name.trim(),
+        start_date: start,
+        end_date: end,
+      });
+      setSeasons(current => [saved, ...current.filter(s => s.id !== saved.id)].sort((a, b) => b.start_date.localeCompare(a.start_date)));
+      setName('');
+      setStartDate('');
+      setEndDate('');
+    } catch (error) {
+      Alert.alert(t('common.error'), t('seasons.errorSaving'));
+    }
+  };
+
+  const deleteSeason = (season: Season) => {
+    Alert.alert(
+      t('common.delete'),
+      t('seasons.confirmDelete').replace('{{name}}', season.name),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dataService.deleteSeason(season.id);
+              setSeasons(current => current.filter(s => s.id !== season.id));
+            } catch (error) {
+              Alert.alert(t('common.error'), t('seasons.errorDeleting'));
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderSeason = ({ item }: { item: Season }) => (
+    <View style={styles.seasonCard}>
+      <View style={styles.seasonInfo}>
+        <Text style={styles.seasonTitle}>{item.name}</Text>
+        <Text style={styles.seasonDetail}>
+          {t('seasons.range').replace('{{start}}', formatDate(item.start_date)).replace('{{end}}', formatDate(item.end_date))}
+        </Text>
+        <Text style={styles.seasonDetail}>{getSeasonStatus(item)}</Text>
+      </View>
+      {canManageClub && (
+        <TouchableOpacity style={styles.iconButton} onPress={() => deleteSeason(item)} accessibilityLabel={t('common.delete')}>
+          <Feather name="trash-2" size={20} color={theme.colors.danger} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderNewSeason = () => (
+    <View style={styles.newSeason}>
+      <Text style={styles.description}>{t('seasons.description')}</Text>
+
+      {canManageClub && (
+        <>
+          <Text style={styles.optionLabel}>{t('seasons.newSeason')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={t('seasons.namePlaceholder')}
+            placeholderTextColor={theme.colors.text.secondary}
+            value={name}
+            onChangeText={setName}
+            maxLength={100}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder={t('seasons.startDatePlaceholder')}
+            placeholderTextColor={theme.colors.text.secondary}
+            value={startDate}
+            onChangeText={setStartDate}
+          />
+          <TextInput
+            style={styles.input}
+            placeholder={t('seasons.endDatePlaceholder')}
+            placeholderTextColor={theme.colors.text.secondary}
+            value={endDate}
+            onChangeText={setEndDate}
+          />
+
+          <TouchableOpacity style={styles.button} onPress={addSeason}>
+            <Text style={styles.buttonText}>{t('seasons.add')}</Text>
+          </TouchableOpacity>
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>{t('seasons.list')}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{t('seasons.title')}</Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={seasons}
+        keyExtractor={(item) => item.id}
+        renderItem={renderSeason}
+        contentContainerStyle={styles.contentContainer}
+        ListHeaderComponent={renderNewSeason()}
+        ListEmptyComponent={<Text style={styles.emptyText}>{t('seasons.noSeasons')}</Text>}
+        keyboardShouldPersistTaps="handled"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
+  },
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  mainHeader: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  newSeason: {
+    marginBottom: theme.space[2],
+  },
+  description: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.space[1],
+  },
+  optionLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginTop: theme.space[3],
+    marginBottom: theme.space[2],
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[3],
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[2],
+  },
+  button: {
+    ...theme.components.buttonPrimary,
+    marginTop: theme.space[3],
+  },
+  buttonText: {
+    color: theme.colors.surface,
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.space[5],
+  },
+  seasonCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.space[3],
+    marginBottom: theme.space[2],
+  },
+  seasonInfo: {
+    flex: 1,
+    gap: theme.space[1],
+  },
+  seasonTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  seasonDetail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  iconButton: {
+    padding: theme.space[2],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    paddingVertical: theme.space[5],
+  },
+});
@@ -0,0 +1,347 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Alert } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { dataService, Session, Participant, AttendanceRecord, Closure } from '../lib/dataService';
+import { resolveStatusRules } from '../lib/attendanceStatus';
+import { compareSessions, getSessionDatesLabel, toDateString } from '../lib/sessionSchedule';
+import { getPeriodRange, getSessionReport, SessionReport, StatsPeriod } from '../lib/stats';
+import { buildRegisterHtml, getMonthRange, getRegisterDates } from '../lib/register';
+import { printHtml, shareFile, sharePdf, toFileNamePart } from '../lib/fileShare';
+import { theme } from '../lib/theme';
+import { useTranslation } from '../contexts/LanguageContext';
+
+interface SessionReportItem {
+  session: Session;
+  assignedCount: number;
+  report: SessionReport;
+}
+
+export default function SessionReportScreen({ route, navigation }: any) {
+  const { t, language, formatDay } = useTranslation();
+  const { club, period }: { club: any; period: StatsPeriod } = route.params;
+  const [items, setItems] = useState<SessionReportItem[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const today = toDateString(new Date());
+  const range = getPeriodRange(period, today);
+  // Month of the printable register (YYYY-MM): the last month of the period
+  const [registerMonth, setRegisterMonth] = useState((range && range.to < today ? range.to : today).slice(0, 7));
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const loadReport = async () => {
+    try {
+      const sessions = (await dataService.getSessions(club.id)).sort(compareSessions);
+      const clubParticipants = await dataService.getParticipantsWithSessions(club.id);
+      const clubAttendance = await dataService.getClubAttendance(club.id);
+      const clubClosures = await dataService.getClosures(club.id);
+      const rules = resolveStatusRules(club.status_rules);
+
+      const reports = sessions.map(session => {
+        // Current assignments of the participants still in the club
+        const assignedCount = clubParticipants.filter(p => !p.archived_at && p.preferred_session_ids?.includes(session.id)).length;
+        return {
+          session,
+          assignedCount,
+          report: getSessionReport(session, clubAttendance, assignedCount, clubClosures, rules, range, today),
+        };
+      });
+      setParticipants(clubParticipants);
+      setAttendance(clubAttendance);
+      setClosures(clubClosures);
+      // Archived sessions only show when they ran in the period
+      setItems(reports.filter(item => !item.session.archived_at || item.report.dates.some(d => d.taken)));
+    } catch (error) {
+      // Silent fail
+    }
+  };
+
+  const formatDate = (value: string) => {
+    return new Date(`${value}T12:00:00`).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US');
+  };
+
+  const getPeriodLabel = (): string => {
+    if (!range) return t('stats.allTime');
+    const dates = t('stats.range').replace('{{start}}', formatDate(range.from)).replace('{{end}}', formatDate(range.to));
+    return period.kind === 'season' ? `${period.season.name} (${dates})` : dates;
+  };
+
+  const getSessionLabel = (session: Session): string => {
+    const dates = getSessionDatesLabel(session, t);
+    return `${formatDay(session.day_of_week)} ${session.start_time}-${session.end_time}${dates ? ` ${dates}` : ''}`;
+  };
+
+  const getMonthLabel = (month: string) => {
+    return new Date(`${month}-01T12:00:00`).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US', {
+      month: 'long',
+      year: 'numeric',
+    });
+  };
+
+  const shiftRegisterMonth = (months: number) => {
+    const date = new Date(`${registerMonth}-01T12:00:00`);
+    date.setMonth(date.getMonth() + months);
+    setRegisterMonth(toDateString(date).slice(0, 7));
+  };
+
+  // Monthly register of a session: assigned participants plus anyone recorded that month
+  const getRegisterHtml = (session: Session) => {
+    const { from, to } = getMonthRange(registerMonth);
+    const records = attendance.filter(a => a.session_id === session.id && from <= a.date && a.date <= to);
+    const recordedIds = new Set(records.map(a => a.participant_id));
+    return buildRegisterHtml({
+      clubName: club.name,
+      sessionLabel: getSessionLabel(session),
+      monthLabel: getMonthLabel(registerMonth),
+      dates: getRegisterDates(session, registerMonth, records, closures),
+      participants: participants.filter(p =>
+        recordedIds.has(p.id) || (!p.archived_at && p.preferred_session_ids?.includes(session.id))
+      ),
+      attendance: records,
+      rules: resolveStatusRules(club.status_rules),
+      t,
+    });
+  };
+
+  const exportRegister = (session: Session) => {
+    const run = (action: () => Promise<void>) => async () => {
+      try {
+        await action();
+      } catch (error) {
+        Alert.alert(t('common.error'), t('register.error'));
+      }
+    };
+    const fileName = `${toFileNamePart(club.name)}_${registerMonth}_${toFileNamePart(getSessionLabel(session))}.html`;
+
+    Alert.alert(t('register.title'), getMonthLabel(registerMonth), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('register.print'), onPress: run(() => printHtml(getRegisterHtml(session))) },
+      { text: t('register.pdf'), onPress: run(() => sharePdf(getRegisterHtml(session))) },
+      { text: t('register.html'), onPress: run(() => shareFile(fileName, getRegisterHtml(session), 'text/html')) },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: SessionReportItem }) => {
+    const { session, assignedCount, report } = item;
+    const expanded = expandedId === session.id;
+
+    return (
+      <TouchableOpacity
+        style={styles.sessionCard}
+        onPress={() => setExpandedId(expanded ? null : session.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.sessionHeader}>
+          <View style={styles.sessionInfo}>
+            <Text style={[styles.sessionTitle, !!session.archived_at && styles.archivedText]}>{getSessionLabel(session)}</Text>
+            <Text style={styles.sessionDetail}>
+              {t('sessionReport.averageTurnout').replace(
+                '{{count}}',
+                report.averageTurnout !== null ? report.averageTurnout.toFixed(1) : '-'
+              )}
+            </Text>
+            <Text style={styles.sessionDetail}>
+              {report.fillRate !== null
+                ? t('sessionReport.fillRate')
+                    .replace('{{rate}}', report.fillRate.toFixed(0))
+                    .replace('{{count}}', String(assignedCount))
+                : t('sessionReport.noAssigned')}
+            </Text>
+            {report.missingDates.length > 0 && (
+              <Text style={styles.missingText}>
+                {t('sessionReport.notTaken').replace('{{count}}', String(report.missingDates.length))}
+              </Text>
+            )}
+          </View>
+          <Feather name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={theme.colors.text.secondary} />
+        </View>
+
+        {expanded && (
+          <View style={styles.dateList}>
+            {report.dates.length === 0 && (
+              <Text style={styles.sessionDetail}>{t('sessionReport.noDates')}</Text>
+            )}
+            {report.dates.map(date => (
+              <View key={date.date} style={styles.dateRow}>
+                <Text style={styles.dateText}>{formatDate(date.date)}</Text>
+                {date.taken ? (
+                  <Text style={styles.dateText}>
+                    {t('sessionReport.present').replace('{{count}}', String(date.present))}
+                  </Text>
+                ) : (
+                  <Text style={styles.missingText}>{t('sessionReport.notTakenOn')}</Text>
+                )}
+              </View>
+            ))}
+            <View style={styles.registerRow}>
+              <TouchableOpacity onPress={() => shiftRegisterMonth(-1)} style={styles.iconButton}>
+                <Feather name="chevron-left" size={20} color={theme.colors.primary[700]} />
+              </TouchableOpacity>
+              <Text style={styles.registerMonth}>{getMonthLabel(registerMonth)}</Text>
+              <TouchableOpacity onPress={() => shiftRegisterMonth(1)} style={styles.iconButton}>
+                <Feather name="chevron-right" size={20} color={theme.colors.primary[700]} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => exportRegister(session)}
+                style={styles.iconButton}
+                accessibilityLabel={t('register.title')}
+              >
+                <Feather name="printer" size={20} color={theme.colors.primary[700]} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{t('sessionReport.title')}</Text>
+        </View>
+      </View>
+
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.session.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.contentContainer}
+        ListHeaderComponent={
+          <View style={styles.listHeader}>
+            <Text style={styles.clubTitle}>{club.name}</Text>
+            <Text style={styles.periodNote}>{getPeriodLabel()}</Text>
+          </View>
+        }
+        ListEmptyComponent={<Text style={styles.emptyText}>{t('club.noSessions')}</Text>}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
+  },
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
+  },
+  mainHeader: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  listHeader: {
+    marginBottom: theme.space[2],
+  },
+  clubTitle: {
+    fontSize: theme.typography.fontSize.xl,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.space[2],
+  },
+  periodNote: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+  },
+  sessionCard: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.space[3],
+    marginBottom: theme.space[2],
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sessionInfo: {
+    flex: 1,
+    gap: theme.space[1],
+  },
+  sessionTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  archivedText: {
+    color: theme.colors.text.secondary,
+  },
+  sessionDetail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  missingText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.danger,
+  },
+  dateList: {
+    marginTop: theme.space[3],
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+    paddingTop: theme.space[2],
+    gap: theme.space[1],
+  },
+  dateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  dateText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+  },
+  registerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.space[2],
+  },
+  registerMonth: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  iconButton: {
+    padding: theme.space[2],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    paddingVertical: theme.space[5],
+  },
+});
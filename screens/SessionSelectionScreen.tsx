@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { View, Text, FlatList, StyleSheet, TouchableOpacity } from 'react-native';
-import { dataService } from '../lib/dataService';
+import { dataService, Session } from '../lib/dataService';
+import { addDays, expandSessions, getOccurrenceStart, toDateString } from '../lib/sessionSchedule';
 import { theme } from '../lib/theme';
 import { useTranslation } from '../contexts/LanguageContext';
 
@@ -8,61 +9,23 @@ export default function SessionSelectionScreen({ route, navigation }) {
   const { t, language } = useTranslation();
   const { club } = route.params;
   const [sessions, setSessions] = useState([]);
-  const [upcomingSessions, setUpcomingSessions] = useState([]);
+  const [upcomingSessions, setUpcomingSessions] = useState<Array<Session & { date: string }>>([]);
 
   useEffect(() => {
     fetchSessions();
   }, []);
 
   const fetchSessions = async () => {
-    const data = await dataService.getSessions(club.id);
+    const data = (await dataService.getSessions(club.id)).filter(s => !s.archived_at);
+    const closures = await dataService.getClosures(club.id);
     setSessions(data);
-    // Generate upcoming sessions
+    // Generate upcoming sessions, the ones that haven't started yet
     const now = new Date();
-    const upcoming = [];
+    const today = toDateString(now);
     const weeksToGenerate = 4; // Generate 4 weeks of sessions
-    
-    // Helper to get day index, handling both French and English
-    const getDayIndex = (dayName: string) => {
-      const frenchDays = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
-      const englishDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      
-      let index = frenchDays.indexOf(dayName);
-      if (index === -1) {
-        index = englishDays.indexOf(dayName);
-      }
-      return index;
-    };
-    
-    data.forEach(session => {
-      // Find next occurrences (multiple weeks)
-      const dayIndex = getDayIndex(session.day_of_week);
-      
-      if (dayIndex === -1) {
-        return; // Skip this session
-      }
-      
-      for (let week = 0; week < weeksToGenerate; week++) {
-        const daysUntilNext = (dayIndex - now.getDay() + 7) % 7;
-        let nextDate = new Date(now);
-        nextDate.setDate(now.getDate() + daysUntilNext + (week * 7));
-        
-        // Parse session time and check if it has passed
-        const [hours, minutes] = session.start_time.split(':').map(Number);
-        const sessionTime = new Date(nextDate);
-        sessionTime.setHours(hours, minutes, 0, 0);
-        
-        // Skip if session has already passed
-        if (sessionTime <= now) {
-          continue;
-        }
-        
-        upcoming.push({ ...session, date: nextDate.toISOString().split('T')[0] });
-      }
-    });
-    
-    // Sort by date
-    upcoming.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const upcoming = expandSessions(data, today, addDays(today, weeksToGenerate * 7 - 1), closures)
+      .filter(({ session, date }) => getOccurrenceStart(date, session.start_time) > now)
+      .map(({ session, date }) => ({ ...session, date }));
     
     setUpcomingSessions(upcoming);
   };
@@ -94,8 +57,8 @@ export default function SessionSelectionScreen({ route, navigation }) {
               <TouchableOpacity
                 style={styles.sessionItem}
                 onPress={() => {
-                  const { dateObj, ...sessionWithoutDate } = item;
-                  navigation.navigate('Attendance', { session: sessionWithoutDate, date: item.date });
+                  const { date, ...session } = item;
+                  navigation.navigate('Attendance', { session, date });
                 }}
               >
                 <View style={styles.sessionInfo}>
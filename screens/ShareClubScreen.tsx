@@ -1,36 +1,62 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Share, Alert } from 'react-native';
-import { syncService } from '../lib/syncService';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Share, Alert, FlatList } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { dataService } from '../lib/dataService';
+import { ClubInvite, getInviteStatus } from '../lib/invites';
 import { theme } from '../lib/theme';
 import { useTranslation } from '../contexts/LanguageContext';
 
+const INVITE_ROLES: ClubInvite['role'][] = ['coach', 'viewer'];
+const EXPIRY_DAYS: (number | null)[] = [null, 1, 7, 30];
+const MAX_USES: (number | null)[] = [null, 1, 5, 10];
+
 export default function ShareClubScreen({ route, navigation }: any) {
-  const { t } = useTranslation();
+  const { t, language } = useTranslation();
   const { clubId, clubName } = route.params;
-  const [shareCode, setShareCode] = useState<string | null>(null);
+  const [invites, setInvites] = useState<ClubInvite[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [role, setRole] = useState<ClubInvite['role']>('coach');
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
 
   useEffect(() => {
-    loadShareCode();
+    loadInvites();
   }, [clubId]);
 
-  const loadShareCode = async () => {
+  const loadInvites = async () => {
+    setLoading(true);
+    setLoadError(false);
     try {
-      const code = await syncService.getClubShareCode(clubId);
-      setShareCode(code);
+      setInvites(await dataService.getClubInvites(clubId));
     } catch (error) {
-      Alert.alert(t('common.error'), t('share.errorLoading'));
+      // Invites are only managed online
+      setLoadError(true);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleShare = async () => {
-    if (!shareCode) return;
+  const createInvite = async () => {
+    setCreating(true);
+    try {
+      const expiresAt = expiryDays === null
+        ? null
+        : new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString();
+      const invite = await dataService.createClubInvite(clubId, { role, expires_at: expiresAt, max_uses: maxUses });
+      setInvites(current => [invite, ...current]);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('share.errorCreating'));
+    } finally {
+      setCreating(false);
+    }
+  };
 
+  const shareInvite = async (invite: ClubInvite) => {
     try {
       await Share.share({
-        message: `${t('share.shareMessage').replace('{{clubName}}', clubName).replace('{{code}}', shareCode)}`,
+        message: `${t('share.shareMessage').replace('{{clubName}}', clubName).replace('{{code}}', invite.code)}`,
         title: `${t('share.shareMessageTitle').replace('{{clubName}}', clubName)}`,
       });
     } catch (error) {
@@ -38,86 +64,138 @@ export default function ShareClubScreen({ route, navigation }: any) {
     }
   };
 
-  const copyToClipboard = () => {
-    if (!shareCode) return;
-    
-    // Note: On React Native, you'd use @react-native-clipboard/clipboard
-    // For now, just show an alert
+  const revokeInvite = (invite: ClubInvite) => {
     Alert.alert(
-      t('share.copied'),
-      `${t('share.shareCode')}: ${shareCode}\n\n${t('share.copiedMessage')}`
+      t('share.revoke'),
+      t('share.confirmRevoke').replace('{{code}}', invite.code),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('share.revoke'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await dataService.revokeClubInvite(invite.id);
+              const revokedAt = new Date().toISOString();
+              setInvites(current => current.map(i => i.id === invite.id ? { ...i, revoked_at: revokedAt } : i));
+            } catch (error) {
+              Alert.alert(t('common.error'), t('share.errorRevoking'));
+            }
+          }
+        }
+      ]
     );
   };
 
-  if (loading) {
-    return (
-      <View style={styles.container}>
-        <ActivityIndicator size="large" color={theme.colors.primary[500]} />
-      </View>
-    );
-  }
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString(language === 'fr' ? 'fr-FR' : 'en-US');
+  };
 
-  if (!shareCode) {
-    return (
-      <View style={styles.container}>
-        <Text style={styles.errorText}>{t('share.codeNotAvailable')}</Text>
+  const renderOptions = <T,>(options: T[], selected: T, onSelect: (value: T) => void, label: (value: T) => string) => (
+    <View style={styles.options}>
+      {options.map(option => (
         <TouchableOpacity
-          style={styles.button}
-          onPress={() => navigation.goBack()}
+          key={String(option)}
+          style={[styles.option, option === selected && styles.optionSelected]}
+          onPress={() => onSelect(option)}
         >
-          <Text style={styles.buttonText}>{t('common.back')}</Text>
+          <Text style={[styles.optionText, option === selected && styles.optionTextSelected]}>{label(option)}</Text>
         </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderInvite = ({ item }: { item: ClubInvite }) => {
+    const status = getInviteStatus(item);
+    const isActive = status === 'active';
+    return (
+      <View style={[styles.inviteCard, !isActive && styles.inviteCardInactive]}>
+        <View style={styles.inviteInfo}>
+          <View style={styles.inviteTitleRow}>
+            <Text style={styles.inviteCode}>{item.code}</Text>
+            <Text style={[styles.statusBadge, isActive && styles.statusBadgeActive]}>{t(`share.statuses.${status}`)}</Text>
+          </View>
+          <Text style={styles.inviteDetail}>{t(`roles.${item.role}`)}</Text>
+          <Text style={styles.inviteDetail}>
+            {item.expires_at ? t('share.expiresOn').replace('{{date}}', formatDate(item.expires_at)) : t('share.noExpiry')}
+          </Text>
+          <Text style={styles.inviteDetail}>
+            {item.max_uses === null
+              ? t('share.usesUnlimited').replace('{{count}}', String(item.use_count))
+              : t('share.uses').replace('{{count}}', String(item.use_count)).replace('{{max}}', String(item.max_uses))}
+          </Text>
+        </View>
+        {isActive && (
+          <View style={styles.inviteActions}>
+            <TouchableOpacity style={styles.iconButton} onPress={() => shareInvite(item)} accessibilityLabel={t('share.shareButton')}>
+              <Feather name="share-2" size={20} color={theme.colors.primary[700]} />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => revokeInvite(item)} accessibilityLabel={t('share.revoke')}>
+              <Feather name="slash" size={20} color={theme.colors.danger} />
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     );
-  }
+  };
 
-  return (
-    <View style={styles.container}>
-      <Text style={styles.title}>{t('share.title')}</Text>
+  const renderNewInvite = () => (
+    <View style={styles.newInvite}>
       <Text style={styles.subtitle}>{clubName}</Text>
+      <Text style={styles.description}>{t('share.description')}</Text>
 
-      <View style={styles.codeContainer}>
-        <Text style={styles.codeLabel}>{t('share.shareCode')}</Text>
-        <View style={styles.codeBox}>
-          <Text style={styles.codeText}>{shareCode}</Text>
-        </View>
-        <Text style={styles.codeHint}>
-          {t('share.description')}
-        </Text>
-      </View>
+      <Text style={styles.optionLabel}>{t('share.role')}</Text>
+      {renderOptions(INVITE_ROLES, role, setRole, value => t(`roles.${value}`))}
 
-      <TouchableOpacity
-        style={styles.button}
-        onPress={handleShare}
-      >
-        <Text style={styles.buttonText}>{t('share.shareButton')}</Text>
-      </TouchableOpacity>
+      <Text style={styles.optionLabel}>{t('share.expiry')}</Text>
+      {renderOptions(EXPIRY_DAYS, expiryDays, setExpiryDays, value =>
+        value === null ? t('share.noExpiry') : t('share.days').replace('{{count}}', String(value))
+      )}
+
+      <Text style={styles.optionLabel}>{t('share.maxUses')}</Text>
+      {renderOptions(MAX_USES, maxUses, setMaxUses, value => value === null ? t('share.unlimited') : String(value))}
 
       <TouchableOpacity
-        style={[styles.button, styles.buttonSecondary]}
-        onPress={copyToClipboard}
+        style={[styles.button, creating && styles.buttonDisabled]}
+        onPress={createInvite}
+        disabled={creating}
       >
-        <Text style={[styles.buttonText, styles.buttonTextSecondary]}>
-          {t('share.copyButton')}
-        </Text>
+        <Text style={styles.buttonText}>{t('share.createInvite')}</Text>
       </TouchableOpacity>
 
-      <View style={styles.infoBox}>
-        <Text style={styles.infoTitle}>ℹ️ Comment ça marche?</Text>
-        <Text style={styles.infoText}>
-          • Partagez ce code avec d'autres enseignants{'\n'}
-          • Ils pourront voir et modifier les présences{'\n'}
-          • Toutes les modifications se synchronisent automatiquement{'\n'}
-          • Les données sont partagées en temps réel (30 secondes)
-        </Text>
+      {invites.length > 0 && <Text style={styles.sectionTitle}>{t('share.invites')}</Text>}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerContainer}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.smallBackButton}>
+          <Text style={styles.smallBackButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+        <View style={styles.mainHeader}>
+          <Text style={styles.headerTitle}>{t('share.title')}</Text>
+        </View>
       </View>
 
-      <TouchableOpacity
-        style={styles.backButton}
-        onPress={() => navigation.goBack()}
-      >
-        <Text style={styles.backButtonText}>← Retour</Text>
-      </TouchableOpacity>
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color={theme.colors.primary[500]} />
+      ) : loadError ? (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyText}>{t('share.errorLoading')}</Text>
+          <TouchableOpacity onPress={loadInvites}>
+            <Text style={styles.retryText}>{t('share.retry')}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={invites}
+          keyExtractor={(item) => item.id}
+          renderItem={renderInvite}
+          contentContainerStyle={styles.contentContainer}
+          ListHeaderComponent={renderNewInvite()}
+        />
+      )}
     </View>
   );
 }
@@ -126,105 +204,165 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: theme.colors.bg,
-    padding: 20,
-    justifyContent: 'center',
   },
-  title: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: theme.colors.text.primary,
-    marginBottom: 10,
-    textAlign: 'center',
+  headerContainer: {
+    position: 'relative',
+    backgroundColor: theme.colors.primary[900],
+    paddingHorizontal: theme.space[4],
+    paddingVertical: theme.space[3],
+    paddingBottom: theme.space[2],
   },
-  subtitle: {
-    fontSize: 18,
-    color: '#666',
-    marginBottom: 40,
-    textAlign: 'center',
+  smallBackButton: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    padding: theme.space[2],
+  },
+  smallBackButtonText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: '#FFFFFF',
+    fontWeight: theme.typography.fontWeight.medium,
   },
-  codeContainer: {
+  mainHeader: {
     alignItems: 'center',
-    marginBottom: 40,
-  },
-  codeLabel: {
-    fontSize: 16,
-    color: '#666',
-    marginBottom: 15,
-  },
-  codeBox: {
-    backgroundColor: '#f8f9fa',
-    borderWidth: 2,
-    borderColor: theme.colors.primary[500],
-    borderRadius: 12,
-    paddingVertical: 20,
-    paddingHorizontal: 40,
-    marginBottom: 10,
-  },
-  codeText: {
-    fontSize: 36,
-    fontWeight: 'bold',
-    color: theme.colors.primary[500],
-    letterSpacing: 8,
-    fontFamily: 'monospace',
-  },
-  codeHint: {
-    fontSize: 14,
-    color: '#999',
+  },
+  headerTitle: {
     textAlign: 'center',
-    paddingHorizontal: 20,
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: '#FFFFFF',
+  },
+  loader: {
+    marginTop: theme.space[7],
+  },
+  contentContainer: {
+    padding: theme.space[4],
+  },
+  newInvite: {
+    marginBottom: theme.space[2],
+  },
+  subtitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  description: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.space[1],
+    marginBottom: theme.space[3],
+  },
+  optionLabel: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginTop: theme.space[3],
+    marginBottom: theme.space[2],
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.space[2],
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.space[3],
+    paddingVertical: theme.space[2],
+  },
+  optionSelected: {
+    backgroundColor: theme.colors.primary[700],
+  },
+  optionText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.primary[700],
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
   },
   button: {
-    backgroundColor: theme.colors.primary[500],
-    padding: 16,
-    borderRadius: 8,
-    alignItems: 'center',
-    marginBottom: 15,
+    ...theme.components.buttonPrimary,
+    marginTop: theme.space[5],
   },
-  buttonSecondary: {
-    backgroundColor: '#fff',
-    borderWidth: 2,
-    borderColor: theme.colors.primary[500],
+  buttonDisabled: {
+    opacity: 0.6,
   },
   buttonText: {
-    color: '#fff',
-    fontSize: 18,
-    fontWeight: '600',
-  },
-  buttonTextSecondary: {
-    color: theme.colors.primary[500],
-  },
-  infoBox: {
-    backgroundColor: '#f0f8ff',
-    padding: 20,
-    borderRadius: 12,
-    borderLeftWidth: 4,
-    borderLeftColor: theme.colors.primary[500],
-    marginTop: 20,
-  },
-  infoTitle: {
-    fontSize: 16,
-    fontWeight: '600',
+    color: theme.colors.surface,
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
+  },
+  sectionTitle: {
+    fontSize: theme.typography.fontSize.md,
+    fontWeight: theme.typography.fontWeight.semibold,
     color: theme.colors.text.primary,
-    marginBottom: 10,
+    marginTop: theme.space[5],
   },
-  infoText: {
-    fontSize: 14,
-    color: '#555',
-    lineHeight: 22,
+  inviteCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: theme.space[3],
+    marginBottom: theme.space[2],
   },
-  backButton: {
-    padding: 16,
+  inviteCardInactive: {
+    opacity: 0.6,
+  },
+  inviteInfo: {
+    flex: 1,
+    gap: theme.space[1],
+  },
+  inviteTitleRow: {
+    flexDirection: 'row',
     alignItems: 'center',
-    marginTop: 10,
+    gap: theme.space[2],
   },
-  backButtonText: {
-    color: '#666',
-    fontSize: 16,
+  inviteCode: {
+    fontSize: theme.typography.fontSize.lg,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    letterSpacing: 2,
   },
-  errorText: {
-    fontSize: 18,
-    color: '#d32f2f',
+  statusBadge: {
+    fontSize: theme.typography.fontSize.xs,
+    color: theme.colors.text.secondary,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.space[2],
+    paddingVertical: 2,
+  },
+  statusBadgeActive: {
+    color: theme.colors.success,
+    borderColor: theme.colors.success,
+  },
+  inviteDetail: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  inviteActions: {
+    flexDirection: 'row',
+  },
+  iconButton: {
+    padding: theme.space[2],
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: theme.space[7],
+    gap: theme.space[3],
+  },
+  emptyText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.text.secondary,
     textAlign: 'center',
-    marginBottom: 20,
+  },
+  retryText: {
+    fontSize: theme.typography.fontSize.md,
+    color: theme.colors.primary[700],
+    fontWeight: theme.typography.fontWeight.medium,
   },
 });
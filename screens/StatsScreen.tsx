@@ -1,47 +1,124 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, FlatList, StyleSheet, TouchableOpacity, Share, Alert, Modal, ScrollView } from 'react-native';
+import { View, Text, FlatList, StyleSheet, TouchableOpacity, Share, Alert, Modal, ScrollView, TextInput } from 'react-native';
 import { Feather } from '@expo/vector-icons';
-import { dataService, Session, AttendanceRecord } from '../lib/dataService';
+import { dataService, Session, AttendanceRecord, LeavePeriod, Closure, Season, getSeasonOn, isDateInLeavePeriods } from '../lib/dataService';
 import { useTranslation } from '../contexts/LanguageContext';
+import { can, getClubRole } from '../lib/permissions';
+import { compareSessions, getSessionDatesLabel, isOccurrenceCancelled, isValidDateString, toDateString } from '../lib/sessionSchedule';
+import { getPeriodRange, isDateInRange, StatsPeriod } from '../lib/stats';
+import { buildAttendanceMatrixCsv, buildSummaryCsv } from '../lib/csvExport';
+import { shareFile, toFileNamePart } from '../lib/fileShare';
 import { theme } from '../lib/theme';
+import {
+  ATTENDANCE_STATUSES,
+  AttendanceStatus,
+  STATUS_OUTCOMES,
+  StatusRules,
+  getAttendanceStatus,
+  resolveStatusRules,
+} from '../lib/attendanceStatus';
 
 export default function StatsScreen({ route, navigation }: any) {
-  const { club } = route.params;
-  const { t } = useTranslation();
+  const { club: initialClub } = route.params;
+  const [club, setClub] = useState<any>(initialClub);
+  const { t, formatDay } = useTranslation();
   const [stats, setStats] = useState<any[]>([]);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [allAttendance, setAllAttendance] = useState<AttendanceRecord[]>([]);
+  const [leavePeriods, setLeavePeriods] = useState<LeavePeriod[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
   const [selectedParticipant, setSelectedParticipant] = useState<any>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const [statusRules, setStatusRules] = useState<StatusRules>(resolveStatusRules(initialClub.status_rules));
+  const [rulesVisible, setRulesVisible] = useState(false);
+  const [canManageClub, setCanManageClub] = useState(false);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [period, setPeriod] = useState<StatsPeriod>({ kind: 'all' });
+  const [sessionFilter, setSessionFilter] = useState<string | null>(null); // null: all sessions
+  const [customVisible, setCustomVisible] = useState(false);
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const today = toDateString(new Date());
+  const activeSeason = getSeasonOn(seasons, today);
+  const isPastSeason = period.kind === 'season' && period.season.end_date < today;
 
   useEffect(() => {
-    fetchStats();
+    loadFilters();
+    checkPermission();
   }, []);
 
-  const fetchStats = async () => {
+  // The season running today is shown first
+  const loadFilters = async () => {
+    const clubSeasons = await dataService.getSeasons(club.id);
+    const currentSeason = getSeasonOn(clubSeasons, today);
+    const initialPeriod: StatsPeriod = currentSeason ? { kind: 'season', season: currentSeason } : { kind: 'all' };
+    setSeasons(clubSeasons);
+    setPeriod(initialPeriod);
+    await fetchStats(statusRules, initialPeriod, null);
+  };
+
+  const applyFilters = async (nextPeriod: StatsPeriod, nextSession: string | null) => {
+    setPeriod(nextPeriod);
+    setSessionFilter(nextSession);
+    await fetchStats(statusRules, nextPeriod, nextSession);
+  };
+
+  const applyCustomRange = async () => {
+    const from = customFrom.trim();
+    const to = customTo.trim() || today;
+
+    if (!isValidDateString(from) || !isValidDateString(to) || to < from) {
+      Alert.alert(t('common.error'), t('stats.invalidRange'));
+      return;
+    }
+    setCustomVisible(false);
+    await applyFilters({ kind: 'custom', from, to }, sessionFilter);
+  };
+
+  const checkPermission = async () => {
+    // If not logged in, allow editing (local-only mode)
+    setCanManageClub(can(await getClubRole(club), 'manageClub'));
+  };
+
+  const fetchStats = async (
+    rules: StatusRules = statusRules,
+    statsPeriod: StatsPeriod = period,
+    sessionId: string | null = sessionFilter
+  ) => {
     const participants = await dataService.getParticipantsWithSessions(club.id);
-    const fetchedAttendance = await dataService.getAllAttendance();
-    const fetchedSessions = await dataService.getSessions(club.id);
+    const range = getPeriodRange(statsPeriod, today);
+    const fetchedAttendance = (await dataService.getClubAttendance(club.id))
+      .filter(a => isDateInRange(a.date, range) && (!sessionId || a.session_id === sessionId));
+    const fetchedSessions = (await dataService.getSessions(club.id)).sort(compareSessions);
+    const fetchedLeavePeriods = await dataService.getLeavePeriods(club.id);
+    const fetchedClosures = await dataService.getClosures(club.id);
     
     // Store for use in modal
     setSessions(fetchedSessions);
     setAllAttendance(fetchedAttendance);
+    setLeavePeriods(fetchedLeavePeriods);
+    setClosures(fetchedClosures);
 
-    const participantStats = participants
-      .filter(p => !p.is_long_term_sick) // Exclude long-term sick participants
-      .map(p => {
-      const pAttendance = fetchedAttendance.filter(a => a.participant_id === p.id);
+    const participantStats = participants.map(p => {
+      const pAttendance = getCountedAttendance(p.id, fetchedAttendance, fetchedLeavePeriods, fetchedClosures);
       
-      // Separate attendance into assigned and bonus sessions
-      const assignedSessionIds = p.preferred_session_ids || [];
+      // Separate attendance into assigned and bonus sessions (of the filtered session only)
+      const assignedSessionIds = (p.preferred_session_ids || []).filter((id: string) => !sessionId || id === sessionId);
       let presentInAssigned = 0;
       let totalAssigned = 0;
       let bonusPresences = 0;
 
       pAttendance.forEach(a => {
         const isAssignedSession = assignedSessionIds.includes(a.session_id);
+        const outcome = rules[getAttendanceStatus(a)];
         
-        if (a.present) {
+        // Excused records count neither as presence nor as missed session
+        if (outcome === 'excused') return;
+        
+        if (isAssignedSession) {
+          totalAssigned++;
+        }
+        if (outcome === 'attended') {
           if (isAssignedSession) {
             presentInAssigned++;
           } else {
@@ -50,9 +127,6 @@ export default function StatsScreen({ route, navigation }: any) {
         }
       });
 
-      // Count total assigned sessions (all attendance records for assigned sessions)
-      totalAssigned = pAttendance.filter(a => assignedSessionIds.includes(a.session_id)).length;
-
       // Bonus presences can compensate for missed assigned sessions
       const bonusUsed = Math.min(bonusPresences, totalAssigned - presentInAssigned);
       const effectivePresent = presentInAssigned + bonusUsed;
@@ -70,6 +144,7 @@ export default function StatsScreen({ route, navigation }: any) {
         bonusRemaining,
         effectivePresent,
         percentage,
+        assignedSessionIds,
         hasAssignedSessions: assignedSessionIds.length > 0
       };
     });
@@ -91,23 +166,38 @@ export default function StatsScreen({ route, navigation }: any) {
     setStats(participantStats);
   };
 
+  // Attendance records of a participant, minus the ones falling inside a leave period
+  // or taken on a cancelled session or closure date (the session wasn't expected to happen)
+  const getCountedAttendance = (participantId: string, attendance: AttendanceRecord[], periods: LeavePeriod[], clubClosures: Closure[]) => {
+    const pLeavePeriods = periods.filter(l => l.participant_id === participantId);
+    return attendance.filter(a =>
+      a.participant_id === participantId
+      && !isDateInLeavePeriods(a.date, pLeavePeriods)
+      && !isOccurrenceCancelled(clubClosures, a.session_id, a.date)
+    );
+  };
+
+  // Tapping a status cycles through attended / excused / missed
+  const cycleStatusRule = async (status: AttendanceStatus) => {
+    const current = STATUS_OUTCOMES.indexOf(statusRules[status]);
+    const next = STATUS_OUTCOMES[(current + 1) % STATUS_OUTCOMES.length] ?? 'attended';
+    const updatedRules = { ...statusRules, [status]: next };
+    
+    setStatusRules(updatedRules);
+    const updatedClub = await dataService.saveClub({ ...club, status_rules: updatedRules });
+    setClub(updatedClub);
+    await fetchStats(updatedRules);
+  };
+
   const getSessionLabel = (session: Session): string => {
-    const dayNames: { [key: string]: string } = {
-      monday: t('days.monday'),
-      tuesday: t('days.tuesday'),
-      wednesday: t('days.wednesday'),
-      thursday: t('days.thursday'),
-      friday: t('days.friday'),
-      saturday: t('days.saturday'),
-      sunday: t('days.sunday'),
-    };
-    const dayName = dayNames[session.day_of_week.toLowerCase()] || session.day_of_week;
-    return `${dayName} ${session.start_time}-${session.end_time}`;
+    const dayName = formatDay(session.day_of_week);
+    const dates = getSessionDatesLabel(session, t);
+    return `${dayName} ${session.start_time}-${session.end_time}${dates ? ` ${dates}` : ''}`;
   };
 
   const getParticipantSessionDetails = (participant: any) => {
-    const pAttendance = allAttendance.filter(a => a.participant_id === participant.id);
-    const assignedSessionIds = participant.preferred_session_ids || [];
+    const pAttendance = getCountedAttendance(participant.id, allAttendance, leavePeriods, closures);
+    const assignedSessionIds = participant.assignedSessionIds || [];
     
     // Group attendance by session with date
     const attendanceBySessionDate: { [key: string]: AttendanceRecord } = {};
@@ -125,14 +215,15 @@ export default function StatsScreen({ route, navigation }: any) {
       if (!session) return;
       
       const isAssigned = assignedSessionIds.includes(a.session_id);
+      const outcome = statusRules[getAttendanceStatus(a)];
       
-      if (a.present) {
+      if (outcome === 'attended') {
         attendedSessions.push({
           session,
           date: a.date,
           isBonus: !isAssigned,
         });
-      } else if (isAssigned) {
+      } else if (outcome === 'missed' && isAssigned) {
         // Only show missed for assigned sessions
         missedSessions.push({
           session,
@@ -157,6 +248,30 @@ export default function StatsScreen({ route, navigation }: any) {
     });
   };
 
+  // "2024-2025 (1 Sept 2024 - 30 June 2025)", "1 Oct 2024 - 19 Oct 2024", "All time"
+  const getPeriodLabel = (): string => {
+    const range = getPeriodRange(period, today);
+    if (!range) return t('stats.allTime');
+    const dates = t('stats.range').replace('{{start}}', formatDate(range.from)).replace('{{end}}', formatDate(range.to));
+    return period.kind === 'season' ? `${period.season.name} (${dates})` : dates;
+  };
+
+  const isPeriodSelected = (option: StatsPeriod): boolean => {
+    if (option.kind !== period.kind) return false;
+    return option.kind !== 'season' || (period.kind === 'season' && option.season.id === period.season.id);
+  };
+
+  const getPeriodOptions = (): { period: StatsPeriod; label: string }[] => [
+    { period: { kind: 'month' }, label: t('stats.thisMonth') },
+    { period: { kind: 'last30' }, label: t('stats.last30Days') },
+    // The running season first, earlier (and upcoming) ones by name
+    ...(activeSeason ? [{ period: { kind: 'season', season: activeSeason } as StatsPeriod, label: t('stats.thisSeason') }] : []),
+    ...seasons
+      .filter(season => season.id !== activeSeason?.id)
+      .map(season => ({ period: { kind: 'season', season } as StatsPeriod, label: season.name })),
+    { period: { kind: 'all' }, label: t('stats.allTime') },
+  ];
+
   const openParticipantDetails = (participant: any) => {
     setSelectedParticipant(participant);
     setModalVisible(true);
@@ -171,14 +286,12 @@ export default function StatsScreen({ route, navigation }: any) {
     try {
       let message = `${t('stats.shareTitle')}\n${club.name}\n\n`;
       
-      if (club.stats_reset_date) {
-        const resetDate = new Date(club.stats_reset_date).toLocaleDateString('fr-FR', {
-          day: 'numeric',
-          month: 'long',
-          year: 'numeric'
-        });
-        message += `${t('stats.sharePeriod')} ${resetDate}\n\n`;
+      message += `${t('stats.sharePeriod')} ${getPeriodLabel()}\n`;
+      const filteredSession = sessions.find(s => s.id === sessionFilter);
+      if (filteredSession) {
+        message += `${t('stats.shareSession')} ${getSessionLabel(filteredSession)}\n`;
       }
+      message += `\n`;
       
       message += `${t('stats.shareRanking')}\n`;
       message += `${'='.repeat(12)}\n\n`;
@@ -220,6 +333,32 @@ export default function StatsScreen({ route, navigation }: any) {
     }
   };
 
+  // CSV files for the federation: a summary per participant or the participants × dates matrix
+  const exportCsv = () => {
+    Alert.alert(t('export.title'), t('export.chooseFile'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('export.summary'), onPress: () => shareCsv('summary') },
+      { text: t('export.matrix'), onPress: () => shareCsv('matrix') },
+    ]);
+  };
+
+  const shareCsv = async (kind: 'summary' | 'matrix') => {
+    try {
+      const range = getPeriodRange(period, today);
+      const fileName = [
+        toFileNamePart(club.name),
+        range ? `${range.from}_${range.to}` : 'all',
+        kind,
+      ].join('_') + '.csv';
+      const csv = kind === 'summary'
+        ? buildSummaryCsv(stats, t)
+        : buildAttendanceMatrixCsv(stats, sessions, allAttendance, t);
+      await shareFile(fileName, csv, 'text/csv');
+    } catch (error) {
+      Alert.alert(t('common.error'), t('export.error'));
+    }
+  };
+
   return (
     <View style={styles.container}>
       {/* Header Container */}
@@ -231,15 +370,108 @@ export default function StatsScreen({ route, navigation }: any) {
         <View style={styles.mainHeader}>
           <Text style={styles.headerTitle}>{t('stats.title')}</Text>
         </View>
-        <TouchableOpacity onPress={shareStats} style={styles.shareButton}>
-          <Feather name="share-2" size={20} color="#FFFFFF" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={exportCsv} style={styles.headerButton} accessibilityLabel={t('export.title')}>
+            <Feather name="download" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={shareStats} style={styles.headerButton}>
+            <Feather name="share-2" size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <View style={styles.container}>
         <View style={styles.contentHeader}>
           <Text style={styles.clubTitle}>{club.name}</Text>
-          <Text style={styles.sectionTitle}>{t('stats.attendanceRate')}</Text>
+          {/* Filter bar: period, then session */}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterOptions}>
+            {getPeriodOptions().map(option => {
+              const selected = !customVisible && isPeriodSelected(option.period);
+              return (
+                <TouchableOpacity
+                  key={option.period.kind === 'season' ? option.period.season.id : option.period.kind}
+                  style={[styles.filterOption, selected && styles.filterOptionSelected]}
+                  onPress={() => {
+                    setCustomVisible(false);
+                    applyFilters(option.period, sessionFilter);
+                  }}
+                >
+                  <Text style={[styles.filterOptionText, selected && styles.filterOptionTextSelected]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={[styles.filterOption, (customVisible || period.kind === 'custom') && styles.filterOptionSelected]}
+              onPress={() => setCustomVisible(true)}
+            >
+              <Text style={[styles.filterOptionText, (customVisible || period.kind === 'custom') && styles.filterOptionTextSelected]}>
+                {t('stats.custom')}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
+          {customVisible && (
+            <View style={styles.customRange}>
+              <TextInput
+                style={styles.customInput}
+                placeholder={t('stats.fromPlaceholder')}
+                placeholderTextColor={theme.colors.text.secondary}
+                value={customFrom}
+                onChangeText={setCustomFrom}
+              />
+              <TextInput
+                style={styles.customInput}
+                placeholder={t('stats.toPlaceholder')}
+                placeholderTextColor={theme.colors.text.secondary}
+                value={customTo}
+                onChangeText={setCustomTo}
+              />
+              <TouchableOpacity style={styles.customApply} onPress={applyCustomRange} accessibilityLabel={t('stats.apply')}>
+                <Feather name="check" size={20} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+          )}
+          {sessions.length > 1 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterOptions}>
+              {[null, ...sessions.map(s => s.id)].map(id => {
+                const session = sessions.find(s => s.id === id);
+                const selected = id === sessionFilter;
+                return (
+                  <TouchableOpacity
+                    key={id ?? 'all'}
+                    style={[styles.filterOption, selected && styles.filterOptionSelected]}
+                    onPress={() => applyFilters(period, id)}
+                  >
+                    <Text style={[styles.filterOptionText, selected && styles.filterOptionTextSelected]}>
+                      {session ? `${formatDay(session.day_of_week)} ${session.start_time}` : t('stats.allSessions')}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+          <Text style={styles.periodNote}>
+            {period.kind === 'season' && isPastSeason
+              ? t('stats.seasonEnded').replace('{{date}}', formatDate(period.season.end_date))
+              : getPeriodLabel()}
+          </Text>
+          <View style={styles.sectionTitleRow}>
+            <Text style={styles.sectionTitle}>{t('stats.attendanceRate')}</Text>
+            <View style={styles.sectionActions}>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('SessionReport', { club, period })}
+                style={styles.rulesButton}
+                accessibilityLabel={t('stats.bySession')}
+              >
+                <Feather name="calendar" size={18} color={theme.colors.primary[700]} />
+              </TouchableOpacity>
+              {/* Past seasons are browsed read-only */}
+              {canManageClub && !isPastSeason && (
+                <TouchableOpacity onPress={() => setRulesVisible(true)} style={styles.rulesButton}>
+                  <Feather name="sliders" size={18} color={theme.colors.primary[700]} />
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
         </View>
         <FlatList
           contentContainerStyle={styles.listContent}
@@ -380,6 +612,38 @@ export default function StatsScreen({ route, navigation }: any) {
             </View>
           </View>
         </Modal>
+
+        {/* Status Rules Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={rulesVisible}
+          onRequestClose={() => setRulesVisible(false)}
+        >
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>{t('stats.statusRules')}</Text>
+                <TouchableOpacity onPress={() => setRulesVisible(false)} style={styles.closeButton}>
+                  <Feather name="x" size={24} color={theme.colors.text.primary} />
+                </TouchableOpacity>
+              </View>
+              <ScrollView style={styles.modalBody}>
+                <Text style={styles.noSessionsText}>{t('stats.statusRulesDesc')}</Text>
+                {ATTENDANCE_STATUSES.map(status => (
+                  <TouchableOpacity
+                    key={status}
+                    style={styles.sessionRow}
+                    onPress={() => cycleStatusRule(status)}
+                  >
+                    <Text style={styles.sessionName}>{t(`attendance.statuses.${status}`)}</Text>
+                    <Text style={styles.ruleOutcome}>{t(`stats.outcomes.${statusRules[status]}`)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          </View>
+        </Modal>
       </View>
     </View>
   );
@@ -404,10 +668,13 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: theme.typography.fontWeight.medium,
   },
-  shareButton: {
+  headerActions: {
     position: 'absolute',
     top: 0,
     right: 0,
+    flexDirection: 'row',
+  },
+  headerButton: {
     padding: theme.space[2],
   },
   mainHeader: {
@@ -503,6 +770,70 @@ const styles = StyleSheet.create({
     color: theme.colors.text.secondary,
     marginTop: theme.space[6],
   },
+  filterOptions: {
+    gap: theme.space[2],
+    marginBottom: theme.space[2],
+  },
+  filterOption: {
+    borderWidth: 1,
+    borderColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.space[3],
+    paddingVertical: theme.space[2],
+  },
+  filterOptionSelected: {
+    backgroundColor: theme.colors.primary[700],
+  },
+  filterOptionText: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.primary[700],
+  },
+  filterOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  customRange: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.space[2],
+    marginBottom: theme.space[2],
+  },
+  customInput: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[2],
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.primary,
+  },
+  customApply: {
+    backgroundColor: theme.colors.primary[700],
+    borderRadius: theme.borderRadius.md,
+    padding: theme.space[2],
+  },
+  periodNote: {
+    fontSize: theme.typography.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    marginBottom: theme.space[2],
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionActions: {
+    flexDirection: 'row',
+  },
+  rulesButton: {
+    padding: theme.space[2],
+  },
+  ruleOutcome: {
+    fontSize: theme.typography.fontSize.sm,
+    fontWeight: theme.typography.fontWeight.semibold,
+    color: theme.colors.primary[700],
+  },
   // Modal styles
   modalOverlay: {
     flex: 1,
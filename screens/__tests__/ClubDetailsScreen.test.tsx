@@ -14,7 +14,7 @@ jest.mock('../../lib/syncService', () => ({
 jest.mock('../../contexts/LanguageContext', () => ({
   useTranslation: () => ({
     t: (key: string) => key,
-    translateDay: (day: string) => day,
+    formatDay: (day: number | string) => String(day),
   }),
 }));
 
@@ -53,6 +53,10 @@ describe('ClubDetailsScreen - Owner Permissions', () => {
     jest.clearAllMocks();
     (dataService.getSessions as jest.Mock).mockResolvedValue([]);
     (dataService.getParticipantsWithSessions as jest.Mock).mockResolvedValue([]);
+    (dataService.getLeavePeriods as jest.Mock).mockResolvedValue([]);
+    (dataService.getConflicts as jest.Mock).mockResolvedValue([]);
+    (dataService.getSeasons as jest.Mock).mockResolvedValue([]);
+    (dataService.getMemberRole as jest.Mock).mockResolvedValue(null);
   });
 
   describe('Owner can delete club', () => {
@@ -143,6 +147,85 @@ describe('ClubDetailsScreen - Owner Permissions', () => {
     });
   });
 
+  describe('Sync Conflicts', () => {
+    it('should let the owner open the conflicts to review', async () => {
+      (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
+      (authManager.getUserId as jest.Mock).mockResolvedValue(mockOwnerId);
+      (dataService.getConflicts as jest.Mock).mockResolvedValue([{ id: 'participants|p1|first_name' }]);
+
+      const { findByText } = render(
+        <ClubDetailsScreen
+          route={{ params: { club: mockClubOwned } }}
+          navigation={mockNavigation}
+        />
+      );
+
+      fireEvent.press(await findByText('conflicts.toReview'));
+
+      expect(dataService.getConflicts).toHaveBeenCalledWith('club-123');
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('Conflicts', { club: mockClubOwned });
+    });
+
+    it('should not show conflicts to non-owners', async () => {
+      (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
+      (authManager.getUserId as jest.Mock).mockResolvedValue(mockNonOwnerId);
+      (dataService.getConflicts as jest.Mock).mockResolvedValue([{ id: 'participants|p1|first_name' }]);
+
+      const { queryByText } = render(
+        <ClubDetailsScreen
+          route={{ params: { club: mockClubOwned } }}
+          navigation={mockNavigation}
+        />
+      );
+
+      await waitFor(() => {
+        expect(dataService.getConflicts).toHaveBeenCalled();
+      });
+
+      expect(queryByText('conflicts.toReview')).toBeNull();
+    });
+  });
+
+  describe('Club Roles', () => {
+    it('should let coaches manage participants but not the club', async () => {
+      (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
+      (authManager.getUserId as jest.Mock).mockResolvedValue(mockNonOwnerId);
+      (dataService.getMemberRole as jest.Mock).mockResolvedValue('coach');
+
+      const { findByText, queryByText } = render(
+        <ClubDetailsScreen
+          route={{ params: { club: mockClubOwned } }}
+          navigation={mockNavigation}
+        />
+      );
+
+      fireEvent.press(await findByText('common.add'));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('AddParticipant', { clubId: 'club-123' });
+      expect(queryByText('club.deleteClub')).toBeNull();
+    });
+
+    it('should keep the club read-only for viewers', async () => {
+      (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
+      (authManager.getUserId as jest.Mock).mockResolvedValue(mockNonOwnerId);
+      (dataService.getMemberRole as jest.Mock).mockResolvedValue('viewer');
+
+      const { queryByText } = render(
+        <ClubDetailsScreen
+          route={{ params: { club: mockClubOwned } }}
+          navigation={mockNavigation}
+        />
+      );
+
+      await waitFor(() => {
+        expect(dataService.getMemberRole).toHaveBeenCalledWith('club-123');
+      });
+
+      expect(queryByText('common.add')).toBeNull();
+      expect(queryByText('club.deleteClub')).toBeNull();
+    });
+  });
+
   describe('Session Management', () => {
     it('should display sessions for the club', async () => {
       (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
@@ -152,14 +235,14 @@ describe('ClubDetailsScreen - Owner Permissions', () => {
         {
           id: 'session-1',
           club_id: 'club-123',
-          day_of_week: 'Monday',
+          day_of_week: 1,
           start_time: '10:00',
           end_time: '11:00',
         },
         {
           id: 'session-2',
           club_id: 'club-123',
-          day_of_week: 'Wednesday',
+          day_of_week: 3,
           start_time: '14:00',
           end_time: '15:00',
         },
@@ -189,7 +272,7 @@ describe('ClubDetailsScreen - Owner Permissions', () => {
         {
           id: 'session-1',
           club_id: 'club-123',
-          day_of_week: 'Monday',
+          day_of_week: 1,
           start_time: '10:00',
           end_time: '11:00',
         },
@@ -210,6 +293,31 @@ describe('ClubDetailsScreen - Owner Permissions', () => {
 
       // Test would include pressing delete on session and confirming
     });
+
+    it('should archive a session on long press', async () => {
+      (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
+      (authManager.getUserId as jest.Mock).mockResolvedValue(mockOwnerId);
+      (dataService.archiveSession as jest.Mock).mockResolvedValue(undefined);
+      (dataService.getSessions as jest.Mock).mockResolvedValue([
+        { id: 'session-1', club_id: 'club-123', day_of_week: 1, start_time: '10:00', end_time: '11:00' },
+      ]);
+
+      const { findByText } = render(
+        <ClubDetailsScreen
+          route={{ params: { club: mockClubOwned } }}
+          navigation={mockNavigation}
+        />
+      );
+
+      fireEvent(await findByText('1 10:00-11:00'), 'longPress');
+
+      const [title, , buttons] = (Alert.alert as jest.Mock).mock.calls[0];
+      expect(title).toBe('club.archiveSession');
+      await buttons[1].onPress();
+
+      expect(dataService.archiveSession).toHaveBeenCalledWith('session-1');
+      expect(dataService.deleteSession).not.toHaveBeenCalled();
+    });
   });
 
   describe('Participant Management', () => {
@@ -247,24 +355,50 @@ describe('ClubDetailsScreen - Owner Permissions', () => {
         expect(dataService.getParticipantsWithSessions).toHaveBeenCalledWith('club-123');
       });
     });
-  });
 
-  describe('Share Code Display', () => {
-    it('should display share code for the club', async () => {
+    it('should list archived participants apart and restore them', async () => {
       (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
       (authManager.getUserId as jest.Mock).mockResolvedValue(mockOwnerId);
+      (dataService.restoreParticipant as jest.Mock).mockResolvedValue(undefined);
+      (dataService.getParticipantsWithSessions as jest.Mock).mockResolvedValue([
+        { id: 'participant-1', club_id: 'club-123', first_name: 'John', last_name: 'Doe' },
+        { id: 'participant-2', club_id: 'club-123', first_name: 'Jane', last_name: 'Smith', archived_at: '2024-06-30T10:00:00.000Z' },
+      ]);
 
-      render(
+      const { findByText } = render(
         <ClubDetailsScreen
           route={{ params: { club: mockClubOwned } }}
           navigation={mockNavigation}
         />
       );
 
-      // Share code should be visible to owner
+      expect(await findByText('club.archived')).toBeTruthy();
+      fireEvent.press(await findByText('SMITH Jane'));
+
       await waitFor(() => {
-        expect(mockClubOwned.share_code).toBe('ABC123');
+        expect(dataService.restoreParticipant).toHaveBeenCalledWith('participant-2');
       });
+      // Active participants still open their edit screen
+      fireEvent.press(await findByText('DOE John'));
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('EditParticipant', expect.objectContaining({ clubId: 'club-123' }));
+    });
+  });
+
+  describe('Invite Codes', () => {
+    it('should let the owner open the invite codes of the club', async () => {
+      (authManager.isAuthenticated as jest.Mock).mockResolvedValue(true);
+      (authManager.getUserId as jest.Mock).mockResolvedValue(mockOwnerId);
+
+      const { findByText } = render(
+        <ClubDetailsScreen
+          route={{ params: { club: mockClubOwned } }}
+          navigation={mockNavigation}
+        />
+      );
+
+      fireEvent.press(await findByText('club.inviteCodes'));
+
+      expect(mockNavigation.navigate).toHaveBeenCalledWith('ShareClub', { clubId: 'club-123', clubName: mockClubOwned.name });
     });
   });
 });
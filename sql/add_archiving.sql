@@ -0,0 +1,10 @@
+-- ============================================
+-- ARCHIVED SESSIONS AND PARTICIPANTS
+-- ============================================
+-- Sessions the club stopped running and participants who left are archived
+-- instead of deleted, so their attendance stays in the statistics:
+-- - archived_at: when the row was archived, null while it is active
+-- ============================================
+
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS archived_at timestamp with time zone;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS archived_at timestamp with time zone;
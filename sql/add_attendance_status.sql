@@ -0,0 +1,56 @@
+-- ============================================
+-- ATTENDANCE STATUSES
+-- ============================================
+-- Adds a status to attendance records so absences can be told apart:
+-- present, absent, excused, late, left_early, injured_watching
+--
+-- The present boolean is kept for older app versions:
+-- - rows written with only `present` get their status derived from it
+-- - rows written with a status get `present` derived from it
+-- ============================================
+
+ALTER TABLE public.attendance ADD COLUMN IF NOT EXISTS status text;
+
+-- Backfill from the legacy boolean
+UPDATE public.attendance
+SET status = CASE WHEN present THEN 'present' ELSE 'absent' END
+WHERE status IS NULL;
+
+ALTER TABLE public.attendance ALTER COLUMN status SET NOT NULL;
+
+ALTER TABLE public.attendance DROP CONSTRAINT IF EXISTS attendance_status_check;
+ALTER TABLE public.attendance ADD CONSTRAINT attendance_status_check
+  CHECK (status IN ('present', 'absent', 'excused', 'late', 'left_early', 'injured_watching'));
+
+-- ============================================
+-- FUNCTION: Keep status and present consistent
+-- ============================================
+CREATE OR REPLACE FUNCTION sync_attendance_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status IS NULL THEN
+    -- Older client: only sent the boolean
+    NEW.status := CASE WHEN NEW.present THEN 'present' ELSE 'absent' END;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status
+        AND NEW.present IS DISTINCT FROM OLD.present THEN
+    -- Older client: toggled the boolean without touching the status
+    NEW.status := CASE WHEN NEW.present THEN 'present' ELSE 'absent' END;
+  END IF;
+
+  NEW.present := NEW.status NOT IN ('absent', 'excused');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_attendance_status_trigger ON public.attendance;
+CREATE TRIGGER sync_attendance_status_trigger
+  BEFORE INSERT OR UPDATE ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_attendance_status();
+
+-- ============================================
+-- Club-level rules for the statistics
+-- ============================================
+-- JSON object mapping a status to 'attended', 'excused' or 'missed'.
+-- NULL means the app defaults are used.
+ALTER TABLE public.clubs ADD COLUMN IF NOT EXISTS status_rules jsonb;
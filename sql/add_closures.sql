@@ -0,0 +1,56 @@
+-- ============================================
+-- CLOSURES
+-- ============================================
+-- Dates a club doesn't train:
+-- - session_id set: a single cancelled occurrence of that session
+-- - session_id null: the whole club is closed (school holidays...)
+--
+-- Occurrences covered by a closure are hidden from the upcoming sessions
+-- and their attendance records don't count in the statistics.
+-- Requires add_incremental_sync.sql and add_club_roles.sql.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.closures (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  club_id uuid NOT NULL,
+  session_id uuid,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT closures_pkey PRIMARY KEY (id),
+  CONSTRAINT closures_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id) ON DELETE CASCADE,
+  CONSTRAINT closures_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.sessions(id) ON DELETE CASCADE,
+  CONSTRAINT closures_dates_check CHECK (end_date >= start_date),
+  CONSTRAINT closures_reason_length CHECK (reason IS NULL OR LENGTH(reason) <= 500)
+);
+
+-- Cursor queries: WHERE club_id = ? AND updated_at >= ?
+CREATE INDEX IF NOT EXISTS closures_club_id_updated_at_idx ON public.closures (club_id, updated_at);
+
+DROP TRIGGER IF EXISTS update_closures_updated_at ON public.closures;
+CREATE TRIGGER update_closures_updated_at
+    BEFORE INSERT OR UPDATE ON public.closures
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS record_closures_tombstone ON public.closures;
+CREATE TRIGGER record_closures_tombstone
+  AFTER DELETE ON public.closures
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone();
+
+-- ============================================
+-- RLS: members read, owner writes (like sessions)
+-- ============================================
+ALTER TABLE public.closures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view closures" ON public.closures;
+CREATE POLICY "Members can view closures" ON public.closures
+  FOR SELECT USING (has_club_role(club_id, ARRAY['owner', 'coach', 'viewer']));
+
+DROP POLICY IF EXISTS "Owners can manage closures" ON public.closures;
+CREATE POLICY "Owners can manage closures" ON public.closures
+  FOR ALL USING (has_club_role(club_id, ARRAY['owner']))
+  WITH CHECK (has_club_role(club_id, ARRAY['owner']));
@@ -0,0 +1,175 @@
+-- ============================================
+-- CLUB INVITE CODES
+-- ============================================
+-- Replaces the permanent clubs.share_code: a club can have several
+-- invite codes, each with an optional expiry date, an optional number
+-- of uses, the role given to the members who join with it, and a
+-- revoke action. Existing share codes become unlimited coach invites.
+--
+-- Joining now only goes through join_club_by_code(): users can no
+-- longer add themselves to club_members directly.
+--
+-- Requires add_rate_limits.sql and add_club_roles.sql.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.club_invites (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  club_id uuid NOT NULL,
+  code character varying NOT NULL UNIQUE,
+  role text NOT NULL DEFAULT 'coach' CHECK (role IN ('coach', 'viewer')),
+  expires_at timestamp with time zone,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamp with time zone,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT club_invites_pkey PRIMARY KEY (id),
+  CONSTRAINT club_invites_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_club_invites_club_id ON public.club_invites(club_id);
+
+-- Keep the codes already shared working
+INSERT INTO public.club_invites (club_id, code, role, created_by)
+SELECT id, share_code, 'coach', owner_id
+FROM public.clubs
+WHERE share_code IS NOT NULL
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- RLS: only the owner sees and manages the invites of a club
+-- ============================================
+ALTER TABLE public.club_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can view invites" ON public.club_invites;
+CREATE POLICY "Owners can view invites" ON public.club_invites
+  FOR SELECT USING (has_club_role(club_id, ARRAY['owner']));
+
+-- Revoking is an update, codes are created by create_club_invite()
+DROP POLICY IF EXISTS "Owners can revoke invites" ON public.club_invites;
+CREATE POLICY "Owners can revoke invites" ON public.club_invites
+  FOR UPDATE USING (has_club_role(club_id, ARRAY['owner']))
+  WITH CHECK (has_club_role(club_id, ARRAY['owner']));
+
+-- Members: only the owner adds rows directly (its own, when uploading a club)
+DROP POLICY IF EXISTS "Users can join clubs" ON public.club_members;
+CREATE POLICY "Owners can add themselves" ON public.club_members
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND has_club_role(club_id, ARRAY['owner']));
+
+DROP FUNCTION IF EXISTS get_club_by_share_code(text);
+
+-- ============================================
+-- FUNCTION: Create an invite code (owner only)
+-- ============================================
+CREATE OR REPLACE FUNCTION create_club_invite(
+  p_club_id uuid,
+  p_role text DEFAULT 'coach',
+  p_expires_at timestamp with time zone DEFAULT NULL,
+  p_max_uses integer DEFAULT NULL
+)
+RETURNS SETOF club_invites AS $$
+DECLARE
+  v_code text;
+BEGIN
+  IF NOT has_club_role(p_club_id, ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Only the owner can invite members';
+  END IF;
+
+  -- Same format as the old share codes, never reused
+  LOOP
+    v_code := generate_share_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM club_invites WHERE code = v_code)
+      AND NOT EXISTS (SELECT 1 FROM clubs WHERE share_code = v_code);
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO club_invites (club_id, code, role, expires_at, max_uses)
+  VALUES (p_club_id, v_code, p_role, p_expires_at, p_max_uses)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- FUNCTION: Join a club with an invite code
+-- ============================================
+-- status is one of: joined, already_member, invalid, revoked, expired,
+-- exhausted, membership_limit. The club is only returned when joined
+-- or already a member. Must match JOIN_FAILURES in lib/invites.ts.
+-- ============================================
+CREATE OR REPLACE FUNCTION join_club_by_code(p_code text)
+RETURNS TABLE (
+  status text,
+  club_id uuid,
+  club_name text,
+  club_description text,
+  owner_id uuid,
+  role text,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone
+) AS $$
+DECLARE
+  v_invite club_invites%ROWTYPE;
+  v_role text;
+  v_status text := 'already_member';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the invite so two users can't take its last use
+  SELECT * INTO v_invite FROM club_invites WHERE code = upper(p_code) FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'invalid'::text, NULL::uuid, NULL::text, NULL::text, NULL::uuid, NULL::text, NULL::timestamptz, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  v_role := get_club_role(v_invite.club_id);
+
+  IF v_role IS NULL THEN
+    IF v_invite.revoked_at IS NOT NULL THEN
+      RETURN QUERY SELECT 'revoked'::text, NULL::uuid, NULL::text, NULL::text, NULL::uuid, NULL::text, NULL::timestamptz, NULL::timestamptz;
+      RETURN;
+    END IF;
+
+    IF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+      RETURN QUERY SELECT 'expired'::text, NULL::uuid, NULL::text, NULL::text, NULL::uuid, NULL::text, NULL::timestamptz, NULL::timestamptz;
+      RETURN;
+    END IF;
+
+    IF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+      RETURN QUERY SELECT 'exhausted'::text, NULL::uuid, NULL::text, NULL::text, NULL::uuid, NULL::text, NULL::timestamptz, NULL::timestamptz;
+      RETURN;
+    END IF;
+
+    -- Same limit as enforce_club_memberships_limit, reported instead of raised
+    IF (SELECT COUNT(*) FROM club_members WHERE user_id = auth.uid()) >= club_memberships_limit() THEN
+      RETURN QUERY SELECT 'membership_limit'::text, NULL::uuid, NULL::text, NULL::text, NULL::uuid, NULL::text, NULL::timestamptz, NULL::timestamptz;
+      RETURN;
+    END IF;
+
+    INSERT INTO club_members (club_id, user_id, role)
+    VALUES (v_invite.club_id, auth.uid(), v_invite.role);
+
+    UPDATE club_invites SET use_count = use_count + 1 WHERE id = v_invite.id;
+    v_role := v_invite.role;
+    v_status := 'joined';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v_status,
+    c.id,
+    c.name,
+    c.description,
+    c.owner_id,
+    v_role,
+    c.created_at,
+    c.updated_at
+  FROM clubs c
+  WHERE c.id = v_invite.club_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION create_club_invite(uuid, text, timestamp with time zone, integer) IS 'Creates an invite code for a club, owner only';
+COMMENT ON FUNCTION join_club_by_code(text) IS 'Joins a club with an invite code, or reports why the code cannot be used';
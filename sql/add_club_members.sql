@@ -0,0 +1,45 @@
+-- ============================================
+-- CLUB MEMBERS LIST
+-- ============================================
+-- club_members.user_id references auth.users, not user_profiles, so the
+-- members screen can't join them through the API. This function returns
+-- the members of a club with their profile, to members of that club only.
+-- The owner is always listed, even without a club_members row.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_club_members(p_club_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  display_name text,
+  email text,
+  role text,
+  joined_at timestamp with time zone
+) AS $$
+BEGIN
+  IF get_club_role(p_club_id) IS NULL THEN
+    RAISE EXCEPTION 'Not a member of this club';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.owner_id,
+    up.display_name,
+    up.email,
+    'owner'::text,
+    c.created_at
+  FROM clubs c
+  JOIN user_profiles up ON up.id = c.owner_id
+  WHERE c.id = p_club_id
+  UNION ALL
+  SELECT
+    cm.user_id,
+    up.display_name,
+    up.email,
+    cm.role,
+    cm.joined_at
+  FROM club_members cm
+  JOIN clubs c ON c.id = cm.club_id
+  JOIN user_profiles up ON up.id = cm.user_id
+  WHERE cm.club_id = p_club_id AND cm.user_id <> c.owner_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
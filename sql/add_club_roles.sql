@@ -0,0 +1,153 @@
+-- ============================================
+-- CLUB ROLES
+-- ============================================
+-- Every member of a club has a role:
+-- - owner:  everything (the user in clubs.owner_id)
+-- - coach:  takes attendance, manages participants, their sessions and leave periods
+-- - viewer: read only (statistics)
+--
+-- clubs.owner_id stays the reference for ownership, the owner's
+-- club_members row only mirrors it. Members who joined before roles
+-- existed could take attendance: they become coaches.
+--
+-- Must match ROLE_PERMISSIONS in lib/permissions.ts.
+-- ============================================
+
+ALTER TABLE public.club_members ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'coach';
+
+ALTER TABLE public.club_members DROP CONSTRAINT IF EXISTS club_members_role_check;
+ALTER TABLE public.club_members ADD CONSTRAINT club_members_role_check
+  CHECK (role IN ('owner', 'coach', 'viewer'));
+
+UPDATE public.club_members cm
+SET role = 'owner'
+FROM public.clubs c
+WHERE c.id = cm.club_id AND c.owner_id = cm.user_id AND cm.role <> 'owner';
+
+-- ============================================
+-- FUNCTION: Role of the current user in a club (NULL if not a member)
+-- SECURITY DEFINER so policies can call it without recursing into club_members RLS
+-- ============================================
+CREATE OR REPLACE FUNCTION get_club_role(p_club_id uuid)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM clubs WHERE id = p_club_id AND owner_id = auth.uid()) THEN 'owner'
+    ELSE (
+      SELECT role FROM club_members
+      WHERE club_id = p_club_id AND user_id = auth.uid() AND role <> 'owner'
+      LIMIT 1
+    )
+  END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_club_role(p_club_id uuid, p_roles text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(get_club_role(p_club_id) = ANY(p_roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- attendance and participant_sessions reach their club through the participant
+CREATE OR REPLACE FUNCTION get_participant_club_id(p_participant_id uuid)
+RETURNS uuid AS $$
+  SELECT club_id FROM participants WHERE id = p_participant_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RLS: this file owns every policy of the club tables.
+-- Older policies are dropped first: policies add up, a leftover
+-- "members can write" policy would let viewers write.
+-- ============================================
+DO $$
+DECLARE
+  pol record;
+BEGIN
+  FOR pol IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('clubs', 'club_members', 'sessions', 'participants',
+                        'participant_sessions', 'attendance', 'leave_periods', 'sync_tombstones')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', pol.policyname, pol.tablename);
+  END LOOP;
+END $$;
+
+ALTER TABLE public.clubs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.club_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.participant_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- Clubs: members read, owner writes
+CREATE POLICY "Members can view clubs" ON public.clubs
+  FOR SELECT USING (has_club_role(id, ARRAY['owner', 'coach', 'viewer']));
+
+CREATE POLICY "Users can create their clubs" ON public.clubs
+  FOR INSERT WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can update clubs" ON public.clubs
+  FOR UPDATE USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can delete clubs" ON public.clubs
+  FOR DELETE USING (owner_id = auth.uid());
+
+-- Members: everyone sees who is in their clubs, the owner sets roles,
+-- users can join (never as owner of someone else's club) and leave
+CREATE POLICY "Members can view members" ON public.club_members
+  FOR SELECT USING (user_id = auth.uid() OR has_club_role(club_id, ARRAY['owner', 'coach', 'viewer']));
+
+CREATE POLICY "Users can join clubs" ON public.club_members
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND (role IN ('coach', 'viewer') OR has_club_role(club_id, ARRAY['owner']))
+  );
+
+CREATE POLICY "Owners can change roles" ON public.club_members
+  FOR UPDATE USING (has_club_role(club_id, ARRAY['owner']))
+  WITH CHECK (has_club_role(club_id, ARRAY['owner']));
+
+CREATE POLICY "Owners can remove members and members can leave" ON public.club_members
+  FOR DELETE USING (user_id = auth.uid() OR has_club_role(club_id, ARRAY['owner']));
+
+-- Sessions: members read, owner writes
+CREATE POLICY "Members can view sessions" ON public.sessions
+  FOR SELECT USING (has_club_role(club_id, ARRAY['owner', 'coach', 'viewer']));
+
+CREATE POLICY "Owners can manage sessions" ON public.sessions
+  FOR ALL USING (has_club_role(club_id, ARRAY['owner']))
+  WITH CHECK (has_club_role(club_id, ARRAY['owner']));
+
+-- Participants, their sessions and leave periods: members read, owner and coaches write
+CREATE POLICY "Members can view participants" ON public.participants
+  FOR SELECT USING (has_club_role(club_id, ARRAY['owner', 'coach', 'viewer']));
+
+CREATE POLICY "Coaches can manage participants" ON public.participants
+  FOR ALL USING (has_club_role(club_id, ARRAY['owner', 'coach']))
+  WITH CHECK (has_club_role(club_id, ARRAY['owner', 'coach']));
+
+CREATE POLICY "Members can view participant sessions" ON public.participant_sessions
+  FOR SELECT USING (has_club_role(get_participant_club_id(participant_id), ARRAY['owner', 'coach', 'viewer']));
+
+CREATE POLICY "Coaches can manage participant sessions" ON public.participant_sessions
+  FOR ALL USING (has_club_role(get_participant_club_id(participant_id), ARRAY['owner', 'coach']))
+  WITH CHECK (has_club_role(get_participant_club_id(participant_id), ARRAY['owner', 'coach']));
+
+CREATE POLICY "Members can view leave periods" ON public.leave_periods
+  FOR SELECT USING (has_club_role(club_id, ARRAY['owner', 'coach', 'viewer']));
+
+CREATE POLICY "Coaches can manage leave periods" ON public.leave_periods
+  FOR ALL USING (has_club_role(club_id, ARRAY['owner', 'coach']))
+  WITH CHECK (has_club_role(club_id, ARRAY['owner', 'coach']));
+
+-- Attendance: members read, owner and coaches take it
+CREATE POLICY "Members can view attendance" ON public.attendance
+  FOR SELECT USING (has_club_role(get_participant_club_id(participant_id), ARRAY['owner', 'coach', 'viewer']));
+
+CREATE POLICY "Coaches can take attendance" ON public.attendance
+  FOR ALL USING (has_club_role(get_participant_club_id(participant_id), ARRAY['owner', 'coach']))
+  WITH CHECK (has_club_role(get_participant_club_id(participant_id), ARRAY['owner', 'coach']));
+
+-- Tombstones: members read, only the triggers write
+CREATE POLICY "Members can view tombstones" ON public.sync_tombstones
+  FOR SELECT USING (has_club_role(club_id, ARRAY['owner', 'coach', 'viewer']));
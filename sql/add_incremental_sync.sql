@@ -0,0 +1,168 @@
+-- ============================================
+-- INCREMENTAL SYNC
+-- ============================================
+-- The app only downloads rows changed since its last successful sync,
+-- per table and per club, using updated_at as the cursor. For that to work:
+--
+-- 1. updated_at must always be server time, on INSERT too. Clients used to
+--    send their own timestamp on insert, and a device with a late clock
+--    would write rows "in the past" that other devices never download.
+-- 2. Deletions must leave a trace: sync_tombstones records every deleted
+--    row so other devices can remove it locally.
+--
+-- Tombstones are kept TOMBSTONE_RETENTION_DAYS (90) days. A device that
+-- hasn't synced for longer falls back to a full resync (see syncService).
+-- ============================================
+
+-- ============================================
+-- updated_at set by the server on INSERT and UPDATE
+-- (replaces the UPDATE-only triggers of update_timestamp_trigger.sql)
+-- ============================================
+DROP TRIGGER IF EXISTS update_attendance_updated_at ON public.attendance;
+CREATE TRIGGER update_attendance_updated_at
+    BEFORE INSERT OR UPDATE ON public.attendance
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_clubs_updated_at ON public.clubs;
+CREATE TRIGGER update_clubs_updated_at
+    BEFORE INSERT OR UPDATE ON public.clubs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_participants_updated_at ON public.participants;
+CREATE TRIGGER update_participants_updated_at
+    BEFORE INSERT OR UPDATE ON public.participants
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_sessions_updated_at ON public.sessions;
+CREATE TRIGGER update_sessions_updated_at
+    BEFORE INSERT OR UPDATE ON public.sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_participant_sessions_updated_at ON public.participant_sessions;
+CREATE TRIGGER update_participant_sessions_updated_at
+    BEFORE INSERT OR UPDATE ON public.participant_sessions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_leave_periods_updated_at ON public.leave_periods;
+CREATE TRIGGER update_leave_periods_updated_at
+    BEFORE INSERT OR UPDATE ON public.leave_periods
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Cursor queries: WHERE club_id = ? AND updated_at >= ?
+CREATE INDEX IF NOT EXISTS sessions_club_id_updated_at_idx ON public.sessions (club_id, updated_at);
+CREATE INDEX IF NOT EXISTS participants_club_id_updated_at_idx ON public.participants (club_id, updated_at);
+CREATE INDEX IF NOT EXISTS leave_periods_club_id_updated_at_idx ON public.leave_periods (club_id, updated_at);
+CREATE INDEX IF NOT EXISTS attendance_participant_id_updated_at_idx ON public.attendance (participant_id, updated_at);
+CREATE INDEX IF NOT EXISTS participant_sessions_participant_id_updated_at_idx ON public.participant_sessions (participant_id, updated_at);
+
+-- ============================================
+-- TOMBSTONES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.sync_tombstones (
+  id bigserial PRIMARY KEY,
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  club_id uuid NOT NULL,
+  -- Natural keys: attendance and participant_sessions IDs differ between devices
+  participant_id uuid,
+  session_id uuid,
+  date date,
+  deleted_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sync_tombstones_club_id_deleted_at_idx ON public.sync_tombstones (club_id, deleted_at);
+
+-- ============================================
+-- FUNCTION: Record a tombstone for every deleted row
+-- ============================================
+CREATE OR REPLACE FUNCTION record_sync_tombstone()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb := to_jsonb(OLD);
+  tombstone_club_id uuid;
+BEGIN
+  IF TG_TABLE_NAME IN ('attendance', 'participant_sessions') THEN
+    SELECT club_id INTO tombstone_club_id
+    FROM public.participants
+    WHERE id = (old_row->>'participant_id')::uuid;
+  ELSE
+    tombstone_club_id := (old_row->>'club_id')::uuid;
+  END IF;
+
+  -- Participant already deleted: its own tombstone removes its children
+  IF tombstone_club_id IS NULL THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO public.sync_tombstones (table_name, record_id, club_id, participant_id, session_id, date)
+  VALUES (
+    TG_TABLE_NAME,
+    OLD.id,
+    tombstone_club_id,
+    (old_row->>'participant_id')::uuid,
+    (old_row->>'session_id')::uuid,
+    (old_row->>'date')::date
+  );
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_sessions_tombstone ON public.sessions;
+CREATE TRIGGER record_sessions_tombstone
+  AFTER DELETE ON public.sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone();
+
+DROP TRIGGER IF EXISTS record_participants_tombstone ON public.participants;
+CREATE TRIGGER record_participants_tombstone
+  AFTER DELETE ON public.participants
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone();
+
+DROP TRIGGER IF EXISTS record_participant_sessions_tombstone ON public.participant_sessions;
+CREATE TRIGGER record_participant_sessions_tombstone
+  AFTER DELETE ON public.participant_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone();
+
+DROP TRIGGER IF EXISTS record_attendance_tombstone ON public.attendance;
+CREATE TRIGGER record_attendance_tombstone
+  AFTER DELETE ON public.attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone();
+
+DROP TRIGGER IF EXISTS record_leave_periods_tombstone ON public.leave_periods;
+CREATE TRIGGER record_leave_periods_tombstone
+  AFTER DELETE ON public.leave_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone();
+
+-- ============================================
+-- FUNCTION: Purge old tombstones
+-- Schedule daily, e.g. with pg_cron:
+--   SELECT cron.schedule('purge-sync-tombstones', '0 3 * * *', 'SELECT purge_sync_tombstones()');
+-- ============================================
+CREATE OR REPLACE FUNCTION purge_sync_tombstones()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM public.sync_tombstones WHERE deleted_at < now() - interval '90 days';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- RLS: members can read, only the triggers write
+-- ============================================
+ALTER TABLE public.sync_tombstones ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view tombstones" ON public.sync_tombstones;
+CREATE POLICY "Members can view tombstones" ON public.sync_tombstones
+  FOR SELECT USING (
+    club_id IN (SELECT id FROM clubs WHERE owner_id = auth.uid())
+    OR club_id IN (SELECT club_id FROM club_members WHERE user_id = auth.uid())
+  );
@@ -0,0 +1,55 @@
+-- ============================================
+-- LEAVE PERIODS
+-- ============================================
+-- Replaces the participants.is_long_term_sick flag with dated leave periods.
+-- Attendance records falling inside a leave window are excluded from
+-- statistics; the rest of the participant history still counts.
+--
+-- The is_long_term_sick column is kept for older app versions. The app
+-- converts any remaining flag into an open-ended leave period on sync.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.leave_periods (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  participant_id uuid NOT NULL,
+  club_id uuid NOT NULL,
+  start_date date NOT NULL,
+  end_date date,
+  reason text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT leave_periods_pkey PRIMARY KEY (id),
+  CONSTRAINT leave_periods_participant_id_fkey FOREIGN KEY (participant_id) REFERENCES public.participants(id) ON DELETE CASCADE,
+  CONSTRAINT leave_periods_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id) ON DELETE CASCADE,
+  CONSTRAINT leave_periods_dates_check CHECK (end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT leave_periods_reason_length CHECK (reason IS NULL OR LENGTH(reason) <= 500)
+);
+
+CREATE INDEX IF NOT EXISTS leave_periods_club_id_idx ON public.leave_periods (club_id);
+CREATE INDEX IF NOT EXISTS leave_periods_participant_id_idx ON public.leave_periods (participant_id);
+
+DROP TRIGGER IF EXISTS update_leave_periods_updated_at ON public.leave_periods;
+CREATE TRIGGER update_leave_periods_updated_at
+    BEFORE UPDATE ON public.leave_periods
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS: members can read, owner can write
+-- ============================================
+ALTER TABLE public.leave_periods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view leave periods" ON public.leave_periods;
+CREATE POLICY "Members can view leave periods" ON public.leave_periods
+  FOR SELECT USING (
+    club_id IN (SELECT id FROM clubs WHERE owner_id = auth.uid())
+    OR club_id IN (SELECT club_id FROM club_members WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Owners can manage leave periods" ON public.leave_periods;
+CREATE POLICY "Owners can manage leave periods" ON public.leave_periods
+  FOR ALL USING (
+    club_id IN (SELECT id FROM clubs WHERE owner_id = auth.uid())
+  ) WITH CHECK (
+    club_id IN (SELECT id FROM clubs WHERE owner_id = auth.uid())
+  );
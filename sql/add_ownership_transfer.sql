@@ -0,0 +1,79 @@
+-- ============================================
+-- CLUB OWNERSHIP TRANSFER
+-- ============================================
+-- The owner hands the club over to one of its members. clubs.owner_id
+-- and both club_members rows change in one transaction: the new owner
+-- gets the 'owner' role, the previous owner stays in the club as a coach.
+--
+-- Requires add_rate_limits.sql and add_club_roles.sql.
+-- ============================================
+
+-- ============================================
+-- The ownership limit now also applies when owner_id changes,
+-- the club itself is not counted (an update keeps its row)
+-- ============================================
+CREATE OR REPLACE FUNCTION check_club_ownership_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Check if user already owns a club
+  IF (SELECT COUNT(*) FROM clubs WHERE owner_id = NEW.owner_id AND id <> NEW.id) >= 1 THEN
+    RAISE EXCEPTION 'User can only own 1 club maximum';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_club_ownership_limit_on_transfer ON clubs;
+CREATE TRIGGER enforce_club_ownership_limit_on_transfer
+  BEFORE UPDATE OF owner_id ON clubs
+  FOR EACH ROW
+  WHEN (OLD.owner_id IS DISTINCT FROM NEW.owner_id)
+  EXECUTE FUNCTION check_club_ownership_limit();
+
+-- ============================================
+-- FUNCTION: Transfer a club to one of its members (owner only)
+-- ============================================
+CREATE OR REPLACE FUNCTION transfer_club_ownership(p_club_id uuid, p_new_owner_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_previous_owner_id uuid;
+BEGIN
+  -- Lock the club so two transfers can't run at the same time
+  SELECT owner_id INTO v_previous_owner_id
+  FROM clubs
+  WHERE id = p_club_id
+  FOR UPDATE;
+
+  IF v_previous_owner_id IS NULL OR v_previous_owner_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the owner can transfer this club';
+  END IF;
+
+  IF p_new_owner_id = v_previous_owner_id THEN
+    RAISE EXCEPTION 'Already the owner of this club';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM club_members WHERE club_id = p_club_id AND user_id = p_new_owner_id
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be a member of this club';
+  END IF;
+
+  -- Fires enforce_club_ownership_limit_on_transfer
+  UPDATE clubs SET owner_id = p_new_owner_id WHERE id = p_club_id;
+
+  UPDATE club_members SET role = 'owner'
+  WHERE club_id = p_club_id AND user_id = p_new_owner_id;
+
+  UPDATE club_members SET role = 'coach'
+  WHERE club_id = p_club_id AND user_id = v_previous_owner_id;
+
+  -- Owners of clubs created before club_members existed have no row
+  IF NOT FOUND THEN
+    INSERT INTO club_members (club_id, user_id, role)
+    VALUES (p_club_id, v_previous_owner_id, 'coach');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION transfer_club_ownership(uuid, uuid) IS 'Makes a member the owner of a club, the previous owner becomes a coach';
@@ -0,0 +1,69 @@
+-- ============================================
+-- PARTICIPANT PROFILES
+-- ============================================
+-- Clubs keep more than names for their members, all optional:
+-- - birth_date, licence_number (federation licence)
+-- - emergency_contact: name and phone number of who to call
+-- - guardian_name, guardian_phone, guardian_email: for minors
+-- - medical_certificate_expiry: end of validity of the medical certificate
+-- - notes: free text (the notes column dropped from the first schema)
+--
+-- Requires add_rate_limits.sql.
+-- ============================================
+
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS birth_date date;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS licence_number text;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS emergency_contact text;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS guardian_name text;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS guardian_phone text;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS guardian_email text;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS medical_certificate_expiry date;
+ALTER TABLE public.participants ADD COLUMN IF NOT EXISTS notes text;
+
+-- ============================================
+-- Size limits of the profile fields (same as PROFILE_MAX_LENGTHS in lib/participantProfile.ts)
+-- ============================================
+CREATE OR REPLACE FUNCTION check_text_field_sizes()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- For clubs table
+  IF TG_TABLE_NAME = 'clubs' THEN
+    IF length(NEW.name) > 200 THEN
+      RAISE EXCEPTION 'Club name too long (max 200 characters)';
+    END IF;
+    IF NEW.description IS NOT NULL AND length(NEW.description) > 2000 THEN
+      RAISE EXCEPTION 'Club description too long (max 2000 characters)';
+    END IF;
+  END IF;
+  
+  -- For participants table
+  IF TG_TABLE_NAME = 'participants' THEN
+    IF length(NEW.first_name) > 100 THEN
+      RAISE EXCEPTION 'First name too long (max 100 characters)';
+    END IF;
+    IF length(NEW.last_name) > 100 THEN
+      RAISE EXCEPTION 'Last name too long (max 100 characters)';
+    END IF;
+    IF NEW.licence_number IS NOT NULL AND length(NEW.licence_number) > 50 THEN
+      RAISE EXCEPTION 'Licence number too long (max 50 characters)';
+    END IF;
+    IF NEW.emergency_contact IS NOT NULL AND length(NEW.emergency_contact) > 200 THEN
+      RAISE EXCEPTION 'Emergency contact too long (max 200 characters)';
+    END IF;
+    IF NEW.guardian_name IS NOT NULL AND length(NEW.guardian_name) > 200 THEN
+      RAISE EXCEPTION 'Guardian name too long (max 200 characters)';
+    END IF;
+    IF NEW.guardian_phone IS NOT NULL AND length(NEW.guardian_phone) > 30 THEN
+      RAISE EXCEPTION 'Guardian phone too long (max 30 characters)';
+    END IF;
+    IF NEW.guardian_email IS NOT NULL AND length(NEW.guardian_email) > 254 THEN
+      RAISE EXCEPTION 'Guardian email too long (max 254 characters)';
+    END IF;
+    IF NEW.notes IS NOT NULL AND length(NEW.notes) > 2000 THEN
+      RAISE EXCEPTION 'Notes too long (max 2000 characters)';
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -85,14 +85,21 @@ CREATE TRIGGER enforce_sessions_limit
 -- ============================================
 -- FUNCTION: Check club memberships limit per user
 -- ============================================
--- Ensures a user cannot be a member of more than 5 clubs
+-- Ensures a user cannot be a member of more than 5 clubs.
+-- The limit is shared with join_club_by_code() (add_club_invites.sql),
+-- which reports it instead of raising.
+CREATE OR REPLACE FUNCTION club_memberships_limit()
+RETURNS integer AS $$
+  SELECT 5;
+$$ LANGUAGE sql IMMUTABLE;
+
 CREATE OR REPLACE FUNCTION check_club_memberships_limit()
 RETURNS TRIGGER AS $$
 BEGIN
   -- Check current number of club memberships for the user
   IF (SELECT COUNT(*) FROM club_members 
-      WHERE user_id = NEW.user_id) >= 5 THEN
-    RAISE EXCEPTION 'User cannot join more than 5 clubs';
+      WHERE user_id = NEW.user_id) >= club_memberships_limit() THEN
+    RAISE EXCEPTION 'User cannot join more than % clubs', club_memberships_limit();
   END IF;
   
   RETURN NEW;
@@ -238,6 +245,7 @@ GROUP BY s.club_id, c.name, a.date;
 COMMENT ON FUNCTION check_club_ownership_limit() IS 'Ensures users can only own 1 club maximum';
 COMMENT ON FUNCTION check_participants_limit() IS 'Ensures clubs cannot have more than 30 participants';
 COMMENT ON FUNCTION check_sessions_limit() IS 'Ensures clubs cannot have more than 10 sessions';
+COMMENT ON FUNCTION club_memberships_limit() IS 'Club memberships allowed per user, also checked by join_club_by_code()';
 COMMENT ON FUNCTION check_club_memberships_limit() IS 'Ensures users cannot join more than 5 clubs';
 COMMENT ON FUNCTION check_attendance_rate_limit() IS 'Prevents spam by limiting attendance records to 1000 per club per day';
 COMMENT ON FUNCTION check_text_field_sizes() IS 'Prevents abuse through extremely large text inputs';
@@ -0,0 +1,27 @@
+-- ============================================
+-- REALTIME
+-- ============================================
+-- Co-coaches see each other's attendance live: the app subscribes to
+-- attendance and participants changes (see syncService.refreshRealtime).
+-- Realtime only sends rows the subscriber can SELECT, so the existing RLS
+-- policies keep other clubs' rows out.
+--
+-- When the channel can't connect the app keeps polling every minute.
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'attendance'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.attendance;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'participants'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.participants;
+  END IF;
+END $$;
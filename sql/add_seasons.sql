@@ -0,0 +1,51 @@
+-- ============================================
+-- SEASONS
+-- ============================================
+-- Named periods of a club (a sports year, "2025-2026"). The season running
+-- today sets the default range of the statistics, past seasons stay
+-- browsable. Replaces the stats reset, which deleted attendance.
+-- Requires add_incremental_sync.sql and add_club_roles.sql.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.seasons (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  club_id uuid NOT NULL,
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT seasons_pkey PRIMARY KEY (id),
+  CONSTRAINT seasons_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id) ON DELETE CASCADE,
+  CONSTRAINT seasons_dates_check CHECK (end_date >= start_date),
+  CONSTRAINT seasons_name_length CHECK (LENGTH(name) BETWEEN 1 AND 100)
+);
+
+-- Cursor queries: WHERE club_id = ? AND updated_at >= ?
+CREATE INDEX IF NOT EXISTS seasons_club_id_updated_at_idx ON public.seasons (club_id, updated_at);
+
+DROP TRIGGER IF EXISTS update_seasons_updated_at ON public.seasons;
+CREATE TRIGGER update_seasons_updated_at
+    BEFORE INSERT OR UPDATE ON public.seasons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS record_seasons_tombstone ON public.seasons;
+CREATE TRIGGER record_seasons_tombstone
+  AFTER DELETE ON public.seasons
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sync_tombstone();
+
+-- ============================================
+-- RLS: members read, owner writes
+-- ============================================
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view seasons" ON public.seasons;
+CREATE POLICY "Members can view seasons" ON public.seasons
+  FOR SELECT USING (has_club_role(club_id, ARRAY['owner', 'coach', 'viewer']));
+
+DROP POLICY IF EXISTS "Owners can manage seasons" ON public.seasons;
+CREATE POLICY "Owners can manage seasons" ON public.seasons
+  FOR ALL USING (has_club_role(club_id, ARRAY['owner']))
+  WITH CHECK (has_club_role(club_id, ARRAY['owner']));
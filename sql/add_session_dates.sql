@@ -0,0 +1,15 @@
+-- ============================================
+-- SESSION DATES
+-- ============================================
+-- Lets a session be bounded to a season, or happen only once:
+-- - start_date / end_date null: weekly slot, all year (existing sessions)
+-- - start_date and/or end_date set: weekly slot within that range
+-- - start_date = end_date: one-off session on that date
+-- ============================================
+
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS start_date date;
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS end_date date;
+
+ALTER TABLE public.sessions DROP CONSTRAINT IF EXISTS sessions_dates_check;
+ALTER TABLE public.sessions ADD CONSTRAINT sessions_dates_check
+  CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date);
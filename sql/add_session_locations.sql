@@ -0,0 +1,15 @@
+-- ============================================
+-- SESSION LOCATIONS AND CAPACITY
+-- ============================================
+-- Clubs training in several venues can tell their slots apart, and slots
+-- with a limited number of places (mats) can say so:
+-- - location: venue or room, null when the club has a single place
+-- - capacity: maximum number of participants, null when unlimited
+-- ============================================
+
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS location text;
+ALTER TABLE public.sessions ADD COLUMN IF NOT EXISTS capacity integer;
+
+ALTER TABLE public.sessions DROP CONSTRAINT IF EXISTS sessions_capacity_check;
+ALTER TABLE public.sessions ADD CONSTRAINT sessions_capacity_check
+  CHECK (capacity IS NULL OR capacity > 0);
@@ -0,0 +1,35 @@
+-- ============================================
+-- CANONICAL SESSION DAYS
+-- ============================================
+-- sessions.day_of_week held the day name in the language of whoever created
+-- the session ('Lundi', 'Monday'). It now holds the ISO weekday:
+-- 1 = Monday ... 7 = Sunday
+--
+-- Session IDs are not touched: the app still recognizes the content-based
+-- IDs derived from the old day names.
+-- updated_at is not touched either (ALTER TYPE fires no trigger): devices
+-- convert their own copies when they start.
+--
+-- Older app versions write day names, which the column now rejects: run this
+-- once every device has been updated.
+-- ============================================
+
+ALTER TABLE public.sessions DROP CONSTRAINT IF EXISTS sessions_day_of_week_check;
+
+-- Unknown names make the cast fail, leaving the table untouched
+ALTER TABLE public.sessions
+  ALTER COLUMN day_of_week TYPE smallint USING (
+    CASE lower(trim(day_of_week::text))
+      WHEN 'lundi' THEN 1 WHEN 'monday' THEN 1
+      WHEN 'mardi' THEN 2 WHEN 'tuesday' THEN 2
+      WHEN 'mercredi' THEN 3 WHEN 'wednesday' THEN 3
+      WHEN 'jeudi' THEN 4 WHEN 'thursday' THEN 4
+      WHEN 'vendredi' THEN 5 WHEN 'friday' THEN 5
+      WHEN 'samedi' THEN 6 WHEN 'saturday' THEN 6
+      WHEN 'dimanche' THEN 7 WHEN 'sunday' THEN 7
+      ELSE trim(day_of_week::text)::smallint
+    END
+  );
+
+ALTER TABLE public.sessions ADD CONSTRAINT sessions_day_of_week_check
+  CHECK (day_of_week BETWEEN 1 AND 7);
@@ -7,16 +7,45 @@ CREATE TABLE public.attendance (
   session_id uuid NOT NULL,
   date date NOT NULL,
   present boolean DEFAULT false,
+  status text NOT NULL CHECK (status = ANY (ARRAY['present'::text, 'absent'::text, 'excused'::text, 'late'::text, 'left_early'::text, 'injured_watching'::text])),
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   CONSTRAINT attendance_pkey PRIMARY KEY (id),
   CONSTRAINT attendance_participant_id_fkey FOREIGN KEY (participant_id) REFERENCES public.participants(id)
 );
+CREATE TABLE public.closures (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  club_id uuid NOT NULL,
+  session_id uuid,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  reason text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT closures_pkey PRIMARY KEY (id),
+  CONSTRAINT closures_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id),
+  CONSTRAINT closures_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.sessions(id)
+);
+CREATE TABLE public.club_invites (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  club_id uuid NOT NULL,
+  code character varying NOT NULL UNIQUE,
+  role text NOT NULL DEFAULT 'coach'::text CHECK (role = ANY (ARRAY['coach'::text, 'viewer'::text])),
+  expires_at timestamp with time zone,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamp with time zone,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT club_invites_pkey PRIMARY KEY (id),
+  CONSTRAINT club_invites_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id)
+);
 CREATE TABLE public.club_members (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   club_id uuid,
   user_id uuid,
   joined_at timestamp with time zone DEFAULT now(),
+  role text NOT NULL DEFAULT 'coach'::text CHECK (role = ANY (ARRAY['owner'::text, 'coach'::text, 'viewer'::text])),
   CONSTRAINT club_members_pkey PRIMARY KEY (id),
   CONSTRAINT club_members_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id),
   CONSTRAINT club_members_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id)
@@ -29,9 +58,23 @@ CREATE TABLE public.clubs (
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   share_code character varying UNIQUE,
+  status_rules jsonb,
   CONSTRAINT clubs_pkey PRIMARY KEY (id),
   CONSTRAINT clubs_owner_id_fkey FOREIGN KEY (owner_id) REFERENCES public.user_profiles(id)
 );
+CREATE TABLE public.leave_periods (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  participant_id uuid NOT NULL,
+  club_id uuid NOT NULL,
+  start_date date NOT NULL,
+  end_date date,
+  reason text,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT leave_periods_pkey PRIMARY KEY (id),
+  CONSTRAINT leave_periods_participant_id_fkey FOREIGN KEY (participant_id) REFERENCES public.participants(id),
+  CONSTRAINT leave_periods_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id)
+);
 CREATE TABLE public.participant_sessions (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   participant_id uuid NOT NULL,
@@ -46,23 +89,63 @@ CREATE TABLE public.participants (
   club_id uuid NOT NULL,
   first_name text NOT NULL,
   last_name text NOT NULL,
-  is_long_term_sick boolean DEFAULT false,
+  birth_date date,
+  licence_number text,
+  emergency_contact text,
+  guardian_name text,
+  guardian_phone text,
+  guardian_email text,
+  medical_certificate_expiry date,
+  notes text,
+  is_long_term_sick boolean DEFAULT false, -- deprecated, see leave_periods
+  archived_at timestamp with time zone,
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   CONSTRAINT participants_pkey PRIMARY KEY (id),
   CONSTRAINT participants_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id)
 );
+CREATE TABLE public.seasons (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  club_id uuid NOT NULL,
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT seasons_pkey PRIMARY KEY (id),
+  CONSTRAINT seasons_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id),
+  CONSTRAINT seasons_dates_check CHECK (end_date >= start_date)
+);
 CREATE TABLE public.sessions (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   club_id uuid NOT NULL,
-  day_of_week text NOT NULL,
+  day_of_week smallint NOT NULL, -- ISO weekday: 1 = Monday ... 7 = Sunday
   start_time text NOT NULL,
   end_time text NOT NULL,
+  start_date date,
+  end_date date,
+  location text,
+  capacity integer,
+  archived_at timestamp with time zone,
   created_at timestamp with time zone DEFAULT now(),
   updated_at timestamp with time zone DEFAULT now(),
   CONSTRAINT sessions_pkey PRIMARY KEY (id),
+  CONSTRAINT sessions_dates_check CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date),
+  CONSTRAINT sessions_day_of_week_check CHECK (day_of_week BETWEEN 1 AND 7),
+  CONSTRAINT sessions_capacity_check CHECK (capacity IS NULL OR capacity > 0),
   CONSTRAINT sessions_club_id_fkey FOREIGN KEY (club_id) REFERENCES public.clubs(id)
 );
+CREATE TABLE public.sync_tombstones (
+  id bigint NOT NULL DEFAULT nextval('sync_tombstones_id_seq'::regclass),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  club_id uuid NOT NULL,
+  participant_id uuid,
+  session_id uuid,
+  date date,
+  deleted_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT sync_tombstones_pkey PRIMARY KEY (id)
+);
 CREATE TABLE public.user_profiles (
   id uuid NOT NULL,
   email text NOT NULL,